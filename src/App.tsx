@@ -10,6 +10,8 @@ import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { Navigation } from '@/components/Navigation';
 import { UnsupportedBanner } from '@/components/UnsupportedBanner';
 import { useGamepads } from '@/hooks/useGamepads';
+import { useHistoryRecorder } from '@/hooks/useHistoryRecorder';
+import { useProfileAutoApply } from '@/hooks/useProfileAutoApply';
 import { useControllerStore } from '@/state/controllerSlice';
 
 // Lazy load pages
@@ -19,9 +21,21 @@ const LandingPage = lazy(() =>
 const LiveDiagnosticsPage = lazy(() =>
   import('@/pages/LiveDiagnostics').then((m) => ({ default: m.LiveDiagnosticsPage }))
 );
+const TestsPage = lazy(() =>
+  import('@/pages/Tests').then((m) => ({ default: m.TestsPage }))
+);
 const SettingsPage = lazy(() =>
   import('@/pages/Settings').then((m) => ({ default: m.SettingsPage }))
 );
+const ComparePage = lazy(() =>
+  import('@/pages/Compare').then((m) => ({ default: m.ComparePage }))
+);
+const HistoryPage = lazy(() =>
+  import('@/pages/History').then((m) => ({ default: m.HistoryPage }))
+);
+const SharedReportPage = lazy(() =>
+  import('@/pages/SharedReport').then((m) => ({ default: m.SharedReportPage }))
+);
 const NotFoundPage = lazy(() =>
   import('@/pages/NotFound').then((m) => ({ default: m.NotFoundPage }))
 );
@@ -44,6 +58,8 @@ const App = () => {
 
   // Initialize gamepad polling
   useGamepads();
+  useProfileAutoApply();
+  useHistoryRecorder();
 
   return (
     <div className="flex h-screen flex-col bg-[#0a0a0f]">
@@ -71,7 +87,11 @@ const App = () => {
               <Routes location={location} key={location.pathname}>
                 <Route path="/" element={<LandingPage />} />
                 <Route path="/live" element={<LiveDiagnosticsPage />} />
+                <Route path="/tests" element={<TestsPage />} />
                 <Route path="/settings" element={<SettingsPage />} />
+                <Route path="/compare" element={<ComparePage />} />
+                <Route path="/history" element={<HistoryPage />} />
+                <Route path="/report" element={<SharedReportPage />} />
                 <Route path="*" element={<NotFoundPage />} />
               </Routes>
             </AnimatePresence>
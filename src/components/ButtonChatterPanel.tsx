@@ -0,0 +1,133 @@
+/**
+ * ButtonChatterPanel - Flags buttons that bounce (release and re-press within a few ms)
+ */
+
+import { memo, useCallback, useEffect, useState } from 'react';
+
+import { Panel } from '@/components/Panel';
+import { useControllerStore } from '@/state/controllerSlice';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import { getChatterStats, resetChatter } from '@/lib/chatterMonitor';
+import type { ButtonChatterStats } from '@/utils/buttonChatter';
+import { CHATTER_REFRESH_MS, CHATTER_THRESHOLD_MS } from '@/lib/constants';
+
+type ButtonChatterPanelProps = {
+  slot?: number;
+};
+
+type ChatterRowProps = {
+  stats: ButtonChatterStats;
+  label: string;
+};
+
+const ChatterRow = memo(function ChatterRow({ stats, label }: ChatterRowProps) {
+  const lastEvent = stats.events[stats.events.length - 1];
+  return (
+    <li className="rounded-lg border border-rose-500/20 bg-rose-500/10 px-3 py-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-white">{label}</span>
+        <span className="font-mono text-xs text-rose-300">
+          {stats.chatterCount} bounce{stats.chatterCount === 1 ? '' : 's'} / {stats.pressCount}{' '}
+          presses
+        </span>
+      </div>
+      <p className="mt-1 font-mono text-[10px] text-white/50">
+        min gap {stats.minGapMs.toFixed(1)} ms
+        {lastEvent &&
+          ` · last: released ${lastEvent.gapMs.toFixed(1)} ms after a ${lastEvent.pressMs.toFixed(0)} ms press`}
+      </p>
+    </li>
+  );
+});
+
+ChatterRow.displayName = 'ChatterRow';
+
+export const ButtonChatterPanel = memo(function ButtonChatterPanel({
+  slot,
+}: ButtonChatterPanelProps) {
+  const [stats, setStats] = useState<ButtonChatterStats[]>([]);
+  const samplerMode = usePreferencesStore((state) => state.samplerMode);
+
+  useEffect(() => {
+    if (slot === undefined) {
+      setStats([]);
+      return;
+    }
+
+    setStats(getChatterStats(slot));
+    const intervalId = setInterval(() => {
+      setStats(getChatterStats(slot));
+    }, CHATTER_REFRESH_MS);
+
+    return () => clearInterval(intervalId);
+  }, [slot]);
+
+  const handleReset = useCallback(() => {
+    if (slot === undefined) return;
+    resetChatter(slot);
+    setStats([]);
+  }, [slot]);
+
+  const getLabel = (index: number): string =>
+    (slot !== undefined
+      ? useControllerStore.getState().controllers[slot]?.buttons[index]?.label
+      : undefined) ?? `Button ${index + 1}`;
+
+  const flagged = stats.filter((button) => button.chatterCount > 0);
+  const totalPresses = stats.reduce((sum, button) => sum + button.pressCount, 0);
+
+  return (
+    <Panel>
+      <div className="mb-3 flex items-center justify-between">
+        <div>
+          <h3 className="font-medium text-white">Button Chatter</h3>
+          <p className="text-xs text-white/40">
+            Re-presses within {CHATTER_THRESHOLD_MS} ms of a release
+          </p>
+        </div>
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+            flagged.length > 0
+              ? 'bg-rose-500/20 text-rose-300'
+              : 'bg-emerald-500/20 text-emerald-300'
+          }`}
+        >
+          {flagged.length > 0 ? `${flagged.length} FLAGGED` : 'CLEAN'}
+        </span>
+      </div>
+
+      <div aria-live="polite">
+        {flagged.length > 0 ? (
+          <ul className="mb-3 space-y-1">
+            {flagged.map((button) => (
+              <ChatterRow key={button.index} stats={button} label={getLabel(button.index)} />
+            ))}
+          </ul>
+        ) : (
+          <p className="mb-3 text-sm text-white/50">
+            {totalPresses > 0
+              ? `No chatter in ${totalPresses} presses across ${stats.length} buttons`
+              : 'Press buttons repeatedly to check for bounce'}
+          </p>
+        )}
+      </div>
+
+      {samplerMode === 'animationFrame' && (
+        <p className="mb-3 text-xs text-amber-300/80">
+          Bounces shorter than a display frame can be missed - enable high frequency sampling in
+          Settings
+        </p>
+      )}
+
+      <button
+        onClick={handleReset}
+        disabled={slot === undefined}
+        className="w-full rounded-xl border border-white/10 bg-white/5 py-3 text-sm text-white/60 transition-colors hover:bg-white/10 disabled:opacity-40"
+      >
+        Reset Counts
+      </button>
+    </Panel>
+  );
+});
+
+ButtonChatterPanel.displayName = 'ButtonChatterPanel';
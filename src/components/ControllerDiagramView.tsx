@@ -0,0 +1,182 @@
+/**
+ * ControllerDiagramView - Interactive controller diagram with details for the selected part
+ */
+
+import { memo, useCallback, useEffect, useState } from 'react';
+
+import { Panel } from '@/components/Panel';
+import { ControllerDiagram } from '@/components/visuals/ControllerDiagram';
+import { CONTROLLER_DIAGRAMS } from '@/lib/controllerDiagrams';
+import { DIAGRAM_HISTORY_LENGTH } from '@/lib/constants';
+import { getLayoutFamily } from '@/utils/buttonLayouts';
+import { getPartIndices, getPartLabel, readPartValues } from '@/utils/diagramParts';
+import type { DiagramPart } from '@/types/diagram';
+import type { NormalizedGamepad, StickId } from '@/types/gamepad';
+
+type ControllerDiagramViewProps = {
+  gamepad?: NormalizedGamepad;
+  deadZones: Record<StickId, number>;
+};
+
+const KIND_LABELS: Record<DiagramPart['kind'], string> = {
+  button: 'Button',
+  trigger: 'Analog Trigger',
+  stick: 'Analog Stick',
+};
+
+const SERIES_COLORS = ['rgb(167,139,250)', 'rgb(34,211,238)'];
+const SERIES_NAMES = ['X', 'Y'];
+const HISTORY_HEIGHT = 60;
+
+type ValueHistoryProps = {
+  /** One array of values per series, oldest first */
+  history: number[][];
+  /** Sticks range -1..1, buttons and triggers 0..1 */
+  signed: boolean;
+};
+
+const ValueHistory = memo(function ValueHistory({ history, signed }: ValueHistoryProps) {
+  const toY = (value: number): number => {
+    const normalized = signed ? (value + 1) / 2 : value;
+    return (1 - Math.max(0, Math.min(1, normalized))) * HISTORY_HEIGHT;
+  };
+
+  return (
+    <svg
+      className="h-24 w-full rounded-lg bg-[#0a0a10]"
+      viewBox={`0 0 ${DIAGRAM_HISTORY_LENGTH - 1} ${HISTORY_HEIGHT}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Value history"
+    >
+      {signed && (
+        <line
+          x1={0}
+          y1={HISTORY_HEIGHT / 2}
+          x2={DIAGRAM_HISTORY_LENGTH - 1}
+          y2={HISTORY_HEIGHT / 2}
+          stroke="rgba(255,255,255,0.1)"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      {history.map((series, seriesIndex) => {
+        // Right-align so the newest value is always at the right edge
+        const offset = DIAGRAM_HISTORY_LENGTH - series.length;
+        return (
+          <polyline
+            key={seriesIndex}
+            points={series.map((value, i) => `${offset + i},${toY(value)}`).join(' ')}
+            fill="none"
+            stroke={SERIES_COLORS[seriesIndex]}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        );
+      })}
+    </svg>
+  );
+});
+
+ValueHistory.displayName = 'ValueHistory';
+
+type PartDetailsProps = {
+  part: DiagramPart;
+  gamepad?: NormalizedGamepad;
+};
+
+const PartDetails = memo(function PartDetails({ part, gamepad }: PartDetailsProps) {
+  const [history, setHistory] = useState<number[][]>([]);
+  const values = readPartValues(part, gamepad);
+  const { buttons, axes } = getPartIndices(part);
+
+  useEffect(() => {
+    const next = readPartValues(part, gamepad);
+    setHistory((prev) =>
+      next.map((value, seriesIndex) => {
+        const series = [...(prev[seriesIndex] ?? []), value];
+        return series.length > DIAGRAM_HISTORY_LENGTH
+          ? series.slice(series.length - DIAGRAM_HISTORY_LENGTH)
+          : series;
+      }),
+    );
+  }, [part, gamepad]);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-xs uppercase tracking-wider text-white/40">{KIND_LABELS[part.kind]}</p>
+        <p className="text-lg font-semibold text-white">{getPartLabel(part, gamepad)}</p>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-2 text-sm">
+        <div className="rounded-lg bg-white/5 px-3 py-2">
+          <dt className="text-xs text-white/40">Button index</dt>
+          <dd className="font-mono text-white">{buttons.join(', ')}</dd>
+        </div>
+        <div className="rounded-lg bg-white/5 px-3 py-2">
+          <dt className="text-xs text-white/40">Axis index</dt>
+          <dd className="font-mono text-white">{axes.length > 0 ? axes.join(', ') : '—'}</dd>
+        </div>
+        {values.map((value, seriesIndex) => (
+          <div key={seriesIndex} className="rounded-lg bg-white/5 px-3 py-2">
+            <dt className="text-xs text-white/40">
+              {part.kind === 'stick' ? `${SERIES_NAMES[seriesIndex]} value` : 'Value'}
+            </dt>
+            <dd className="font-mono text-white">{value.toFixed(3)}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <ValueHistory history={history} signed={part.kind === 'stick'} />
+    </div>
+  );
+});
+
+PartDetails.displayName = 'PartDetails';
+
+export const ControllerDiagramView = memo(function ControllerDiagramView({
+  gamepad,
+  deadZones,
+}: ControllerDiagramViewProps) {
+  const layout = CONTROLLER_DIAGRAMS[getLayoutFamily(gamepad?.vendor)];
+  const [selectedId, setSelectedId] = useState<string>();
+  const selectedPart = layout.parts.find((part) => part.id === selectedId);
+
+  const handleSelect = useCallback((part: DiagramPart) => setSelectedId(part.id), []);
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-12">
+      <div className="lg:col-span-8">
+        <Panel>
+          <div className="mb-4 flex items-center justify-between">
+            <h3 className="font-medium text-white">Controller Diagram</h3>
+            <span className="text-xs text-white/40">Select a part to inspect it</span>
+          </div>
+          <ControllerDiagram
+            layout={layout}
+            gamepad={gamepad}
+            deadZones={deadZones}
+            selectedId={selectedId}
+            onSelect={handleSelect}
+          />
+        </Panel>
+      </div>
+      <div className="lg:col-span-4">
+        <Panel>
+          <h3 className="mb-4 font-medium text-white">Input Details</h3>
+          {selectedPart ? (
+            // Keyed so each selection starts a fresh history
+            <PartDetails key={selectedPart.id} part={selectedPart} gamepad={gamepad} />
+          ) : (
+            <p className="text-sm text-white/40">
+              Click a button, trigger or stick on the diagram to see its raw index, label and value
+              history.
+            </p>
+          )}
+        </Panel>
+      </div>
+    </div>
+  );
+});
+
+ControllerDiagramView.displayName = 'ControllerDiagramView';
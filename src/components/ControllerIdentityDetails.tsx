@@ -0,0 +1,65 @@
+/**
+ * ControllerIdentityDetails - Model, USB ids, layout family and hardware capabilities
+ */
+
+import { memo } from 'react';
+
+import type { ControllerCapabilities, ControllerIdentity, LayoutFamily } from '@/types/gamepad';
+
+type ControllerIdentityDetailsProps = {
+  identity?: ControllerIdentity;
+};
+
+const LAYOUT_LABELS: Record<LayoutFamily, string> = {
+  xbox: 'Xbox layout',
+  playstation: 'PlayStation layout',
+  nintendo: 'Nintendo layout',
+  generic: 'Generic layout',
+};
+
+const CAPABILITY_LABELS: Record<keyof ControllerCapabilities, string> = {
+  rumble: 'Rumble',
+  triggerRumble: 'Trigger Rumble',
+  analogTriggers: 'Analog Triggers',
+  gyro: 'Gyro',
+  touchpad: 'Touchpad',
+};
+
+export const ControllerIdentityDetails = memo(function ControllerIdentityDetails({
+  identity,
+}: ControllerIdentityDetailsProps) {
+  if (!identity?.vendorId) {
+    return <p className="text-xs text-white/30">USB ids not reported by this browser</p>;
+  }
+
+  const { model } = identity;
+  const name =
+    model?.name ??
+    (identity.manufacturer ? `Unknown ${identity.manufacturer} model` : 'Unknown model');
+  const capabilities = model
+    ? (Object.keys(CAPABILITY_LABELS) as (keyof ControllerCapabilities)[]).filter(
+        (capability) => model.capabilities[capability],
+      )
+    : [];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="font-medium text-white">{name}</span>
+      <span className="rounded bg-white/10 px-1.5 py-0.5 font-mono text-white/60">
+        {identity.vendorId}:{identity.productId}
+      </span>
+      {identity.layout && (
+        <span className="rounded bg-violet-500/20 px-1.5 py-0.5 text-violet-300">
+          {LAYOUT_LABELS[identity.layout]}
+        </span>
+      )}
+      {capabilities.map((capability) => (
+        <span key={capability} className="rounded bg-white/5 px-1.5 py-0.5 text-white/50">
+          {CAPABILITY_LABELS[capability]}
+        </span>
+      ))}
+    </div>
+  );
+});
+
+ControllerIdentityDetails.displayName = 'ControllerIdentityDetails';
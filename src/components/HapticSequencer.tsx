@@ -0,0 +1,509 @@
+/**
+ * HapticSequencer - Compose, preview, play and save multi-segment rumble patterns
+ */
+
+import React, { memo, useCallback, useEffect, useId, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+
+import { Panel } from '@/components/Panel';
+import { HapticEnvelopeGraph } from '@/components/visuals/HapticEnvelopeGraph';
+import { useHapticPatternStore } from '@/state/hapticPatternSlice';
+import { downloadFile, readFileAsText } from '@/services/fileService';
+import { playPattern, stopPattern } from '@/lib/hapticSequencer';
+import {
+  clampSegment,
+  createSegment,
+  getPatternFileName,
+  parsePattern,
+  serializePattern,
+} from '@/utils/hapticPattern';
+import {
+  MAX_PATTERN_NAME_LENGTH,
+  MAX_PATTERN_SEGMENTS,
+  MAX_SEGMENT_DELAY_MS,
+  MAX_SEGMENT_DURATION_MS,
+  MIN_SEGMENT_DURATION_MS,
+  TEST_PROGRESS_INTERVAL_MS,
+} from '@/lib/constants';
+import type { HapticChannel, HapticSegment } from '@/types/haptics';
+
+type HapticSequencerProps = {
+  gamepadIndex?: number;
+  hasRumble: boolean;
+  hasTriggerRumble: boolean;
+};
+
+type SegmentField = 'startDelay' | 'duration' | HapticChannel;
+
+const TIMING_FIELDS: {
+  field: 'startDelay' | 'duration';
+  label: string;
+  min: number;
+  max: number;
+}[] = [
+  { field: 'startDelay', label: 'Delay (ms)', min: 0, max: MAX_SEGMENT_DELAY_MS },
+  {
+    field: 'duration',
+    label: 'Duration (ms)',
+    min: MIN_SEGMENT_DURATION_MS,
+    max: MAX_SEGMENT_DURATION_MS,
+  },
+];
+
+const MAGNITUDE_FIELDS: { field: HapticChannel; label: string }[] = [
+  { field: 'weakMagnitude', label: 'Weak %' },
+  { field: 'strongMagnitude', label: 'Strong %' },
+  { field: 'leftTrigger', label: 'LT %' },
+  { field: 'rightTrigger', label: 'RT %' },
+];
+
+const inputClass =
+  'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1 text-right font-mono text-xs text-white disabled:opacity-40';
+const smallButtonClass =
+  'rounded-md bg-white/5 px-2 py-1 text-xs text-white/60 transition-colors hover:bg-white/10 disabled:opacity-30';
+
+type SegmentRowProps = {
+  segment: HapticSegment;
+  position: number;
+  isFirst: boolean;
+  isLast: boolean;
+  triggersEnabled: boolean;
+  onChange: (id: string, field: SegmentField, value: number) => void;
+  /** Clamp the segment once the user leaves a field */
+  onCommit: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onRemove: (id: string) => void;
+};
+
+const SegmentRow = memo(function SegmentRow({
+  segment,
+  position,
+  isFirst,
+  isLast,
+  triggersEnabled,
+  onChange,
+  onCommit,
+  onMove,
+  onRemove,
+}: SegmentRowProps) {
+  const parse = (value: string): number => (value === '' ? 0 : Number(value));
+
+  return (
+    <tr className="border-t border-white/5">
+      <td className="py-2 pr-2 font-mono text-xs text-white/40">{position}</td>
+      {TIMING_FIELDS.map(({ field, label, min, max }) => (
+        <td key={field} className="py-2 pr-2">
+          <input
+            type="number"
+            min={min}
+            max={max}
+            step={10}
+            value={segment[field]}
+            onChange={(e) => onChange(segment.id, field, parse(e.target.value))}
+            onBlur={() => onCommit(segment.id)}
+            className={inputClass}
+            aria-label={`Segment ${position} ${label}`}
+          />
+        </td>
+      ))}
+      {MAGNITUDE_FIELDS.map(({ field, label }) => (
+        <td key={field} className="py-2 pr-2">
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(segment[field] * 100)}
+            onChange={(e) => onChange(segment.id, field, parse(e.target.value) / 100)}
+            disabled={(field === 'leftTrigger' || field === 'rightTrigger') && !triggersEnabled}
+            onBlur={() => onCommit(segment.id)}
+            className={inputClass}
+            aria-label={`Segment ${position} ${label}`}
+          />
+        </td>
+      ))}
+      <td className="whitespace-nowrap py-2 text-right">
+        <button
+          onClick={() => onMove(segment.id, -1)}
+          disabled={isFirst}
+          className={smallButtonClass}
+          aria-label={`Move segment ${position} earlier`}
+        >
+          ↑
+        </button>
+        <button
+          onClick={() => onMove(segment.id, 1)}
+          disabled={isLast}
+          className={`ml-1 ${smallButtonClass}`}
+          aria-label={`Move segment ${position} later`}
+        >
+          ↓
+        </button>
+        <button
+          onClick={() => onRemove(segment.id)}
+          disabled={isFirst && isLast}
+          className="ml-1 rounded-md bg-rose-500/10 px-2 py-1 text-xs text-rose-300 transition-colors hover:bg-rose-500/20 disabled:opacity-30"
+          aria-label={`Remove segment ${position}`}
+        >
+          ✕
+        </button>
+      </td>
+    </tr>
+  );
+});
+
+SegmentRow.displayName = 'SegmentRow';
+
+export const HapticSequencer = memo(function HapticSequencer({
+  gamepadIndex,
+  hasRumble,
+  hasTriggerRumble,
+}: HapticSequencerProps) {
+  const { patterns, savePattern, deletePattern } = useHapticPatternStore(
+    useShallow((state) => ({
+      patterns: state.patterns,
+      savePattern: state.savePattern,
+      deletePattern: state.deletePattern,
+    })),
+  );
+
+  const nameInputId = useId();
+  const fileInputId = useId();
+  const [name, setName] = useState('');
+  const [segments, setSegments] = useState<HapticSegment[]>(() => [createSegment()]);
+  const [loadedId, setLoadedId] = useState<string>();
+  const [loop, setLoop] = useState(false);
+  const [passStartedAt, setPassStartedAt] = useState<number>();
+  const [playheadMs, setPlayheadMs] = useState<number>();
+  const [message, setMessage] = useState<string | null>(null);
+
+  const isPlaying = passStartedAt !== undefined;
+
+  const handleStop = useCallback(() => {
+    stopPattern();
+    setPassStartedAt(undefined);
+    setPlayheadMs(undefined);
+  }, []);
+
+  // Stop playback when the controller changes or the panel unmounts
+  useEffect(() => handleStop, [gamepadIndex, handleStop]);
+
+  useEffect(() => {
+    if (passStartedAt === undefined) return;
+    const intervalId = setInterval(() => {
+      setPlayheadMs(performance.now() - passStartedAt);
+    }, TEST_PROGRESS_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [passStartedAt]);
+
+  const handlePlay = useCallback(() => {
+    if (gamepadIndex === undefined || !hasRumble) return;
+    setMessage(null);
+    playPattern(gamepadIndex, segments.map(clampSegment), {
+      loop,
+      useTriggerMotors: hasTriggerRumble,
+      onPass: (startedAt) => setPassStartedAt(startedAt),
+      onEnd: () => {
+        setPassStartedAt(undefined);
+        setPlayheadMs(undefined);
+      },
+      onError: (error) => setMessage(error),
+    });
+  }, [gamepadIndex, hasRumble, hasTriggerRumble, loop, segments]);
+
+  const handleChange = useCallback((id: string, field: SegmentField, value: number) => {
+    setSegments((prev) =>
+      prev.map((segment) => (segment.id === id ? { ...segment, [field]: value } : segment)),
+    );
+  }, []);
+
+  const handleCommit = useCallback((id: string) => {
+    setSegments((prev) =>
+      prev.map((segment) => (segment.id === id ? clampSegment(segment) : segment)),
+    );
+  }, []);
+
+  const handleMove = useCallback((id: string, offset: -1 | 1) => {
+    setSegments((prev) => {
+      const index = prev.findIndex((segment) => segment.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const handleRemove = useCallback((id: string) => {
+    setSegments((prev) => (prev.length > 1 ? prev.filter((segment) => segment.id !== id) : prev));
+  }, []);
+
+  const handleAdd = useCallback(() => {
+    setSegments((prev) =>
+      prev.length < MAX_PATTERN_SEGMENTS ? [...prev, createSegment({ startDelay: 100 })] : prev,
+    );
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const id = savePattern(name, segments, loadedId);
+    setLoadedId(id);
+    setMessage('Pattern saved');
+  }, [loadedId, name, savePattern, segments]);
+
+  const handleLoad = useCallback(
+    (id: string) => {
+      const pattern = patterns.find((candidate) => candidate.id === id);
+      if (!pattern) return;
+      handleStop();
+      setName(pattern.name);
+      setSegments(pattern.segments);
+      setLoadedId(pattern.id);
+      setMessage(null);
+    },
+    [handleStop, patterns],
+  );
+
+  const handleNew = useCallback(() => {
+    handleStop();
+    setName('');
+    setSegments([createSegment()]);
+    setLoadedId(undefined);
+    setMessage(null);
+  }, [handleStop]);
+
+  const handleExport = useCallback(() => {
+    const ok = downloadFile(
+      getPatternFileName(name),
+      serializePattern(name, segments.map(clampSegment)),
+      'application/json',
+    );
+    setMessage(ok ? null : 'Download failed. Check the console for details.');
+  }, [name, segments]);
+
+  const handleImport = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Reset so selecting the same file again still fires onChange
+      event.target.value = '';
+      if (!file) return;
+
+      const text = await readFileAsText(file);
+      if (text === null) {
+        setMessage('Could not read the selected file');
+        return;
+      }
+      const result = parsePattern(text);
+      if (!result.success) {
+        setMessage(result.error);
+        return;
+      }
+      handleStop();
+      setName(result.name);
+      setSegments(result.segments);
+      setLoadedId(undefined);
+      setMessage(`Imported "${result.name}" - save it to keep it`);
+    },
+    [handleStop],
+  );
+
+  return (
+    <Panel>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="font-medium text-white">Haptic Sequencer</h3>
+          <p className="text-xs text-white/40">
+            Segments play back to back; delays are measured from the end of the previous segment
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setLoop((prev) => !prev)}
+            aria-pressed={loop}
+            className={`rounded-lg px-3 py-2 text-sm font-medium transition-colors ${
+              loop
+                ? 'bg-violet-500/30 text-violet-200'
+                : 'bg-white/5 text-white/60 hover:bg-white/10'
+            }`}
+          >
+            Loop
+          </button>
+          <button
+            onClick={isPlaying ? handleStop : handlePlay}
+            disabled={!hasRumble}
+            className={`rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors disabled:opacity-40 ${
+              isPlaying ? 'bg-rose-500 hover:bg-rose-400' : 'bg-violet-500 hover:bg-violet-400'
+            }`}
+          >
+            {isPlaying ? 'Stop' : 'Play'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[560px] text-left">
+              <thead>
+                <tr className="text-xs text-white/40">
+                  <th className="pb-2 pr-2 font-normal">#</th>
+                  {TIMING_FIELDS.map(({ field, label }) => (
+                    <th key={field} className="pb-2 pr-2 font-normal">
+                      {label}
+                    </th>
+                  ))}
+                  {MAGNITUDE_FIELDS.map(({ field, label }) => (
+                    <th key={field} className="pb-2 pr-2 font-normal">
+                      {label}
+                    </th>
+                  ))}
+                  <th className="pb-2 font-normal">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {segments.map((segment, index) => (
+                  <SegmentRow
+                    key={segment.id}
+                    segment={segment}
+                    position={index + 1}
+                    isFirst={index === 0}
+                    isLast={index === segments.length - 1}
+                    triggersEnabled={hasTriggerRumble}
+                    onChange={handleChange}
+                    onCommit={handleCommit}
+                    onMove={handleMove}
+                    onRemove={handleRemove}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={segments.length >= MAX_PATTERN_SEGMENTS}
+            className="mt-3 w-full rounded-lg border border-dashed border-white/10 py-2 text-sm text-white/50 transition-colors hover:bg-white/5 disabled:opacity-40"
+          >
+            Add Segment ({segments.length}/{MAX_PATTERN_SEGMENTS})
+          </button>
+
+          <div className="mt-4">
+            <HapticEnvelopeGraph segments={segments} playheadMs={playheadMs} />
+          </div>
+          {!hasTriggerRumble && (
+            <p className="mt-2 text-xs text-white/30">
+              Trigger columns are disabled - this controller or browser has no trigger-rumble
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <label htmlFor={nameInputId} className="sr-only">
+              Pattern name
+            </label>
+            <input
+              id={nameInputId}
+              type="text"
+              value={name}
+              maxLength={MAX_PATTERN_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Pattern name"
+              className="min-w-0 flex-1 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/30"
+            />
+            <button
+              onClick={handleSave}
+              className="rounded-lg bg-violet-500 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-violet-400"
+            >
+              {loadedId ? 'Update' : 'Save'}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={handleNew}
+              className="rounded-lg bg-white/5 py-2 text-xs font-medium text-white/70 transition-colors hover:bg-white/10"
+            >
+              New
+            </button>
+            <button
+              onClick={handleExport}
+              className="rounded-lg bg-white/5 py-2 text-xs font-medium text-white/70 transition-colors hover:bg-white/10"
+            >
+              Export
+            </button>
+            <label
+              htmlFor={fileInputId}
+              className="cursor-pointer rounded-lg bg-white/5 py-2 text-center text-xs font-medium text-white/70 transition-colors hover:bg-white/10"
+            >
+              Import
+            </label>
+            <input
+              id={fileInputId}
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => void handleImport(e)}
+              className="sr-only"
+            />
+          </div>
+
+          {message && (
+            <p className="text-center text-xs text-white/60" role="status" aria-live="polite">
+              {message}
+            </p>
+          )}
+
+          <div>
+            <p className="mb-2 text-xs uppercase tracking-wider text-white/40">Saved Patterns</p>
+            {patterns.length > 0 ? (
+              <ul className="space-y-2">
+                {patterns.map((pattern) => (
+                  <li
+                    key={pattern.id}
+                    className={`flex items-center gap-2 rounded-lg border px-3 py-2 ${
+                      pattern.id === loadedId
+                        ? 'border-violet-400/50 bg-violet-500/10'
+                        : 'border-white/5 bg-white/[0.02]'
+                    }`}
+                  >
+                    <span className="min-w-0 flex-1 truncate text-sm text-white">
+                      {pattern.name}
+                    </span>
+                    <span className="text-xs text-white/40">{pattern.segments.length} seg</span>
+                    <button
+                      onClick={() => handleLoad(pattern.id)}
+                      className={smallButtonClass}
+                      aria-label={`Load pattern ${pattern.name}`}
+                    >
+                      Load
+                    </button>
+                    <button
+                      onClick={() => {
+                        deletePattern(pattern.id);
+                        if (pattern.id === loadedId) setLoadedId(undefined);
+                      }}
+                      className="rounded-md bg-rose-500/10 px-2 py-1 text-xs text-rose-300 transition-colors hover:bg-rose-500/20"
+                      aria-label={`Delete pattern ${pattern.name}`}
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-white/40">No saved patterns yet</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {!hasRumble && (
+        <p className="mt-4 text-center text-xs text-white/40">
+          Haptics not supported on this controller
+        </p>
+      )}
+    </Panel>
+  );
+});
+
+HapticSequencer.displayName = 'HapticSequencer';
@@ -0,0 +1,137 @@
+/**
+ * HapticsEventLog - Recent haptic effects for a controller with requested vs actual timing
+ */
+
+import { memo, useCallback, useEffect, useState } from 'react';
+
+import { clearHapticEvents, getHapticEvents, subscribeHapticEvents } from '@/lib/hapticsLog';
+import {
+  countHapticEventStatuses,
+  getHapticEventStatus,
+  type HapticEventStatus,
+} from '@/utils/hapticEvents';
+import type { HapticEvent } from '@/types/haptics';
+
+type HapticsEventLogProps = {
+  slot?: number;
+};
+
+const VISIBLE_EVENTS = 8;
+
+const EMPTY_EVENTS: readonly HapticEvent[] = [];
+
+const STATUS_STYLES: Record<HapticEventStatus, { label: string; className: string }> = {
+  ok: { label: 'OK', className: 'bg-emerald-500/20 text-emerald-300' },
+  preempted: { label: 'PREEMPTED', className: 'bg-sky-500/20 text-sky-300' },
+  'cut-short': { label: 'CUT SHORT', className: 'bg-amber-500/20 text-amber-300' },
+  ignored: { label: 'IGNORED', className: 'bg-rose-500/20 text-rose-300' },
+  failed: { label: 'FAILED', className: 'bg-rose-500/20 text-rose-300' },
+};
+
+const EFFECT_LABELS: Record<HapticEvent['effect'], string> = {
+  'dual-rumble': 'Rumble',
+  'trigger-rumble': 'Triggers',
+  reset: 'Reset',
+};
+
+const formatMagnitudes = (event: HapticEvent): string => {
+  if (!event.params) return '';
+  const {
+    weakMagnitude = 0,
+    strongMagnitude = 0,
+    leftTrigger = 0,
+    rightTrigger = 0,
+  } = event.params;
+  const parts = [`W ${weakMagnitude.toFixed(2)}`, `S ${strongMagnitude.toFixed(2)}`];
+  if (event.effect === 'trigger-rumble') {
+    parts.push(`LT ${leftTrigger.toFixed(2)}`, `RT ${rightTrigger.toFixed(2)}`);
+  }
+  return parts.join(' · ');
+};
+
+type EventRowProps = {
+  event: HapticEvent;
+};
+
+const EventRow = memo(function EventRow({ event }: EventRowProps) {
+  const status = STATUS_STYLES[getHapticEventStatus(event)];
+  return (
+    <li className="flex items-center justify-between gap-2 rounded-lg bg-white/[0.03] px-3 py-2">
+      <div className="min-w-0">
+        <p className="text-xs text-white">{EFFECT_LABELS[event.effect]}</p>
+        <p className="truncate font-mono text-[10px] text-white/40" title={event.error}>
+          {event.error ?? formatMagnitudes(event)}
+        </p>
+      </div>
+      <div className="flex shrink-0 items-center gap-2">
+        <span className="font-mono text-[10px] text-white/50">
+          {event.effect === 'reset'
+            ? `${Math.round(event.actualMs)} ms`
+            : `${Math.round(event.actualMs)} / ${event.requestedMs} ms`}
+        </span>
+        <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${status.className}`}>
+          {status.label}
+        </span>
+      </div>
+    </li>
+  );
+});
+
+EventRow.displayName = 'EventRow';
+
+export const HapticsEventLog = memo(function HapticsEventLog({ slot }: HapticsEventLogProps) {
+  const [events, setEvents] = useState<readonly HapticEvent[]>(EMPTY_EVENTS);
+
+  useEffect(() => {
+    if (slot === undefined) {
+      setEvents(EMPTY_EVENTS);
+      return;
+    }
+
+    setEvents(getHapticEvents(slot));
+    return subscribeHapticEvents((changedSlot) => {
+      if (changedSlot === slot) setEvents(getHapticEvents(slot));
+    });
+  }, [slot]);
+
+  const handleClear = useCallback(() => {
+    if (slot === undefined) return;
+    clearHapticEvents(slot);
+  }, [slot]);
+
+  const counts = countHapticEventStatuses(events);
+  const problems = counts['cut-short'] + counts.ignored + counts.failed;
+  const recent = events.slice(-VISIBLE_EVENTS).reverse();
+
+  return (
+    <div className="mt-4 border-t border-white/5 pt-4">
+      <div className="mb-2 flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-white">Effect Log</p>
+          <p className="text-xs text-white/40">
+            {events.length === 0
+              ? 'Effects played on this controller appear here'
+              : `${events.length} effects · ${counts.preempted} preempted · ${problems} cut short or dropped`}
+          </p>
+        </div>
+        <button
+          onClick={handleClear}
+          disabled={events.length === 0}
+          className="rounded-lg bg-white/5 px-3 py-1.5 text-xs text-white/60 transition-colors hover:bg-white/10 disabled:opacity-40"
+        >
+          Clear
+        </button>
+      </div>
+
+      {recent.length > 0 && (
+        <ul className="space-y-1" aria-label="Recent haptic effects">
+          {recent.map((event) => (
+            <EventRow key={event.id} event={event} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+HapticsEventLog.displayName = 'HapticsEventLog';
@@ -12,6 +12,9 @@ type NavigationProps = {
 const navItems = [
   { path: '/', label: 'Home' },
   { path: '/live', label: 'Diagnostics' },
+  { path: '/tests', label: 'Tests' },
+  { path: '/compare', label: 'Compare' },
+  { path: '/history', label: 'History' },
   { path: '/settings', label: 'Settings' },
 ];
 
@@ -0,0 +1,20 @@
+/**
+ * Panel - Shared card container used by diagnostics panels
+ */
+
+import React, { memo } from 'react';
+
+type PanelProps = {
+  children: React.ReactNode;
+  className?: string;
+};
+
+export const Panel = memo(function Panel({ children, className = '' }: PanelProps) {
+  return (
+    <div className={`rounded-2xl border border-white/10 bg-[#12121a] p-5 ${className}`}>
+      {children}
+    </div>
+  );
+});
+
+Panel.displayName = 'Panel';
@@ -0,0 +1,235 @@
+/**
+ * ProfileManager - Create, rename, duplicate, bind and delete calibration profiles
+ */
+
+import { memo, useCallback, useId, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+
+import { useControllerStore } from '@/state/controllerSlice';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import { getControllerKey, identifyController } from '@/utils/controllerIdentity';
+import type { CalibrationProfile } from '@/types/calibration';
+import { MAX_PROFILE_NAME_LENGTH } from '@/lib/constants';
+
+type ProfileRowProps = {
+  profile: CalibrationProfile;
+  isActive: boolean;
+  controllerKey?: string;
+  controllerName?: string;
+};
+
+const ProfileRow = memo(function ProfileRow({
+  profile,
+  isActive,
+  controllerKey,
+  controllerName,
+}: ProfileRowProps) {
+  const { renameProfile, duplicateProfile, deleteProfile, assignProfile, activateProfile } =
+    usePreferencesStore(
+      useShallow((state) => ({
+        renameProfile: state.renameProfile,
+        duplicateProfile: state.duplicateProfile,
+        deleteProfile: state.deleteProfile,
+        assignProfile: state.assignProfile,
+        activateProfile: state.activateProfile,
+      })),
+    );
+
+  const nameInputId = useId();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(profile.name);
+
+  const handleRename = useCallback(() => {
+    if (isRenaming) {
+      renameProfile(profile.id, draftName);
+      setIsRenaming(false);
+    } else {
+      setDraftName(profile.name);
+      setIsRenaming(true);
+    }
+  }, [isRenaming, draftName, profile.id, profile.name, renameProfile]);
+
+  const handleBind = useCallback(() => {
+    if (!controllerKey) return;
+    assignProfile(profile.id, controllerKey, controllerName);
+  }, [assignProfile, controllerKey, controllerName, profile.id]);
+
+  const isBoundToConnected = !!controllerKey && profile.controllerKey === controllerKey;
+
+  return (
+    <li
+      className={`rounded-xl border p-4 ${
+        isActive ? 'border-violet-400/50 bg-violet-500/10' : 'border-white/5 bg-white/[0.02]'
+      }`}
+    >
+      <div className="mb-3 flex items-start justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          {isRenaming ? (
+            <>
+              <label htmlFor={nameInputId} className="sr-only">
+                Profile name
+              </label>
+              <input
+                id={nameInputId}
+                type="text"
+                value={draftName}
+                maxLength={MAX_PROFILE_NAME_LENGTH}
+                onChange={(e) => setDraftName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename();
+                  if (e.key === 'Escape') setIsRenaming(false);
+                }}
+                className="w-full rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-white"
+                autoFocus
+              />
+            </>
+          ) : (
+            <p className="truncate font-medium text-white">{profile.name}</p>
+          )}
+          <p className="mt-1 truncate text-xs text-white/40">
+            {profile.controllerName ?? profile.controllerKey ?? 'Not bound to a controller'}
+          </p>
+        </div>
+        {isActive ? (
+          <span className="rounded-full bg-violet-500/20 px-2 py-0.5 text-xs font-medium text-violet-300">
+            ACTIVE
+          </span>
+        ) : (
+          <button
+            onClick={() => activateProfile(profile.id)}
+            className="rounded-lg bg-violet-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-violet-400"
+          >
+            Use
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        <button
+          onClick={handleRename}
+          className="rounded-lg bg-white/5 py-2 text-xs font-medium text-white/70 transition-colors hover:bg-white/10"
+        >
+          {isRenaming ? 'Save' : 'Rename'}
+        </button>
+        <button
+          onClick={() => duplicateProfile(profile.id)}
+          className="rounded-lg bg-white/5 py-2 text-xs font-medium text-white/70 transition-colors hover:bg-white/10"
+        >
+          Duplicate
+        </button>
+        <button
+          onClick={handleBind}
+          disabled={!controllerKey || isBoundToConnected}
+          className="rounded-lg bg-white/5 py-2 text-xs font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+          aria-label="Bind profile to the connected controller"
+        >
+          {isBoundToConnected ? 'Bound' : 'Bind'}
+        </button>
+        <button
+          onClick={() => deleteProfile(profile.id)}
+          className="rounded-lg bg-rose-500/10 py-2 text-xs font-medium text-rose-300 transition-colors hover:bg-rose-500/20"
+          aria-label={`Delete profile ${profile.name}`}
+        >
+          Delete
+        </button>
+      </div>
+    </li>
+  );
+});
+
+ProfileRow.displayName = 'ProfileRow';
+
+export const ProfileManager = memo(function ProfileManager() {
+  const { profiles, activeProfileId, createProfile, activateProfile } = usePreferencesStore(
+    useShallow((state) => ({
+      profiles: state.profiles,
+      activeProfileId: state.activeProfileId,
+      createProfile: state.createProfile,
+      activateProfile: state.activateProfile,
+    })),
+  );
+  const controllerId = useControllerStore((state) => {
+    const slot = state.activeSlot;
+    return slot !== undefined ? state.controllers[slot]?.id : undefined;
+  });
+  const controllerKey = controllerId ? getControllerKey(controllerId) : undefined;
+  // Prefer the model name from the database over the raw browser id
+  const controllerName = controllerId
+    ? (identifyController(controllerId).model?.name ?? controllerId)
+    : undefined;
+
+  const nameInputId = useId();
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = useCallback(() => {
+    createProfile(newName, controllerKey, controllerName);
+    setNewName('');
+  }, [controllerKey, controllerName, createProfile, newName]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between rounded-xl border border-white/5 bg-white/[0.02] p-4">
+        <div className="min-w-0">
+          <p className="font-medium text-white">Connected Controller</p>
+          <p className="truncate text-sm text-white/40">{controllerName ?? 'None'}</p>
+        </div>
+        {activeProfileId && (
+          <button
+            onClick={() => activateProfile(undefined)}
+            className="shrink-0 rounded-lg bg-white/5 px-3 py-2 text-xs font-medium text-white/60 transition-colors hover:bg-white/10"
+          >
+            Detach Profile
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <label htmlFor={nameInputId} className="sr-only">
+          New profile name
+        </label>
+        <input
+          id={nameInputId}
+          type="text"
+          value={newName}
+          maxLength={MAX_PROFILE_NAME_LENGTH}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleCreate();
+          }}
+          placeholder="New profile name"
+          className="min-w-0 flex-1 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/30"
+        />
+        <button
+          onClick={handleCreate}
+          className="rounded-lg bg-violet-500 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-violet-400"
+        >
+          Create
+        </button>
+      </div>
+      <p className="text-xs text-white/30">
+        New profiles copy the current calibration
+        {controllerName ? ' and auto-apply when this controller connects' : ''}.
+      </p>
+
+      {profiles.length > 0 ? (
+        <ul className="space-y-3" aria-live="polite">
+          {profiles.map((profile) => (
+            <ProfileRow
+              key={profile.id}
+              profile={profile}
+              isActive={profile.id === activeProfileId}
+              controllerKey={controllerKey}
+              controllerName={controllerName}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center text-sm text-white/40">
+          No profiles yet - calibration is shared by all controllers
+        </p>
+      )}
+    </div>
+  );
+});
+
+ProfileManager.displayName = 'ProfileManager';
@@ -0,0 +1,170 @@
+/**
+ * RecordingPanel - Start/stop/marker controls for the session recorder
+ */
+
+import { memo, useCallback, useId, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+
+import { Panel } from '@/components/Panel';
+import { useRecordingStore, type RecordingStatus } from '@/state/recordingSlice';
+import { downloadFile } from '@/services/fileService';
+import { getSessionFileName, serializeSession } from '@/utils/sessionFormat';
+import { formatDuration } from '@/utils/formatting';
+import { MAX_MARKER_LABEL_LENGTH } from '@/lib/constants';
+
+const STATUS_BADGES: Record<RecordingStatus, { label: string; className: string }> = {
+  idle: { label: 'IDLE', className: 'bg-white/10 text-white/50' },
+  recording: { label: 'REC', className: 'bg-rose-500/20 text-rose-300' },
+  stopped: { label: 'READY', className: 'bg-emerald-500/20 text-emerald-300' },
+};
+
+export const RecordingPanel = memo(function RecordingPanel() {
+  const {
+    status,
+    frameCount,
+    elapsedMs,
+    markers,
+    truncated,
+    session,
+    startRecording,
+    stopRecording,
+    addMarker,
+    clearRecording,
+  } = useRecordingStore(
+    useShallow((state) => ({
+      status: state.status,
+      frameCount: state.frameCount,
+      elapsedMs: state.elapsedMs,
+      markers: state.markers,
+      truncated: state.truncated,
+      session: state.session,
+      startRecording: state.startRecording,
+      stopRecording: state.stopRecording,
+      addMarker: state.addMarker,
+      clearRecording: state.clearRecording,
+    })),
+  );
+
+  const markerInputId = useId();
+  const [markerLabel, setMarkerLabel] = useState('');
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const isRecording = status === 'recording';
+  const badge = STATUS_BADGES[status];
+
+  const handleToggle = useCallback(() => {
+    setDownloadError(null);
+    if (isRecording) {
+      stopRecording();
+    } else {
+      startRecording();
+    }
+  }, [isRecording, startRecording, stopRecording]);
+
+  const handleMarker = useCallback(() => {
+    addMarker(markerLabel);
+    setMarkerLabel('');
+  }, [addMarker, markerLabel]);
+
+  const handleDownload = useCallback(() => {
+    if (!session) return;
+    const ok = downloadFile(
+      getSessionFileName(session),
+      serializeSession(session),
+      'application/json',
+    );
+    setDownloadError(ok ? null : 'Download failed. Check the console for details.');
+  }, [session]);
+
+  return (
+    <Panel>
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h3 className="font-medium text-white">Session Recorder</h3>
+          <p className="text-xs text-white/40">Capture frames for later replay</p>
+        </div>
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-medium ${badge.className}`}
+          aria-live="polite"
+        >
+          {badge.label}
+        </span>
+      </div>
+
+      <div className="mb-4 flex items-baseline justify-between font-mono text-sm">
+        <span className="text-2xl font-bold text-white">{formatDuration(elapsedMs)}</span>
+        <span className="text-white/50">
+          {frameCount} frames · {markers.length} markers
+        </span>
+      </div>
+
+      <div className="mb-3 flex gap-2">
+        <label htmlFor={markerInputId} className="sr-only">
+          Marker label
+        </label>
+        <input
+          id={markerInputId}
+          type="text"
+          value={markerLabel}
+          maxLength={MAX_MARKER_LABEL_LENGTH}
+          onChange={(e) => setMarkerLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && isRecording) handleMarker();
+          }}
+          placeholder="Marker label (optional)"
+          disabled={!isRecording}
+          className="min-w-0 flex-1 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/30 disabled:opacity-40"
+        />
+        <button
+          onClick={handleMarker}
+          disabled={!isRecording}
+          className="rounded-lg bg-white/5 px-3 py-2 text-sm font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+          aria-label="Add marker at current time"
+        >
+          Mark
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          onClick={handleToggle}
+          className={`rounded-lg py-2.5 text-sm font-medium text-white transition-colors ${
+            isRecording ? 'bg-rose-500 hover:bg-rose-400' : 'bg-violet-500 hover:bg-violet-400'
+          }`}
+          aria-label={isRecording ? 'Stop recording' : 'Start recording'}
+        >
+          {isRecording ? 'Stop' : 'Record'}
+        </button>
+        <button
+          onClick={handleDownload}
+          disabled={!session}
+          className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+          aria-label="Download recorded session"
+        >
+          Download
+        </button>
+        <button
+          onClick={clearRecording}
+          disabled={status === 'idle'}
+          className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+          aria-label="Discard recording"
+        >
+          Discard
+        </button>
+      </div>
+
+      {truncated && (
+        <p className="mt-3 text-center text-xs text-amber-300">
+          Frame limit reached - later input was not recorded
+        </p>
+      )}
+      {downloadError && (
+        <p className="mt-3 text-center text-xs text-rose-300" role="alert">
+          {downloadError}
+        </p>
+      )}
+    </Panel>
+  );
+});
+
+RecordingPanel.displayName = 'RecordingPanel';
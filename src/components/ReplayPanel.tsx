@@ -0,0 +1,240 @@
+/**
+ * ReplayPanel - Load a recorded session and scrub through it
+ */
+
+import React, { memo, useCallback, useId, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+
+import { Panel } from '@/components/Panel';
+import { useReplayStore } from '@/state/replaySlice';
+import { useRecordingStore } from '@/state/recordingSlice';
+import { readFileAsText } from '@/services/fileService';
+import { parseSession } from '@/utils/sessionFormat';
+import { formatDuration } from '@/utils/formatting';
+import { REPLAY_SPEED_OPTIONS } from '@/lib/constants';
+
+export const ReplayPanel = memo(function ReplayPanel() {
+  const {
+    session,
+    sessionName,
+    status,
+    positionMs,
+    speed,
+    loop,
+    loadSession,
+    play,
+    pause,
+    seek,
+    setSpeed,
+    toggleLoop,
+    eject,
+  } = useReplayStore(
+    useShallow((state) => ({
+      session: state.session,
+      sessionName: state.sessionName,
+      status: state.status,
+      positionMs: state.positionMs,
+      speed: state.speed,
+      loop: state.loop,
+      loadSession: state.loadSession,
+      play: state.play,
+      pause: state.pause,
+      seek: state.seek,
+      setSpeed: state.setSpeed,
+      toggleLoop: state.toggleLoop,
+      eject: state.eject,
+    })),
+  );
+  const recordedSession = useRecordingStore((state) => state.session);
+
+  const fileInputId = useId();
+  const seekId = useId();
+  const speedId = useId();
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleFile = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Reset so selecting the same file again still fires onChange
+      event.target.value = '';
+      if (!file) return;
+
+      setIsLoading(true);
+      setLoadError(null);
+      const text = await readFileAsText(file);
+      setIsLoading(false);
+
+      if (text === null) {
+        setLoadError('Could not read the selected file');
+        return;
+      }
+      const result = parseSession(text);
+      if (!result.success) {
+        setLoadError(result.error);
+        return;
+      }
+      loadSession(result.session, file.name);
+    },
+    [loadSession],
+  );
+
+  const handleLoadRecording = useCallback(() => {
+    if (!recordedSession) return;
+    setLoadError(null);
+    loadSession(recordedSession, 'Last recording');
+  }, [loadSession, recordedSession]);
+
+  const handleTogglePlay = useCallback(() => {
+    if (status === 'playing') {
+      pause();
+    } else {
+      play();
+    }
+  }, [status, play, pause]);
+
+  const durationMs = session?.durationMs ?? 0;
+
+  return (
+    <Panel>
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h3 className="font-medium text-white">Session Replay</h3>
+          <p className="max-w-[14rem] truncate text-xs text-white/40">
+            {sessionName ?? 'Load a recorded session file'}
+          </p>
+        </div>
+        {session && (
+          <span
+            className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+              status === 'playing' ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/10 text-white/50'
+            }`}
+            aria-live="polite"
+          >
+            {status === 'playing' ? 'PLAYING' : 'PAUSED'}
+          </span>
+        )}
+      </div>
+
+      {!session ? (
+        <div className="grid grid-cols-2 gap-2">
+          <label
+            htmlFor={fileInputId}
+            className="cursor-pointer rounded-lg bg-violet-500 py-2.5 text-center text-sm font-medium text-white transition-colors hover:bg-violet-400"
+          >
+            {isLoading ? 'Loading…' : 'Open File'}
+          </label>
+          <input
+            id={fileInputId}
+            type="file"
+            accept="application/json,.json"
+            className="sr-only"
+            onChange={(e) => void handleFile(e)}
+            disabled={isLoading}
+          />
+          <button
+            onClick={handleLoadRecording}
+            disabled={!recordedSession}
+            className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+            aria-label="Replay the last recording"
+          >
+            Last Recording
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="mb-2 flex justify-between font-mono text-sm text-white/50">
+            <span className="text-white">{formatDuration(positionMs)}</span>
+            <span>{formatDuration(durationMs)}</span>
+          </div>
+          <label htmlFor={seekId} className="sr-only">
+            Playback position
+          </label>
+          <input
+            id={seekId}
+            type="range"
+            min={0}
+            max={durationMs}
+            step={1}
+            value={positionMs}
+            onChange={(e) => seek(parseFloat(e.target.value))}
+            className="mb-4 w-full"
+            style={{
+              ['--range-progress' as string]: `${durationMs > 0 ? (positionMs / durationMs) * 100 : 0}%`,
+            }}
+          />
+
+          {session.markers.length > 0 && (
+            <div className="mb-4 flex flex-wrap gap-1.5">
+              {session.markers.map((marker) => (
+                <button
+                  key={`${marker.t}-${marker.label}`}
+                  onClick={() => seek(marker.t)}
+                  className="rounded-md bg-amber-500/15 px-2 py-1 text-xs text-amber-300 transition-colors hover:bg-amber-500/25"
+                  aria-label={`Jump to marker ${marker.label}`}
+                >
+                  {marker.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-4 gap-2">
+            <button
+              onClick={handleTogglePlay}
+              className="col-span-2 rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400"
+              aria-label={status === 'playing' ? 'Pause replay' : 'Play replay'}
+            >
+              {status === 'playing' ? 'Pause' : 'Play'}
+            </button>
+            <button
+              onClick={toggleLoop}
+              className={`rounded-lg py-2.5 text-sm font-medium transition-colors ${
+                loop
+                  ? 'bg-violet-500/30 text-violet-200'
+                  : 'bg-white/5 text-white/60 hover:bg-white/10'
+              }`}
+              aria-pressed={loop}
+              aria-label="Loop replay"
+            >
+              Loop
+            </button>
+            <button
+              onClick={eject}
+              className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/60 transition-colors hover:bg-white/10"
+              aria-label="Close session and return to live input"
+            >
+              Close
+            </button>
+          </div>
+
+          <div className="mt-3 flex items-center justify-between text-sm">
+            <label htmlFor={speedId} className="text-white/50">
+              Speed
+            </label>
+            <select
+              id={speedId}
+              value={speed}
+              onChange={(e) => setSpeed(parseFloat(e.target.value))}
+              className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-white"
+            >
+              {REPLAY_SPEED_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}×
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+
+      {loadError && (
+        <p className="mt-3 text-center text-xs text-rose-300" role="alert">
+          {loadError}
+        </p>
+      )}
+    </Panel>
+  );
+});
+
+ReplayPanel.displayName = 'ReplayPanel';
@@ -0,0 +1,165 @@
+/**
+ * ReportExportPanel - Download a diagnostic report for support as JSON, Markdown or CSV, or share a summary link
+ */
+
+import { memo, useCallback, useState } from 'react';
+import { useHref } from 'react-router-dom';
+
+import { Panel } from '@/components/Panel';
+import { useReportCapture } from '@/hooks/useReportCapture';
+import { useDiagnosticsStore } from '@/state/diagnosticsSlice';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import { useRecordingStore } from '@/state/recordingSlice';
+import { copyText } from '@/services/clipboardService';
+import { downloadFile } from '@/services/fileService';
+import { getSamples } from '@/lib/sampleBuffer';
+import {
+  formatReportMarkdown,
+  formatSamplesCsv,
+  getReportFileName,
+  getSessionSamples,
+  serializeReport,
+  type ReportFileType,
+} from '@/utils/diagnosticReport';
+import { encodeReportSummary, summarizeReport } from '@/utils/reportShare';
+import type { NormalizedGamepad } from '@/types/gamepad';
+import type { ReportSample } from '@/types/report';
+
+type ReportExportPanelProps = {
+  controller?: NormalizedGamepad;
+};
+
+const MIME_TYPES: Record<ReportFileType, string> = {
+  json: 'application/json',
+  md: 'text/markdown',
+  csv: 'text/csv',
+};
+
+/**
+ * Samples for the CSV export: the recorded session when there is one, otherwise the
+ * high-frequency sample buffer
+ */
+const collectSamples = (slot: number): ReportSample[] => {
+  const { session } = useRecordingStore.getState();
+  if (session) return getSessionSamples(session, slot);
+
+  const buffered = getSamples(slot);
+  const startTime = buffered[0]?.sampleTime ?? 0;
+  return buffered.map(({ sampleTime, gamepad }) => ({ t: sampleTime - startTime, gamepad }));
+};
+
+export const ReportExportPanel = memo(function ReportExportPanel({
+  controller,
+}: ReportExportPanelProps) {
+  const results = useDiagnosticsStore((state) => state.results);
+  const hasSession = useRecordingStore((state) => state.session !== undefined);
+  const samplerMode = usePreferencesStore((state) => state.samplerMode);
+  const [message, setMessage] = useState<string | null>(null);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const reportPath = useHref('/report');
+
+  const testCount = Object.keys(results).length;
+  const sampleSource = hasSession
+    ? 'the session recording'
+    : samplerMode === 'highFrequency'
+      ? 'the high-frequency sample buffer'
+      : undefined;
+
+  const buildReport = useReportCapture();
+
+  const handleExport = useCallback(
+    (type: ReportFileType) => {
+      if (!controller) return;
+      const report = buildReport(controller);
+
+      let contents: string;
+      if (type === 'csv') {
+        const samples = collectSamples(controller.slot);
+        if (samples.length === 0) {
+          setMessage('No samples for this controller yet - record a session first');
+          return;
+        }
+        contents = formatSamplesCsv(samples);
+      } else {
+        contents = type === 'json' ? serializeReport(report) : formatReportMarkdown(report);
+      }
+
+      const ok = downloadFile(getReportFileName(report, type), contents, MIME_TYPES[type]);
+      setMessage(ok ? null : 'Download failed. Check the console for details.');
+    },
+    [buildReport, controller],
+  );
+
+  const handleShare = useCallback(async () => {
+    if (!controller) return;
+    const hash = encodeReportSummary(summarizeReport(buildReport(controller)));
+    const url = `${window.location.origin}${reportPath}#${hash}`;
+    setShareUrl(url);
+    const copied = await copyText(url);
+    setMessage(copied ? 'Share link copied to the clipboard' : 'Copy the share link below');
+  }, [buildReport, controller, reportPath]);
+
+  return (
+    <Panel className="lg:col-span-2">
+      <div className="mb-4">
+        <h2 className="font-medium text-white">Diagnostic Report</h2>
+        <p className="text-xs text-white/40">
+          Controller identity, browser, preferences, report rate and {testCount} test result
+          {testCount === 1 ? '' : 's'} from this session
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <button
+          onClick={() => handleExport('json')}
+          disabled={!controller}
+          className="rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400 disabled:opacity-40"
+        >
+          JSON
+        </button>
+        <button
+          onClick={() => handleExport('md')}
+          disabled={!controller}
+          className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+        >
+          Markdown
+        </button>
+        <button
+          onClick={() => handleExport('csv')}
+          disabled={!controller || !sampleSource}
+          title={sampleSource ? `Axis and button samples from ${sampleSource}` : undefined}
+          className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+        >
+          Samples CSV
+        </button>
+        <button
+          onClick={() => void handleShare()}
+          disabled={!controller}
+          className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+        >
+          Share Link
+        </button>
+      </div>
+
+      {shareUrl && (
+        <input
+          type="text"
+          readOnly
+          value={shareUrl}
+          onFocus={(event) => event.target.select()}
+          aria-label="Share link"
+          className="mt-3 w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 font-mono text-xs text-white/70"
+        />
+      )}
+
+      <p className="mt-3 text-xs text-white/40" aria-live="polite">
+        {message ??
+          (sampleSource
+            ? `CSV samples come from ${sampleSource}`
+            : 'Record a session or enable high frequency sampling to export samples as CSV')}
+      </p>
+    </Panel>
+  );
+});
+
+ReportExportPanel.displayName = 'ReportExportPanel';
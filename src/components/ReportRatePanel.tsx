@@ -0,0 +1,129 @@
+/**
+ * ReportRatePanel - Effective polling rate and interval distribution for a controller
+ */
+
+import { memo, useCallback, useEffect, useState } from 'react';
+
+import { Panel } from '@/components/Panel';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import { getReportRateStats, resetReportRate } from '@/lib/reportRateMonitor';
+import { computeReportRateStats, type ReportRateStats } from '@/utils/reportRate';
+import { REPORT_RATE_REFRESH_MS } from '@/lib/constants';
+
+type ReportRatePanelProps = {
+  slot?: number;
+};
+
+type StatProps = {
+  label: string;
+  value: number;
+};
+
+const Stat = memo(function Stat({ label, value }: StatProps) {
+  return (
+    <div className="rounded-lg bg-white/5 px-3 py-2">
+      <p className="text-xs text-white/40">{label}</p>
+      <p className="font-mono text-sm text-white">{value.toFixed(2)} ms</p>
+    </div>
+  );
+});
+
+Stat.displayName = 'Stat';
+
+const EMPTY_STATS = computeReportRateStats([]);
+
+export const ReportRatePanel = memo(function ReportRatePanel({ slot }: ReportRatePanelProps) {
+  const [stats, setStats] = useState<ReportRateStats>(EMPTY_STATS);
+  const samplerMode = usePreferencesStore((state) => state.samplerMode);
+
+  useEffect(() => {
+    if (slot === undefined) {
+      setStats(EMPTY_STATS);
+      return;
+    }
+
+    setStats(getReportRateStats(slot));
+    const intervalId = setInterval(() => {
+      setStats(getReportRateStats(slot));
+    }, REPORT_RATE_REFRESH_MS);
+
+    return () => clearInterval(intervalId);
+  }, [slot]);
+
+  const handleReset = useCallback(() => {
+    if (slot === undefined) return;
+    resetReportRate(slot);
+    setStats(EMPTY_STATS);
+  }, [slot]);
+
+  const hasData = stats.sampleCount > 0;
+  const maxBinCount = Math.max(1, ...stats.histogram.map((bin) => bin.count));
+
+  return (
+    <Panel>
+      <div className="mb-3 flex items-center justify-between">
+        <div>
+          <h3 className="font-medium text-white">Report Rate</h3>
+          <p className="text-xs text-white/40">Move a stick continuously to measure</p>
+        </div>
+        <span className="text-xs text-white/40" aria-live="polite">
+          {stats.sampleCount} reports
+        </span>
+      </div>
+
+      <div className="mb-4 flex items-baseline gap-1">
+        <span className="text-4xl font-bold text-white">
+          {hasData ? stats.effectiveHz.toFixed(0) : '—'}
+        </span>
+        <span className="text-xl text-white/50">Hz</span>
+      </div>
+
+      <div className="mb-4 grid grid-cols-2 gap-2">
+        <Stat label="Mean" value={stats.meanIntervalMs} />
+        <Stat label="p99" value={stats.p99IntervalMs} />
+        <Stat label="Min" value={stats.minIntervalMs} />
+        <Stat label="Max" value={stats.maxIntervalMs} />
+      </div>
+
+      {/* Interval histogram */}
+      <div
+        className="mb-1 flex h-16 items-end gap-1"
+        role="img"
+        aria-label="Histogram of report intervals in milliseconds"
+      >
+        {stats.histogram.map((bin) => (
+          <div
+            key={bin.label}
+            className="flex-1 rounded-t bg-gradient-to-t from-violet-500 to-cyan-400"
+            style={{ height: `${(bin.count / maxBinCount) * 100}%` }}
+            title={`${bin.label} ms: ${bin.count}`}
+          />
+        ))}
+      </div>
+      <div className="mb-4 flex gap-1 text-[10px] text-white/30">
+        {stats.histogram.map((bin) => (
+          <span key={bin.label} className="flex-1 text-center">
+            {bin.label}
+          </span>
+        ))}
+      </div>
+
+      {samplerMode === 'animationFrame' && (
+        <p className="mb-3 text-xs text-amber-300/80">
+          Sampling at display refresh - enable high frequency sampling in Settings to measure faster
+          controllers
+        </p>
+      )}
+
+      <button
+        onClick={handleReset}
+        disabled={slot === undefined}
+        className="w-full rounded-xl border border-white/10 bg-white/5 py-3 text-sm text-white/60 transition-colors hover:bg-white/10 disabled:opacity-40"
+      >
+        Reset Measurement
+      </button>
+    </Panel>
+  );
+});
+
+ReportRatePanel.displayName = 'ReportRatePanel';
@@ -0,0 +1,229 @@
+/**
+ * ButtonCoverageTest - "Press every button" checklist of buttons and axis directions
+ */
+
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+
+import { Panel } from '@/components/Panel';
+import { VerdictBadge } from '@/components/tests/VerdictBadge';
+import { useControllerStore } from '@/state/controllerSlice';
+import { useDiagnosticsStore } from '@/state/diagnosticsSlice';
+import {
+  buildCoverageChecklist,
+  getActiveEntryIds,
+  getCoverageProgress,
+  type CoverageEntry,
+} from '@/utils/buttonCoverage';
+import { formatDuration } from '@/utils/formatting';
+
+type ButtonCoverageTestProps = {
+  slot?: number;
+  controllerId?: string;
+};
+
+type Phase = 'idle' | 'running' | 'done';
+
+const NO_LABELS: readonly string[] = [];
+
+type EntryChipProps = {
+  entry: CoverageEntry;
+  seen: boolean;
+  isRunning: boolean;
+};
+
+const EntryChip = memo(function EntryChip({ entry, seen, isRunning }: EntryChipProps) {
+  let className = 'bg-white/5 text-white/50';
+  let status = 'not checked';
+  if (!entry.reported) {
+    className = 'bg-transparent text-white/20 line-through';
+    status = 'not reported by this controller';
+  } else if (seen) {
+    className = 'bg-emerald-500/20 text-emerald-300';
+    status = 'seen';
+  } else if (isRunning) {
+    className = 'bg-amber-500/20 text-amber-200 ring-1 ring-amber-400/40';
+    status = 'remaining';
+  }
+
+  return (
+    <li
+      className={`rounded-md px-2 py-1 text-center text-xs ${className}`}
+      title={`${entry.kind === 'button' ? 'Button' : 'Axis'} ${entry.index}${
+        entry.standard ? '' : ' (non-standard)'
+      }: ${status}`}
+    >
+      {entry.label}
+    </li>
+  );
+});
+
+EntryChip.displayName = 'EntryChip';
+
+export const ButtonCoverageTest = memo(function ButtonCoverageTest({
+  slot,
+  controllerId,
+}: ButtonCoverageTestProps) {
+  const coverageResult = useDiagnosticsStore((state) => state.results.coverage);
+  const recordResult = useDiagnosticsStore((state) => state.recordResult);
+  const vendor = useControllerStore((state) =>
+    slot !== undefined ? state.controllers[slot]?.vendor : undefined,
+  );
+  const buttonLabels = useControllerStore(
+    useShallow((state) =>
+      slot !== undefined
+        ? (state.controllers[slot]?.buttons.map((button) => button.label) ?? NO_LABELS)
+        : NO_LABELS,
+    ),
+  );
+  const axisLabels = useControllerStore(
+    useShallow((state) =>
+      slot !== undefined
+        ? (state.controllers[slot]?.axes.map((axis) => axis.label) ?? NO_LABELS)
+        : NO_LABELS,
+    ),
+  );
+
+  const entries = useMemo(
+    () => (vendor ? buildCoverageChecklist({ vendor, buttonLabels, axisLabels }) : []),
+    [vendor, buttonLabels, axisLabels],
+  );
+
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [seen, setSeen] = useState<ReadonlySet<string>>(new Set());
+  const seenRef = useRef(new Set<string>());
+  const startTimeRef = useRef(0);
+
+  const progress = getCoverageProgress(entries, seen);
+
+  const finish = useCallback(() => {
+    const result = getCoverageProgress(entries, seenRef.current);
+    recordResult('coverage', {
+      completedAt: new Date().toISOString(),
+      controllerId: controllerId ?? 'Unknown controller',
+      durationMs: performance.now() - startTimeRef.current,
+      totalCount: result.required.length,
+      seenCount: result.seenCount,
+      missing: result.remaining.map((entry) => entry.label),
+      unreported: entries.filter((entry) => !entry.reported).map((entry) => entry.label),
+      verdict: result.complete ? 'pass' : 'fail',
+    });
+    setPhase('done');
+  }, [entries, controllerId, recordResult]);
+
+  // Check off whatever is held or deflected on every poll
+  useEffect(() => {
+    if (phase !== 'running' || slot === undefined) return;
+
+    return useControllerStore.subscribe((state) => {
+      const pad = state.controllers[slot];
+      if (!pad) return;
+      const fresh = getActiveEntryIds(pad).filter((id) => !seenRef.current.has(id));
+      if (fresh.length === 0) return;
+      fresh.forEach((id) => seenRef.current.add(id));
+      setSeen(new Set(seenRef.current));
+    });
+  }, [phase, slot]);
+
+  // Pass automatically once the last entry is seen
+  useEffect(() => {
+    if (phase === 'running' && progress.complete) finish();
+  }, [phase, progress.complete, finish]);
+
+  const handleStart = useCallback(() => {
+    seenRef.current = new Set();
+    setSeen(new Set());
+    startTimeRef.current = performance.now();
+    setPhase('running');
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    setPhase('idle');
+  }, []);
+
+  const isRunning = phase === 'running';
+
+  return (
+    <Panel className="lg:col-span-2">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h2 className="font-medium text-white">Button Coverage</h2>
+          <p className="text-xs text-white/40">
+            Press every button and push every stick and axis in both directions
+          </p>
+        </div>
+        {coverageResult && !isRunning && <VerdictBadge verdict={coverageResult.verdict} />}
+      </div>
+
+      {entries.length > 0 && (
+        <>
+          <div className="mb-2 flex items-center justify-between text-xs text-white/50">
+            <span>
+              {isRunning
+                ? `${progress.remaining.length} remaining`
+                : 'Exercised entries turn green'}
+            </span>
+            <span className="font-mono">
+              {progress.seenCount}/{progress.required.length}
+            </span>
+          </div>
+          <ul
+            className="mb-4 grid grid-cols-4 gap-1.5 sm:grid-cols-6 lg:grid-cols-9"
+            aria-label="Coverage checklist"
+          >
+            {entries.map((entry) => (
+              <EntryChip
+                key={entry.id}
+                entry={entry}
+                seen={seen.has(entry.id)}
+                isRunning={isRunning}
+              />
+            ))}
+          </ul>
+        </>
+      )}
+
+      <div aria-live="polite">
+        {coverageResult && !isRunning && (
+          <p className="mb-4 text-sm text-white/60">
+            {coverageResult.seenCount}/{coverageResult.totalCount} exercised in{' '}
+            {formatDuration(coverageResult.durationMs)}
+            {coverageResult.missing.length > 0 &&
+              ` · never seen: ${coverageResult.missing.join(', ')}`}
+            {coverageResult.unreported.length > 0 &&
+              ` · not reported: ${coverageResult.unreported.join(', ')}`}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {isRunning ? (
+          <>
+            <button
+              onClick={finish}
+              className="rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400"
+            >
+              Finish
+            </button>
+            <button
+              onClick={handleCancel}
+              className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={entries.length === 0}
+            className="col-span-2 rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400 disabled:opacity-40"
+          >
+            {coverageResult ? 'Run Again' : 'Start Test'}
+          </button>
+        )}
+      </div>
+    </Panel>
+  );
+});
+
+ButtonCoverageTest.displayName = 'ButtonCoverageTest';
@@ -0,0 +1,264 @@
+/**
+ * CircularityTest - Traces the outer range of both sticks and grades their circularity
+ */
+
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+
+import { Panel } from '@/components/Panel';
+import { StickVisualizer } from '@/components/visuals/StickVisualizer';
+import { VerdictBadge } from '@/components/tests/VerdictBadge';
+import { useControllerStore } from '@/state/controllerSlice';
+import { useDiagnosticsStore } from '@/state/diagnosticsSlice';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import {
+  OCTANT_LABELS,
+  accumulateSectorMaximum,
+  analyzeCircularity,
+  getCoverage,
+  sectorMaximaToBoundary,
+  type BoundaryPoint,
+} from '@/utils/circularity';
+import { getStickCoords } from '@/utils/gamepadMapping';
+import { worstVerdict } from '@/utils/verdicts';
+import type { StickCircularityResult } from '@/types/diagnostics';
+import type { StickId } from '@/types/gamepad';
+import {
+  CIRCULARITY_REQUIRED_COVERAGE,
+  CIRCULARITY_SECTOR_COUNT,
+  TEST_PROGRESS_INTERVAL_MS,
+} from '@/lib/constants';
+
+type CircularityTestProps = {
+  slot?: number;
+  controllerId?: string;
+};
+
+type Phase = 'idle' | 'capturing' | 'done';
+
+type StickTrace = Record<StickId, { boundary: BoundaryPoint[]; coverage: number }>;
+
+const EMPTY_TRACE: StickTrace = {
+  left: { boundary: [], coverage: 0 },
+  right: { boundary: [], coverage: 0 },
+};
+
+const createMaxima = (): Record<StickId, number[]> => ({
+  left: new Array<number>(CIRCULARITY_SECTOR_COUNT).fill(0),
+  right: new Array<number>(CIRCULARITY_SECTOR_COUNT).fill(0),
+});
+
+type CircularityResultProps = {
+  label: string;
+  result: StickCircularityResult;
+};
+
+const CircularityResult = memo(function CircularityResult({
+  label,
+  result,
+}: CircularityResultProps) {
+  return (
+    <div className="rounded-xl border border-white/5 bg-white/[0.02] p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <span className="font-medium text-white">{label}</span>
+        <VerdictBadge verdict={result.verdict} />
+      </div>
+      <dl className="mb-3 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <dt className="text-white/50">Avg. circularity error</dt>
+          <dd className="font-mono text-white">{(result.averageError * 100).toFixed(1)}%</dd>
+        </div>
+        <div className="flex justify-between">
+          <dt className="text-white/50">Max magnitude</dt>
+          <dd className={`font-mono ${result.exceedsUnitRange ? 'text-amber-300' : 'text-white'}`}>
+            {result.maxMagnitude.toFixed(3)}
+          </dd>
+        </div>
+      </dl>
+      <div className="grid grid-cols-4 gap-1 text-center text-xs">
+        {OCTANT_LABELS.map((octant, index) => (
+          <div key={octant} className="rounded bg-white/5 py-1">
+            <p className="text-white/40">{octant}</p>
+            <p
+              className={`font-mono ${
+                result.octantMax[index] > 1 ? 'text-amber-300' : 'text-white'
+              }`}
+            >
+              {result.octantMax[index].toFixed(2)}
+            </p>
+          </div>
+        ))}
+      </div>
+      {result.exceedsUnitRange && (
+        <p className="mt-2 text-xs text-amber-300">Reports values beyond 1.0</p>
+      )}
+    </div>
+  );
+});
+
+CircularityResult.displayName = 'CircularityResult';
+
+export const CircularityTest = memo(function CircularityTest({
+  slot,
+  controllerId,
+}: CircularityTestProps) {
+  const { deadZones, deadZoneShape, outerDeadZone } = usePreferencesStore(
+    useShallow((state) => ({
+      deadZones: state.deadZones,
+      deadZoneShape: state.deadZoneShape,
+      outerDeadZone: state.outerDeadZone,
+    })),
+  );
+  const controller = useControllerStore((state) =>
+    slot !== undefined ? state.controllers[slot] : undefined,
+  );
+  const circularityResult = useDiagnosticsStore((state) => state.results.circularity);
+  const recordResult = useDiagnosticsStore((state) => state.recordResult);
+
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [trace, setTrace] = useState<StickTrace>(EMPTY_TRACE);
+  const maximaRef = useRef(createMaxima());
+
+  // Accumulate boundary samples while capturing; refresh the plot on an interval
+  useEffect(() => {
+    if (phase !== 'capturing' || slot === undefined) return;
+
+    const unsubscribe = useControllerStore.subscribe((state) => {
+      const pad = state.controllers[slot];
+      if (!pad) return;
+      (['left', 'right'] as const).forEach((stick) => {
+        const { x, y } = getStickCoords(pad, stick);
+        accumulateSectorMaximum(maximaRef.current[stick], x, y);
+      });
+    });
+
+    const intervalId = setInterval(() => {
+      const { left, right } = maximaRef.current;
+      setTrace({
+        left: { boundary: sectorMaximaToBoundary(left), coverage: getCoverage(left) },
+        right: { boundary: sectorMaximaToBoundary(right), coverage: getCoverage(right) },
+      });
+    }, TEST_PROGRESS_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(intervalId);
+    };
+  }, [phase, slot]);
+
+  const handleStart = useCallback(() => {
+    maximaRef.current = createMaxima();
+    setTrace(EMPTY_TRACE);
+    setPhase('capturing');
+  }, []);
+
+  const handleFinish = useCallback(() => {
+    const { left, right } = maximaRef.current;
+    recordResult('circularity', {
+      completedAt: new Date().toISOString(),
+      controllerId: controllerId ?? 'Unknown controller',
+      left: analyzeCircularity(left),
+      right: analyzeCircularity(right),
+    });
+    setPhase('done');
+  }, [controllerId, recordResult]);
+
+  const handleCancel = useCallback(() => {
+    setPhase('idle');
+  }, []);
+
+  const isCapturing = phase === 'capturing';
+  const canFinish =
+    trace.left.coverage >= CIRCULARITY_REQUIRED_COVERAGE &&
+    trace.right.coverage >= CIRCULARITY_REQUIRED_COVERAGE;
+  const left = controller ? getStickCoords(controller, 'left') : { x: 0, y: 0 };
+  const right = controller ? getStickCoords(controller, 'right') : { x: 0, y: 0 };
+  const showTrace = phase !== 'idle';
+
+  return (
+    <Panel className="lg:col-span-2">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h2 className="font-medium text-white">Stick Circularity</h2>
+          <p className="text-xs text-white/40">
+            Rotate each stick slowly around its outer gate several times
+          </p>
+        </div>
+        {circularityResult && !isCapturing && (
+          <VerdictBadge
+            verdict={worstVerdict([
+              circularityResult.left.verdict,
+              circularityResult.right.verdict,
+            ])}
+          />
+        )}
+      </div>
+
+      <div className="mb-4 grid gap-4 md:grid-cols-2">
+        <StickVisualizer
+          label={`Left Stick · ${Math.round(trace.left.coverage * 100)}% traced`}
+          x={left.x}
+          y={left.y}
+          deadZone={deadZones.left}
+          deadZoneShape={deadZoneShape}
+          outerDeadZone={outerDeadZone}
+          boundary={showTrace ? trace.left.boundary : undefined}
+        />
+        <StickVisualizer
+          label={`Right Stick · ${Math.round(trace.right.coverage * 100)}% traced`}
+          x={right.x}
+          y={right.y}
+          deadZone={deadZones.right}
+          deadZoneShape={deadZoneShape}
+          outerDeadZone={outerDeadZone}
+          boundary={showTrace ? trace.right.boundary : undefined}
+        />
+      </div>
+
+      <div aria-live="polite">
+        {isCapturing && !canFinish && (
+          <p className="mb-4 text-sm text-white/50">
+            Keep rotating until both sticks reach {Math.round(CIRCULARITY_REQUIRED_COVERAGE * 100)}%
+            coverage.
+          </p>
+        )}
+        {circularityResult && !isCapturing && (
+          <div className="mb-4 grid gap-3 md:grid-cols-2">
+            <CircularityResult label="Left Stick" result={circularityResult.left} />
+            <CircularityResult label="Right Stick" result={circularityResult.right} />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {isCapturing ? (
+          <>
+            <button
+              onClick={handleFinish}
+              disabled={!canFinish}
+              className="rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400 disabled:opacity-40"
+            >
+              Finish
+            </button>
+            <button
+              onClick={handleCancel}
+              className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={slot === undefined}
+            className="col-span-2 rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400 disabled:opacity-40"
+          >
+            {circularityResult ? 'Run Again' : 'Start Test'}
+          </button>
+        )}
+      </div>
+    </Panel>
+  );
+});
+
+CircularityTest.displayName = 'CircularityTest';
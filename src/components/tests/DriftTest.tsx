@@ -0,0 +1,236 @@
+/**
+ * DriftTest - Guided resting-stick drift test with pass/warn/fail verdict
+ */
+
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+
+import { Panel } from '@/components/Panel';
+import { VerdictBadge } from '@/components/tests/VerdictBadge';
+import { useControllerStore } from '@/state/controllerSlice';
+import { useDiagnosticsStore } from '@/state/diagnosticsSlice';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import { analyzeStickDrift, sampleStick, type StickSample } from '@/utils/driftAnalysis';
+import { worstVerdict } from '@/utils/verdicts';
+import type { StickDriftResult } from '@/types/diagnostics';
+import {
+  DRIFT_COUNTDOWN_MS,
+  DRIFT_MIN_SAMPLES,
+  DRIFT_SAMPLE_DURATION_MS,
+  TEST_PROGRESS_INTERVAL_MS,
+} from '@/lib/constants';
+
+type DriftTestProps = {
+  slot?: number;
+  controllerId?: string;
+};
+
+type Phase = 'idle' | 'countdown' | 'sampling' | 'done';
+
+type StickResultProps = {
+  label: string;
+  result: StickDriftResult;
+};
+
+const StickResult = memo(function StickResult({ label, result }: StickResultProps) {
+  const rows: [string, string][] = [
+    ['Resting offset', result.restingOffset.toFixed(3)],
+    ['Noise (RMS)', result.noise.toFixed(3)],
+    ['Max deflection', result.maxMagnitude.toFixed(3)],
+    ['Outside dead zone', `${Math.round(result.outsideDeadZoneRatio * 100)}%`],
+    ['Min dead zone', `${Math.round(result.recommendedDeadZone * 100)}%`],
+  ];
+
+  return (
+    <div className="rounded-xl border border-white/5 bg-white/[0.02] p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <span className="font-medium text-white">{label}</span>
+        <VerdictBadge verdict={result.verdict} />
+      </div>
+      <dl className="space-y-1 text-sm">
+        {rows.map(([name, value]) => (
+          <div key={name} className="flex justify-between">
+            <dt className="text-white/50">{name}</dt>
+            <dd className="font-mono text-white">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+});
+
+StickResult.displayName = 'StickResult';
+
+export const DriftTest = memo(function DriftTest({ slot, controllerId }: DriftTestProps) {
+  const { deadZones, setDeadZone } = usePreferencesStore(
+    useShallow((state) => ({
+      deadZones: state.deadZones,
+      setDeadZone: state.setDeadZone,
+    })),
+  );
+  const driftResult = useDiagnosticsStore((state) => state.results.drift);
+  const recordResult = useDiagnosticsStore((state) => state.recordResult);
+
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const samplesRef = useRef<{ left: StickSample[]; right: StickSample[] }>({
+    left: [],
+    right: [],
+  });
+
+  // Drive countdown and sampling phases
+  useEffect(() => {
+    if (phase !== 'countdown' && phase !== 'sampling') return;
+    if (slot === undefined) {
+      setPhase('idle');
+      return;
+    }
+
+    const duration = phase === 'countdown' ? DRIFT_COUNTDOWN_MS : DRIFT_SAMPLE_DURATION_MS;
+    const startTime = performance.now();
+
+    // Sample every poll rather than every distinct report: a perfectly still
+    // stick may not produce new reports at all
+    const unsubscribe =
+      phase === 'sampling'
+        ? useControllerStore.subscribe((state) => {
+            const pad = state.controllers[slot];
+            if (!pad) return;
+            samplesRef.current.left.push(sampleStick(pad, 'left'));
+            samplesRef.current.right.push(sampleStick(pad, 'right'));
+          })
+        : undefined;
+
+    const finish = (): void => {
+      const { left, right } = samplesRef.current;
+      if (left.length < DRIFT_MIN_SAMPLES) {
+        setError('Not enough samples were captured. Keep the controller connected and retry.');
+        setPhase('idle');
+        return;
+      }
+      recordResult('drift', {
+        completedAt: new Date().toISOString(),
+        controllerId: controllerId ?? 'Unknown controller',
+        durationMs: DRIFT_SAMPLE_DURATION_MS,
+        deadZones,
+        left: analyzeStickDrift(left, deadZones.left),
+        right: analyzeStickDrift(right, deadZones.right),
+      });
+      setPhase('done');
+    };
+
+    const intervalId = setInterval(() => {
+      const elapsed = performance.now() - startTime;
+      setProgress(Math.min(1, elapsed / duration));
+      if (elapsed < duration) return;
+
+      clearInterval(intervalId);
+      if (phase === 'countdown') {
+        setProgress(0);
+        setPhase('sampling');
+      } else {
+        finish();
+      }
+    }, TEST_PROGRESS_INTERVAL_MS);
+
+    return () => {
+      clearInterval(intervalId);
+      unsubscribe?.();
+    };
+  }, [phase, slot, controllerId, deadZones, recordResult]);
+
+  const handleStart = useCallback(() => {
+    samplesRef.current = { left: [], right: [] };
+    setError(null);
+    setProgress(0);
+    setPhase('countdown');
+  }, []);
+
+  const handleApply = useCallback(() => {
+    if (!driftResult) return;
+    setDeadZone('left', driftResult.left.recommendedDeadZone);
+    setDeadZone('right', driftResult.right.recommendedDeadZone);
+  }, [driftResult, setDeadZone]);
+
+  const isRunning = phase === 'countdown' || phase === 'sampling';
+  const secondsLeft = Math.ceil(
+    ((1 - progress) * (phase === 'countdown' ? DRIFT_COUNTDOWN_MS : DRIFT_SAMPLE_DURATION_MS)) /
+      1000,
+  );
+
+  return (
+    <Panel>
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h2 className="font-medium text-white">Stick Drift</h2>
+          <p className="text-xs text-white/40">Measures resting offset and noise of both sticks</p>
+        </div>
+        {driftResult && !isRunning && (
+          <VerdictBadge
+            verdict={worstVerdict([driftResult.left.verdict, driftResult.right.verdict])}
+          />
+        )}
+      </div>
+
+      <div aria-live="polite">
+        {isRunning && (
+          <div className="mb-4">
+            <p className="mb-2 text-sm text-white">
+              {phase === 'countdown'
+                ? `Release both sticks… starting in ${secondsLeft}s`
+                : `Sampling - don't touch the sticks (${secondsLeft}s)`}
+            </p>
+            <div className="h-2 overflow-hidden rounded-full bg-white/10">
+              <div
+                className={`h-full rounded-full ${
+                  phase === 'countdown' ? 'bg-amber-400' : 'bg-violet-500'
+                }`}
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {phase === 'idle' && !driftResult && (
+          <p className="mb-4 text-sm text-white/50">
+            Place the controller on a flat surface and let go of both sticks when prompted.
+          </p>
+        )}
+
+        {error && (
+          <p className="mb-4 text-sm text-rose-300" role="alert">
+            {error}
+          </p>
+        )}
+
+        {driftResult && !isRunning && (
+          <div className="mb-4 grid gap-3 sm:grid-cols-2">
+            <StickResult label="Left Stick" result={driftResult.left} />
+            <StickResult label="Right Stick" result={driftResult.right} />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={handleStart}
+          disabled={slot === undefined || isRunning}
+          className="rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400 disabled:opacity-40"
+        >
+          {driftResult ? 'Run Again' : 'Start Test'}
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!driftResult || isRunning}
+          className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+          aria-label="Apply the recommended dead zones"
+        >
+          Apply Dead Zones
+        </button>
+      </div>
+    </Panel>
+  );
+});
+
+DriftTest.displayName = 'DriftTest';
@@ -0,0 +1,290 @@
+/**
+ * LatencyTest - Flashes a cue at random intervals and times the press of a chosen button,
+ * separating human reaction from the sampler's own overhead
+ */
+
+import { memo, useCallback, useEffect, useId, useRef, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+
+import { Panel } from '@/components/Panel';
+import { useControllerStore } from '@/state/controllerSlice';
+import { useDiagnosticsStore } from '@/state/diagnosticsSlice';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import { getSamples } from '@/lib/sampleBuffer';
+import {
+  analyzeLatencyTrials,
+  findFirstPress,
+  getRandomCueDelay,
+  splitTrialLatency,
+} from '@/utils/latencyAnalysis';
+import { BUTTON } from '@/utils/buttonConstants';
+import type { LatencyStats, LatencyTrial } from '@/types/diagnostics';
+import {
+  LATENCY_MIN_REACTION_MS,
+  LATENCY_TRIAL_COUNT,
+  LATENCY_TRIAL_TIMEOUT_MS,
+} from '@/lib/constants';
+
+type LatencyTestProps = {
+  slot?: number;
+  controllerId?: string;
+};
+
+type Phase = 'idle' | 'running' | 'done';
+
+type StatsRowProps = {
+  label: string;
+  hint: string;
+  stats: LatencyStats;
+};
+
+const StatsRow = memo(function StatsRow({ label, hint, stats }: StatsRowProps) {
+  return (
+    <div className="grid grid-cols-4 items-baseline gap-2 rounded-lg bg-white/[0.03] px-3 py-2">
+      <div className="col-span-2">
+        <p className="text-sm text-white">{label}</p>
+        <p className="text-xs text-white/40">{hint}</p>
+      </div>
+      <p className="text-right font-mono text-sm text-white">{stats.median.toFixed(1)} ms</p>
+      <p className="text-right font-mono text-sm text-white/60">{stats.p95.toFixed(1)} ms</p>
+    </div>
+  );
+});
+
+StatsRow.displayName = 'StatsRow';
+
+export const LatencyTest = memo(function LatencyTest({ slot, controllerId }: LatencyTestProps) {
+  const latencyResult = useDiagnosticsStore((state) => state.results.latency);
+  const recordResult = useDiagnosticsStore((state) => state.recordResult);
+  const samplerMode = usePreferencesStore((state) => state.samplerMode);
+  const buttonLabels = useControllerStore(
+    useShallow((state) =>
+      slot !== undefined
+        ? (state.controllers[slot]?.buttons.map((button) => button.label) ?? [])
+        : [],
+    ),
+  );
+
+  const selectId = useId();
+  const [buttonIndex, setButtonIndex] = useState<number>(BUTTON.A);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [completed, setCompleted] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const cueRef = useRef<HTMLDivElement>(null);
+
+  // Runs the trials outside React state so the cue is painted, and presses are seen,
+  // without waiting on renders
+  useEffect(() => {
+    if (phase !== 'running') return;
+    if (slot === undefined) {
+      setPhase('idle');
+      return;
+    }
+
+    const trials: LatencyTrial[] = [];
+    let missedCount = 0;
+    let falseStartCount = 0;
+    let cueAt: number | undefined;
+    let cueTimer: ReturnType<typeof setTimeout> | undefined;
+    let missTimer: ReturnType<typeof setTimeout> | undefined;
+    let frameId: number | undefined;
+    let wasPressed =
+      useControllerStore.getState().controllers[slot]?.buttons[buttonIndex]?.pressed ?? false;
+
+    const setCueVisible = (visible: boolean): void => {
+      if (cueRef.current) cueRef.current.style.opacity = visible ? '1' : '0';
+    };
+
+    const clearTimers = (): void => {
+      clearTimeout(cueTimer);
+      clearTimeout(missTimer);
+      if (frameId !== undefined) cancelAnimationFrame(frameId);
+    };
+
+    const scheduleCue = (): void => {
+      clearTimers();
+      setCueVisible(false);
+      cueAt = undefined;
+      cueTimer = setTimeout(showCue, getRandomCueDelay());
+    };
+
+    function showCue(): void {
+      setCueVisible(true);
+      // The cue is painted in the frame that follows the style change
+      frameId = requestAnimationFrame((frameTime) => {
+        cueAt = frameTime;
+        missTimer = setTimeout(() => {
+          missedCount += 1;
+          setMessage('Missed - press as soon as the cue lights up');
+          scheduleCue();
+        }, LATENCY_TRIAL_TIMEOUT_MS);
+      });
+    }
+
+    const finish = (): void => {
+      clearTimers();
+      setCueVisible(false);
+      recordResult('latency', {
+        completedAt: new Date().toISOString(),
+        controllerId: controllerId ?? 'Unknown controller',
+        buttonLabel: buttonLabels[buttonIndex] ?? `Button ${buttonIndex}`,
+        samplerMode,
+        trials,
+        missedCount,
+        falseStartCount,
+        ...analyzeLatencyTrials(trials),
+      });
+      setPhase('done');
+    };
+
+    const unsubscribe = useControllerStore.subscribe((state) => {
+      const pad = state.controllers[slot];
+      if (!pad) return;
+      const pressed = pad.buttons[buttonIndex]?.pressed ?? false;
+      const isNewPress = pressed && !wasPressed;
+      wasPressed = pressed;
+      if (!isNewPress) return;
+
+      const storeObservedAt = performance.now();
+      if (cueAt === undefined || storeObservedAt - cueAt < LATENCY_MIN_REACTION_MS) {
+        falseStartCount += 1;
+        setMessage('Too early - wait for the cue');
+        scheduleCue();
+        return;
+      }
+
+      // The high-frequency sampler may have seen the press before this frame did
+      const sampled =
+        samplerMode === 'highFrequency'
+          ? findFirstPress(getSamples(slot, cueAt), buttonIndex, cueAt)
+          : undefined;
+      const observed = sampled ? sampled.gamepad : pad;
+      const observedAt = sampled ? sampled.sampleTime : storeObservedAt;
+
+      const trial = splitTrialLatency(cueAt, observed.timestamp, observedAt);
+      trials.push(trial);
+      setCompleted(trials.length);
+      setMessage(`${trial.totalMs.toFixed(0)} ms`);
+
+      if (trials.length >= LATENCY_TRIAL_COUNT) {
+        finish();
+      } else {
+        scheduleCue();
+      }
+    });
+
+    scheduleCue();
+
+    return () => {
+      unsubscribe();
+      clearTimers();
+      setCueVisible(false);
+    };
+  }, [phase, slot, buttonIndex, buttonLabels, controllerId, samplerMode, recordResult]);
+
+  const handleStart = useCallback(() => {
+    setCompleted(0);
+    setMessage(null);
+    setPhase('running');
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    setPhase('idle');
+  }, []);
+
+  const isRunning = phase === 'running';
+
+  return (
+    <Panel>
+      <div className="mb-4">
+        <h2 className="font-medium text-white">Reaction & Input Latency</h2>
+        <p className="text-xs text-white/40">
+          Press the chosen button as soon as the cue lights up, {LATENCY_TRIAL_COUNT} times
+        </p>
+      </div>
+
+      <div className="mb-4 flex items-center gap-3">
+        <label htmlFor={selectId} className="text-sm text-white/60">
+          Button
+        </label>
+        <select
+          id={selectId}
+          value={buttonIndex}
+          onChange={(event) => setButtonIndex(Number(event.target.value))}
+          disabled={isRunning || buttonLabels.length === 0}
+          className="flex-1 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white disabled:opacity-40"
+        >
+          {buttonLabels.map((label, index) => (
+            <option key={index} value={index}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="relative mb-4 flex h-28 items-center justify-center rounded-xl border border-white/5 bg-[#0a0a10]">
+        <div
+          ref={cueRef}
+          className="absolute inset-2 rounded-lg bg-emerald-400"
+          style={{ opacity: 0 }}
+          aria-hidden="true"
+        />
+        <p className="relative font-mono text-sm text-white/70" aria-live="polite">
+          {isRunning
+            ? `${message ?? 'Wait for the cue…'} · ${completed}/${LATENCY_TRIAL_COUNT}`
+            : 'Cue appears here'}
+        </p>
+      </div>
+
+      {latencyResult && !isRunning && (
+        <div className="mb-4 space-y-1">
+          <div className="grid grid-cols-4 gap-2 px-3 text-xs text-white/40">
+            <span className="col-span-2">{latencyResult.buttonLabel}</span>
+            <span className="text-right">Median</span>
+            <span className="text-right">p95</span>
+          </div>
+          <StatsRow label="Total" hint="Cue to press observed" stats={latencyResult.total} />
+          <StatsRow
+            label="Reaction"
+            hint="Cue to controller report (you + controller)"
+            stats={latencyResult.reaction}
+          />
+          <StatsRow
+            label="Sampler overhead"
+            hint={
+              latencyResult.samplerMode === 'highFrequency'
+                ? 'Report to high-frequency sample'
+                : 'Report to animation frame poll'
+            }
+            stats={latencyResult.overhead}
+          />
+          <p className="px-3 pt-1 text-xs text-white/40">
+            Reaction spread ±{latencyResult.reaction.stdDev.toFixed(0)} ms ·{' '}
+            {latencyResult.missedCount} missed · {latencyResult.falseStartCount} early
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        {isRunning ? (
+          <button
+            onClick={handleCancel}
+            className="col-span-2 rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={slot === undefined || buttonLabels.length === 0}
+            className="col-span-2 rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400 disabled:opacity-40"
+          >
+            {latencyResult ? 'Run Again' : 'Start Test'}
+          </button>
+        )}
+      </div>
+    </Panel>
+  );
+});
+
+LatencyTest.displayName = 'LatencyTest';
@@ -0,0 +1,274 @@
+/**
+ * MotorSweepTest - Drives the weak and strong rumble motors separately through an
+ * intensity sweep and asks the user what they felt at each step
+ */
+
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { Panel } from '@/components/Panel';
+import { VerdictBadge } from '@/components/tests/VerdictBadge';
+import { useDiagnosticsStore } from '@/state/diagnosticsSlice';
+import { stopRumble, triggerRumble } from '@/services/gamepadService';
+import { analyzeMotorSweep, getPulseMagnitudes, getSweepPlan } from '@/utils/motorSweep';
+import { worstVerdict } from '@/utils/verdicts';
+import type { MotorFeel, MotorSweepResult, MotorSweepStep, RumbleMotor } from '@/types/diagnostics';
+import { MOTOR_SWEEP_PULSE_MS } from '@/lib/constants';
+
+type MotorSweepTestProps = {
+  slot?: number;
+  controllerId?: string;
+  hasRumble: boolean;
+};
+
+type Phase = 'idle' | 'running' | 'done';
+
+const MOTOR_LABELS: Record<RumbleMotor, string> = {
+  weak: 'Weak Motor',
+  strong: 'Strong Motor',
+};
+
+const FEEL_OPTIONS: { feel: MotorFeel; label: string; className: string }[] = [
+  { feel: 'nothing', label: 'Nothing', className: 'bg-white/5 text-white/70 hover:bg-white/10' },
+  {
+    feel: 'faint',
+    label: 'Faint',
+    className: 'bg-amber-500/20 text-amber-200 hover:bg-amber-500/30',
+  },
+  {
+    feel: 'clear',
+    label: 'Clear',
+    className: 'bg-emerald-500/20 text-emerald-200 hover:bg-emerald-500/30',
+  },
+];
+
+const FEEL_STYLES: Record<MotorFeel, string> = {
+  nothing: 'bg-white/5 text-white/40',
+  faint: 'bg-amber-500/20 text-amber-300',
+  clear: 'bg-emerald-500/20 text-emerald-300',
+};
+
+type MotorResultProps = {
+  motor: RumbleMotor;
+  result: MotorSweepResult;
+};
+
+const MotorResult = memo(function MotorResult({ motor, result }: MotorResultProps) {
+  return (
+    <div className="rounded-xl border border-white/5 bg-white/[0.02] p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <span className="font-medium text-white">{MOTOR_LABELS[motor]}</span>
+        <VerdictBadge verdict={result.verdict} />
+      </div>
+      <div className="mb-3 flex gap-1">
+        {result.steps.map((step) => (
+          <div
+            key={step.intensity}
+            className={`flex-1 rounded-md py-1 text-center text-xs ${FEEL_STYLES[step.feel]}`}
+            title={`${Math.round(step.intensity * 100)}%: ${step.feel}`}
+          >
+            {Math.round(step.intensity * 100)}%
+          </div>
+        ))}
+      </div>
+      <dl className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <dt className="text-white/50">First felt at</dt>
+          <dd className="font-mono text-white">
+            {result.threshold !== undefined ? `${Math.round(result.threshold * 100)}%` : '—'}
+          </dd>
+        </div>
+      </dl>
+      {result.inconsistent && (
+        <p className="mt-2 text-xs text-amber-300">
+          A stronger pulse felt weaker than a lower one - the motor may be intermittent.
+        </p>
+      )}
+    </div>
+  );
+});
+
+MotorResult.displayName = 'MotorResult';
+
+export const MotorSweepTest = memo(function MotorSweepTest({
+  slot,
+  controllerId,
+  hasRumble,
+}: MotorSweepTestProps) {
+  const sweepResult = useDiagnosticsStore((state) => state.results.motorSweep);
+  const recordResult = useDiagnosticsStore((state) => state.recordResult);
+
+  const plan = useMemo(() => getSweepPlan(), []);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [stepIndex, setStepIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const responsesRef = useRef<Record<RumbleMotor, MotorSweepStep[]>>({ weak: [], strong: [] });
+
+  const pulse = plan[stepIndex];
+
+  const playPulse = useCallback(async () => {
+    if (slot === undefined || !pulse) return;
+    const result = await triggerRumble(slot, {
+      duration: MOTOR_SWEEP_PULSE_MS,
+      ...getPulseMagnitudes(pulse),
+    });
+    if (!result.success) {
+      setError(result.error ?? 'Rumble failed');
+      setPhase('idle');
+    }
+  }, [slot, pulse]);
+
+  // Play each step's pulse as soon as it is shown
+  useEffect(() => {
+    if (phase !== 'running') return;
+    void playPulse();
+  }, [phase, playPulse]);
+
+  // Silence the motors if the test is left mid-sweep
+  useEffect(() => {
+    if (phase !== 'running' || slot === undefined) return;
+    return () => {
+      void stopRumble(slot);
+    };
+  }, [phase, slot]);
+
+  const handleStart = useCallback(() => {
+    responsesRef.current = { weak: [], strong: [] };
+    setError(null);
+    setStepIndex(0);
+    setPhase('running');
+  }, []);
+
+  const handleFeel = useCallback(
+    (feel: MotorFeel) => {
+      if (!pulse) return;
+      responsesRef.current[pulse.motor].push({ intensity: pulse.intensity, feel });
+
+      if (stepIndex < plan.length - 1) {
+        setStepIndex(stepIndex + 1);
+        return;
+      }
+
+      const { weak, strong } = responsesRef.current;
+      recordResult('motorSweep', {
+        completedAt: new Date().toISOString(),
+        controllerId: controllerId ?? 'Unknown controller',
+        pulseMs: MOTOR_SWEEP_PULSE_MS,
+        weak: analyzeMotorSweep(weak),
+        strong: analyzeMotorSweep(strong),
+      });
+      setPhase('done');
+    },
+    [pulse, stepIndex, plan.length, controllerId, recordResult],
+  );
+
+  const handleReplay = useCallback(() => {
+    void playPulse();
+  }, [playPulse]);
+
+  const handleCancel = useCallback(() => {
+    setPhase('idle');
+  }, []);
+
+  const isRunning = phase === 'running';
+
+  return (
+    <Panel>
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h2 className="font-medium text-white">Rumble Motors</h2>
+          <p className="text-xs text-white/40">
+            Sweeps the weak and strong motors separately from low to full intensity
+          </p>
+        </div>
+        {sweepResult && !isRunning && (
+          <VerdictBadge
+            verdict={worstVerdict([sweepResult.weak.verdict, sweepResult.strong.verdict])}
+          />
+        )}
+      </div>
+
+      <div aria-live="polite">
+        {isRunning && pulse && (
+          <div className="mb-4">
+            <div className="mb-2 flex items-center justify-between text-sm">
+              <span className="text-white">
+                {MOTOR_LABELS[pulse.motor]} at {Math.round(pulse.intensity * 100)}%
+              </span>
+              <span className="font-mono text-xs text-white/40">
+                {stepIndex + 1}/{plan.length}
+              </span>
+            </div>
+            <div className="mb-3 h-2 overflow-hidden rounded-full bg-white/10">
+              <div
+                className="h-full rounded-full bg-violet-500"
+                style={{ width: `${(stepIndex / plan.length) * 100}%` }}
+              />
+            </div>
+            <p className="mb-2 text-sm text-white/50">What did you feel?</p>
+            <div className="grid grid-cols-3 gap-2">
+              {FEEL_OPTIONS.map((option) => (
+                <button
+                  key={option.feel}
+                  onClick={() => handleFeel(option.feel)}
+                  className={`rounded-lg py-2 text-sm font-medium transition-colors ${option.className}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {phase === 'idle' && !sweepResult && (
+          <p className="mb-4 text-sm text-white/50">
+            {hasRumble
+              ? 'Hold the controller in both hands. Each pulse drives one motor only.'
+              : 'This controller does not report rumble support.'}
+          </p>
+        )}
+
+        {error && (
+          <p className="mb-4 text-sm text-rose-300" role="alert">
+            {error}
+          </p>
+        )}
+
+        {sweepResult && !isRunning && (
+          <div className="mb-4 grid gap-3 sm:grid-cols-2">
+            <MotorResult motor="weak" result={sweepResult.weak} />
+            <MotorResult motor="strong" result={sweepResult.strong} />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {isRunning ? (
+          <>
+            <button
+              onClick={handleReplay}
+              className="rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400"
+            >
+              Replay Pulse
+            </button>
+            <button
+              onClick={handleCancel}
+              className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={slot === undefined || !hasRumble}
+            className="col-span-2 rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400 disabled:opacity-40"
+          >
+            {sweepResult ? 'Run Again' : 'Start Test'}
+          </button>
+        )}
+      </div>
+    </Panel>
+  );
+});
+
+MotorSweepTest.displayName = 'MotorSweepTest';
@@ -0,0 +1,216 @@
+/**
+ * TriggerTest - Captures a slow full pull and release of both triggers and grades
+ * dead travel, actuation point and glitches
+ */
+
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+
+import { Panel } from '@/components/Panel';
+import { VerdictBadge } from '@/components/tests/VerdictBadge';
+import { TriggerTraceGraph } from '@/components/visuals/TriggerTraceGraph';
+import { useControllerStore } from '@/state/controllerSlice';
+import { useDiagnosticsStore } from '@/state/diagnosticsSlice';
+import {
+  analyzeTrigger,
+  getMaxTriggerValue,
+  sampleTrigger,
+  type TriggerSample,
+} from '@/utils/triggerAnalysis';
+import { worstVerdict } from '@/utils/verdicts';
+import type { TriggerAnalysisResult } from '@/types/diagnostics';
+import type { TriggerId } from '@/types/gamepad';
+import { TEST_PROGRESS_INTERVAL_MS, TRIGGER_MIN_PULL } from '@/lib/constants';
+
+type TriggerTestProps = {
+  slot?: number;
+  controllerId?: string;
+};
+
+type Phase = 'idle' | 'capturing' | 'done';
+
+type TriggerCapture = Record<TriggerId, TriggerSample[]>;
+
+const EMPTY_CAPTURE: TriggerCapture = { left: [], right: [] };
+
+const formatPercent = (value?: number): string =>
+  value !== undefined ? `${(value * 100).toFixed(1)}%` : '—';
+
+type TriggerResultProps = {
+  label: string;
+  result: TriggerAnalysisResult;
+};
+
+const TriggerResult = memo(function TriggerResult({ label, result }: TriggerResultProps) {
+  const reversals = result.glitches.filter((glitch) => glitch.kind === 'reversal').length;
+  const jumps = result.glitches.length - reversals;
+  const rows: [string, string][] = [
+    ['Start dead travel', formatPercent(result.startDeadTravel)],
+    ['End dead travel', formatPercent(result.endDeadTravel)],
+    ['Actuation point', formatPercent(result.actuationPoint)],
+    ['Release point', formatPercent(result.releasePoint)],
+    ['Resting value', formatPercent(result.restValue)],
+    ['Distinct values', String(result.distinctValues)],
+    ['Reversals / jumps', `${reversals} / ${jumps}`],
+  ];
+
+  return (
+    <div className="rounded-xl border border-white/5 bg-white/[0.02] p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <span className="font-medium text-white">{label}</span>
+        <VerdictBadge verdict={result.verdict} />
+      </div>
+      <dl className="space-y-1 text-sm">
+        {rows.map(([name, value]) => (
+          <div key={name} className="flex justify-between">
+            <dt className="text-white/50">{name}</dt>
+            <dd className="font-mono text-white">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+});
+
+TriggerResult.displayName = 'TriggerResult';
+
+export const TriggerTest = memo(function TriggerTest({ slot, controllerId }: TriggerTestProps) {
+  const triggerResult = useDiagnosticsStore((state) => state.results.triggers);
+  const recordResult = useDiagnosticsStore((state) => state.recordResult);
+
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [capture, setCapture] = useState<TriggerCapture>(EMPTY_CAPTURE);
+  const captureRef = useRef<TriggerCapture>({ left: [], right: [] });
+  const startTimeRef = useRef(0);
+
+  // Record both triggers on every poll; the graphs refresh on a slower interval
+  useEffect(() => {
+    if (phase !== 'capturing' || slot === undefined) return;
+
+    const unsubscribe = useControllerStore.subscribe((state) => {
+      const pad = state.controllers[slot];
+      if (!pad) return;
+      const t = performance.now() - startTimeRef.current;
+      captureRef.current.left.push(sampleTrigger(pad, 'left', t));
+      captureRef.current.right.push(sampleTrigger(pad, 'right', t));
+    });
+
+    const intervalId = setInterval(() => {
+      setCapture({ left: [...captureRef.current.left], right: [...captureRef.current.right] });
+    }, TEST_PROGRESS_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(intervalId);
+    };
+  }, [phase, slot]);
+
+  const handleStart = useCallback(() => {
+    captureRef.current = { left: [], right: [] };
+    setCapture(EMPTY_CAPTURE);
+    startTimeRef.current = performance.now();
+    setPhase('capturing');
+  }, []);
+
+  const handleFinish = useCallback(() => {
+    const { left, right } = captureRef.current;
+    setCapture({ left: [...left], right: [...right] });
+    recordResult('triggers', {
+      completedAt: new Date().toISOString(),
+      controllerId: controllerId ?? 'Unknown controller',
+      durationMs: performance.now() - startTimeRef.current,
+      left: analyzeTrigger(left),
+      right: analyzeTrigger(right),
+    });
+    setPhase('done');
+  }, [controllerId, recordResult]);
+
+  const handleCancel = useCallback(() => {
+    setPhase('idle');
+  }, []);
+
+  const isCapturing = phase === 'capturing';
+  const canFinish =
+    getMaxTriggerValue(capture.left) >= TRIGGER_MIN_PULL &&
+    getMaxTriggerValue(capture.right) >= TRIGGER_MIN_PULL;
+  // Results from an earlier run are listed, but only this run's capture can be plotted
+  const showResult = triggerResult && phase === 'done';
+
+  return (
+    <Panel className="lg:col-span-2">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h2 className="font-medium text-white">Trigger Linearity</h2>
+          <p className="text-xs text-white/40">
+            Pull each trigger slowly and steadily all the way in, then release it slowly
+          </p>
+        </div>
+        {triggerResult && !isCapturing && (
+          <VerdictBadge
+            verdict={worstVerdict([triggerResult.left.verdict, triggerResult.right.verdict])}
+          />
+        )}
+      </div>
+
+      {phase !== 'idle' && (
+        <div className="mb-4 grid gap-4 md:grid-cols-2">
+          <TriggerTraceGraph
+            label="Left Trigger"
+            samples={capture.left}
+            actuationPoint={showResult ? triggerResult.left.actuationPoint : undefined}
+            glitches={showResult ? triggerResult.left.glitches : undefined}
+          />
+          <TriggerTraceGraph
+            label="Right Trigger"
+            samples={capture.right}
+            actuationPoint={showResult ? triggerResult.right.actuationPoint : undefined}
+            glitches={showResult ? triggerResult.right.glitches : undefined}
+          />
+        </div>
+      )}
+
+      <div aria-live="polite">
+        {isCapturing && !canFinish && (
+          <p className="mb-4 text-sm text-white/50">
+            Pull both triggers past {Math.round(TRIGGER_MIN_PULL * 100)}% to finish.
+          </p>
+        )}
+        {triggerResult && !isCapturing && (
+          <div className="mb-4 grid gap-3 md:grid-cols-2">
+            <TriggerResult label="Left Trigger" result={triggerResult.left} />
+            <TriggerResult label="Right Trigger" result={triggerResult.right} />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {isCapturing ? (
+          <>
+            <button
+              onClick={handleFinish}
+              disabled={!canFinish}
+              className="rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400 disabled:opacity-40"
+            >
+              Finish
+            </button>
+            <button
+              onClick={handleCancel}
+              className="rounded-lg bg-white/5 py-2.5 text-sm font-medium text-white/70 transition-colors hover:bg-white/10"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={slot === undefined}
+            className="col-span-2 rounded-lg bg-violet-500 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-400 disabled:opacity-40"
+          >
+            {triggerResult ? 'Run Again' : 'Start Test'}
+          </button>
+        )}
+      </div>
+    </Panel>
+  );
+});
+
+TriggerTest.displayName = 'TriggerTest';
@@ -0,0 +1,28 @@
+/**
+ * VerdictBadge - Pass/warn/fail pill shared by guided tests
+ */
+
+import { memo } from 'react';
+
+import type { TestVerdict } from '@/types/diagnostics';
+
+type VerdictBadgeProps = {
+  verdict: TestVerdict;
+};
+
+const VERDICT_STYLES: Record<TestVerdict, { label: string; className: string }> = {
+  pass: { label: 'PASS', className: 'bg-emerald-500/20 text-emerald-300' },
+  warn: { label: 'WARN', className: 'bg-amber-500/20 text-amber-300' },
+  fail: { label: 'FAIL', className: 'bg-rose-500/20 text-rose-300' },
+};
+
+export const VerdictBadge = memo(function VerdictBadge({ verdict }: VerdictBadgeProps) {
+  const style = VERDICT_STYLES[verdict];
+  return (
+    <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${style.className}`}>
+      {style.label}
+    </span>
+  );
+});
+
+VerdictBadge.displayName = 'VerdictBadge';
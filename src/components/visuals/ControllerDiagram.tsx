@@ -0,0 +1,206 @@
+/**
+ * ControllerDiagram - SVG controller outline whose buttons, triggers and sticks light up live
+ */
+
+import { memo, type KeyboardEvent, type ReactNode } from 'react';
+
+import type { ControllerDiagramLayout, DiagramPart } from '@/types/diagram';
+import type { NormalizedGamepad, StickId } from '@/types/gamepad';
+import { getShortLabel } from '@/utils/buttonLayouts';
+import { getPartLabel, isPartActive, isPartReported, readPartValues } from '@/utils/diagramParts';
+
+type ControllerDiagramProps = {
+  layout: ControllerDiagramLayout;
+  gamepad?: NormalizedGamepad;
+  /** Configured inner dead zone per stick; sticks inside it stay unlit */
+  deadZones: Record<StickId, number>;
+  selectedId?: string;
+  onSelect: (part: DiagramPart) => void;
+};
+
+const IDLE_FILL = 'rgba(255,255,255,0.06)';
+const IDLE_STROKE = 'rgba(255,255,255,0.2)';
+const ACTIVE_FILL = 'rgb(139,92,246)';
+const ACTIVE_STICK_FILL = 'rgba(139,92,246,0.45)';
+const IDLE_THUMB_FILL = 'rgba(255,255,255,0.15)';
+const SELECTED_STROKE = 'rgb(251,191,36)';
+const STICK_TRAVEL = 0.6;
+// Parts smaller than this have no room for a label
+const MIN_LABEL_SIZE = 14;
+
+type DiagramPartShapeProps = {
+  part: DiagramPart;
+  gamepad?: NormalizedGamepad;
+  deadZones: Record<StickId, number>;
+  selected: boolean;
+  onSelect: (part: DiagramPart) => void;
+};
+
+const DiagramPartShape = memo(function DiagramPartShape({
+  part,
+  gamepad,
+  deadZones,
+  selected,
+  onSelect,
+}: DiagramPartShapeProps) {
+  const label = getPartLabel(part, gamepad);
+  const values = readPartValues(part, gamepad);
+  const active = isPartActive(part, gamepad, deadZones);
+  const stroke = selected ? SELECTED_STROKE : IDLE_STROKE;
+  const strokeWidth = selected ? 2 : 1;
+
+  const handleKeyDown = (event: KeyboardEvent<SVGGElement>): void => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onSelect(part);
+    }
+  };
+
+  let shape: ReactNode;
+  if (part.kind === 'stick') {
+    const [x, y] = values;
+    const clicked = gamepad?.buttons[part.buttonIndex]?.pressed ?? false;
+    const thumbFill = clicked ? ACTIVE_FILL : active ? ACTIVE_STICK_FILL : IDLE_THUMB_FILL;
+    shape = (
+      <>
+        <circle
+          cx={part.x}
+          cy={part.y}
+          r={part.radius}
+          fill={IDLE_FILL}
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+        />
+        <circle
+          cx={part.x + x * part.radius * STICK_TRAVEL}
+          cy={part.y + y * part.radius * STICK_TRAVEL}
+          r={part.radius * 0.45}
+          fill={thumbFill}
+        />
+      </>
+    );
+  } else if (part.kind === 'trigger') {
+    const left = part.x - part.width / 2;
+    const top = part.y - part.height / 2;
+    const fillHeight = part.height * Math.min(1, values[0]);
+    shape = (
+      <>
+        <rect
+          x={left}
+          y={top}
+          width={part.width}
+          height={part.height}
+          rx={6}
+          fill={IDLE_FILL}
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+        />
+        <rect
+          x={left}
+          y={top + part.height - fillHeight}
+          width={part.width}
+          height={fillHeight}
+          rx={6}
+          fill={ACTIVE_FILL}
+        />
+      </>
+    );
+  } else {
+    const fill = active ? ACTIVE_FILL : IDLE_FILL;
+    const fillOpacity = active ? 0.4 + 0.6 * Math.min(1, values[0]) : 1;
+    shape =
+      part.shape === 'circle' ? (
+        <circle
+          cx={part.x}
+          cy={part.y}
+          r={part.width / 2}
+          fill={fill}
+          fillOpacity={fillOpacity}
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+        />
+      ) : (
+        <rect
+          x={part.x - part.width / 2}
+          y={part.y - part.height / 2}
+          width={part.width}
+          height={part.height}
+          rx={3}
+          fill={fill}
+          fillOpacity={fillOpacity}
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+        />
+      );
+  }
+
+  const showText = part.kind !== 'stick' && Math.min(part.width, part.height) >= MIN_LABEL_SIZE;
+  const text = part.kind === 'button' && part.symbol ? part.symbol : getShortLabel(label);
+
+  return (
+    <g
+      role="button"
+      tabIndex={0}
+      aria-label={`${label}${active ? ' (active)' : ''}`}
+      aria-pressed={selected}
+      className="cursor-pointer focus:outline-none"
+      opacity={isPartReported(part, gamepad) ? 1 : 0.35}
+      onClick={() => onSelect(part)}
+      onKeyDown={handleKeyDown}
+    >
+      {shape}
+      {showText && (
+        <text
+          x={part.x}
+          y={part.y}
+          textAnchor="middle"
+          dominantBaseline="central"
+          fontSize={9}
+          fontWeight={600}
+          fill={active ? 'white' : 'rgba(255,255,255,0.6)'}
+          pointerEvents="none"
+        >
+          {text}
+        </text>
+      )}
+    </g>
+  );
+});
+
+DiagramPartShape.displayName = 'DiagramPartShape';
+
+export const ControllerDiagram = memo(function ControllerDiagram({
+  layout,
+  gamepad,
+  deadZones,
+  selectedId,
+  onSelect,
+}: ControllerDiagramProps) {
+  return (
+    <svg
+      className="h-auto w-full"
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      role="group"
+      aria-label={`${layout.family} controller diagram`}
+    >
+      <path
+        d={layout.outline}
+        fill="rgba(255,255,255,0.03)"
+        stroke="rgba(255,255,255,0.15)"
+        strokeWidth={1.5}
+      />
+      {layout.parts.map((part) => (
+        <DiagramPartShape
+          key={part.id}
+          part={part}
+          gamepad={gamepad}
+          deadZones={deadZones}
+          selected={part.id === selectedId}
+          onSelect={onSelect}
+        />
+      ))}
+    </svg>
+  );
+});
+
+ControllerDiagram.displayName = 'ControllerDiagram';
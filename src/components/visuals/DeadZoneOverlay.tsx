@@ -0,0 +1,66 @@
+/**
+ * DeadZoneOverlay - SVG outline of the inner dead zone shape and outer (anti-) dead zone
+ */
+
+import { memo } from 'react';
+
+import type { DeadZoneShape } from '@/types/gamepad';
+
+type DeadZoneOverlayProps = {
+  deadZone: number;
+  shape: DeadZoneShape;
+  outerDeadZone: number;
+  /** Highlight the inner region while the stick is filtered */
+  active?: boolean;
+  /** Fraction of the half-size that full deflection (1.0) maps to */
+  scale: number;
+};
+
+export const DeadZoneOverlay = memo(function DeadZoneOverlay({
+  deadZone,
+  shape,
+  outerDeadZone,
+  active = false,
+  scale,
+}: DeadZoneOverlayProps) {
+  const stroke = active ? 'rgba(167,139,250,0.6)' : 'rgba(255,255,255,0.2)';
+  const fill = active ? 'rgba(167,139,250,0.08)' : 'rgba(255,255,255,0.03)';
+  const inner = deadZone * scale;
+  const showCircle = shape !== 'axial' && deadZone > 0;
+  const showCross = (shape === 'axial' || shape === 'hybrid') && deadZone > 0;
+
+  return (
+    <svg
+      className="pointer-events-none absolute inset-0 h-full w-full"
+      viewBox="-1 -1 2 2"
+      aria-hidden="true"
+    >
+      {showCross && (
+        <>
+          <rect x={-inner} y={-scale} width={inner * 2} height={scale * 2} fill={fill} />
+          <rect x={-scale} y={-inner} width={scale * 2} height={inner * 2} fill={fill} />
+        </>
+      )}
+      {showCircle && (
+        <circle
+          r={inner}
+          fill={fill}
+          stroke={stroke}
+          strokeWidth={0.015}
+          strokeDasharray="0.04 0.03"
+        />
+      )}
+      {outerDeadZone > 0 && (
+        <circle
+          r={(1 - outerDeadZone) * scale}
+          fill="none"
+          stroke="rgba(251,191,36,0.4)"
+          strokeWidth={0.01}
+          strokeDasharray="0.04 0.03"
+        />
+      )}
+    </svg>
+  );
+});
+
+DeadZoneOverlay.displayName = 'DeadZoneOverlay';
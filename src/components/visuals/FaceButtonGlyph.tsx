@@ -0,0 +1,39 @@
+/**
+ * FaceButtonGlyph - PlayStation shape symbols or a text label for a face button cap
+ */
+
+import { memo } from 'react';
+
+import type { FaceButtonGlyph as Glyph } from '@/utils/buttonLayouts';
+
+type FaceButtonGlyphProps = {
+  glyph: Glyph;
+  label: string;
+};
+
+export const FaceButtonGlyph = memo(function FaceButtonGlyph({
+  glyph,
+  label,
+}: FaceButtonGlyphProps) {
+  if (glyph === 'label') return <>{label}</>;
+
+  return (
+    <svg
+      className="h-4 w-4"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2.5}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      {glyph === 'cross' && <path d="M5 5l14 14M19 5L5 19" />}
+      {glyph === 'circle' && <circle cx={12} cy={12} r={8} />}
+      {glyph === 'square' && <rect x={5} y={5} width={14} height={14} />}
+      {glyph === 'triangle' && <path d="M12 4l8.5 15h-17z" />}
+    </svg>
+  );
+});
+
+FaceButtonGlyph.displayName = 'FaceButtonGlyph';
@@ -0,0 +1,115 @@
+/**
+ * HapticEnvelopeGraph - Step plot of each motor channel over a pattern's timeline
+ */
+
+import { memo, useMemo } from 'react';
+
+import type { HapticChannel, HapticSegment } from '@/types/haptics';
+import { buildEnvelope, getPatternDuration, HAPTIC_CHANNELS } from '@/utils/hapticPattern';
+import { formatDuration } from '@/utils/formatting';
+
+type HapticEnvelopeGraphProps = {
+  segments: readonly HapticSegment[];
+  /** Playback position (ms) to mark, if playing */
+  playheadMs?: number;
+};
+
+const GRAPH_WIDTH = 400;
+const GRAPH_HEIGHT = 100;
+
+const toTimelineX = (t: number, durationMs: number): number =>
+  durationMs > 0 ? (t / durationMs) * GRAPH_WIDTH : 0;
+const toY = (value: number): number => (1 - value) * GRAPH_HEIGHT;
+
+const CHANNEL_STYLES: Record<HapticChannel, { label: string; color: string }> = {
+  weakMagnitude: { label: 'Weak', color: 'rgb(167,139,250)' },
+  strongMagnitude: { label: 'Strong', color: 'rgb(34,211,238)' },
+  leftTrigger: { label: 'LT', color: 'rgb(251,191,36)' },
+  rightTrigger: { label: 'RT', color: 'rgb(244,114,182)' },
+};
+
+export const HapticEnvelopeGraph = memo(function HapticEnvelopeGraph({
+  segments,
+  playheadMs,
+}: HapticEnvelopeGraphProps) {
+  const durationMs = getPatternDuration(segments);
+  const playheadX =
+    playheadMs !== undefined && durationMs > 0
+      ? toTimelineX(Math.min(playheadMs, durationMs), durationMs)
+      : undefined;
+
+  const paths = useMemo(
+    () =>
+      HAPTIC_CHANNELS.map((channel) => ({
+        channel,
+        points: buildEnvelope(segments, channel)
+          .map((point) => `${toTimelineX(point.t, durationMs)},${toY(point.value)}`)
+          .join(' '),
+      })),
+    [segments, durationMs],
+  );
+
+  return (
+    <div>
+      <div className="rounded-xl border border-white/5 bg-[#0a0a10] p-3">
+        <svg
+          className="h-32 w-full overflow-visible"
+          viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={`Haptic envelope, ${formatDuration(durationMs)} long`}
+        >
+          {[0.25, 0.5, 0.75].map((step) => (
+            <line
+              key={step}
+              x1={0}
+              y1={toY(step)}
+              x2={GRAPH_WIDTH}
+              y2={toY(step)}
+              stroke="rgba(255,255,255,0.05)"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {paths.map(({ channel, points }) => (
+            <polyline
+              key={channel}
+              points={points}
+              fill="none"
+              stroke={CHANNEL_STYLES[channel].color}
+              strokeWidth={1.5}
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {playheadX !== undefined && (
+            <line
+              x1={playheadX}
+              y1={0}
+              x2={playheadX}
+              y2={GRAPH_HEIGHT}
+              stroke="white"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      </div>
+      <div className="mt-2 flex items-center justify-between text-xs text-white/40">
+        <div className="flex gap-3">
+          {HAPTIC_CHANNELS.map((channel) => (
+            <span key={channel} className="flex items-center gap-1">
+              <span
+                className="inline-block h-2 w-2 rounded-full"
+                style={{ backgroundColor: CHANNEL_STYLES[channel].color }}
+              />
+              {CHANNEL_STYLES[channel].label}
+            </span>
+          ))}
+        </div>
+        <span className="font-mono">{formatDuration(durationMs)}</span>
+      </div>
+    </div>
+  );
+});
+
+HapticEnvelopeGraph.displayName = 'HapticEnvelopeGraph';
@@ -0,0 +1,113 @@
+/**
+ * ResponseCurveGraph - Input vs. output plot of a response curve with a live input marker
+ */
+
+import { memo, useMemo } from 'react';
+
+import type { ResponseCurve } from '@/types/gamepad';
+import { evaluateCurve, sampleCurve } from '@/utils/responseCurve';
+
+type ResponseCurveGraphProps = {
+  curve: ResponseCurve;
+  /** Current input magnitude (0-1) to mark on the curve */
+  input?: number;
+  label: string;
+};
+
+const GRAPH_SIZE = 100;
+const GRID_STEPS = [0.25, 0.5, 0.75];
+
+// Graph space has output increasing upward
+const toX = (input: number): number => input * GRAPH_SIZE;
+const toY = (output: number): number => (1 - output) * GRAPH_SIZE;
+
+export const ResponseCurveGraph = memo(function ResponseCurveGraph({
+  curve,
+  input,
+  label,
+}: ResponseCurveGraphProps) {
+  const path = useMemo(
+    () =>
+      sampleCurve(curve)
+        .map((point) => `${toX(point.input)},${toY(point.output)}`)
+        .join(' '),
+    [curve],
+  );
+  const marker =
+    input !== undefined
+      ? { x: toX(Math.min(1, input)), y: toY(evaluateCurve(curve, input)) }
+      : undefined;
+
+  return (
+    <div className="relative aspect-square w-full rounded-xl border border-white/5 bg-[#0a0a10] p-3">
+      <svg
+        className="h-full w-full overflow-visible"
+        viewBox={`0 0 ${GRAPH_SIZE} ${GRAPH_SIZE}`}
+        role="img"
+        aria-label={`${label} response curve`}
+      >
+        {GRID_STEPS.map((step) => (
+          <g key={step} stroke="rgba(255,255,255,0.05)" strokeWidth={0.5}>
+            <line x1={toX(step)} y1={0} x2={toX(step)} y2={GRAPH_SIZE} />
+            <line x1={0} y1={toY(step)} x2={GRAPH_SIZE} y2={toY(step)} />
+          </g>
+        ))}
+        <rect
+          width={GRAPH_SIZE}
+          height={GRAPH_SIZE}
+          fill="none"
+          stroke="rgba(255,255,255,0.1)"
+          strokeWidth={0.5}
+        />
+
+        {/* Identity reference */}
+        <line
+          x1={0}
+          y1={GRAPH_SIZE}
+          x2={GRAPH_SIZE}
+          y2={0}
+          stroke="rgba(255,255,255,0.15)"
+          strokeWidth={0.75}
+          strokeDasharray="2 2"
+        />
+
+        <polyline
+          points={path}
+          fill="none"
+          stroke="rgb(167,139,250)"
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+        />
+
+        {curve.type === 'piecewise' &&
+          curve.points.map((point, index) => (
+            <circle
+              key={index}
+              cx={toX(point.input)}
+              cy={toY(point.output)}
+              r={2}
+              fill="rgb(34,211,238)"
+            />
+          ))}
+
+        {marker && (
+          <>
+            <line
+              x1={marker.x}
+              y1={GRAPH_SIZE}
+              x2={marker.x}
+              y2={marker.y}
+              stroke="rgba(251,191,36,0.4)"
+              strokeWidth={0.5}
+            />
+            <circle cx={marker.x} cy={marker.y} r={2.5} fill="rgb(251,191,36)" />
+          </>
+        )}
+      </svg>
+      <span className="absolute bottom-1 right-3 text-[10px] text-white/30">Input</span>
+      <span className="absolute left-3 top-1 text-[10px] text-white/30">Output</span>
+    </div>
+  );
+});
+
+ResponseCurveGraph.displayName = 'ResponseCurveGraph';
@@ -0,0 +1,158 @@
+/**
+ * StickVisualizer - Analog stick position with dead zone output and optional boundary overlay
+ */
+
+import { memo } from 'react';
+import { motion } from 'framer-motion';
+
+import { Panel } from '@/components/Panel';
+import { DeadZoneOverlay } from '@/components/visuals/DeadZoneOverlay';
+import { processStick } from '@/utils/responseCurve';
+import type { BoundaryPoint } from '@/utils/circularity';
+import type { DeadZoneShape, ResponseCurve } from '@/types/gamepad';
+import {
+  DEFAULT_DEAD_ZONE_SHAPE,
+  DEFAULT_OUTER_DEAD_ZONE,
+  DEFAULT_RESPONSE_CURVE,
+} from '@/lib/constants';
+
+type StickVisualizerProps = {
+  label: string;
+  x: number;
+  y: number;
+  deadZone: number;
+  deadZoneShape?: DeadZoneShape;
+  outerDeadZone?: number;
+  responseCurve?: ResponseCurve;
+  /** Optional traced outer boundary (stick-space points) drawn over the stick area */
+  boundary?: readonly BoundaryPoint[];
+};
+
+// Full deflection (1.0) maps to 45% of the container, i.e. 0.9 of the SVG half-size
+const OVERLAY_SCALE = 0.9;
+
+export const StickVisualizer = memo(function StickVisualizer({
+  label,
+  x,
+  y,
+  deadZone,
+  deadZoneShape = DEFAULT_DEAD_ZONE_SHAPE,
+  outerDeadZone = DEFAULT_OUTER_DEAD_ZONE,
+  responseCurve = DEFAULT_RESPONSE_CURVE,
+  boundary,
+}: StickVisualizerProps) {
+  const magnitude = Math.sqrt(x * x + y * y);
+  const output = processStick(x, y, deadZone, deadZoneShape, outerDeadZone, responseCurve);
+  const isInDeadZone = output.magnitude === 0;
+  const percentMag = Math.round(Math.min(magnitude, 1) * 100);
+
+  // Calculate position as percentages - the indicator moves within 45% of the container radius
+  // Using calc() to properly center the 32px (2rem) indicator
+  const indicatorStyle = {
+    left: `calc(50% + ${x * 45}%)`,
+    top: `calc(50% + ${y * 45}%)`,
+  };
+
+  return (
+    <Panel>
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="font-medium text-white">{label}</h3>
+        <span className="text-sm text-white/50">{percentMag}%</span>
+      </div>
+      <div className="mb-2 flex gap-4 font-mono text-sm">
+        <span className="text-white/50">
+          X: <span className="text-amber-400">{x.toFixed(2)}</span>
+        </span>
+        <span className="text-white/50">
+          Y: <span className="text-amber-400">{y.toFixed(2)}</span>
+        </span>
+        <span className="ml-auto text-white/50">
+          Out:{' '}
+          <span className="text-white">
+            ({output.x.toFixed(2)}, {output.y.toFixed(2)})
+          </span>
+        </span>
+      </div>
+
+      {/* Stick visualization */}
+      <div className="relative mx-auto aspect-square w-full max-w-[280px]">
+        {/* Background */}
+        <div className="absolute inset-0 rounded-2xl border border-white/10 bg-[#0a0a10]" />
+
+        {/* Grid lines */}
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="h-px w-full bg-white/5" />
+        </div>
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="h-full w-px bg-white/5" />
+        </div>
+
+        {/* Dead zone shape */}
+        <DeadZoneOverlay
+          deadZone={deadZone}
+          shape={deadZoneShape}
+          outerDeadZone={outerDeadZone}
+          scale={OVERLAY_SCALE}
+        />
+
+        {/* Traced outer boundary vs. ideal unit circle */}
+        {boundary && (
+          <svg
+            className="pointer-events-none absolute inset-0 h-full w-full"
+            viewBox="-1 -1 2 2"
+            aria-hidden="true"
+          >
+            <circle
+              r={OVERLAY_SCALE}
+              fill="none"
+              stroke="rgba(255,255,255,0.2)"
+              strokeWidth={0.01}
+              strokeDasharray="0.03 0.03"
+            />
+            {boundary.length > 1 && (
+              <polygon
+                points={boundary
+                  .map((point) => `${point.x * OVERLAY_SCALE},${point.y * OVERLAY_SCALE}`)
+                  .join(' ')}
+                fill="rgba(34,211,238,0.08)"
+                stroke="rgb(34,211,238)"
+                strokeWidth={0.015}
+                strokeLinejoin="round"
+              />
+            )}
+          </svg>
+        )}
+
+        {/* Position indicator - using margin offset to center the 32px element */}
+        <motion.div
+          className={`absolute h-8 w-8 rounded-full shadow-lg ${
+            isInDeadZone
+              ? 'bg-amber-500 shadow-amber-500/40'
+              : 'bg-gradient-to-br from-violet-400 to-cyan-400 shadow-violet-500/40'
+          }`}
+          style={{
+            ...indicatorStyle,
+            marginLeft: '-1rem', // -16px = half of 32px width
+            marginTop: '-1rem', // -16px = half of 32px height
+          }}
+          animate={{ scale: isInDeadZone ? 0.85 : 1 }}
+          transition={{ type: 'spring', stiffness: 400, damping: 30 }}
+        />
+      </div>
+
+      {/* Legend */}
+      <div className="mt-4 flex items-center justify-center gap-6 text-xs text-white/50">
+        <div className="flex items-center gap-2">
+          <span className="h-2 w-2 rounded-full bg-amber-500" />
+          <span>Dead Zone</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="h-2 w-2 rounded-full bg-gradient-to-br from-violet-400 to-cyan-400" />
+          <span>Active</span>
+        </div>
+      </div>
+    </Panel>
+  );
+});
+
+StickVisualizer.displayName = 'StickVisualizer';
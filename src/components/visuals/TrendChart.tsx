@@ -0,0 +1,118 @@
+/**
+ * TrendChart - One or more measurements plotted across stored runs
+ */
+
+import { memo, useMemo } from 'react';
+
+import type { TrendPoint } from '@/types/history';
+
+export type TrendSeries = {
+  label: string;
+  color: string;
+  points: readonly TrendPoint[];
+};
+
+type TrendChartProps = {
+  label: string;
+  series: readonly TrendSeries[];
+  formatValue: (value: number) => string;
+};
+
+const GRAPH_WIDTH = 400;
+const GRAPH_HEIGHT = 100;
+
+export const TrendChart = memo(function TrendChart({
+  label,
+  series,
+  formatValue,
+}: TrendChartProps) {
+  const bounds = useMemo(() => {
+    const points = series.flatMap((line) => line.points);
+    if (points.length === 0) return undefined;
+    const times = points.map((point) => point.t);
+    return {
+      start: Math.min(...times),
+      end: Math.max(...times),
+      // Anchor at zero so small fluctuations don't look like large swings
+      max: Math.max(...points.map((point) => point.value)) || 1,
+    };
+  }, [series]);
+
+  const polylines = useMemo(() => {
+    if (!bounds) return [];
+    const span = bounds.end - bounds.start;
+    // A single run is drawn in the middle of the chart
+    const toX = (t: number): number =>
+      span > 0 ? ((t - bounds.start) / span) * GRAPH_WIDTH : GRAPH_WIDTH / 2;
+    const toY = (value: number): number => (1 - value / bounds.max) * GRAPH_HEIGHT;
+    return series.map((line) => ({
+      ...line,
+      coordinates: line.points.map((point) => ({ x: toX(point.t), y: toY(point.value) })),
+    }));
+  }, [series, bounds]);
+
+  return (
+    <div className="rounded-xl border border-white/5 bg-[#0a0a10] p-3">
+      <div className="mb-2 flex items-center justify-between text-xs">
+        <span className="text-white/60">{label}</span>
+        <div className="flex gap-3">
+          {series.map((line) => {
+            const last = line.points[line.points.length - 1];
+            return (
+              <span key={line.label} className="font-mono" style={{ color: line.color }}>
+                {line.label} {last ? formatValue(last.value) : '—'}
+              </span>
+            );
+          })}
+        </div>
+      </div>
+      {bounds ? (
+        <>
+          <svg
+            className="h-24 w-full overflow-visible"
+            viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+            preserveAspectRatio="none"
+            role="img"
+            aria-label={`${label} across runs`}
+          >
+            {[0.25, 0.5, 0.75].map((step) => (
+              <line
+                key={step}
+                x1={0}
+                y1={step * GRAPH_HEIGHT}
+                x2={GRAPH_WIDTH}
+                y2={step * GRAPH_HEIGHT}
+                stroke="rgba(255,255,255,0.05)"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {polylines.map((line) => (
+              <g key={line.label}>
+                <polyline
+                  points={line.coordinates.map(({ x, y }) => `${x},${y}`).join(' ')}
+                  fill="none"
+                  stroke={line.color}
+                  strokeWidth={1.5}
+                  strokeLinejoin="round"
+                  vectorEffect="non-scaling-stroke"
+                />
+                {line.coordinates.map(({ x, y }, index) => (
+                  <circle key={index} cx={x} cy={y} r={2} fill={line.color} />
+                ))}
+              </g>
+            ))}
+          </svg>
+          <div className="mt-1 flex justify-between text-[10px] text-white/30">
+            <span>{new Date(bounds.start).toLocaleDateString()}</span>
+            <span>max {formatValue(bounds.max)}</span>
+            <span>{new Date(bounds.end).toLocaleDateString()}</span>
+          </div>
+        </>
+      ) : (
+        <p className="py-8 text-center text-xs text-white/30">No runs recorded yet</p>
+      )}
+    </div>
+  );
+});
+
+TrendChart.displayName = 'TrendChart';
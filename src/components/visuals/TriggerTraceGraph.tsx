@@ -0,0 +1,101 @@
+/**
+ * TriggerTraceGraph - Trigger value over time with the actuation point and glitches marked
+ */
+
+import { memo, useMemo } from 'react';
+
+import type { TriggerGlitch } from '@/types/diagnostics';
+import type { TriggerSample } from '@/utils/triggerAnalysis';
+
+type TriggerTraceGraphProps = {
+  label: string;
+  samples: readonly TriggerSample[];
+  actuationPoint?: number;
+  glitches?: readonly TriggerGlitch[];
+};
+
+const GRAPH_WIDTH = 400;
+const GRAPH_HEIGHT = 100;
+
+const toX = (t: number, durationMs: number): number =>
+  durationMs > 0 ? (t / durationMs) * GRAPH_WIDTH : 0;
+const toY = (value: number): number => (1 - value) * GRAPH_HEIGHT;
+
+export const TriggerTraceGraph = memo(function TriggerTraceGraph({
+  label,
+  samples,
+  actuationPoint,
+  glitches = [],
+}: TriggerTraceGraphProps) {
+  const durationMs = samples.length > 0 ? samples[samples.length - 1].t : 0;
+
+  const points = useMemo(
+    () => samples.map((sample) => `${toX(sample.t, durationMs)},${toY(sample.value)}`).join(' '),
+    [samples, durationMs],
+  );
+
+  return (
+    <div className="rounded-xl border border-white/5 bg-[#0a0a10] p-3">
+      <div className="mb-2 flex items-center justify-between text-xs">
+        <span className="text-white/60">{label}</span>
+        {actuationPoint !== undefined && (
+          <span className="font-mono text-amber-300">
+            pressed at {Math.round(actuationPoint * 100)}%
+          </span>
+        )}
+      </div>
+      <svg
+        className="h-24 w-full overflow-visible"
+        viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`${label} value over time`}
+      >
+        {[0.25, 0.5, 0.75].map((step) => (
+          <line
+            key={step}
+            x1={0}
+            y1={toY(step)}
+            x2={GRAPH_WIDTH}
+            y2={toY(step)}
+            stroke="rgba(255,255,255,0.05)"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {actuationPoint !== undefined && (
+          <line
+            x1={0}
+            y1={toY(actuationPoint)}
+            x2={GRAPH_WIDTH}
+            y2={toY(actuationPoint)}
+            stroke="rgb(251,191,36)"
+            strokeDasharray="4 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        <polyline
+          points={points}
+          fill="none"
+          stroke="rgb(167,139,250)"
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+        {glitches.map((glitch) => (
+          <line
+            key={`${glitch.at}-${glitch.kind}`}
+            x1={toX(glitch.at, durationMs)}
+            y1={toY(glitch.from)}
+            x2={toX(glitch.at, durationMs)}
+            y2={toY(glitch.to)}
+            stroke="rgb(244,63,94)"
+            strokeWidth={3}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+    </div>
+  );
+});
+
+TriggerTraceGraph.displayName = 'TriggerTraceGraph';
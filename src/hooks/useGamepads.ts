@@ -1,13 +1,18 @@
 /**
  * useGamepads - Hook for polling gamepad state with optimizations
  * Uses requestAnimationFrame with idle detection to reduce CPU usage
+ * Sources, in priority order: session replay, simulation, live Gamepad API
+ * An optional high-frequency sampler feeds analysis/recording between frames
  */
 
 import { useEffect, useRef } from 'react';
 
 import { useControllerStore } from '@/state/controllerSlice';
 import { usePreferencesStore } from '@/state/preferencesSlice';
+import { useRecordingStore } from '@/state/recordingSlice';
+import { useReplayStore } from '@/state/replaySlice';
 import { getVirtualGamepad } from '@/simulators/virtualGamepad';
+import { getReplayFrame } from '@/simulators/replaySource';
 import { normalizeGamepad } from '@/utils/gamepadMapping';
 import {
   isGamepadApiSupported,
@@ -15,13 +20,28 @@ import {
   onGamepadDisconnected,
   getGamepads,
 } from '@/services/gamepadService';
-import { IDLE_POLL_INTERVAL_MS } from '@/lib/constants';
+import { startHighFrequencySampler } from '@/services/samplerService';
+import { recordButtonStates } from '@/lib/chatterMonitor';
+import { recordReportTimestamp } from '@/lib/reportRateMonitor';
+import { pushSamples } from '@/lib/sampleBuffer';
+import { IDLE_POLL_INTERVAL_MS, MAX_REPLAY_TICK_MS } from '@/lib/constants';
+import type { NormalizedGamepad } from '@/types/gamepad';
 
 export const useGamepads = (): void => {
   const patchControllers = useControllerStore((state) => state.patchControllers);
+  const replaceControllers = useControllerStore((state) => state.replaceControllers);
   const pruneDisconnected = useControllerStore((state) => state.pruneDisconnected);
+  const clearControllers = useControllerStore((state) => state.clearControllers);
   const controllers = useControllerStore((state) => state.controllers);
   const simulationMode = usePreferencesStore((state) => state.simulationMode);
+  const simulationScenario = usePreferencesStore((state) => state.simulationScenario);
+  const simulationSeed = usePreferencesStore((state) => state.simulationSeed);
+  const samplerMode = usePreferencesStore((state) => state.samplerMode);
+  const samplerRateHz = usePreferencesStore((state) => state.samplerRateHz);
+  const captureFrame = useRecordingStore((state) => state.captureFrame);
+  const captureEvent = useRecordingStore((state) => state.captureEvent);
+  const isReplaying = useReplayStore((state) => state.session !== undefined);
+  const hasConnectedPads = useControllerStore((state) => Object.keys(state.controllers).length > 0);
 
   // Refs for RAF management
   const rafIdRef = useRef<number | undefined>(undefined);
@@ -33,9 +53,23 @@ export const useGamepads = (): void => {
     hasControllersRef.current = Object.keys(controllers).length > 0;
   }, [controllers]);
 
+  // Live and replayed controllers must never be mixed in the store
+  useEffect(() => {
+    clearControllers();
+  }, [isReplaying, clearControllers]);
+
   // Main polling loop with idle optimization
   useEffect(() => {
     let isActive = true;
+    // Scenarios play from their start whenever the loop restarts
+    const simulationStart = performance.now();
+
+    const trackReports = (pads: NormalizedGamepad[]): void => {
+      pads.forEach((pad) => {
+        recordReportTimestamp(pad.slot, pad.timestamp);
+        recordButtonStates(pad.slot, pad.timestamp, pad.buttons);
+      });
+    };
 
     const tick = (currentTime: number): void => {
       if (!isActive) return;
@@ -44,19 +78,42 @@ export const useGamepads = (): void => {
       const timeSinceLastPoll = currentTime - lastPollTimeRef.current;
 
       // If no controllers and not in simulation mode, poll less frequently
-      if (!hasControllers && !simulationMode && timeSinceLastPoll < IDLE_POLL_INTERVAL_MS) {
+      if (
+        !hasControllers &&
+        !simulationMode &&
+        !isReplaying &&
+        timeSinceLastPoll < IDLE_POLL_INTERVAL_MS
+      ) {
         rafIdRef.current = requestAnimationFrame(tick);
         return;
       }
 
       lastPollTimeRef.current = currentTime;
 
-      if (simulationMode || !isGamepadApiSupported()) {
-        const virtualPad = getVirtualGamepad(performance.now());
+      if (isReplaying) {
+        // Clamp the delta so a throttled tab doesn't skip half the session
+        useReplayStore.getState().advance(Math.min(timeSinceLastPoll, MAX_REPLAY_TICK_MS));
+        const { session, positionMs } = useReplayStore.getState();
+        if (session) {
+          const frame = getReplayFrame(session, positionMs);
+          trackReports(frame);
+          // Pads that disconnected mid-recording or are absent after a seek must disappear
+          replaceControllers(frame);
+        }
+      } else if (simulationMode || !isGamepadApiSupported()) {
+        const virtualPad = getVirtualGamepad(
+          performance.now() - simulationStart,
+          simulationScenario,
+          simulationSeed,
+        );
+        trackReports([virtualPad]);
         patchControllers([virtualPad]);
+        captureFrame([virtualPad]);
       } else {
         const pads = getGamepads();
         const normalized = pads.map(normalizeGamepad);
+        trackReports(normalized);
+        captureFrame(normalized);
 
         if (normalized.length > 0) {
           patchControllers(normalized);
@@ -77,19 +134,60 @@ export const useGamepads = (): void => {
         cancelAnimationFrame(rafIdRef.current);
       }
     };
-  }, [patchControllers, pruneDisconnected, simulationMode]);
+  }, [
+    patchControllers,
+    replaceControllers,
+    pruneDisconnected,
+    captureFrame,
+    simulationMode,
+    simulationScenario,
+    simulationSeed,
+    isReplaying,
+  ]);
+
+  // High-frequency sampler - runs alongside the RAF loop, which keeps driving renders
+  // Only while a pad is connected: with nothing to sample, the loop would just burn CPU
+  useEffect(() => {
+    if (samplerMode !== 'highFrequency' || simulationMode || isReplaying || !hasConnectedPads) {
+      return;
+    }
+
+    const lastTimestamps = new Map<number, number>();
+
+    return startHighFrequencySampler(samplerRateHz, (gamepads, sampleTime) => {
+      const freshSlots = gamepads
+        .filter((pad) => lastTimestamps.get(pad.index) !== pad.timestamp)
+        .map((pad) => pad.index);
+      if (freshSlots.length === 0) return;
+
+      const normalized = gamepads.map(normalizeGamepad);
+      normalized.forEach((pad) => {
+        lastTimestamps.set(pad.slot, pad.timestamp);
+        recordReportTimestamp(pad.slot, pad.timestamp);
+        recordButtonStates(pad.slot, pad.timestamp, pad.buttons);
+      });
+      captureFrame(normalized);
+      pushSamples(
+        normalized
+          .filter((pad) => freshSlots.includes(pad.slot))
+          .map((gamepad) => ({ sampleTime, gamepad })),
+      );
+    });
+  }, [samplerMode, samplerRateHz, simulationMode, isReplaying, hasConnectedPads, captureFrame]);
 
   // Event listeners for connection/disconnection
   useEffect(() => {
-    if (!isGamepadApiSupported() || simulationMode) return;
+    if (!isGamepadApiSupported() || simulationMode || isReplaying) return;
 
     const handleConnect = (gamepad: Gamepad): void => {
       const normalized = normalizeGamepad(gamepad);
       patchControllers([normalized]);
+      captureEvent('connected', normalized.slot, normalized.id);
     };
 
-    const handleDisconnect = (): void => {
+    const handleDisconnect = (gamepadIndex: number): void => {
       pruneDisconnected();
+      captureEvent('disconnected', gamepadIndex);
     };
 
     const unsubConnect = onGamepadConnected(handleConnect);
@@ -99,5 +197,5 @@ export const useGamepads = (): void => {
       unsubConnect();
       unsubDisconnect();
     };
-  }, [patchControllers, pruneDisconnected, simulationMode]);
+  }, [patchControllers, pruneDisconnected, captureEvent, simulationMode, isReplaying]);
 };
@@ -0,0 +1,55 @@
+/**
+ * useHistoryRecorder - Stores every completed guided test in the local history
+ * Also prunes runs that fall outside the retention period
+ */
+
+import { useEffect } from 'react';
+
+import { useControllerStore } from '@/state/controllerSlice';
+import { useDiagnosticsStore } from '@/state/diagnosticsSlice';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import { useReplayStore } from '@/state/replaySlice';
+import { getReportRateStats } from '@/lib/reportRateMonitor';
+import { addHistoryEntry, deleteHistoryBefore } from '@/services/historyService';
+import { createHistoryEntry, getRetentionCutoff } from '@/utils/history';
+import type { DiagnosticResults } from '@/types/diagnostics';
+import type { HistoryTestKey } from '@/types/history';
+
+const pruneHistory = async (retentionDays: number): Promise<void> => {
+  const cutoff = getRetentionCutoff(retentionDays);
+  if (cutoff !== undefined) await deleteHistoryBefore(cutoff);
+};
+
+const recordRun = async <K extends HistoryTestKey>(
+  test: K,
+  result: NonNullable<DiagnosticResults[K]>,
+): Promise<void> => {
+  const pad = Object.values(useControllerStore.getState().controllers).find(
+    (candidate) => candidate.id === result.controllerId,
+  );
+  const reportRate = pad ? getReportRateStats(pad.slot) : undefined;
+  await addHistoryEntry(createHistoryEntry(test, result, reportRate));
+};
+
+export const useHistoryRecorder = (): void => {
+  const retentionDays = usePreferencesStore((state) => state.historyRetentionDays);
+
+  useEffect(() => {
+    void pruneHistory(retentionDays);
+  }, [retentionDays]);
+
+  useEffect(() => {
+    return useDiagnosticsStore.subscribe((state, prev) => {
+      // Results computed from a replayed session or the simulator don't describe a physical run
+      if (useReplayStore.getState().session !== undefined) return;
+      if (usePreferencesStore.getState().simulationMode) return;
+
+      (Object.keys(state.results) as HistoryTestKey[]).forEach((test) => {
+        const result = state.results[test];
+        if (result && result !== prev.results[test]) {
+          void recordRun(test, result);
+        }
+      });
+    });
+  }, []);
+};
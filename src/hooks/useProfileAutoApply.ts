@@ -0,0 +1,26 @@
+/**
+ * useProfileAutoApply - Activates the calibration profile bound to the active controller
+ * Runs when the active controller's identity changes (connect, disconnect, slot switch)
+ */
+
+import { useEffect } from 'react';
+
+import { useControllerStore } from '@/state/controllerSlice';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import { useReplayStore } from '@/state/replaySlice';
+import { getControllerKey } from '@/utils/controllerIdentity';
+
+export const useProfileAutoApply = (): void => {
+  const activeControllerId = useControllerStore((state) => {
+    const slot = state.activeSlot;
+    return slot !== undefined ? state.controllers[slot]?.id : undefined;
+  });
+  const applyProfileForController = usePreferencesStore((state) => state.applyProfileForController);
+  // Replayed sessions should not switch the user's calibration
+  const isReplaying = useReplayStore((state) => state.session !== undefined);
+
+  useEffect(() => {
+    if (!activeControllerId || isReplaying) return;
+    applyProfileForController(getControllerKey(activeControllerId));
+  }, [activeControllerId, isReplaying, applyProfileForController]);
+};
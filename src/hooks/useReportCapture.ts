@@ -0,0 +1,34 @@
+/**
+ * useReportCapture - Snapshot a controller's diagnostic report from the current session
+ * Reads stores and monitors at call time so callers don't re-render on every change
+ */
+
+import { useCallback } from 'react';
+
+import { useDiagnosticsStore } from '@/state/diagnosticsSlice';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import { getBrowserCompatibility } from '@/services/gamepadService';
+import { getReportRateStats } from '@/lib/reportRateMonitor';
+import { buildDiagnosticReport, pickReportPreferences } from '@/utils/diagnosticReport';
+import type { DiagnosticResults } from '@/types/diagnostics';
+import type { NormalizedGamepad } from '@/types/gamepad';
+import type { DiagnosticReport } from '@/types/report';
+
+export type ReportCapture = (
+  controller: NormalizedGamepad,
+  results?: DiagnosticResults,
+) => DiagnosticReport;
+
+export const useReportCapture = (): ReportCapture => {
+  return useCallback<ReportCapture>(
+    (controller, results = useDiagnosticsStore.getState().results) =>
+      buildDiagnosticReport({
+        controller,
+        browser: { ...getBrowserCompatibility(), userAgent: navigator.userAgent },
+        preferences: pickReportPreferences(usePreferencesStore.getState()),
+        results,
+        reportRate: getReportRateStats(controller.slot),
+      }),
+    [],
+  );
+};
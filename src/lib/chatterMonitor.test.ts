@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import type { ButtonReading } from '@/types/gamepad';
+import { BUTTON } from '@/utils/buttonConstants';
+import { getChatterStats, recordButtonStates, resetChatter } from './chatterMonitor';
+
+const buttons = (...pressed: boolean[]): ButtonReading[] =>
+  pressed.map((isPressed, index) => ({
+    index,
+    label: `Button ${index + 1}`,
+    pressed: isPressed,
+    value: isPressed ? 1 : 0,
+  }));
+
+describe('chatterMonitor', () => {
+  beforeEach(() => {
+    resetChatter();
+  });
+
+  it('tracks bounces per button', () => {
+    recordButtonStates(0, 0, buttons(false, false));
+    recordButtonStates(0, 10, buttons(true, false));
+    recordButtonStates(0, 60, buttons(false, true));
+    recordButtonStates(0, 64, buttons(true, true));
+
+    const stats = getChatterStats(0);
+    expect(stats.map((button) => [button.index, button.chatterCount])).toEqual([
+      [0, 1],
+      [1, 0],
+    ]);
+  });
+
+  it('ignores analog triggers toggling around the press threshold', () => {
+    const trigger = (pressed: boolean): ButtonReading[] => [
+      { index: BUTTON.LT, label: 'LT', pressed, value: pressed ? 0.51 : 0.49 },
+    ];
+    [false, true, false, true, false, true].forEach((pressed, step) =>
+      recordButtonStates(0, step * 2, trigger(pressed)),
+    );
+    expect(getChatterStats(0)).toEqual([]);
+  });
+
+  it('does not count edges from stale reports', () => {
+    recordButtonStates(0, 100, buttons(true));
+    recordButtonStates(0, 150, buttons(false));
+    recordButtonStates(0, 40, buttons(true));
+    recordButtonStates(0, 155, buttons(true));
+    expect(getChatterStats(0)).toEqual([]);
+  });
+
+  it('tracks slots independently', () => {
+    recordButtonStates(0, 0, buttons(false));
+    recordButtonStates(0, 10, buttons(true));
+    recordButtonStates(1, 0, buttons(false));
+    recordButtonStates(1, 10, buttons(true));
+    resetChatter(0);
+    expect(getChatterStats(0)).toEqual([]);
+    expect(getChatterStats(1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Chatter monitor
+ * Tracks button edges per controller slot using report timestamps.
+ * Fed directly from the polling pipeline (and the high-frequency sampler when enabled),
+ * so bounces between display frames are caught when the sampler is fast enough.
+ */
+
+import type { ButtonReading } from '@/types/gamepad';
+import { BUTTON } from '@/utils/buttonConstants';
+import {
+  createEdgeTracker,
+  getButtonChatterStats,
+  updateEdgeTracker,
+  type ButtonChatterStats,
+  type ButtonEdgeTracker,
+} from '@/utils/buttonChatter';
+
+type SlotTracker = {
+  lastTimestamp: number;
+  buttons: Map<number, ButtonEdgeTracker>;
+};
+
+const trackers = new Map<number, SlotTracker>();
+
+/**
+ * Analog triggers report `pressed` from a value threshold, so a trigger resting near it
+ * toggles without any switch bouncing
+ */
+const ANALOG_BUTTONS: ReadonlySet<number> = new Set([BUTTON.LT, BUTTON.RT]);
+
+/**
+ * Record the button states of the latest report for a slot
+ * Reports older than the last one seen (replay seeks, late polls) only resync state
+ */
+export const recordButtonStates = (
+  slot: number,
+  timestamp: number,
+  buttons: readonly ButtonReading[],
+): void => {
+  let tracker = trackers.get(slot);
+  if (!tracker) {
+    tracker = { lastTimestamp: timestamp, buttons: new Map() };
+    trackers.set(slot, tracker);
+  }
+
+  const isStale = timestamp < tracker.lastTimestamp;
+  tracker.lastTimestamp = timestamp;
+
+  buttons.forEach((button) => {
+    if (ANALOG_BUTTONS.has(button.index)) return;
+    const edges = tracker.buttons.get(button.index);
+    if (!edges) {
+      tracker.buttons.set(button.index, createEdgeTracker(button.pressed, timestamp));
+    } else if (isStale) {
+      edges.pressed = button.pressed;
+    } else {
+      updateEdgeTracker(edges, button.pressed, timestamp);
+    }
+  });
+};
+
+/**
+ * Chatter statistics for every button of a slot that has been pressed
+ */
+export const getChatterStats = (slot: number): ButtonChatterStats[] => {
+  const tracker = trackers.get(slot);
+  if (!tracker) return [];
+  return [...tracker.buttons.entries()]
+    .filter(([, edges]) => edges.pressCount > 0)
+    .map(([index, edges]) => getButtonChatterStats(index, edges))
+    .sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Clear tracked edges for one slot, or all slots when omitted
+ */
+export const resetChatter = (slot?: number): void => {
+  if (slot === undefined) {
+    trackers.clear();
+  } else {
+    trackers.delete(slot);
+  }
+};
@@ -3,6 +3,8 @@
  * Only includes constants that are actually used in the codebase.
  */
 
+import type { CurveTarget, DeadZoneShape, ResponseCurve, ResponseCurveType } from '@/types/gamepad';
+
 // ============================================================================
 // Dead Zone & Calibration
 // ============================================================================
@@ -16,6 +18,78 @@ export const MAX_DEAD_ZONE = 0.5;
 /** Minimum dead zone (0 = no dead zone) */
 export const MIN_DEAD_ZONE = 0;
 
+/** Upper bound of the dead zone sliders */
+export const DEAD_ZONE_SLIDER_MAX = 0.35;
+
+/** Default dead zone shape (matches the original single-value behavior) */
+export const DEFAULT_DEAD_ZONE_SHAPE: DeadZoneShape = 'scaledRadial';
+
+/** Default outer (anti-) dead zone - deflection beyond 1 - value reports as full */
+export const DEFAULT_OUTER_DEAD_ZONE = 0;
+
+/** Maximum outer dead zone */
+export const MAX_OUTER_DEAD_ZONE = 0.3;
+
+/** Selectable dead zone shapes */
+export const DEAD_ZONE_SHAPE_OPTIONS: readonly {
+  shape: DeadZoneShape;
+  label: string;
+  description: string;
+}[] = [
+  { shape: 'scaledRadial', label: 'Scaled Radial', description: 'Circle, rescaled output' },
+  { shape: 'radial', label: 'Radial', description: 'Circle, raw output' },
+  { shape: 'axial', label: 'Axial', description: 'Per-axis cross' },
+  { shape: 'hybrid', label: 'Hybrid', description: 'Scaled radial + cross' },
+];
+
+// ============================================================================
+// Response Curves
+// ============================================================================
+
+/** Default curve: linear, with power/S-curve and piecewise settings ready to switch to */
+export const DEFAULT_RESPONSE_CURVE: ResponseCurve = {
+  type: 'linear',
+  exponent: 2,
+  points: [
+    { input: 0, output: 0 },
+    { input: 0.5, output: 0.5 },
+    { input: 1, output: 1 },
+  ],
+};
+
+/** Exponent range for power and S-curves */
+export const MIN_CURVE_EXPONENT = 0.25;
+export const MAX_CURVE_EXPONENT = 4;
+
+/** Piecewise curves keep between 2 and this many points (endpoints included) */
+export const MAX_CURVE_POINTS = 8;
+
+/** Samples used to draw a curve graph */
+export const CURVE_GRAPH_RESOLUTION = 64;
+
+/** Selectable response curve types */
+export const RESPONSE_CURVE_OPTIONS: readonly { type: ResponseCurveType; label: string }[] = [
+  { type: 'linear', label: 'Linear' },
+  { type: 'power', label: 'Power' },
+  { type: 'sCurve', label: 'S-Curve' },
+  { type: 'piecewise', label: 'Custom' },
+];
+
+/** Inputs that can be shaped, in display order */
+export const CURVE_TARGET_OPTIONS: readonly { target: CurveTarget; label: string }[] = [
+  { target: 'left', label: 'Left Stick' },
+  { target: 'right', label: 'Right Stick' },
+  { target: 'leftTrigger', label: 'LT' },
+  { target: 'rightTrigger', label: 'RT' },
+];
+
+// ============================================================================
+// Calibration Profiles
+// ============================================================================
+
+/** Maximum length of a calibration profile name */
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
 // ============================================================================
 // Polling
 // ============================================================================
@@ -26,6 +100,31 @@ export const IDLE_POLL_INTERVAL_MS = 1000;
 /** Debounce delay for rumble button clicks (ms) */
 export const RUMBLE_DEBOUNCE_MS = 200;
 
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/** Gamepad id reported by the virtual controller */
+export const VIRTUAL_GAMEPAD_ID = 'Virtual Xbox Wireless';
+
+/** Buttons exposed by the virtual controller (standard mapping without Guide) */
+export const VIRTUAL_BUTTON_COUNT = 16;
+
+/** Axes exposed by the virtual controller */
+export const VIRTUAL_AXIS_COUNT = 4;
+
+/** Simulated button value at or above which the button reports as pressed */
+export const VIRTUAL_PRESS_THRESHOLD = 0.5;
+
+/** Scenario played when simulation mode is enabled */
+export const DEFAULT_SIMULATION_SCENARIO = 'sweep';
+
+/** Seed for the simulator's random channels */
+export const DEFAULT_SIMULATION_SEED = 1;
+
+/** Largest accepted seed (seeds are unsigned 32-bit integers) */
+export const MAX_SIMULATION_SEED = 0xffffffff;
+
 // ============================================================================
 // Rumble / Haptics
 // ============================================================================
@@ -39,12 +138,271 @@ export const DEFAULT_STRONG_INTENSITY = 0.5;
 /** Default rumble duration in milliseconds */
 export const DEFAULT_RUMBLE_DURATION_MS = 200;
 
+/** Default impulse trigger motor intensity (0-1) */
+export const DEFAULT_TRIGGER_RUMBLE_INTENSITY = 0.5;
+
 /** Quick pulse duration (ms) */
 export const QUICK_PULSE_DURATION_MS = 150;
 
+/** Haptic effects kept in each controller's event log */
+export const HAPTICS_LOG_SIZE = 50;
+
+/** Effects settling this much (ms) before their requested end count as cut short */
+export const HAPTIC_TIMING_TOLERANCE_MS = 50;
+
+/** Effects settling within this time (ms) were most likely never played */
+export const HAPTIC_IGNORED_THRESHOLD_MS = 10;
+
 /** Intensity presets for quick pulse buttons */
 export const RUMBLE_INTENSITY_PRESETS = {
   low: { weak: 0.2, strong: 0.1 },
   medium: { weak: 0.5, strong: 0.4 },
   high: { weak: 1.0, strong: 0.8 },
 } as const;
+
+// ============================================================================
+// Haptic Patterns
+// ============================================================================
+
+/** Identifier written into exported haptic pattern files */
+export const HAPTIC_PATTERN_FORMAT_ID = 'joyscope-haptic-pattern';
+
+/** Current haptic pattern file format version */
+export const HAPTIC_PATTERN_FORMAT_VERSION = 1;
+
+/** Maximum number of segments in a pattern */
+export const MAX_PATTERN_SEGMENTS = 32;
+
+/** Shortest segment the editor allows (ms) */
+export const MIN_SEGMENT_DURATION_MS = 10;
+
+/** Longest single effect browsers will play (Chromium caps effects at 5 s) */
+export const MAX_SEGMENT_DURATION_MS = 5000;
+
+/** Longest pause before a segment (ms) */
+export const MAX_SEGMENT_DELAY_MS = 5000;
+
+/** Duration of newly added segments (ms) */
+export const DEFAULT_SEGMENT_DURATION_MS = 200;
+
+/** Maximum length of a saved pattern name */
+export const MAX_PATTERN_NAME_LENGTH = 40;
+
+// ============================================================================
+// Diagnostic Report
+// ============================================================================
+
+/** Identifier written into every exported diagnostic report */
+export const REPORT_FORMAT_ID = 'joyscope-report';
+
+/** Current report format version (bump on breaking changes) */
+export const REPORT_FORMAT_VERSION = 1;
+
+/** Current shared summary encoding version (bump when summary fields change) */
+export const REPORT_SHARE_VERSION = 1;
+
+/** How often live controller reports are re-captured on the Compare page (ms) */
+export const COMPARE_LIVE_REFRESH_MS = 1000;
+
+// ============================================================================
+// History
+// ============================================================================
+
+/** IndexedDB database holding completed diagnostic runs */
+export const HISTORY_DB_NAME = 'joyscope-history';
+
+/** Bump with an upgrade step in the history service when stores or indexes change */
+export const HISTORY_DB_VERSION = 1;
+
+/** Identifier written into exported history files */
+export const HISTORY_FORMAT_ID = 'joyscope-history';
+
+/** Retention choices in days; 0 keeps runs forever */
+export const HISTORY_RETENTION_OPTIONS_DAYS = [30, 90, 180, 365, 0] as const;
+
+/** Default retention for new installs (days) */
+export const DEFAULT_HISTORY_RETENTION_DAYS = 365;
+
+// ============================================================================
+// Session Recording
+// ============================================================================
+
+/** Identifier written into every recorded session file */
+export const SESSION_FORMAT_ID = 'joyscope-session';
+
+/** Current session file format version (bump on breaking changes) */
+export const SESSION_FORMAT_VERSION = 1;
+
+/** Maximum frames kept in a single recording (~10 minutes at 60Hz) */
+export const MAX_RECORDING_FRAMES = 36000;
+
+/** Maximum length of a user-supplied marker label */
+export const MAX_MARKER_LABEL_LENGTH = 80;
+
+// ============================================================================
+// Session Replay
+// ============================================================================
+
+/** Playback speed multipliers offered for session replay */
+export const REPLAY_SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4] as const;
+
+/** Largest tick delta (ms) applied to replay position, avoids jumps after tab throttling */
+export const MAX_REPLAY_TICK_MS = 100;
+
+// ============================================================================
+// Report Rate Analysis
+// ============================================================================
+
+/** Number of recent report intervals kept per controller slot */
+export const REPORT_RATE_WINDOW_SIZE = 2000;
+
+/** Intervals longer than this (ms) are treated as idle gaps, not report timing */
+export const REPORT_RATE_MAX_GAP_MS = 250;
+
+/** How often (ms) the report rate panel recomputes its statistics */
+export const REPORT_RATE_REFRESH_MS = 250;
+
+/** Upper edges (ms) of the report interval histogram bins; a final overflow bin is added */
+export const REPORT_RATE_HISTOGRAM_EDGES_MS = [1, 2, 4, 8, 12, 17, 25, 34, 50] as const;
+
+// ============================================================================
+// High-Frequency Sampler
+// ============================================================================
+
+/** Default target rate for the high-frequency sampler (Hz) */
+export const DEFAULT_SAMPLER_RATE_HZ = 1000;
+
+/** Sampler rates offered in Settings (Hz) */
+export const SAMPLER_RATE_OPTIONS_HZ = [125, 250, 500, 1000, 2000] as const;
+
+/** Waits longer than this (ms) use setTimeout; shorter ones spin on MessageChannel */
+export const SAMPLER_SPIN_THRESHOLD_MS = 5;
+
+/** Longest the sampler spins on MessageChannel (ms) before yielding with setTimeout(0) */
+export const SAMPLER_MAX_SPIN_MS = 16;
+
+/** Number of new-report samples kept in the high-frequency sample buffer */
+export const SAMPLE_BUFFER_SIZE = 10000;
+
+/** How often (ms) the sampler re-computes its achieved rate */
+export const SAMPLER_STATS_WINDOW_MS = 1000;
+
+// ============================================================================
+// Chatter Detection
+// ============================================================================
+
+/** A release followed by a re-press faster than this (ms) is switch bounce, not a new press */
+export const CHATTER_THRESHOLD_MS = 30;
+
+/** Recent chatter events kept per button */
+export const CHATTER_EVENT_HISTORY = 10;
+
+/** How often (ms) the chatter panel refreshes */
+export const CHATTER_REFRESH_MS = 250;
+
+// ============================================================================
+// Drift Test
+// ============================================================================
+
+/** Time (ms) given to release both sticks before sampling starts */
+export const DRIFT_COUNTDOWN_MS = 3000;
+
+/** How long (ms) the resting sticks are sampled */
+export const DRIFT_SAMPLE_DURATION_MS = 5000;
+
+/** Minimum distinct samples required for a valid drift result */
+export const DRIFT_MIN_SAMPLES = 20;
+
+/** Safety margin added on top of the largest resting deflection */
+export const DRIFT_DEAD_ZONE_MARGIN = 0.02;
+
+/** Sticks needing at most this dead zone pass the drift test */
+export const DRIFT_PASS_DEAD_ZONE = 0.08;
+
+/** Sticks needing at most this dead zone get a warning; above fails */
+export const DRIFT_WARN_DEAD_ZONE = 0.15;
+
+/** Refresh interval (ms) for guided test progress indicators */
+export const TEST_PROGRESS_INTERVAL_MS = 100;
+
+// ============================================================================
+// Circularity Test
+// ============================================================================
+
+/** Number of angular sectors used to trace the outer stick boundary (5° each) */
+export const CIRCULARITY_SECTOR_COUNT = 72;
+
+/** Samples closer to center than this are ignored when tracing the boundary */
+export const CIRCULARITY_MIN_MAGNITUDE = 0.5;
+
+/** Fraction of sectors that must be reached before a stick can be graded */
+export const CIRCULARITY_REQUIRED_COVERAGE = 0.9;
+
+/** Average circularity error at or below this passes */
+export const CIRCULARITY_PASS_ERROR = 0.05;
+
+/** Average circularity error at or below this warns; above fails */
+export const CIRCULARITY_WARN_ERROR = 0.12;
+
+/** Magnitudes up to 1 + tolerance are treated as within the unit range */
+export const CIRCULARITY_RANGE_TOLERANCE = 0.02;
+
+// ============================================================================
+// Trigger Test
+// ============================================================================
+
+/** Trigger value changes smaller than this are treated as noise */
+export const TRIGGER_NOISE_TOLERANCE = 0.02;
+
+/** A single-report change larger than this skips part of the trigger's range */
+export const TRIGGER_JUMP_THRESHOLD = 0.2;
+
+/** Each trigger must be pulled at least this far before the capture can be analyzed */
+export const TRIGGER_MIN_PULL = 0.5;
+
+/** Dead travel (start jump or missing top) at or below this passes */
+export const TRIGGER_PASS_DEAD_TRAVEL = 0.05;
+
+/** Dead travel at or below this warns; above fails */
+export const TRIGGER_WARN_DEAD_TRAVEL = 0.15;
+
+// ============================================================================
+// Motor Sweep Test
+// ============================================================================
+
+/** Intensities each motor is driven at, in order (0-1) */
+export const MOTOR_SWEEP_STEPS = [0.1, 0.25, 0.5, 0.75, 1] as const;
+
+/** How long (ms) each sweep pulse plays */
+export const MOTOR_SWEEP_PULSE_MS = 800;
+
+// ============================================================================
+// Latency Test
+// ============================================================================
+
+/** Cue presses collected per latency test run */
+export const LATENCY_TRIAL_COUNT = 15;
+
+/** Random wait (ms) before each cue, so the cue cannot be anticipated */
+export const LATENCY_MIN_CUE_DELAY_MS = 1000;
+export const LATENCY_MAX_CUE_DELAY_MS = 3000;
+
+/** A cue without a press within this time (ms) counts as missed */
+export const LATENCY_TRIAL_TIMEOUT_MS = 1500;
+
+/** Presses faster than this (ms) after the cue are anticipations, not reactions */
+export const LATENCY_MIN_REACTION_MS = 80;
+
+// ============================================================================
+// Button Coverage Test
+// ============================================================================
+
+/** Axis deflection needed for a direction to count as exercised */
+export const COVERAGE_AXIS_THRESHOLD = 0.5;
+
+// ============================================================================
+// Controller Diagram
+// ============================================================================
+
+/** Number of updates kept in the selected part's value history (~3 s at 60 Hz) */
+export const DIAGRAM_HISTORY_LENGTH = 180;
@@ -0,0 +1,213 @@
+/**
+ * Controller diagram geometry
+ * One SVG layout per layout family; parts are addressed by standard-mapping indices
+ */
+
+import type {
+  ControllerDiagramLayout,
+  DiagramButtonPart,
+  DiagramPart,
+  DiagramStickPart,
+  DiagramTriggerPart,
+} from '@/types/diagram';
+import type { LayoutFamily, StickId } from '@/types/gamepad';
+import { AXIS, BUTTON } from '@/utils/buttonConstants';
+
+const DIAGRAM_WIDTH = 400;
+const DIAGRAM_HEIGHT = 250;
+
+// Body outlines: shoulders at the top, grips curving down at each side
+// Xbox: broad body with short, heavy grips
+const XBOX_OUTLINE = [
+  'M 115 42',
+  'C 160 34 240 34 285 42',
+  'C 335 50 365 65 380 110',
+  'C 396 165 396 220 368 236',
+  'C 344 248 316 230 298 196',
+  'C 288 180 270 176 250 176',
+  'L 150 176',
+  'C 130 176 112 180 102 196',
+  'C 84 230 56 248 32 236',
+  'C 4 220 4 165 20 110',
+  'C 35 65 65 50 115 42 Z',
+].join(' ');
+
+// PlayStation: flat top raised around the touchpad, long narrow grips
+const PLAYSTATION_OUTLINE = [
+  'M 110 44',
+  'L 160 44',
+  'C 170 36 230 36 240 44',
+  'L 290 44',
+  'C 335 44 360 58 372 100',
+  'C 388 160 396 222 374 238',
+  'C 354 250 332 236 316 206',
+  'C 306 188 292 180 272 180',
+  'L 128 180',
+  'C 108 180 94 188 84 206',
+  'C 68 236 46 250 26 238',
+  'C 4 222 12 160 28 100',
+  'C 40 58 65 44 110 44 Z',
+].join(' ');
+
+// Switch Pro: rounded shoulders, straight-cut centre and stubby grips
+const NINTENDO_OUTLINE = [
+  'M 120 46',
+  'C 170 38 230 38 280 46',
+  'C 330 54 358 70 370 112',
+  'C 384 162 384 212 360 228',
+  'C 338 242 312 226 296 198',
+  'L 286 182',
+  'L 114 182',
+  'L 104 198',
+  'C 88 226 62 242 40 228',
+  'C 16 212 16 162 30 112',
+  'C 42 70 70 54 120 46 Z',
+].join(' ');
+
+// Generic: boxy body with small grips
+const GENERIC_OUTLINE = [
+  'M 90 50',
+  'L 310 50',
+  'C 350 50 372 70 378 110',
+  'L 384 190',
+  'C 386 222 364 236 340 226',
+  'C 324 219 312 200 300 186',
+  'L 100 186',
+  'C 88 200 76 219 60 226',
+  'C 36 236 14 222 16 190',
+  'L 22 110',
+  'C 28 70 50 50 90 50 Z',
+].join(' ');
+
+const FACE_OFFSET = 22;
+const FACE_SIZE = 20;
+const DPAD_OFFSET = 16;
+const STICK_RADIUS = 22;
+
+const button = (
+  id: string,
+  buttonIndex: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  extra: Partial<Pick<DiagramButtonPart, 'shape' | 'symbol' | 'name'>> = {},
+): DiagramButtonPart => ({
+  kind: 'button',
+  id,
+  buttonIndex,
+  x,
+  y,
+  width,
+  height,
+  shape: 'rect',
+  ...extra,
+});
+
+const stick = (stickId: StickId, x: number, y: number): DiagramStickPart => ({
+  kind: 'stick',
+  id: `stick-${stickId}`,
+  stick: stickId,
+  xAxis: stickId === 'left' ? AXIS.LEFT_X : AXIS.RIGHT_X,
+  yAxis: stickId === 'left' ? AXIS.LEFT_Y : AXIS.RIGHT_Y,
+  buttonIndex: stickId === 'left' ? BUTTON.LS : BUTTON.RS,
+  x,
+  y,
+  radius: STICK_RADIUS,
+});
+
+const trigger = (id: string, buttonIndex: number, x: number): DiagramTriggerPart => ({
+  kind: 'trigger',
+  id,
+  buttonIndex,
+  x,
+  y: 16,
+  width: 50,
+  height: 22,
+});
+
+// Bumpers and triggers sit in the same place on every layout
+const shoulders = (): DiagramPart[] => [
+  trigger('trigger-left', BUTTON.LT, 105),
+  trigger('trigger-right', BUTTON.RT, 295),
+  button('bumper-left', BUTTON.LB, 105, 38, 70, 10),
+  button('bumper-right', BUTTON.RB, 295, 38, 70, 10),
+];
+
+const faceButtons = (x: number, y: number, symbols?: readonly string[]): DiagramPart[] => {
+  const face = (id: string, index: number, dx: number, dy: number, symbol?: string) =>
+    button(id, index, x + dx, y + dy, FACE_SIZE, FACE_SIZE, { shape: 'circle', symbol });
+  return [
+    face('face-top', BUTTON.Y, 0, -FACE_OFFSET, symbols?.[0]),
+    face('face-left', BUTTON.X, -FACE_OFFSET, 0, symbols?.[1]),
+    face('face-right', BUTTON.B, FACE_OFFSET, 0, symbols?.[2]),
+    face('face-bottom', BUTTON.A, 0, FACE_OFFSET, symbols?.[3]),
+  ];
+};
+
+const dpad = (x: number, y: number): DiagramPart[] => [
+  button('dpad-up', BUTTON.DPAD_UP, x, y - DPAD_OFFSET, 14, 18),
+  button('dpad-down', BUTTON.DPAD_DOWN, x, y + DPAD_OFFSET, 14, 18),
+  button('dpad-left', BUTTON.DPAD_LEFT, x - DPAD_OFFSET, y, 18, 14),
+  button('dpad-right', BUTTON.DPAD_RIGHT, x + DPAD_OFFSET, y, 18, 14),
+];
+
+const layout = (
+  family: LayoutFamily,
+  outline: string,
+  parts: DiagramPart[],
+): ControllerDiagramLayout => ({
+  family,
+  width: DIAGRAM_WIDTH,
+  height: DIAGRAM_HEIGHT,
+  outline,
+  parts: [...shoulders(), ...parts],
+});
+
+/** Standard-mapping index the browser uses for the touchpad / capture button */
+const EXTRA_BUTTON_INDEX = 17;
+
+export const CONTROLLER_DIAGRAMS: Readonly<Record<LayoutFamily, ControllerDiagramLayout>> = {
+  // Offset sticks: left stick above the d-pad, right stick below the face buttons
+  xbox: layout('xbox', XBOX_OUTLINE, [
+    stick('left', 95, 92),
+    stick('right', 250, 140),
+    ...dpad(150, 140),
+    ...faceButtons(305, 92),
+    button('back', BUTTON.BACK, 172, 92, 16, 10),
+    button('start', BUTTON.START, 228, 92, 16, 10),
+    button('guide', BUTTON.GUIDE, 200, 64, 18, 18, { shape: 'circle' }),
+  ]),
+  // Symmetric sticks below the d-pad and face buttons, touchpad in the middle
+  playstation: layout('playstation', PLAYSTATION_OUTLINE, [
+    stick('left', 150, 145),
+    stick('right', 250, 145),
+    ...dpad(95, 92),
+    ...faceButtons(305, 92, ['△', '□', '○', '✕']),
+    button('touchpad', EXTRA_BUTTON_INDEX, 200, 78, 76, 40, { name: 'Touchpad' }),
+    button('back', BUTTON.BACK, 145, 62, 10, 16),
+    button('start', BUTTON.START, 255, 62, 10, 16),
+    button('guide', BUTTON.GUIDE, 200, 122, 14, 14, { shape: 'circle' }),
+  ]),
+  // Switch Pro: offset sticks like Xbox, capture and home below the +/- buttons
+  nintendo: layout('nintendo', NINTENDO_OUTLINE, [
+    stick('left', 95, 92),
+    stick('right', 250, 140),
+    ...dpad(150, 140),
+    ...faceButtons(305, 92),
+    button('back', BUTTON.BACK, 165, 72, 14, 8),
+    button('start', BUTTON.START, 235, 72, 14, 8),
+    button('capture', EXTRA_BUTTON_INDEX, 175, 100, 12, 12, { name: 'Capture' }),
+    button('guide', BUTTON.GUIDE, 225, 100, 14, 14, { shape: 'circle' }),
+  ]),
+  // Generic: d-pad and face buttons level, sticks close together near the bottom edge
+  generic: layout('generic', GENERIC_OUTLINE, [
+    stick('left', 160, 152),
+    stick('right', 240, 152),
+    ...dpad(90, 100),
+    ...faceButtons(310, 100),
+    button('back', BUTTON.BACK, 172, 84, 16, 10),
+    button('start', BUTTON.START, 228, 84, 16, 10),
+    button('guide', BUTTON.GUIDE, 200, 114, 16, 16, { shape: 'circle' }),
+  ]),
+};
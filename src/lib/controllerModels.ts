@@ -0,0 +1,142 @@
+/**
+ * Controller model database
+ * Maps USB vendor/product ids to model name, layout family and known capabilities
+ * Capabilities describe the hardware; browser support for each is detected separately
+ */
+
+import type { ControllerCapabilities, ControllerModel, LayoutFamily } from '@/types/gamepad';
+
+type ManufacturerInfo = {
+  name: string;
+  /** Layout assumed for unlisted products from this manufacturer */
+  layout?: LayoutFamily;
+};
+
+/** Known USB vendor ids (4-digit lowercase hex) */
+export const MANUFACTURERS: Readonly<Record<string, ManufacturerInfo>> = {
+  '045e': { name: 'Microsoft', layout: 'xbox' },
+  '054c': { name: 'Sony', layout: 'playstation' },
+  '057e': { name: 'Nintendo', layout: 'nintendo' },
+  '2dc8': { name: '8BitDo', layout: 'nintendo' },
+  '046d': { name: 'Logitech' },
+  '28de': { name: 'Valve' },
+  '18d1': { name: 'Google' },
+  '0e6f': { name: 'PDP' },
+  '24c6': { name: 'PowerA' },
+  '20d6': { name: 'PowerA' },
+  '0f0d': { name: 'HORI' },
+  '1532': { name: 'Razer' },
+  '0079': { name: 'DragonRise' },
+};
+
+const XBOX_360: ControllerCapabilities = {
+  rumble: true,
+  triggerRumble: false,
+  analogTriggers: true,
+  gyro: false,
+  touchpad: false,
+};
+
+// Xbox One and later add impulse trigger motors
+const XBOX_ONE: ControllerCapabilities = { ...XBOX_360, triggerRumble: true };
+
+const DUALSHOCK_3: ControllerCapabilities = {
+  rumble: true,
+  triggerRumble: false,
+  analogTriggers: true,
+  gyro: true,
+  touchpad: false,
+};
+
+const DUALSHOCK_4: ControllerCapabilities = { ...DUALSHOCK_3, touchpad: true };
+
+const SWITCH: ControllerCapabilities = {
+  rumble: true,
+  triggerRumble: false,
+  analogTriggers: false,
+  gyro: true,
+  touchpad: false,
+};
+
+const BASIC_ANALOG: ControllerCapabilities = {
+  rumble: false,
+  triggerRumble: false,
+  analogTriggers: true,
+  gyro: false,
+  touchpad: false,
+};
+
+const model = (
+  vendorId: string,
+  productId: string,
+  name: string,
+  layout: LayoutFamily,
+  capabilities: ControllerCapabilities,
+): ControllerModel => ({
+  vendorId,
+  productId,
+  name,
+  manufacturer: MANUFACTURERS[vendorId]?.name ?? 'Unknown',
+  layout,
+  capabilities,
+});
+
+export const CONTROLLER_MODELS: readonly ControllerModel[] = [
+  // Microsoft
+  model('045e', '028e', 'Xbox 360 Controller', 'xbox', XBOX_360),
+  model('045e', '0719', 'Xbox 360 Wireless Receiver', 'xbox', XBOX_360),
+  model('045e', '02d1', 'Xbox One Controller', 'xbox', XBOX_ONE),
+  model('045e', '02dd', 'Xbox One Controller', 'xbox', XBOX_ONE),
+  model('045e', '02e3', 'Xbox Elite Controller', 'xbox', XBOX_ONE),
+  model('045e', '02ea', 'Xbox One S Controller', 'xbox', XBOX_ONE),
+  model('045e', '02e0', 'Xbox One S Controller (Bluetooth)', 'xbox', XBOX_ONE),
+  model('045e', '02fd', 'Xbox One S Controller (Bluetooth)', 'xbox', XBOX_ONE),
+  model('045e', '0b00', 'Xbox Elite Controller Series 2', 'xbox', XBOX_ONE),
+  model('045e', '0b05', 'Xbox Elite Controller Series 2 (Bluetooth)', 'xbox', XBOX_ONE),
+  model('045e', '0b12', 'Xbox Series X|S Controller', 'xbox', XBOX_ONE),
+  model('045e', '0b13', 'Xbox Series X|S Controller (Bluetooth)', 'xbox', XBOX_ONE),
+
+  // Sony
+  model('054c', '0268', 'DualShock 3', 'playstation', DUALSHOCK_3),
+  model('054c', '05c4', 'DualShock 4', 'playstation', DUALSHOCK_4),
+  model('054c', '09cc', 'DualShock 4 (2nd gen)', 'playstation', DUALSHOCK_4),
+  model('054c', '0ba0', 'DualShock 4 USB Wireless Adaptor', 'playstation', DUALSHOCK_4),
+  model('054c', '0ce6', 'DualSense', 'playstation', DUALSHOCK_4),
+  model('054c', '0df2', 'DualSense Edge', 'playstation', DUALSHOCK_4),
+
+  // Nintendo
+  model('057e', '2006', 'Joy-Con (L)', 'nintendo', SWITCH),
+  model('057e', '2007', 'Joy-Con (R)', 'nintendo', SWITCH),
+  model('057e', '2009', 'Switch Pro Controller', 'nintendo', SWITCH),
+  model('057e', '200e', 'Joy-Con Charging Grip', 'nintendo', SWITCH),
+
+  // 8BitDo (DirectInput / Switch modes; XInput mode reports as an Xbox 360 pad)
+  model('2dc8', '6001', '8BitDo SN30 Pro', 'nintendo', SWITCH),
+  model('2dc8', '6002', '8BitDo SN30 Pro+', 'nintendo', SWITCH),
+  model('2dc8', '6003', '8BitDo Pro 2', 'nintendo', SWITCH),
+  model('2dc8', '3106', '8BitDo Pro 2 (Wired)', 'nintendo', SWITCH),
+
+  // Others
+  model('046d', 'c216', 'Logitech F310 (DirectInput)', 'generic', BASIC_ANALOG),
+  model('046d', 'c21d', 'Logitech F310', 'xbox', BASIC_ANALOG),
+  model('046d', 'c21f', 'Logitech F710', 'xbox', XBOX_360),
+  model('28de', '1102', 'Steam Controller', 'xbox', { ...BASIC_ANALOG, rumble: true, gyro: true }),
+  model('28de', '1142', 'Steam Controller (Wireless)', 'xbox', {
+    ...BASIC_ANALOG,
+    rumble: true,
+    gyro: true,
+  }),
+  model('18d1', '9400', 'Stadia Controller', 'xbox', XBOX_360),
+];
+
+const MODEL_INDEX = new Map(
+  CONTROLLER_MODELS.map((entry) => [`${entry.vendorId}:${entry.productId}`, entry]),
+);
+
+/**
+ * Look up a model by USB ids (4-digit lowercase hex)
+ */
+export const findControllerModel = (
+  vendorId: string,
+  productId: string,
+): ControllerModel | undefined => MODEL_INDEX.get(`${vendorId}:${productId}`);
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { stopRumble, triggerImpulseRumble, triggerRumble } from '@/services/gamepadService';
+import { createSegment } from '@/utils/hapticPattern';
+import { isPatternPlaying, playPattern, stopPattern } from './hapticSequencer';
+
+vi.mock('@/services/gamepadService', () => ({
+  triggerRumble: vi.fn(() => Promise.resolve({ success: true })),
+  triggerImpulseRumble: vi.fn(() => Promise.resolve({ success: true })),
+  stopRumble: vi.fn(() => Promise.resolve({ success: true })),
+}));
+
+describe('hapticSequencer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    stopPattern();
+    vi.useRealTimers();
+  });
+
+  it('fires segments at their scheduled times and ends', () => {
+    const onEnd = vi.fn();
+    const segments = [
+      createSegment({ duration: 100 }),
+      createSegment({ startDelay: 50, duration: 100 }),
+    ];
+    expect(playPattern(0, segments, { loop: false, useTriggerMotors: false, onEnd })).toBe(true);
+
+    vi.advanceTimersByTime(0);
+    expect(triggerRumble).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(149);
+    expect(triggerRumble).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1);
+    expect(triggerRumble).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(100);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(isPatternPlaying()).toBe(false);
+  });
+
+  it('routes trigger segments through trigger-rumble only when enabled', () => {
+    const segments = [createSegment({ leftTrigger: 0.5 })];
+    playPattern(0, segments, { loop: false, useTriggerMotors: true });
+    vi.advanceTimersByTime(0);
+    expect(triggerImpulseRumble).toHaveBeenCalledTimes(1);
+
+    playPattern(0, segments, { loop: false, useTriggerMotors: false });
+    vi.advanceTimersByTime(0);
+    expect(triggerRumble).toHaveBeenCalledTimes(1);
+  });
+
+  it('repeats looping patterns until stopped', () => {
+    const onPass = vi.fn();
+    playPattern(1, [createSegment({ duration: 100 })], {
+      loop: true,
+      useTriggerMotors: false,
+      onPass,
+    });
+    vi.advanceTimersByTime(250);
+    expect(onPass).toHaveBeenCalledTimes(3);
+
+    stopPattern();
+    expect(stopRumble).toHaveBeenCalledWith(1);
+    vi.advanceTimersByTime(500);
+    expect(onPass).toHaveBeenCalledTimes(3);
+  });
+
+  it('refuses empty patterns', () => {
+    expect(playPattern(0, [], { loop: false, useTriggerMotors: false })).toBe(false);
+    expect(isPatternPlaying()).toBe(false);
+  });
+});
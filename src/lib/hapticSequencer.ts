@@ -0,0 +1,114 @@
+/**
+ * Haptic sequencer
+ * Plays a pattern by firing each segment at its scheduled time through the gamepad service.
+ * Only one pattern plays at a time; starting another stops the current one.
+ */
+
+import type { HapticSegment } from '@/types/haptics';
+import { stopRumble, triggerImpulseRumble, triggerRumble } from '@/services/gamepadService';
+import { getPatternDuration, schedulePattern, usesTriggerMotors } from '@/utils/hapticPattern';
+
+export type PatternPlaybackOptions = {
+  loop: boolean;
+  /** Route segments with trigger magnitudes through trigger-rumble */
+  useTriggerMotors: boolean;
+  /** Called with the time (performance.now()) each pass starts */
+  onPass?: (startedAt: number) => void;
+  /** Called when a non-looping pattern finishes */
+  onEnd?: () => void;
+  onError?: (error: string) => void;
+};
+
+let timers: ReturnType<typeof setTimeout>[] = [];
+let playingSlot: number | undefined;
+
+const clearTimers = (): void => {
+  timers.forEach((timer) => clearTimeout(timer));
+  timers = [];
+};
+
+const playSegment = async (
+  gamepadIndex: number,
+  segment: HapticSegment,
+  options: PatternPlaybackOptions,
+): Promise<void> => {
+  const params = {
+    duration: segment.duration,
+    weakMagnitude: segment.weakMagnitude,
+    strongMagnitude: segment.strongMagnitude,
+  };
+  const result =
+    options.useTriggerMotors && usesTriggerMotors(segment)
+      ? await triggerImpulseRumble(gamepadIndex, {
+          ...params,
+          leftTrigger: segment.leftTrigger,
+          rightTrigger: segment.rightTrigger,
+        })
+      : await triggerRumble(gamepadIndex, params);
+
+  if (!result.success) {
+    options.onError?.(result.error ?? 'Rumble failed');
+  }
+};
+
+const schedulePass = (
+  gamepadIndex: number,
+  segments: readonly HapticSegment[],
+  options: PatternPlaybackOptions,
+): void => {
+  options.onPass?.(performance.now());
+
+  // Segments start on timers rather than via startDelay so each effect can preempt the last
+  schedulePattern(segments).forEach(({ segment, startMs }) => {
+    timers.push(
+      setTimeout(() => {
+        void playSegment(gamepadIndex, segment, options);
+      }, startMs),
+    );
+  });
+
+  timers.push(
+    setTimeout(() => {
+      timers = [];
+      if (options.loop) {
+        schedulePass(gamepadIndex, segments, options);
+      } else {
+        playingSlot = undefined;
+        options.onEnd?.();
+      }
+    }, getPatternDuration(segments)),
+  );
+};
+
+/**
+ * Start playing a pattern on a gamepad
+ * Returns false when there is nothing to play
+ */
+export const playPattern = (
+  gamepadIndex: number,
+  segments: readonly HapticSegment[],
+  options: PatternPlaybackOptions,
+): boolean => {
+  stopPattern();
+  if (segments.length === 0 || getPatternDuration(segments) <= 0) return false;
+
+  playingSlot = gamepadIndex;
+  schedulePass(gamepadIndex, segments, options);
+  return true;
+};
+
+/**
+ * Stop the current pattern and silence the motors
+ */
+export const stopPattern = (): void => {
+  clearTimers();
+  if (playingSlot !== undefined) {
+    void stopRumble(playingSlot);
+    playingSlot = undefined;
+  }
+};
+
+/**
+ * Whether a pattern is currently playing
+ */
+export const isPatternPlaying = (): boolean => playingSlot !== undefined;
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HAPTICS_LOG_SIZE } from '@/lib/constants';
+import type { HapticEvent } from '@/types/haptics';
+import {
+  clearHapticEvents,
+  getHapticEvents,
+  recordHapticEvent,
+  subscribeHapticEvents,
+} from './hapticsLog';
+
+const createEvent = (slot: number): Omit<HapticEvent, 'id'> => ({
+  slot,
+  effect: 'dual-rumble',
+  startedAt: 0,
+  requestedMs: 100,
+  actualMs: 100,
+  outcome: 'complete',
+});
+
+describe('hapticsLog', () => {
+  beforeEach(() => {
+    clearHapticEvents();
+  });
+
+  it('keeps the most recent events per slot', () => {
+    for (let i = 0; i < HAPTICS_LOG_SIZE + 5; i++) {
+      recordHapticEvent({ ...createEvent(0), startedAt: i });
+    }
+    const events = getHapticEvents(0);
+    expect(events).toHaveLength(HAPTICS_LOG_SIZE);
+    expect(events[0].startedAt).toBe(5);
+    expect(getHapticEvents(1)).toHaveLength(0);
+  });
+
+  it('assigns increasing ids and replaces the slot array on each update', () => {
+    const first = recordHapticEvent(createEvent(0));
+    const before = getHapticEvents(0);
+    const second = recordHapticEvent(createEvent(0));
+    expect(second.id).toBeGreaterThan(first.id);
+    expect(getHapticEvents(0)).not.toBe(before);
+  });
+
+  it('notifies listeners with the changed slot until unsubscribed', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeHapticEvents(listener);
+    recordHapticEvent(createEvent(2));
+    clearHapticEvents(2);
+    unsubscribe();
+    recordHapticEvent(createEvent(2));
+    expect(listener.mock.calls).toEqual([[2], [2]]);
+  });
+});
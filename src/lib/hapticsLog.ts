@@ -0,0 +1,61 @@
+/**
+ * Haptics event log
+ * Keeps the most recent haptic effects per controller slot as reported by the gamepad service.
+ * Each update replaces the slot's array so readers can compare by reference.
+ */
+
+import type { HapticEvent } from '@/types/haptics';
+import { HAPTICS_LOG_SIZE } from '@/lib/constants';
+
+const EMPTY_LOG: readonly HapticEvent[] = [];
+
+const logs = new Map<number, readonly HapticEvent[]>();
+const listeners = new Set<(slot: number) => void>();
+let nextEventId = 1;
+
+const notify = (slot: number): void => {
+  listeners.forEach((listener) => listener(slot));
+};
+
+/**
+ * Append an effect to its slot's log, dropping the oldest beyond HAPTICS_LOG_SIZE
+ */
+export const recordHapticEvent = (event: Omit<HapticEvent, 'id'>): HapticEvent => {
+  const entry: HapticEvent = { ...event, id: nextEventId++ };
+  const log = [...(logs.get(event.slot) ?? EMPTY_LOG), entry];
+  logs.set(event.slot, log.slice(-HAPTICS_LOG_SIZE));
+  notify(event.slot);
+  return entry;
+};
+
+/**
+ * Logged effects for a slot, oldest first
+ */
+export const getHapticEvents = (slot: number): readonly HapticEvent[] => {
+  return logs.get(slot) ?? EMPTY_LOG;
+};
+
+/**
+ * Clear the log of one slot, or all slots when omitted
+ */
+export const clearHapticEvents = (slot?: number): void => {
+  if (slot === undefined) {
+    const slots = [...logs.keys()];
+    logs.clear();
+    slots.forEach(notify);
+  } else {
+    logs.delete(slot);
+    notify(slot);
+  }
+};
+
+/**
+ * Listen for log changes; the listener receives the changed slot
+ * Returns an unsubscribe function
+ */
+export const subscribeHapticEvents = (listener: (slot: number) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { REPORT_RATE_MAX_GAP_MS } from '@/lib/constants';
+import { getReportRateStats, recordReportTimestamp, resetReportRate } from './reportRateMonitor';
+
+describe('reportRateMonitor', () => {
+  beforeEach(() => {
+    resetReportRate();
+  });
+
+  it('measures intervals between distinct timestamps', () => {
+    [0, 4, 4, 8, 8, 12].forEach((timestamp) => recordReportTimestamp(0, timestamp));
+    const stats = getReportRateStats(0);
+    expect(stats.sampleCount).toBe(3);
+    expect(stats.effectiveHz).toBe(250);
+  });
+
+  it('ignores idle gaps and backwards jumps', () => {
+    [0, 4, 4 + REPORT_RATE_MAX_GAP_MS + 1, 100, 104].forEach((timestamp) =>
+      recordReportTimestamp(0, timestamp),
+    );
+    expect(getReportRateStats(0).sampleCount).toBe(2);
+  });
+
+  it('tracks slots independently', () => {
+    [0, 1, 2].forEach((timestamp) => recordReportTimestamp(0, timestamp));
+    [0, 8].forEach((timestamp) => recordReportTimestamp(1, timestamp));
+    resetReportRate(0);
+    expect(getReportRateStats(0).sampleCount).toBe(0);
+    expect(getReportRateStats(1).effectiveHz).toBe(125);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Report rate monitor
+ * Tracks intervals between distinct Gamepad.timestamp values per controller slot.
+ * Fed directly from the polling pipeline so it never waits on React renders.
+ */
+
+import { REPORT_RATE_MAX_GAP_MS, REPORT_RATE_WINDOW_SIZE } from '@/lib/constants';
+import { computeReportRateStats, type ReportRateStats } from '@/utils/reportRate';
+
+type SlotTracker = {
+  lastTimestamp: number;
+  intervals: number[];
+};
+
+const trackers = new Map<number, SlotTracker>();
+
+/**
+ * Record the timestamp of the latest report seen for a slot
+ * Repeated timestamps (no new report since last poll) are ignored
+ */
+export const recordReportTimestamp = (slot: number, timestamp: number): void => {
+  const tracker = trackers.get(slot);
+  if (!tracker) {
+    trackers.set(slot, { lastTimestamp: timestamp, intervals: [] });
+    return;
+  }
+
+  const interval = timestamp - tracker.lastTimestamp;
+  if (interval === 0) return;
+  tracker.lastTimestamp = timestamp;
+
+  // Negative intervals come from replay seeks; long ones from an idle controller
+  if (interval < 0 || interval > REPORT_RATE_MAX_GAP_MS) return;
+
+  tracker.intervals.push(interval);
+  if (tracker.intervals.length > REPORT_RATE_WINDOW_SIZE) {
+    tracker.intervals.splice(0, tracker.intervals.length - REPORT_RATE_WINDOW_SIZE);
+  }
+};
+
+/**
+ * Get statistics for the recent report window of a slot
+ */
+export const getReportRateStats = (slot: number): ReportRateStats => {
+  return computeReportRateStats(trackers.get(slot)?.intervals ?? []);
+};
+
+/**
+ * Clear collected intervals for one slot, or all slots when omitted
+ */
+export const resetReportRate = (slot?: number): void => {
+  if (slot === undefined) {
+    trackers.clear();
+  } else {
+    trackers.delete(slot);
+  }
+};
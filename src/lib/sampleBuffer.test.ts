@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { SAMPLE_BUFFER_SIZE } from '@/lib/constants';
+import { createPad } from '@/test/fixtures';
+import { clearSamples, getSamples, pushSamples } from './sampleBuffer';
+
+describe('sampleBuffer', () => {
+  beforeEach(() => {
+    clearSamples();
+  });
+
+  it('filters by slot and time', () => {
+    pushSamples([
+      { sampleTime: 1, gamepad: createPad() },
+      { sampleTime: 2, gamepad: createPad({ slot: 1 }) },
+      { sampleTime: 3, gamepad: createPad() },
+    ]);
+    expect(getSamples(0).map((sample) => sample.sampleTime)).toEqual([1, 3]);
+    expect(getSamples(undefined, 1).map((sample) => sample.sampleTime)).toEqual([2, 3]);
+  });
+
+  it('drops the oldest samples when full', () => {
+    pushSamples(
+      Array.from({ length: SAMPLE_BUFFER_SIZE + 5 }, (_, i) => ({
+        sampleTime: i,
+        gamepad: createPad(),
+      })),
+    );
+    const samples = getSamples();
+    expect(samples).toHaveLength(SAMPLE_BUFFER_SIZE);
+    expect(samples[0].sampleTime).toBe(5);
+  });
+});
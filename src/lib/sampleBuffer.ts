@@ -0,0 +1,43 @@
+/**
+ * Sample buffer
+ * Holds recent high-frequency samples outside of React state. Only samples that
+ * carry a new report (changed Gamepad.timestamp) are stored.
+ */
+
+import type { NormalizedGamepad } from '@/types/gamepad';
+import { SAMPLE_BUFFER_SIZE } from '@/lib/constants';
+
+export type GamepadSample = {
+  /** performance.now() when the sample was taken */
+  sampleTime: number;
+  gamepad: NormalizedGamepad;
+};
+
+let samples: GamepadSample[] = [];
+
+/**
+ * Append samples, dropping the oldest once the buffer is full
+ */
+export const pushSamples = (next: GamepadSample[]): void => {
+  samples.push(...next);
+  if (samples.length > SAMPLE_BUFFER_SIZE) {
+    samples.splice(0, samples.length - SAMPLE_BUFFER_SIZE);
+  }
+};
+
+/**
+ * Get buffered samples, optionally for one slot and/or after a given time
+ */
+export const getSamples = (slot?: number, sinceTime = -Infinity): GamepadSample[] => {
+  return samples.filter(
+    (sample) =>
+      sample.sampleTime > sinceTime && (slot === undefined || sample.gamepad.slot === slot),
+  );
+};
+
+/**
+ * Drop all buffered samples
+ */
+export const clearSamples = (): void => {
+  samples = [];
+};
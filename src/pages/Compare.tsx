@@ -0,0 +1,373 @@
+/**
+ * Compare - Side-by-side deltas between two exported reports or two connected controllers
+ */
+
+import React, { memo, useCallback, useEffect, useId, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+
+import { Panel } from '@/components/Panel';
+import { useReportCapture } from '@/hooks/useReportCapture';
+import { useControllerStore } from '@/state/controllerSlice';
+import { readFileAsText } from '@/services/fileService';
+import { parseDiagnosticReport } from '@/utils/diagnosticReport';
+import {
+  LIVE_COMPARISON_METRICS,
+  compareReports,
+  formatComparisonValue,
+  type ComparisonChange,
+  type ComparisonRow,
+} from '@/utils/reportComparison';
+import type { DiagnosticReport } from '@/types/report';
+import { COMPARE_LIVE_REFRESH_MS } from '@/lib/constants';
+
+type CompareMode = 'files' | 'live';
+
+type Side = 'before' | 'after';
+
+const SIDES: { side: Side; label: string }[] = [
+  { side: 'before', label: 'Before' },
+  { side: 'after', label: 'After' },
+];
+
+const MODES: { mode: CompareMode; label: string; description: string }[] = [
+  { mode: 'files', label: 'Report Files', description: 'Two exported JSON reports' },
+  { mode: 'live', label: 'Live Report Rate', description: 'Two connected controllers' },
+];
+
+const CHANGE_STYLES: Record<ComparisonChange, { label: string; className: string }> = {
+  better: { label: 'BETTER', className: 'bg-emerald-500/20 text-emerald-300' },
+  worse: { label: 'WORSE', className: 'bg-rose-500/20 text-rose-300' },
+  same: { label: 'SAME', className: 'bg-white/10 text-white/50' },
+  missing: { label: 'N/A', className: 'bg-transparent text-white/30' },
+};
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+type ReportFilePickerProps = {
+  label: string;
+  report?: DiagnosticReport;
+  onLoad: (report: DiagnosticReport) => void;
+};
+
+const ReportFilePicker = memo(function ReportFilePicker({
+  label,
+  report,
+  onLoad,
+}: ReportFilePickerProps) {
+  const fileInputId = useId();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Reset so selecting the same file again still fires onChange
+      event.target.value = '';
+      if (!file) return;
+
+      const text = await readFileAsText(file);
+      if (text === null) {
+        setError('Could not read the selected file');
+        return;
+      }
+      const result = parseDiagnosticReport(text);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setError(null);
+      onLoad(result.report);
+    },
+    [onLoad],
+  );
+
+  return (
+    <Panel>
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="font-medium text-white">{label}</h2>
+        <label
+          htmlFor={fileInputId}
+          className="cursor-pointer rounded-lg bg-white/5 px-3 py-1.5 text-xs font-medium text-white/70 transition-colors hover:bg-white/10"
+        >
+          {report ? 'Replace' : 'Load Report'}
+        </label>
+        <input
+          id={fileInputId}
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => void handleFile(e)}
+          className="sr-only"
+        />
+      </div>
+      {report ? (
+        <>
+          <p className="truncate font-mono text-xs text-white/70" title={report.controller.id}>
+            {report.controller.id}
+          </p>
+          <p className="mt-1 text-xs text-white/40">
+            {report.generatedAt
+              ? `Generated ${new Date(report.generatedAt).toLocaleString()}`
+              : 'Generation time unknown'}
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-white/40">Load a JSON report exported from the Tests page</p>
+      )}
+      {error && (
+        <p className="mt-2 text-xs text-rose-300" role="alert">
+          {error}
+        </p>
+      )}
+    </Panel>
+  );
+});
+
+ReportFilePicker.displayName = 'ReportFilePicker';
+
+type ControllerPickerProps = {
+  label: string;
+  slots: readonly number[];
+  ids: readonly string[];
+  value?: number;
+  onChange: (slot: number) => void;
+};
+
+const ControllerPicker = memo(function ControllerPicker({
+  label,
+  slots,
+  ids,
+  value,
+  onChange,
+}: ControllerPickerProps) {
+  const selectId = useId();
+  return (
+    <Panel>
+      <label htmlFor={selectId} className="mb-3 block font-medium text-white">
+        {label}
+      </label>
+      <select
+        id={selectId}
+        value={value ?? ''}
+        onChange={(event) => onChange(Number(event.target.value))}
+        disabled={slots.length === 0}
+        className="w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white disabled:opacity-40"
+      >
+        {slots.length === 0 && <option value="">No controllers connected</option>}
+        {slots.map((slot, index) => (
+          <option key={slot} value={slot}>
+            {slot + 1}: {ids[index]}
+          </option>
+        ))}
+      </select>
+    </Panel>
+  );
+});
+
+ControllerPicker.displayName = 'ControllerPicker';
+
+type ComparisonTableProps = {
+  rows: ComparisonRow[];
+};
+
+const ComparisonTable = memo(function ComparisonTable({ rows }: ComparisonTableProps) {
+  return (
+    <Panel>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-white/40">
+            <th className="pb-2 font-normal">Measurement</th>
+            <th className="pb-2 text-right font-normal">Before</th>
+            <th className="pb-2 text-right font-normal">After</th>
+            <th className="pb-2 text-right font-normal">Change</th>
+            <th className="pb-2 text-right font-normal">
+              <span className="sr-only">Verdict</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ metric, before, after, delta, change }, index) => {
+            const style = CHANGE_STYLES[change];
+            const startsGroup = index === 0 || rows[index - 1].metric.group !== metric.group;
+            return (
+              <tr
+                key={metric.id}
+                className={`${startsGroup ? 'border-t border-white/10' : ''} ${
+                  change === 'missing' ? 'text-white/30' : 'text-white'
+                }`}
+              >
+                <td className="py-2">
+                  {startsGroup && (
+                    <span className="block text-[10px] uppercase tracking-wider text-white/40">
+                      {metric.group}
+                    </span>
+                  )}
+                  {metric.label}
+                </td>
+                <td className="py-2 text-right font-mono">
+                  {formatComparisonValue(before, metric.unit)}
+                </td>
+                <td className="py-2 text-right font-mono">
+                  {formatComparisonValue(after, metric.unit)}
+                </td>
+                <td className="py-2 text-right font-mono">
+                  {formatComparisonValue(delta, metric.unit, true)}
+                </td>
+                <td className="py-2 text-right">
+                  <span
+                    className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${style.className}`}
+                  >
+                    {style.label}
+                  </span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </Panel>
+  );
+});
+
+ComparisonTable.displayName = 'ComparisonTable';
+
+// ============================================================================
+// Page
+// ============================================================================
+
+export const ComparePage = memo(function ComparePage() {
+  const [mode, setMode] = useState<CompareMode>('files');
+  const [fileReports, setFileReports] = useState<Partial<Record<Side, DiagnosticReport>>>({});
+  const [liveReports, setLiveReports] = useState<Partial<Record<Side, DiagnosticReport>>>({});
+  const [liveSlots, setLiveSlots] = useState<Partial<Record<Side, number>>>({});
+  const captureReport = useReportCapture();
+
+  const slots = useControllerStore(
+    useShallow((state) => Object.values(state.controllers).map((pad) => pad.slot)),
+  );
+  const ids = useControllerStore(
+    useShallow((state) => Object.values(state.controllers).map((pad) => pad.id)),
+  );
+
+  // Default to the first two connected controllers
+  const beforeSlot =
+    liveSlots.before !== undefined && slots.includes(liveSlots.before)
+      ? liveSlots.before
+      : slots[0];
+  const afterSlot =
+    liveSlots.after !== undefined && slots.includes(liveSlots.after)
+      ? liveSlots.after
+      : (slots[1] ?? slots[0]);
+
+  // Live reports are re-captured periodically so report rate stays current
+  // Guided test results can't be attributed to one of two live pads, so they are left out
+  useEffect(() => {
+    if (mode !== 'live') return;
+
+    const captureSlot = (slot?: number): DiagnosticReport | undefined => {
+      const pad = slot !== undefined ? useControllerStore.getState().controllers[slot] : undefined;
+      return pad ? captureReport(pad, {}) : undefined;
+    };
+
+    const capture = (): void => {
+      setLiveReports({ before: captureSlot(beforeSlot), after: captureSlot(afterSlot) });
+    };
+
+    capture();
+    const intervalId = setInterval(capture, COMPARE_LIVE_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, [mode, beforeSlot, afterSlot, captureReport]);
+
+  const handleLoadBefore = useCallback((report: DiagnosticReport) => {
+    setFileReports((prev) => ({ ...prev, before: report }));
+  }, []);
+
+  const handleLoadAfter = useCallback((report: DiagnosticReport) => {
+    setFileReports((prev) => ({ ...prev, after: report }));
+  }, []);
+
+  const reports = mode === 'files' ? fileReports : liveReports;
+  const rows =
+    reports.before && reports.after
+      ? compareReports(
+          reports.before,
+          reports.after,
+          mode === 'live' ? LIVE_COMPARISON_METRICS : undefined,
+        )
+      : [];
+
+  return (
+    <div className="min-h-screen px-6 pb-8 pt-24">
+      <div className="mx-auto max-w-7xl">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-white">Compare</h1>
+          <p className="mt-1 text-sm text-white/40">
+            Deltas for drift, circularity, report rate and trigger travel
+          </p>
+        </div>
+
+        <div className="mb-4 grid grid-cols-2 gap-2 md:w-1/2" role="group" aria-label="Source">
+          {MODES.map((option) => (
+            <button
+              key={option.mode}
+              onClick={() => setMode(option.mode)}
+              aria-pressed={mode === option.mode}
+              className={`rounded-xl border p-3 text-left transition-colors ${
+                mode === option.mode
+                  ? 'border-violet-400/50 bg-violet-500/20'
+                  : 'border-white/5 bg-white/[0.02] hover:bg-white/[0.04]'
+              }`}
+            >
+              <p className="text-sm font-medium text-white">{option.label}</p>
+              <p className="text-xs text-white/40">{option.description}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="mb-4 grid gap-4 md:grid-cols-2">
+          {mode === 'files' ? (
+            <>
+              <ReportFilePicker
+                label="Before"
+                report={fileReports.before}
+                onLoad={handleLoadBefore}
+              />
+              <ReportFilePicker label="After" report={fileReports.after} onLoad={handleLoadAfter} />
+            </>
+          ) : (
+            SIDES.map(({ side, label }) => (
+              <ControllerPicker
+                key={side}
+                label={label}
+                slots={slots}
+                ids={ids}
+                value={side === 'before' ? beforeSlot : afterSlot}
+                onChange={(slot) => setLiveSlots((prev) => ({ ...prev, [side]: slot }))}
+              />
+            ))
+          )}
+        </div>
+
+        {mode === 'live' && (
+          <p className="mb-4 text-xs text-white/40">
+            Live mode compares report rate only. To compare drift, circularity and trigger travel,
+            export a report from the Tests page for each controller and load both files.
+          </p>
+        )}
+
+        {rows.length > 0 ? (
+          <ComparisonTable rows={rows} />
+        ) : (
+          <p className="text-sm text-white/50">
+            {mode === 'files'
+              ? 'Load a before and an after report to compare them'
+              : 'Connect a controller to compare'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+});
+
+ComparePage.displayName = 'ComparePage';
@@ -0,0 +1,341 @@
+/**
+ * History - Per-controller trends of drift, noise and report rate across stored runs
+ */
+
+import { memo, useCallback, useEffect, useId, useMemo, useState } from 'react';
+
+import { Panel } from '@/components/Panel';
+import { VerdictBadge } from '@/components/tests/VerdictBadge';
+import { TrendChart, type TrendSeries } from '@/components/visuals/TrendChart';
+import { usePreferencesStore } from '@/state/preferencesSlice';
+import { downloadFile } from '@/services/fileService';
+import {
+  clearHistory,
+  deleteHistoryBefore,
+  getHistoryEntries,
+  isHistorySupported,
+} from '@/services/historyService';
+import {
+  getHistoryFileName,
+  getRetentionCutoff,
+  getTrendSeries,
+  groupHistoryByController,
+  serializeHistory,
+} from '@/utils/history';
+import { SUMMARY_TESTS } from '@/utils/reportShare';
+import type { HistoryController, HistoryEntry, HistoryMetricKey } from '@/types/history';
+import { HISTORY_RETENTION_OPTIONS_DAYS } from '@/lib/constants';
+
+type TrendDefinition = {
+  label: string;
+  lines: { metric: HistoryMetricKey; label: string; color: string }[];
+  formatValue: (value: number) => string;
+};
+
+const LEFT_COLOR = 'rgb(167,139,250)';
+const RIGHT_COLOR = 'rgb(244,114,182)';
+
+const TRENDS: TrendDefinition[] = [
+  {
+    label: 'Drift Resting Offset',
+    lines: [
+      { metric: 'leftDriftOffset', label: 'L', color: LEFT_COLOR },
+      { metric: 'rightDriftOffset', label: 'R', color: RIGHT_COLOR },
+    ],
+    formatValue: (value) => value.toFixed(3),
+  },
+  {
+    label: 'Drift Noise',
+    lines: [
+      { metric: 'leftNoise', label: 'L', color: LEFT_COLOR },
+      { metric: 'rightNoise', label: 'R', color: RIGHT_COLOR },
+    ],
+    formatValue: (value) => value.toFixed(4),
+  },
+  {
+    label: 'Report Rate',
+    lines: [{ metric: 'reportRateHz', label: 'Hz', color: 'rgb(52,211,153)' }],
+    formatValue: (value) => `${Math.round(value)}`,
+  },
+];
+
+const RECENT_RUN_LIMIT = 20;
+
+const formatRetention = (days: number): string => (days > 0 ? `${days} days` : 'Forever');
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+type ControllerListProps = {
+  controllers: HistoryController[];
+  selectedKey?: string;
+  onSelect: (controllerKey: string) => void;
+};
+
+const ControllerList = memo(function ControllerList({
+  controllers,
+  selectedKey,
+  onSelect,
+}: ControllerListProps) {
+  return (
+    <Panel>
+      <h2 className="mb-3 font-medium text-white">Controllers</h2>
+      <div className="space-y-2">
+        {controllers.map((controller) => (
+          <button
+            key={controller.controllerKey}
+            onClick={() => onSelect(controller.controllerKey)}
+            aria-pressed={controller.controllerKey === selectedKey}
+            className={`w-full rounded-xl border p-3 text-left transition-colors ${
+              controller.controllerKey === selectedKey
+                ? 'border-violet-400/50 bg-violet-500/20'
+                : 'border-white/5 bg-white/[0.02] hover:bg-white/[0.04]'
+            }`}
+          >
+            <p className="truncate font-mono text-xs text-white" title={controller.controllerId}>
+              {controller.controllerId}
+            </p>
+            <p className="mt-1 text-xs text-white/40">
+              {controller.entryCount} {controller.entryCount === 1 ? 'run' : 'runs'} · last{' '}
+              {new Date(controller.lastRecordedAt).toLocaleDateString()}
+            </p>
+          </button>
+        ))}
+      </div>
+    </Panel>
+  );
+});
+
+ControllerList.displayName = 'ControllerList';
+
+type RecentRunsProps = {
+  entries: HistoryEntry[];
+};
+
+const RecentRuns = memo(function RecentRuns({ entries }: RecentRunsProps) {
+  const recent = entries.slice(-RECENT_RUN_LIMIT).reverse();
+  return (
+    <Panel>
+      <h2 className="mb-3 font-medium text-white">Recent Runs</h2>
+      <ul className="divide-y divide-white/5 text-sm">
+        {recent.map((entry) => (
+          <li
+            key={entry.id ?? `${entry.recordedAt}-${entry.test}`}
+            className="flex items-center justify-between py-2"
+          >
+            <span className="text-white">{SUMMARY_TESTS[entry.test].label}</span>
+            <span className="flex items-center gap-3">
+              <span className="text-xs text-white/40">
+                {new Date(entry.recordedAt).toLocaleString()}
+              </span>
+              {entry.verdict && <VerdictBadge verdict={entry.verdict} />}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </Panel>
+  );
+});
+
+RecentRuns.displayName = 'RecentRuns';
+
+// ============================================================================
+// Page
+// ============================================================================
+
+export const HistoryPage = memo(function HistoryPage() {
+  const retentionSelectId = useId();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedKey, setSelectedKey] = useState<string>();
+  const [pendingClear, setPendingClear] = useState<'controller' | 'all'>();
+  const [message, setMessage] = useState<string | null>(null);
+
+  const retentionDays = usePreferencesStore((state) => state.historyRetentionDays);
+  const setHistoryRetention = usePreferencesStore((state) => state.setHistoryRetention);
+
+  const loadEntries = useCallback(async () => {
+    setEntries(await getHistoryEntries());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void loadEntries();
+  }, [loadEntries]);
+
+  const controllers = useMemo(() => groupHistoryByController(entries), [entries]);
+  const selected =
+    controllers.find((controller) => controller.controllerKey === selectedKey) ?? controllers[0];
+
+  const selectedEntries = useMemo(
+    () => entries.filter((entry) => entry.controllerKey === selected?.controllerKey),
+    [entries, selected?.controllerKey],
+  );
+
+  const trends = useMemo(
+    () =>
+      TRENDS.map((trend) => ({
+        ...trend,
+        series: trend.lines.map<TrendSeries>((line) => ({
+          label: line.label,
+          color: line.color,
+          points: getTrendSeries(selectedEntries, line.metric),
+        })),
+      })),
+    [selectedEntries],
+  );
+
+  const handleExport = useCallback(() => {
+    const exportedAt = new Date();
+    const ok = downloadFile(
+      getHistoryFileName(exportedAt),
+      serializeHistory(entries, exportedAt),
+      'application/json',
+    );
+    setMessage(ok ? null : 'Download failed. Check the console for details.');
+  }, [entries]);
+
+  const handleRetentionChange = useCallback(
+    async (days: number) => {
+      setHistoryRetention(days);
+      // Prune here rather than waiting on the recorder so the list reflects the new period
+      const cutoff = getRetentionCutoff(days);
+      if (cutoff !== undefined) await deleteHistoryBefore(cutoff);
+      await loadEntries();
+    },
+    [setHistoryRetention, loadEntries],
+  );
+
+  const handleClear = useCallback(
+    async (scope: 'controller' | 'all') => {
+      // First click arms the button, second click clears
+      if (pendingClear !== scope) {
+        setPendingClear(scope);
+        return;
+      }
+      setPendingClear(undefined);
+      const ok = await clearHistory(scope === 'all' ? undefined : selected?.controllerKey);
+      setMessage(ok ? null : 'Could not clear history. Check the console for details.');
+      await loadEntries();
+    },
+    [pendingClear, selected?.controllerKey, loadEntries],
+  );
+
+  if (!isHistorySupported()) {
+    return (
+      <div className="min-h-screen px-6 pb-8 pt-24">
+        <div className="mx-auto max-w-3xl">
+          <Panel>
+            <h1 className="text-xl font-bold text-white">History</h1>
+            <p className="mt-2 text-sm text-white/50">
+              This browser does not provide IndexedDB, so test runs can't be stored.
+            </p>
+          </Panel>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen px-6 pb-8 pt-24">
+      <div className="mx-auto max-w-7xl">
+        {/* Header */}
+        <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-white">History</h1>
+            <p className="mt-1 text-sm text-white/40">
+              Every completed test is stored in this browser, grouped by controller model
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor={retentionSelectId} className="text-xs text-white/50">
+              Keep runs for
+            </label>
+            <select
+              id={retentionSelectId}
+              value={retentionDays}
+              onChange={(e) => void handleRetentionChange(parseInt(e.target.value, 10))}
+              className="rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-white"
+            >
+              {HISTORY_RETENTION_OPTIONS_DAYS.map((days) => (
+                <option key={days} value={days}>
+                  {formatRetention(days)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleExport}
+              disabled={entries.length === 0}
+              className="rounded-lg bg-white/5 px-3 py-1.5 text-xs font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+            >
+              Export All
+            </button>
+            <button
+              onClick={() => void handleClear('all')}
+              onBlur={() => setPendingClear(undefined)}
+              disabled={entries.length === 0}
+              className="rounded-lg bg-rose-500/10 px-3 py-1.5 text-xs font-medium text-rose-300 transition-colors hover:bg-rose-500/20 disabled:opacity-40"
+            >
+              {pendingClear === 'all' ? 'Confirm Clear All' : 'Clear All'}
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <p className="mb-4 text-xs text-rose-300" role="alert">
+            {message}
+          </p>
+        )}
+
+        {isLoading ? null : controllers.length === 0 ? (
+          <p className="text-sm text-white/50">
+            No runs stored yet. Completed tests on the Tests page are recorded here.
+          </p>
+        ) : (
+          <div className="grid gap-4 lg:grid-cols-3">
+            <div className="space-y-4">
+              <ControllerList
+                controllers={controllers}
+                selectedKey={selected?.controllerKey}
+                onSelect={setSelectedKey}
+              />
+              <p className="text-xs text-white/40">
+                Browsers don't expose serial numbers, so identical models share one history
+              </p>
+            </div>
+            <div className="space-y-4 lg:col-span-2">
+              <Panel>
+                <div className="mb-3 flex items-center justify-between gap-4">
+                  <h2 className="truncate font-medium text-white" title={selected?.controllerId}>
+                    Trends
+                  </h2>
+                  <button
+                    onClick={() => void handleClear('controller')}
+                    onBlur={() => setPendingClear(undefined)}
+                    className="rounded-lg bg-white/5 px-3 py-1.5 text-xs font-medium text-white/70 transition-colors hover:bg-white/10"
+                  >
+                    {pendingClear === 'controller' ? 'Confirm Clear' : 'Clear Controller'}
+                  </button>
+                </div>
+                <div className="grid gap-3">
+                  {trends.map((trend) => (
+                    <TrendChart
+                      key={trend.label}
+                      label={trend.label}
+                      series={trend.series}
+                      formatValue={trend.formatValue}
+                    />
+                  ))}
+                </div>
+              </Panel>
+              <RecentRuns entries={selectedEntries} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+HistoryPage.displayName = 'HistoryPage';
@@ -3,210 +3,150 @@
  * New Figma-based layout
  */
 
-import React, { memo, useEffect, useRef, useState, useCallback } from 'react';
+import { memo, useEffect, useId, useRef, useState, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useShallow } from 'zustand/shallow';
 
+import { ControllerDiagramView } from '@/components/ControllerDiagramView';
+import { ControllerIdentityDetails } from '@/components/ControllerIdentityDetails';
+import { HapticSequencer } from '@/components/HapticSequencer';
+import { HapticsEventLog } from '@/components/HapticsEventLog';
+import { Panel } from '@/components/Panel';
+import { FaceButtonGlyph } from '@/components/visuals/FaceButtonGlyph';
+import { StickVisualizer } from '@/components/visuals/StickVisualizer';
+import { RecordingPanel } from '@/components/RecordingPanel';
+import { ReplayPanel } from '@/components/ReplayPanel';
+import { ReportRatePanel } from '@/components/ReportRatePanel';
+import { ButtonChatterPanel } from '@/components/ButtonChatterPanel';
 import { useControllerStore } from '@/state/controllerSlice';
+import { useReplayStore } from '@/state/replaySlice';
 import { usePreferencesStore } from '@/state/preferencesSlice';
-import { triggerRumble, triggerPulse } from '@/services/gamepadService';
+import { triggerRumble, triggerPulse, triggerImpulseRumble } from '@/services/gamepadService';
 import { reportError } from '@/lib/errorReporter';
 import {
-  DEFAULT_DEAD_ZONE,
+  DEAD_ZONE_SHAPE_OPTIONS,
+  DEAD_ZONE_SLIDER_MAX,
   DEFAULT_RUMBLE_DURATION_MS,
   DEFAULT_WEAK_INTENSITY,
   DEFAULT_STRONG_INTENSITY,
+  DEFAULT_TRIGGER_RUMBLE_INTENSITY,
   RUMBLE_DEBOUNCE_MS,
 } from '@/lib/constants';
-import { STANDARD_BUTTONS, AXIS_INDICES } from '@/utils/buttonIndices';
-import type { ButtonReading, NormalizedGamepad } from '@/types/gamepad';
+import {
+  STANDARD_BUTTONS,
+  AXIS_INDICES,
+  BUTTON_INDICES,
+  BUTTON_LABELS,
+} from '@/utils/buttonIndices';
+import {
+  FACE_BUTTON_STYLES,
+  getLayoutFamily,
+  getShortLabel,
+  type FaceButtonColor,
+  type FaceButtonPosition,
+  type FaceButtonStyle,
+} from '@/utils/buttonLayouts';
+import { applyTriggerCurve } from '@/utils/responseCurve';
+import type {
+  ButtonReading,
+  ControllerVendor,
+  DeadZoneShape,
+  NormalizedGamepad,
+  StickId,
+} from '@/types/gamepad';
 
 // ============================================================================
 // Sub-components
 // ============================================================================
 
-type PanelProps = {
-  children: React.ReactNode;
-  className?: string;
+// Button display
+type ButtonItemProps = {
+  button: ButtonReading;
 };
 
-const Panel = memo(function Panel({ children, className = '' }: PanelProps) {
+const ButtonItem = memo(function ButtonItem({ button }: ButtonItemProps) {
   return (
-    <div className={`rounded-2xl border border-white/10 bg-[#12121a] p-5 ${className}`}>
-      {children}
-    </div>
+    <motion.div
+      className={`flex h-10 items-center justify-center rounded-lg border text-sm font-medium transition-colors ${
+        button.pressed
+          ? 'border-violet-400/50 bg-violet-500 text-white'
+          : 'border-white/10 bg-white/5 text-white/50'
+      }`}
+      animate={{ scale: button.pressed ? 0.95 : 1 }}
+      transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+      role="status"
+      aria-label={`${button.label}: ${button.pressed ? 'pressed' : 'released'}`}
+    >
+      {getShortLabel(button.label)}
+    </motion.div>
   );
 });
 
-Panel.displayName = 'Panel';
+ButtonItem.displayName = 'ButtonItem';
 
-// Stick Visualizer
-type StickVisualizerProps = {
-  label: string;
-  x: number;
-  y: number;
-  deadZone: number;
+const FACE_COLORS: Record<FaceButtonColor, { bg: string; activeBg: string; text: string }> = {
+  green: { bg: 'bg-emerald-500/20', activeBg: 'bg-emerald-500', text: 'text-emerald-400' },
+  red: { bg: 'bg-rose-500/20', activeBg: 'bg-rose-500', text: 'text-rose-400' },
+  blue: { bg: 'bg-blue-500/20', activeBg: 'bg-blue-500', text: 'text-blue-400' },
+  yellow: { bg: 'bg-amber-500/20', activeBg: 'bg-amber-500', text: 'text-amber-400' },
+  pink: { bg: 'bg-pink-500/20', activeBg: 'bg-pink-500', text: 'text-pink-400' },
+  neutral: { bg: 'bg-white/10', activeBg: 'bg-white/80', text: 'text-white/70' },
 };
 
-const StickVisualizer = memo(function StickVisualizer({
-  label,
-  x,
-  y,
-  deadZone,
-}: StickVisualizerProps) {
-  const magnitude = Math.sqrt(x * x + y * y);
-  const isInDeadZone = magnitude < deadZone;
-  const percentMag = Math.round(Math.min(magnitude, 1) * 100);
-
-  // Calculate position as percentages - the indicator moves within 45% of the container radius
-  // Using calc() to properly center the 32px (2rem) indicator
-  const indicatorStyle = {
-    left: `calc(50% + ${x * 45}%)`,
-    top: `calc(50% + ${y * 45}%)`,
-  };
-
-  return (
-    <Panel>
-      <div className="mb-4 flex items-center justify-between">
-        <h3 className="font-medium text-white">{label}</h3>
-        <span className="text-sm text-white/50">{percentMag}%</span>
-      </div>
-      <div className="mb-2 flex gap-4 font-mono text-sm">
-        <span className="text-white/50">
-          X: <span className="text-amber-400">{x.toFixed(2)}</span>
-        </span>
-        <span className="text-white/50">
-          Y: <span className="text-amber-400">{y.toFixed(2)}</span>
-        </span>
-      </div>
-
-      {/* Stick visualization */}
-      <div className="relative mx-auto aspect-square w-full max-w-[280px]">
-        {/* Background */}
-        <div className="absolute inset-0 rounded-2xl border border-white/10 bg-[#0a0a10]" />
-
-        {/* Grid lines */}
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="h-px w-full bg-white/5" />
-        </div>
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="h-full w-px bg-white/5" />
-        </div>
-
-        {/* Dead zone circle */}
-        {deadZone > 0 && (
-          <div
-            className="absolute left-1/2 top-1/2 rounded-full border border-dashed border-white/20"
-            style={{
-              width: `${deadZone * 100}%`,
-              height: `${deadZone * 100}%`,
-              transform: 'translate(-50%, -50%)',
-            }}
-          />
-        )}
-
-        {/* Position indicator - using margin offset to center the 32px element */}
-        <motion.div
-          className={`absolute h-8 w-8 rounded-full shadow-lg ${
-            isInDeadZone
-              ? 'bg-amber-500 shadow-amber-500/40'
-              : 'bg-gradient-to-br from-violet-400 to-cyan-400 shadow-violet-500/40'
-          }`}
-          style={{
-            ...indicatorStyle,
-            marginLeft: '-1rem', // -16px = half of 32px width
-            marginTop: '-1rem',  // -16px = half of 32px height
-          }}
-          animate={{ scale: isInDeadZone ? 0.85 : 1 }}
-          transition={{ type: 'spring', stiffness: 400, damping: 30 }}
-        />
-      </div>
-
-      {/* Legend */}
-      <div className="mt-4 flex items-center justify-center gap-6 text-xs text-white/50">
-        <div className="flex items-center gap-2">
-          <span className="h-2 w-2 rounded-full bg-amber-500" />
-          <span>Dead Zone</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <span className="h-2 w-2 rounded-full bg-gradient-to-br from-violet-400 to-cyan-400" />
-          <span>Active</span>
-        </div>
-      </div>
-    </Panel>
-  );
-});
-
-StickVisualizer.displayName = 'StickVisualizer';
+const FACE_POSITIONS: Record<FaceButtonPosition, string> = {
+  top: 'left-1/2 top-0 -translate-x-1/2 -translate-y-1',
+  left: 'left-0 top-1/2 -translate-x-1 -translate-y-1/2',
+  right: 'right-0 top-1/2 -translate-y-1/2 translate-x-1',
+  bottom: 'bottom-0 left-1/2 -translate-x-1/2 translate-y-1',
+};
 
-// Button display
-type ButtonItemProps = {
+// Circular face button (A/B/X/Y, PlayStation shapes)
+type FaceButtonItemProps = {
   button: ButtonReading;
-  label: string;
-  circular?: boolean;
+  style: FaceButtonStyle;
 };
 
-const XBOX_COLORS: Record<string, { bg: string; activeBg: string; text: string }> = {
-  A: { bg: 'bg-emerald-500/20', activeBg: 'bg-emerald-500', text: 'text-emerald-400' },
-  B: { bg: 'bg-rose-500/20', activeBg: 'bg-rose-500', text: 'text-rose-400' },
-  X: { bg: 'bg-blue-500/20', activeBg: 'bg-blue-500', text: 'text-blue-400' },
-  Y: { bg: 'bg-amber-500/20', activeBg: 'bg-amber-500', text: 'text-amber-400' },
-};
+const FaceButtonItem = memo(function FaceButtonItem({ button, style }: FaceButtonItemProps) {
+  const color = FACE_COLORS[style.color];
+  const pressedText = style.color === 'neutral' ? 'text-black' : 'text-white';
 
-const ButtonItem = memo(function ButtonItem({
-  button,
-  label,
-  circular = false,
-}: ButtonItemProps) {
-  const xboxColor = XBOX_COLORS[label];
-
-  // Circular face button style (A, B, X, Y)
-  if (circular && xboxColor) {
-    return (
-      <motion.div
-        className={`flex h-11 w-11 items-center justify-center rounded-full border-2 text-sm font-bold transition-colors ${
-          button.pressed
-            ? `${xboxColor.activeBg} border-transparent text-white shadow-lg`
-            : `${xboxColor.bg} border-white/10 ${xboxColor.text}`
-        }`}
-        animate={{ scale: button.pressed ? 0.9 : 1 }}
-        transition={{ type: 'spring', stiffness: 500, damping: 30 }}
-        role="status"
-        aria-label={`${label}: ${button.pressed ? 'pressed' : 'released'}`}
-      >
-        {label}
-      </motion.div>
-    );
-  }
-
-  // Rectangular button style (bumpers, triggers, menu, etc.)
   return (
     <motion.div
-      className={`flex h-10 items-center justify-center rounded-lg border text-sm font-medium transition-colors ${
+      className={`flex h-11 w-11 items-center justify-center rounded-full border-2 text-sm font-bold transition-colors ${
         button.pressed
-          ? 'border-violet-400/50 bg-violet-500 text-white'
-          : 'border-white/10 bg-white/5 text-white/50'
+          ? `${color.activeBg} border-transparent ${pressedText} shadow-lg`
+          : `${color.bg} border-white/10 ${color.text}`
       }`}
-      animate={{ scale: button.pressed ? 0.95 : 1 }}
+      animate={{ scale: button.pressed ? 0.9 : 1 }}
       transition={{ type: 'spring', stiffness: 500, damping: 30 }}
       role="status"
-      aria-label={`${label}: ${button.pressed ? 'pressed' : 'released'}`}
+      aria-label={`${button.label}: ${button.pressed ? 'pressed' : 'released'}`}
     >
-      {label}
+      <FaceButtonGlyph glyph={style.glyph} label={getShortLabel(button.label)} />
     </motion.div>
   );
 });
 
-ButtonItem.displayName = 'ButtonItem';
+FaceButtonItem.displayName = 'FaceButtonItem';
 
 // Buttons Panel
 type ButtonsPanelProps = {
   buttons: ButtonReading[];
+  vendor?: ControllerVendor;
 };
 
-const ButtonsPanel = memo(function ButtonsPanel({ buttons }: ButtonsPanelProps) {
+const ButtonsPanel = memo(function ButtonsPanel({ buttons, vendor }: ButtonsPanelProps) {
+  const layout = getLayoutFamily(vendor);
+  const faceStyles = FACE_BUTTON_STYLES[layout];
+  const labels: Record<number, string> = BUTTON_LABELS[vendor ?? 'generic'];
+
   const getButton = (index: number): ButtonReading =>
-    buttons[index] ?? { index, label: `B${index}`, pressed: false, value: 0 };
+    buttons[index] ?? {
+      index,
+      label: labels[index] ?? `Button ${index + 1}`,
+      pressed: false,
+      value: 0,
+    };
 
   const pressedCount = buttons.filter((b) => b.pressed || b.value > 0.2).length;
 
@@ -217,43 +157,50 @@ const ButtonsPanel = memo(function ButtonsPanel({ buttons }: ButtonsPanelProps)
         <span className="text-sm text-white/50">{pressedCount}/{buttons.length}</span>
       </div>
 
-      {/* Bumpers */}
-      <div className="mb-3 grid grid-cols-2 gap-2">
-        <ButtonItem button={getButton(4)} label="LB" />
-        <ButtonItem button={getButton(5)} label="RB" />
-      </div>
+      {faceStyles ? (
+        <>
+          {/* Bumpers */}
+          <div className="mb-3 grid grid-cols-2 gap-2">
+            <ButtonItem button={getButton(BUTTON_INDICES.LB)} />
+            <ButtonItem button={getButton(BUTTON_INDICES.RB)} />
+          </div>
 
-      {/* Face buttons diamond - Xbox layout */}
-      <div className="relative mx-auto my-6 h-28 w-28">
-        {/* Y - Top */}
-        <div className="absolute left-1/2 top-0 -translate-x-1/2 -translate-y-1">
-          <ButtonItem button={getButton(3)} label="Y" circular />
-        </div>
-        {/* X - Left */}
-        <div className="absolute left-0 top-1/2 -translate-x-1 -translate-y-1/2">
-          <ButtonItem button={getButton(2)} label="X" circular />
-        </div>
-        {/* B - Right */}
-        <div className="absolute right-0 top-1/2 -translate-y-1/2 translate-x-1">
-          <ButtonItem button={getButton(1)} label="B" circular />
-        </div>
-        {/* A - Bottom */}
-        <div className="absolute bottom-0 left-1/2 -translate-x-1/2 translate-y-1">
-          <ButtonItem button={getButton(0)} label="A" circular />
-        </div>
-      </div>
+          {/* Face buttons diamond - positions follow the standard mapping */}
+          <div className="relative mx-auto my-6 h-28 w-28">
+            {faceStyles.map((style) => (
+              <div key={style.index} className={`absolute ${FACE_POSITIONS[style.position]}`}>
+                <FaceButtonItem button={getButton(style.index)} style={style} />
+              </div>
+            ))}
+          </div>
 
-      {/* Menu buttons */}
-      <div className="mt-3 grid grid-cols-2 gap-2">
-        <ButtonItem button={getButton(8)} label="View" />
-        <ButtonItem button={getButton(9)} label="Menu" />
-      </div>
+          {/* Menu buttons */}
+          <div className="mt-3 grid grid-cols-2 gap-2">
+            <ButtonItem button={getButton(BUTTON_INDICES.BACK)} />
+            <ButtonItem button={getButton(BUTTON_INDICES.START)} />
+          </div>
 
-      {/* Stick buttons */}
-      <div className="mt-2 grid grid-cols-2 gap-2">
-        <ButtonItem button={getButton(10)} label="L3" />
-        <ButtonItem button={getButton(11)} label="R3" />
-      </div>
+          {/* Stick buttons */}
+          <div className="mt-2 grid grid-cols-2 gap-2">
+            <ButtonItem button={getButton(BUTTON_INDICES.LS)} />
+            <ButtonItem button={getButton(BUTTON_INDICES.RS)} />
+          </div>
+
+          {/* Guide button, when the browser exposes it */}
+          {buttons.length > BUTTON_INDICES.GUIDE && (
+            <div className="mt-2 grid grid-cols-1">
+              <ButtonItem button={getButton(BUTTON_INDICES.GUIDE)} />
+            </div>
+          )}
+        </>
+      ) : (
+        // Unknown layout - number every button the browser reports
+        <div className="grid grid-cols-4 gap-2">
+          {buttons.map((button) => (
+            <ButtonItem key={button.index} button={button} />
+          ))}
+        </div>
+      )}
     </Panel>
   );
 });
@@ -314,13 +261,162 @@ const DPad = memo(function DPad({ buttons }: DPadProps) {
 
 DPad.displayName = 'DPad';
 
+// Impulse trigger motors
+type TriggerMotor = 'leftTrigger' | 'rightTrigger';
+
+const TRIGGER_MOTORS: { motor: TriggerMotor; label: string }[] = [
+  { motor: 'leftTrigger', label: 'Left Trigger' },
+  { motor: 'rightTrigger', label: 'Right Trigger' },
+];
+
+type TriggerMotorRowProps = {
+  label: string;
+  intensity: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+  onTest: () => void;
+};
+
+const TriggerMotorRow = memo(function TriggerMotorRow({
+  label,
+  intensity,
+  disabled,
+  onChange,
+  onTest,
+}: TriggerMotorRowProps) {
+  const sliderId = useId();
+
+  return (
+    <div className="flex items-center gap-3">
+      <label htmlFor={sliderId} className="w-24 shrink-0 text-sm text-white/50">
+        {label}
+      </label>
+      <input
+        id={sliderId}
+        type="range"
+        min="0.1"
+        max="1"
+        step="0.1"
+        value={intensity}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        disabled={disabled}
+        className="min-w-0 flex-1"
+        style={{
+          ['--range-progress' as string]: `${((intensity - 0.1) / (1 - 0.1)) * 100}%`,
+        }}
+      />
+      <span className="w-10 text-right font-mono text-sm text-white">
+        {Math.round(intensity * 100)}%
+      </span>
+      <button
+        onClick={onTest}
+        disabled={disabled}
+        className="rounded-lg bg-white/5 px-3 py-1.5 text-xs font-medium text-white/60 transition-colors hover:bg-white/10 disabled:opacity-40"
+        aria-label={`Test ${label} motor`}
+      >
+        Test
+      </button>
+    </div>
+  );
+});
+
+TriggerMotorRow.displayName = 'TriggerMotorRow';
+
+type TriggerRumbleSectionProps = {
+  gamepadIndex?: number;
+  /** Browser advertises trigger-rumble for the actuator */
+  supported: boolean;
+  /** Model database says the hardware has trigger motors */
+  hardwareSupport: boolean;
+};
+
+const TriggerRumbleSection = memo(function TriggerRumbleSection({
+  gamepadIndex,
+  supported,
+  hardwareSupport,
+}: TriggerRumbleSectionProps) {
+  const [intensities, setIntensities] = useState<Record<TriggerMotor, number>>({
+    leftTrigger: DEFAULT_TRIGGER_RUMBLE_INTENSITY,
+    rightTrigger: DEFAULT_TRIGGER_RUMBLE_INTENSITY,
+  });
+  const lastTriggerRef = useRef<number>(0);
+
+  const handlePlay = useCallback(
+    async (motors: TriggerMotor[]) => {
+      if (gamepadIndex === undefined || !supported) return;
+      const now = Date.now();
+      if (now - lastTriggerRef.current < RUMBLE_DEBOUNCE_MS) return;
+      lastTriggerRef.current = now;
+
+      const result = await triggerImpulseRumble(gamepadIndex, {
+        duration: DEFAULT_RUMBLE_DURATION_MS,
+        leftTrigger: motors.includes('leftTrigger') ? intensities.leftTrigger : 0,
+        rightTrigger: motors.includes('rightTrigger') ? intensities.rightTrigger : 0,
+      });
+
+      if (!result.success) {
+        reportError(new Error(result.error), 'warning', { action: 'triggerImpulseRumble' });
+      }
+    },
+    [gamepadIndex, intensities, supported],
+  );
+
+  return (
+    <div className="mt-5 border-t border-white/5 pt-4">
+      <div className="mb-3 flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium text-white">Trigger Motors</h4>
+          <p className="text-xs text-white/40">Impulse trigger rumble</p>
+        </div>
+        <button
+          onClick={() => void handlePlay(['leftTrigger', 'rightTrigger'])}
+          disabled={!supported}
+          className="rounded-lg bg-violet-500/20 px-3 py-1.5 text-xs font-medium text-violet-300 transition-colors hover:bg-violet-500/30 disabled:opacity-40"
+        >
+          Test Both
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {TRIGGER_MOTORS.map(({ motor, label }) => (
+          <TriggerMotorRow
+            key={motor}
+            label={label}
+            intensity={intensities[motor]}
+            disabled={!supported}
+            onChange={(value) => setIntensities((prev) => ({ ...prev, [motor]: value }))}
+            onTest={() => void handlePlay([motor])}
+          />
+        ))}
+      </div>
+
+      {!supported && (
+        <p className="mt-3 text-center text-xs text-white/40">
+          {hardwareSupport
+            ? 'This controller has trigger motors, but the browser does not expose trigger-rumble'
+            : 'Trigger rumble not supported on this controller'}
+        </p>
+      )}
+    </div>
+  );
+});
+
+TriggerRumbleSection.displayName = 'TriggerRumbleSection';
+
 // Haptics Control
 type HapticsProps = {
   gamepadIndex?: number;
   hasRumble: boolean;
+  hasTriggerRumble: boolean;
+  hasTriggerMotors: boolean;
 };
 
-const HapticsControl = memo(function HapticsControl({ gamepadIndex, hasRumble }: HapticsProps) {
+const HapticsControl = memo(function HapticsControl({
+  gamepadIndex,
+  hasRumble,
+  hasTriggerRumble,
+  hasTriggerMotors,
+}: HapticsProps) {
   const [intensity, setIntensity] = useState(0.5);
   const [activePreset, setActivePreset] = useState<'low' | 'medium' | 'high' | null>('medium');
   const lastTriggerRef = useRef<number>(0);
@@ -409,6 +505,14 @@ const HapticsControl = memo(function HapticsControl({ gamepadIndex, hasRumble }:
           Haptics not supported on this controller
         </p>
       )}
+
+      <TriggerRumbleSection
+        gamepadIndex={gamepadIndex}
+        supported={hasTriggerRumble}
+        hardwareSupport={hasTriggerMotors}
+      />
+
+      <HapticsEventLog slot={gamepadIndex} />
     </Panel>
   );
 });
@@ -416,19 +520,63 @@ const HapticsControl = memo(function HapticsControl({ gamepadIndex, hasRumble }:
 HapticsControl.displayName = 'HapticsControl';
 
 // Dead Zone Control
+type DeadZoneSliderProps = {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+};
+
+const DeadZoneSlider = memo(function DeadZoneSlider({
+  label,
+  value,
+  onChange,
+}: DeadZoneSliderProps) {
+  const sliderId = useId();
+
+  return (
+    <div>
+      <div className="mb-1 flex items-center justify-between text-sm">
+        <label htmlFor={sliderId} className="text-white/50">
+          {label}
+        </label>
+        <span className="font-mono text-white">{Math.round(value * 100)}%</span>
+      </div>
+      <input
+        id={sliderId}
+        type="range"
+        min={0}
+        max={DEAD_ZONE_SLIDER_MAX}
+        step={0.01}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full"
+        style={{
+          ['--range-progress' as string]: `${(value / DEAD_ZONE_SLIDER_MAX) * 100}%`,
+        }}
+      />
+    </div>
+  );
+});
+
+DeadZoneSlider.displayName = 'DeadZoneSlider';
+
 type DeadZoneControlProps = {
-  leftDeadZone: number;
-  rightDeadZone: number;
-  onLeftChange: (value: number) => void;
-  onRightChange: (value: number) => void;
+  deadZones: Record<StickId, number>;
+  shape: DeadZoneShape;
+  onChange: (stick: StickId, value: number) => void;
+  onShapeChange: (shape: DeadZoneShape) => void;
   onReset: () => void;
 };
 
 const DeadZoneControl = memo(function DeadZoneControl({
-  leftDeadZone,
-  rightDeadZone,
+  deadZones,
+  shape,
+  onChange,
+  onShapeChange,
   onReset,
 }: DeadZoneControlProps) {
+  const shapeSelectId = useId();
+
   return (
     <Panel>
       <div className="mb-4">
@@ -436,13 +584,34 @@ const DeadZoneControl = memo(function DeadZoneControl({
         <p className="text-xs text-white/40">Adjust to compensate for stick drift</p>
       </div>
 
-      <div className="mb-3 grid grid-cols-2 gap-3">
-        <button className="rounded-xl border border-white/10 bg-white/5 py-3 text-sm text-white/70">
-          Left: {Math.round(leftDeadZone * 100)}%
-        </button>
-        <button className="rounded-xl border border-white/10 bg-white/5 py-3 text-sm text-white/70">
-          Right: {Math.round(rightDeadZone * 100)}%
-        </button>
+      <div className="mb-4 space-y-3">
+        <DeadZoneSlider
+          label="Left"
+          value={deadZones.left}
+          onChange={(value) => onChange('left', value)}
+        />
+        <DeadZoneSlider
+          label="Right"
+          value={deadZones.right}
+          onChange={(value) => onChange('right', value)}
+        />
+        <div className="flex items-center justify-between text-sm">
+          <label htmlFor={shapeSelectId} className="text-white/50">
+            Shape
+          </label>
+          <select
+            id={shapeSelectId}
+            value={shape}
+            onChange={(e) => onShapeChange(e.target.value as DeadZoneShape)}
+            className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-white"
+          >
+            {DEAD_ZONE_SHAPE_OPTIONS.map((option) => (
+              <option key={option.shape} value={option.shape}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       <button
@@ -461,16 +630,22 @@ DeadZoneControl.displayName = 'DeadZoneControl';
 type TriggerMeterProps = {
   label: string;
   value: number;
+  /** Value after the response curve */
+  output: number;
 };
 
-const TriggerMeter = memo(function TriggerMeter({ label, value }: TriggerMeterProps) {
+const TriggerMeter = memo(function TriggerMeter({ label, value, output }: TriggerMeterProps) {
   const percent = Math.round(value * 100);
+  const outputPercent = Math.round(output * 100);
   
   return (
     <Panel className="py-4">
       <div className="mb-2 flex items-center justify-between">
         <span className="font-medium text-white">{label}</span>
-        <span className="text-sm text-white/50">{percent}%</span>
+        <span className="text-sm text-white/50">
+          {percent}% <span className="text-white/30">→</span>{' '}
+          <span className="text-white">{outputPercent}%</span>
+        </span>
       </div>
       <div className="h-2 overflow-hidden rounded-full bg-white/10">
         <motion.div
@@ -480,6 +655,9 @@ const TriggerMeter = memo(function TriggerMeter({ label, value }: TriggerMeterPr
           transition={{ type: 'spring', stiffness: 300, damping: 30 }}
         />
       </div>
+      <div className="mt-1 h-1 overflow-hidden rounded-full bg-white/5" title="Curve output">
+        <div className="h-full rounded-full bg-cyan-400/70" style={{ width: `${outputPercent}%` }} />
+      </div>
     </Panel>
   );
 });
@@ -535,6 +713,13 @@ LatencyDisplay.displayName = 'LatencyDisplay';
 // Main Component
 // ============================================================================
 
+type LiveViewMode = 'panels' | 'diagram';
+
+const VIEW_MODES: { mode: LiveViewMode; label: string }[] = [
+  { mode: 'panels', label: 'Panels' },
+  { mode: 'diagram', label: 'Diagram' },
+];
+
 export const LiveDiagnosticsPage = memo(function LiveDiagnosticsPage() {
   const { controllers, activeSlot } = useControllerStore(
     useShallow((state) => ({
@@ -542,17 +727,35 @@ export const LiveDiagnosticsPage = memo(function LiveDiagnosticsPage() {
       activeSlot: state.activeSlot,
     }))
   );
-  const { simulationMode, deadZone, setDeadZone } = usePreferencesStore(
+  const {
+    simulationMode,
+    deadZones,
+    deadZoneShape,
+    outerDeadZone,
+    responseCurves,
+    setDeadZone,
+    setDeadZoneShape,
+    resetDeadZones,
+  } = usePreferencesStore(
     useShallow((state) => ({
       simulationMode: state.simulationMode,
-      deadZone: state.deadZone,
+      deadZones: state.deadZones,
+      deadZoneShape: state.deadZoneShape,
+      outerDeadZone: state.outerDeadZone,
+      responseCurves: state.responseCurves,
       setDeadZone: state.setDeadZone,
+      setDeadZoneShape: state.setDeadZoneShape,
+      resetDeadZones: state.resetDeadZones,
     }))
   );
 
+  const isReplaying = useReplayStore((state) => state.session !== undefined);
+
   const controller: NormalizedGamepad | undefined =
     activeSlot !== undefined ? controllers[activeSlot] : Object.values(controllers)[0];
 
+  const [viewMode, setViewMode] = useState<LiveViewMode>('panels');
+
   // Latency tracking
   const [latencyMs, setLatencyMs] = useState(0);
   const prevTimestampRef = useRef<number>(0);
@@ -589,77 +792,140 @@ export const LiveDiagnosticsPage = memo(function LiveDiagnosticsPage() {
   const leftTrigger = buttons[STANDARD_BUTTONS.TRIGGER_LEFT]?.value ?? 0;
   const rightTrigger = buttons[STANDARD_BUTTONS.TRIGGER_RIGHT]?.value ?? 0;
   const hasRumble = controller?.haptics?.hasRumble ?? false;
+  const hasTriggerRumble = controller?.haptics?.hasTriggerRumble ?? false;
   const hasController = !!controller;
 
-  const handleResetDeadZone = useCallback(() => {
-    setDeadZone(DEFAULT_DEAD_ZONE);
-  }, [setDeadZone]);
-
   return (
     <div className="min-h-screen px-6 pb-8 pt-24">
       <div className="mx-auto max-w-7xl">
         {/* Header */}
-        <div className="mb-6">
-          <div className="flex items-center gap-3">
-            <h1 className="text-2xl font-bold text-white">Live Diagnostics</h1>
-            <span
-              className={`rounded-full px-3 py-1 text-xs font-semibold ${
-                hasController
-                  ? 'bg-emerald-500/20 text-emerald-300'
-                  : 'bg-white/10 text-white/50'
-              }`}
-            >
-              {hasController ? 'ACTIVE' : 'INACTIVE'}
-            </span>
-          </div>
-          <p className="mt-1 font-mono text-sm text-white/40">
-            {controller?.id ?? 'No controller connected'}
-          </p>
-        </div>
-
-        {/* Main Grid */}
-        <div className="grid gap-4 lg:grid-cols-12">
-          {/* Left Column - Sticks */}
-          <div className="space-y-4 lg:col-span-4">
-            <StickVisualizer
-              label="Left Stick"
-              x={leftStick.x}
-              y={leftStick.y}
-              deadZone={deadZone}
-            />
-            <StickVisualizer
-              label="Right Stick"
-              x={rightStick.x}
-              y={rightStick.y}
-              deadZone={deadZone}
-            />
+        <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-white">Live Diagnostics</h1>
+              <span
+                className={`rounded-full px-3 py-1 text-xs font-semibold ${
+                  isReplaying
+                    ? 'bg-cyan-500/20 text-cyan-300'
+                    : hasController
+                      ? 'bg-emerald-500/20 text-emerald-300'
+                      : 'bg-white/10 text-white/50'
+                }`}
+              >
+                {isReplaying ? 'REPLAY' : hasController ? 'ACTIVE' : 'INACTIVE'}
+              </span>
+            </div>
+            <p className="mt-1 font-mono text-sm text-white/40">
+              {controller?.id ?? 'No controller connected'}
+            </p>
+            {controller && (
+              <div className="mt-2">
+                <ControllerIdentityDetails identity={controller.identity} />
+              </div>
+            )}
           </div>
 
-          {/* Middle Column - Controls */}
-          <div className="space-y-4 lg:col-span-4">
-            <HapticsControl gamepadIndex={controller?.slot} hasRumble={hasRumble} />
-            <DeadZoneControl
-              leftDeadZone={deadZone}
-              rightDeadZone={deadZone}
-              onLeftChange={setDeadZone}
-              onRightChange={setDeadZone}
-              onReset={handleResetDeadZone}
-            />
+          <div
+            className="flex rounded-xl border border-white/10 bg-white/5 p-1"
+            role="group"
+            aria-label="View mode"
+          >
+            {VIEW_MODES.map((option) => (
+              <button
+                key={option.mode}
+                onClick={() => setViewMode(option.mode)}
+                aria-pressed={viewMode === option.mode}
+                className={`rounded-lg px-4 py-1.5 text-sm font-medium transition-colors ${
+                  viewMode === option.mode
+                    ? 'bg-violet-500 text-white'
+                    : 'text-white/50 hover:text-white/80'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
           </div>
+        </div>
 
-          {/* Right Column - Buttons, D-Pad, Triggers, Latency */}
-          <div className="space-y-4 lg:col-span-4">
-            <ButtonsPanel buttons={buttons} />
-            <DPad buttons={buttons} />
-            <TriggerMeter label="LT" value={leftTrigger} />
-            <TriggerMeter label="RT" value={rightTrigger} />
-            <LatencyDisplay
-              latencyMs={latencyMs}
-              isSimulation={simulationMode}
-              hasController={hasController}
-            />
+        {viewMode === 'diagram' ? (
+          <ControllerDiagramView gamepad={controller} deadZones={deadZones} />
+        ) : (
+          /* Main Grid */
+          <div className="grid gap-4 lg:grid-cols-12">
+            {/* Left Column - Sticks */}
+            <div className="space-y-4 lg:col-span-4">
+              <StickVisualizer
+                label="Left Stick"
+                x={leftStick.x}
+                y={leftStick.y}
+                deadZone={deadZones.left}
+                deadZoneShape={deadZoneShape}
+                outerDeadZone={outerDeadZone}
+                responseCurve={responseCurves.left}
+              />
+              <StickVisualizer
+                label="Right Stick"
+                x={rightStick.x}
+                y={rightStick.y}
+                deadZone={deadZones.right}
+                deadZoneShape={deadZoneShape}
+                outerDeadZone={outerDeadZone}
+                responseCurve={responseCurves.right}
+              />
+            </div>
+
+            {/* Middle Column - Controls */}
+            <div className="space-y-4 lg:col-span-4">
+              <HapticsControl
+                gamepadIndex={controller?.slot}
+                hasRumble={hasRumble}
+                hasTriggerRumble={hasTriggerRumble}
+                hasTriggerMotors={controller?.identity?.model?.capabilities.triggerRumble ?? false}
+              />
+              <DeadZoneControl
+                deadZones={deadZones}
+                shape={deadZoneShape}
+                onChange={setDeadZone}
+                onShapeChange={setDeadZoneShape}
+                onReset={resetDeadZones}
+              />
+              <RecordingPanel />
+              <ReplayPanel />
+            </div>
+
+            {/* Right Column - Buttons, D-Pad, Triggers, Latency */}
+            <div className="space-y-4 lg:col-span-4">
+              <ButtonsPanel buttons={buttons} vendor={controller?.vendor} />
+              <DPad buttons={buttons} />
+              <ButtonChatterPanel slot={controller?.slot} />
+              <TriggerMeter
+                label="LT"
+                value={leftTrigger}
+                output={applyTriggerCurve(leftTrigger, responseCurves.leftTrigger)}
+              />
+              <TriggerMeter
+                label="RT"
+                value={rightTrigger}
+                output={applyTriggerCurve(rightTrigger, responseCurves.rightTrigger)}
+              />
+              <ReportRatePanel slot={controller?.slot} />
+              <LatencyDisplay
+                latencyMs={latencyMs}
+                isSimulation={simulationMode}
+                hasController={hasController}
+              />
+            </div>
+
+            {/* Full Width - Haptic Sequencer */}
+            <div className="lg:col-span-12">
+              <HapticSequencer
+                gamepadIndex={controller?.slot}
+                hasRumble={hasRumble}
+                hasTriggerRumble={hasTriggerRumble}
+              />
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Help Button */}
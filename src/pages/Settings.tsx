@@ -3,14 +3,47 @@
  * New Figma-based layout
  */
 
-import React, { memo, useMemo } from 'react';
+import React, { memo, useEffect, useId, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useShallow } from 'zustand/shallow';
 
+import { ProfileManager } from '@/components/ProfileManager';
+import { DeadZoneOverlay } from '@/components/visuals/DeadZoneOverlay';
+import { ResponseCurveGraph } from '@/components/visuals/ResponseCurveGraph';
 import { useControllerStore } from '@/state/controllerSlice';
 import { usePreferencesStore } from '@/state/preferencesSlice';
-import { AXIS_INDICES } from '@/utils/buttonIndices';
-import { MIN_DEAD_ZONE } from '@/lib/constants';
+import { useReplayStore } from '@/state/replaySlice';
+import {
+  getSamplerStats,
+  isHighFrequencySamplingSupported,
+  type SamplerStats,
+} from '@/services/samplerService';
+import { applyDeadZone, getStickCoords } from '@/utils/gamepadMapping';
+import { clampPointInput, insertCurvePoint } from '@/utils/responseCurve';
+import { STANDARD_BUTTONS } from '@/utils/buttonIndices';
+import { SIMULATION_SCENARIOS, getSimulationScenario } from '@/simulators/scenarios';
+import type {
+  CurvePoint,
+  CurveTarget,
+  DeadZoneShape,
+  ResponseCurve,
+  SamplerMode,
+  StickId,
+} from '@/types/gamepad';
+import {
+  CURVE_TARGET_OPTIONS,
+  DEAD_ZONE_SHAPE_OPTIONS,
+  DEAD_ZONE_SLIDER_MAX,
+  MAX_CURVE_EXPONENT,
+  MAX_CURVE_POINTS,
+  MAX_OUTER_DEAD_ZONE,
+  MAX_SIMULATION_SEED,
+  MIN_CURVE_EXPONENT,
+  MIN_DEAD_ZONE,
+  RESPONSE_CURVE_OPTIONS,
+  SAMPLER_RATE_OPTIONS_HZ,
+  SAMPLER_STATS_WINDOW_MS,
+} from '@/lib/constants';
 
 // ============================================================================
 // Sub-components
@@ -34,21 +67,27 @@ Panel.displayName = 'Panel';
 // Dead Zone Preview
 type DeadZonePreviewProps = {
   deadZone: number;
+  shape: DeadZoneShape;
+  outerDeadZone: number;
   currentX: number;
   currentY: number;
 };
 
+// Full deflection maps to 45% of the preview, i.e. 0.9 of the SVG half-size
+const PREVIEW_SCALE = 0.9;
+
 const DeadZonePreview = memo(function DeadZonePreview({
   deadZone,
+  shape,
+  outerDeadZone,
   currentX,
   currentY,
 }: DeadZonePreviewProps) {
   const magnitude = Math.sqrt(currentX * currentX + currentY * currentY);
-  const isInDeadZone = magnitude < deadZone;
 
   // Calculate filtered values
-  const filteredX = isInDeadZone ? 0 : currentX;
-  const filteredY = isInDeadZone ? 0 : currentY;
+  const filtered = applyDeadZone(currentX, currentY, deadZone, shape, outerDeadZone);
+  const isInDeadZone = filtered.magnitude === 0;
 
   return (
     <div className="mt-6 rounded-xl border border-white/5 bg-[#0a0a10] p-6">
@@ -57,15 +96,13 @@ const DeadZonePreview = memo(function DeadZonePreview({
         {/* Background */}
         <div className="absolute inset-0 rounded-full border border-white/10 bg-[#0d0d14]" />
 
-        {/* Dead zone circle */}
-        <div
-          className={`absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-dashed transition-colors ${
-            isInDeadZone ? 'border-violet-400/60' : 'border-white/20'
-          }`}
-          style={{
-            width: `${deadZone * 100}%`,
-            height: `${deadZone * 100}%`,
-          }}
+        {/* Dead zone shape */}
+        <DeadZoneOverlay
+          deadZone={deadZone}
+          shape={shape}
+          outerDeadZone={outerDeadZone}
+          active={isInDeadZone}
+          scale={PREVIEW_SCALE}
         />
 
         {/* Position indicator */}
@@ -100,7 +137,7 @@ const DeadZonePreview = memo(function DeadZonePreview({
         <div className="flex items-center justify-between">
           <span className="text-white/50">Filtered:</span>
           <span className="font-mono text-white">
-            ({filteredX.toFixed(2)}, {filteredY.toFixed(2)})
+            ({filtered.x.toFixed(2)}, {filtered.y.toFixed(2)})
           </span>
         </div>
         <div className="flex items-center justify-between">
@@ -162,39 +199,418 @@ const ToggleSwitch = memo(function ToggleSwitch({
 
 ToggleSwitch.displayName = 'ToggleSwitch';
 
+// Dead Zone Shape Picker
+type DeadZoneShapePickerProps = {
+  shape: DeadZoneShape;
+  onChange: (shape: DeadZoneShape) => void;
+};
+
+const DeadZoneShapePicker = memo(function DeadZoneShapePicker({
+  shape,
+  onChange,
+}: DeadZoneShapePickerProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2" role="group" aria-label="Dead zone shape">
+      {DEAD_ZONE_SHAPE_OPTIONS.map((option) => (
+        <button
+          key={option.shape}
+          onClick={() => onChange(option.shape)}
+          aria-pressed={shape === option.shape}
+          className={`rounded-xl border p-3 text-left transition-colors ${
+            shape === option.shape
+              ? 'border-violet-400/50 bg-violet-500/20'
+              : 'border-white/5 bg-white/[0.02] hover:bg-white/[0.04]'
+          }`}
+        >
+          <p className="text-sm font-medium text-white">{option.label}</p>
+          <p className="text-xs text-white/40">{option.description}</p>
+        </button>
+      ))}
+    </div>
+  );
+});
+
+DeadZoneShapePicker.displayName = 'DeadZoneShapePicker';
+
+// Response Curve Editor
+type ResponseCurveEditorProps = {
+  curve: ResponseCurve;
+  onChange: (curve: ResponseCurve) => void;
+};
+
+const ResponseCurveEditor = memo(function ResponseCurveEditor({
+  curve,
+  onChange,
+}: ResponseCurveEditorProps) {
+  const exponentId = useId();
+
+  const updatePoint = (index: number, point: CurvePoint): void => {
+    onChange({ ...curve, points: curve.points.map((p, i) => (i === index ? point : p)) });
+  };
+
+  const removePoint = (index: number): void => {
+    onChange({ ...curve, points: curve.points.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-2" role="group" aria-label="Curve type">
+        {RESPONSE_CURVE_OPTIONS.map((option) => (
+          <button
+            key={option.type}
+            onClick={() => onChange({ ...curve, type: option.type })}
+            aria-pressed={curve.type === option.type}
+            className={`rounded-lg py-2 text-sm font-medium transition-colors ${
+              curve.type === option.type
+                ? 'bg-violet-500/30 text-violet-200'
+                : 'bg-white/5 text-white/60 hover:bg-white/10'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {(curve.type === 'power' || curve.type === 'sCurve') && (
+        <div>
+          <div className="mb-3 flex items-center justify-between">
+            <label htmlFor={exponentId} className="text-sm text-white/40">
+              {curve.type === 'power' ? 'Exponent' : 'Steepness'}
+            </label>
+            <span className="font-mono text-sm text-violet-400">{curve.exponent.toFixed(2)}</span>
+          </div>
+          <input
+            id={exponentId}
+            type="range"
+            min={MIN_CURVE_EXPONENT}
+            max={MAX_CURVE_EXPONENT}
+            step={0.05}
+            value={curve.exponent}
+            onChange={(e) => onChange({ ...curve, exponent: parseFloat(e.target.value) })}
+            className="w-full"
+            style={{
+              ['--range-progress' as string]: `${((curve.exponent - MIN_CURVE_EXPONENT) / (MAX_CURVE_EXPONENT - MIN_CURVE_EXPONENT)) * 100}%`,
+            }}
+          />
+        </div>
+      )}
+
+      {curve.type === 'piecewise' && (
+        <div className="space-y-2">
+          {curve.points.map((point, index) => {
+            const isEndpoint = index === 0 || index === curve.points.length - 1;
+            return (
+              <div
+                key={index}
+                className="grid grid-cols-[1fr_1fr_auto] items-center gap-3 rounded-lg bg-white/[0.02] px-3 py-2"
+              >
+                <label className="text-xs text-white/40">
+                  In {Math.round(point.input * 100)}%
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={point.input}
+                    disabled={isEndpoint}
+                    onChange={(e) =>
+                      updatePoint(index, {
+                        ...point,
+                        input: clampPointInput(curve.points, index, parseFloat(e.target.value)),
+                      })
+                    }
+                    className="w-full disabled:opacity-40"
+                  />
+                </label>
+                <label className="text-xs text-white/40">
+                  Out {Math.round(point.output * 100)}%
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={point.output}
+                    onChange={(e) =>
+                      updatePoint(index, { ...point, output: parseFloat(e.target.value) })
+                    }
+                    className="w-full"
+                  />
+                </label>
+                <button
+                  onClick={() => removePoint(index)}
+                  disabled={isEndpoint}
+                  className="rounded-md px-2 py-1 text-xs text-white/50 transition-colors hover:bg-white/10 disabled:invisible"
+                  aria-label={`Remove point ${index + 1}`}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+          <button
+            onClick={() => onChange({ ...curve, points: insertCurvePoint(curve.points) })}
+            disabled={curve.points.length >= MAX_CURVE_POINTS}
+            className="w-full rounded-lg bg-white/5 py-2 text-sm font-medium text-white/70 transition-colors hover:bg-white/10 disabled:opacity-40"
+          >
+            Add Point
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+ResponseCurveEditor.displayName = 'ResponseCurveEditor';
+
+// Sampler Settings
+type SamplerSettingsProps = {
+  mode: SamplerMode;
+  rateHz: number;
+  onModeChange: (mode: SamplerMode) => void;
+  onRateChange: (rateHz: number) => void;
+  /** Why the sampler is paused regardless of controllers (simulation or replay) */
+  pausedReason?: string;
+};
+
+const SAMPLER_MODES: { mode: SamplerMode; label: string; description: string }[] = [
+  { mode: 'animationFrame', label: 'Display Refresh', description: 'Sample once per frame' },
+  { mode: 'highFrequency', label: 'High Frequency', description: 'Dedicated sampling loop' },
+];
+
+const SamplerSettings = memo(function SamplerSettings({
+  mode,
+  rateHz,
+  onModeChange,
+  onRateChange,
+  pausedReason,
+}: SamplerSettingsProps) {
+  const rateSelectId = useId();
+  const isSupported = isHighFrequencySamplingSupported();
+  const [stats, setStats] = useState<SamplerStats>(getSamplerStats);
+
+  useEffect(() => {
+    if (mode !== 'highFrequency') return;
+    const intervalId = setInterval(() => setStats(getSamplerStats()), SAMPLER_STATS_WINDOW_MS);
+    return () => clearInterval(intervalId);
+  }, [mode]);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2" role="group" aria-label="Sampling mode">
+        {SAMPLER_MODES.map((option) => (
+          <button
+            key={option.mode}
+            onClick={() => onModeChange(option.mode)}
+            disabled={option.mode === 'highFrequency' && !isSupported}
+            aria-pressed={mode === option.mode}
+            className={`rounded-xl border p-3 text-left transition-colors disabled:opacity-40 ${
+              mode === option.mode
+                ? 'border-violet-400/50 bg-violet-500/20'
+                : 'border-white/5 bg-white/[0.02] hover:bg-white/[0.04]'
+            }`}
+          >
+            <p className="text-sm font-medium text-white">{option.label}</p>
+            <p className="text-xs text-white/40">{option.description}</p>
+          </button>
+        ))}
+      </div>
+
+      {mode === 'highFrequency' && (
+        <div className="flex items-center justify-between rounded-xl border border-white/5 bg-white/[0.02] p-4">
+          <div>
+            <label htmlFor={rateSelectId} className="font-medium text-white">
+              Target Rate
+            </label>
+            <p className="text-sm text-white/40" aria-live="polite">
+              {stats.running
+                ? `Achieved ${stats.achievedHz.toFixed(0)} Hz`
+                : (pausedReason ?? 'Waiting for controller')}
+            </p>
+          </div>
+          <select
+            id={rateSelectId}
+            value={rateHz}
+            onChange={(e) => onRateChange(parseInt(e.target.value, 10))}
+            className="rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-white"
+          >
+            {SAMPLER_RATE_OPTIONS_HZ.map((option) => (
+              <option key={option} value={option}>
+                {option} Hz
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {!isSupported && (
+        <p className="text-xs text-white/40">
+          High-frequency sampling is not available in this browser
+        </p>
+      )}
+    </div>
+  );
+});
+
+SamplerSettings.displayName = 'SamplerSettings';
+
+// Simulation Settings
+type SimulationSettingsProps = {
+  scenarioId: string;
+  seed: number;
+  onScenarioChange: (id: string) => void;
+  onSeedChange: (seed: number) => void;
+};
+
+const SimulationSettings = memo(function SimulationSettings({
+  scenarioId,
+  seed,
+  onScenarioChange,
+  onSeedChange,
+}: SimulationSettingsProps) {
+  const scenarioSelectId = useId();
+  const seedInputId = useId();
+  const scenario = getSimulationScenario(scenarioId);
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/5 bg-white/[0.02] p-4">
+      <div>
+        <label htmlFor={scenarioSelectId} className="mb-1 block text-sm font-medium text-white">
+          Scenario
+        </label>
+        <select
+          id={scenarioSelectId}
+          value={scenario.id}
+          onChange={(e) => onScenarioChange(e.target.value)}
+          className="w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-white"
+        >
+          {SIMULATION_SCENARIOS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-white/40">{scenario.description}</p>
+      </div>
+      <div>
+        <label htmlFor={seedInputId} className="mb-1 block text-sm font-medium text-white">
+          Seed
+        </label>
+        <div className="flex gap-2">
+          <input
+            id={seedInputId}
+            type="number"
+            min={0}
+            max={MAX_SIMULATION_SEED}
+            step={1}
+            value={seed}
+            onChange={(e) => {
+              const next = parseInt(e.target.value, 10);
+              if (!Number.isNaN(next)) onSeedChange(next);
+            }}
+            className="min-w-0 flex-1 rounded-lg border border-white/10 bg-white/5 px-3 py-2 font-mono text-white"
+          />
+          <button
+            onClick={() => onSeedChange(Math.floor(Math.random() * MAX_SIMULATION_SEED))}
+            className="rounded-lg bg-white/5 px-3 py-2 text-xs font-medium text-white/70 transition-colors hover:bg-white/10"
+          >
+            New Seed
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-white/40">
+          The same scenario and seed always replay identical input
+        </p>
+      </div>
+    </div>
+  );
+});
+
+SimulationSettings.displayName = 'SimulationSettings';
+
 // ============================================================================
 // Main Component
 // ============================================================================
 
 export const SettingsPage = memo(function SettingsPage() {
   const {
-    deadZone,
+    deadZones,
+    deadZoneShape,
+    outerDeadZone,
     setDeadZone,
+    setDeadZoneShape,
+    setOuterDeadZone,
+    responseCurves,
+    setResponseCurve,
+    resetResponseCurves,
     simulationMode,
     toggleSimulation,
+    simulationScenario,
+    simulationSeed,
+    setSimulationScenario,
+    setSimulationSeed,
     reducedMotion,
     toggleReducedMotion,
+    samplerMode,
+    samplerRateHz,
+    setSamplerMode,
+    setSamplerRate,
   } = usePreferencesStore(
     useShallow((state) => ({
-      deadZone: state.deadZone,
+      deadZones: state.deadZones,
+      deadZoneShape: state.deadZoneShape,
+      outerDeadZone: state.outerDeadZone,
       setDeadZone: state.setDeadZone,
+      setDeadZoneShape: state.setDeadZoneShape,
+      setOuterDeadZone: state.setOuterDeadZone,
+      responseCurves: state.responseCurves,
+      setResponseCurve: state.setResponseCurve,
+      resetResponseCurves: state.resetResponseCurves,
       simulationMode: state.simulationMode,
       toggleSimulation: state.toggleSimulation,
+      simulationScenario: state.simulationScenario,
+      simulationSeed: state.simulationSeed,
+      setSimulationScenario: state.setSimulationScenario,
+      setSimulationSeed: state.setSimulationSeed,
       reducedMotion: state.reducedMotion,
       toggleReducedMotion: state.toggleReducedMotion,
+      samplerMode: state.samplerMode,
+      samplerRateHz: state.samplerRateHz,
+      setSamplerMode: state.setSamplerMode,
+      setSamplerRate: state.setSamplerRate,
     }))
   );
 
+  const isReplaying = useReplayStore((state) => state.session !== undefined);
   const controllers = useControllerStore((state) => state.controllers);
   const activeSlot = useControllerStore((state) => state.activeSlot);
 
   const controller =
     activeSlot !== undefined ? controllers[activeSlot] : Object.values(controllers)[0];
 
-  const currentX = controller?.axes[AXIS_INDICES.LEFT_X]?.value ?? 0;
-  const currentY = controller?.axes[AXIS_INDICES.LEFT_Y]?.value ?? 0;
+  const [stick, setStick] = useState<StickId>('left');
+  const deadZone = deadZones[stick];
+  const { x: currentX, y: currentY } = controller
+    ? getStickCoords(controller, stick)
+    : { x: 0, y: 0 };
 
   const deadZonePercent = useMemo(() => Math.round(deadZone * 100), [deadZone]);
+  const outerPercent = useMemo(() => Math.round(outerDeadZone * 100), [outerDeadZone]);
+
+  // Curves shape the dead-zone-filtered stick magnitude, or the raw trigger value
+  const [curveTarget, setCurveTarget] = useState<CurveTarget>('left');
+  const curveInput = useMemo(() => {
+    if (!controller) return undefined;
+    if (curveTarget === 'leftTrigger' || curveTarget === 'rightTrigger') {
+      const index =
+        curveTarget === 'leftTrigger'
+          ? STANDARD_BUTTONS.TRIGGER_LEFT
+          : STANDARD_BUTTONS.TRIGGER_RIGHT;
+      return controller.buttons[index]?.value ?? 0;
+    }
+    const { x, y } = getStickCoords(controller, curveTarget);
+    return applyDeadZone(x, y, deadZones[curveTarget], deadZoneShape, outerDeadZone).magnitude;
+  }, [controller, curveTarget, deadZones, deadZoneShape, outerDeadZone]);
+  const curveTargetLabel =
+    CURVE_TARGET_OPTIONS.find((option) => option.target === curveTarget)?.label ?? '';
 
   return (
     <div className="min-h-screen px-6 pb-8 pt-24">
@@ -206,6 +622,15 @@ export const SettingsPage = memo(function SettingsPage() {
         </div>
 
         <div className="grid gap-6 lg:grid-cols-2">
+          {/* Calibration Profiles */}
+          <Panel className="lg:col-span-2">
+            <h2 className="text-lg font-semibold text-white">Calibration Profiles</h2>
+            <p className="mb-4 mt-1 text-sm text-white/40">
+              Keep dead zones and curves per controller. The active profile saves every change.
+            </p>
+            <ProfileManager />
+          </Panel>
+
           {/* Dead Zone Calibration */}
           <Panel>
             <h2 className="text-lg font-semibold text-white">Dead Zone Calibration</h2>
@@ -213,6 +638,24 @@ export const SettingsPage = memo(function SettingsPage() {
               Offset minor stick drift without losing precision.
             </p>
 
+            {/* Stick selector */}
+            <div className="mt-6 grid grid-cols-2 gap-2" role="group" aria-label="Stick">
+              {(['left', 'right'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setStick(option)}
+                  aria-pressed={stick === option}
+                  className={`rounded-lg py-2 text-sm font-medium transition-colors ${
+                    stick === option
+                      ? 'bg-violet-500/30 text-violet-200'
+                      : 'bg-white/5 text-white/60 hover:bg-white/10'
+                  }`}
+                >
+                  {option === 'left' ? 'Left Stick' : 'Right Stick'}
+                </button>
+              ))}
+            </div>
+
             {/* Slider with labels */}
             <div className="mt-6">
               <div className="mb-3 flex items-center justify-between">
@@ -222,25 +665,57 @@ export const SettingsPage = memo(function SettingsPage() {
               <input
                 type="range"
                 min={MIN_DEAD_ZONE}
-                max={0.35}
+                max={DEAD_ZONE_SLIDER_MAX}
                 step={0.01}
                 value={deadZone}
-                onChange={(e) => setDeadZone(parseFloat(e.target.value))}
+                onChange={(e) => setDeadZone(stick, parseFloat(e.target.value))}
                 className="w-full"
                 style={{
-                  ['--range-progress' as string]: `${((deadZone - MIN_DEAD_ZONE) / (0.35 - MIN_DEAD_ZONE)) * 100}%`,
+                  ['--range-progress' as string]: `${((deadZone - MIN_DEAD_ZONE) / (DEAD_ZONE_SLIDER_MAX - MIN_DEAD_ZONE)) * 100}%`,
                 }}
-                aria-label="Dead zone threshold"
+                aria-label={`${stick === 'left' ? 'Left' : 'Right'} stick dead zone threshold`}
               />
               <div className="mt-2 flex items-center justify-between text-xs text-white/30">
                 <span>0%</span>
-                <span>35%</span>
+                <span>{Math.round(DEAD_ZONE_SLIDER_MAX * 100)}%</span>
               </div>
             </div>
 
+            {/* Shape */}
+            <div className="mt-6">
+              <span className="mb-3 block text-sm text-white/40">Shape (both sticks)</span>
+              <DeadZoneShapePicker shape={deadZoneShape} onChange={setDeadZoneShape} />
+            </div>
+
+            {/* Outer dead zone */}
+            <div className="mt-6">
+              <div className="mb-3 flex items-center justify-between">
+                <span className="text-sm text-white/40">Outer Dead Zone</span>
+                <span className="text-lg font-semibold text-amber-400">{outerPercent}%</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={MAX_OUTER_DEAD_ZONE}
+                step={0.01}
+                value={outerDeadZone}
+                onChange={(e) => setOuterDeadZone(parseFloat(e.target.value))}
+                className="w-full"
+                style={{
+                  ['--range-progress' as string]: `${(outerDeadZone / MAX_OUTER_DEAD_ZONE) * 100}%`,
+                }}
+                aria-label="Outer dead zone"
+              />
+              <p className="mt-2 text-xs text-white/30">
+                Deflection past {100 - outerPercent}% reports as full travel
+              </p>
+            </div>
+
             {/* Preview */}
             <DeadZonePreview
               deadZone={deadZone}
+              shape={deadZoneShape}
+              outerDeadZone={outerDeadZone}
               currentX={currentX}
               currentY={currentY}
             />
@@ -258,6 +733,14 @@ export const SettingsPage = memo(function SettingsPage() {
                   label="Simulation Mode"
                   description="Virtual controller"
                 />
+                {simulationMode && (
+                  <SimulationSettings
+                    scenarioId={simulationScenario}
+                    seed={simulationSeed}
+                    onScenarioChange={setSimulationScenario}
+                    onSeedChange={setSimulationSeed}
+                  />
+                )}
                 <ToggleSwitch
                   enabled={reducedMotion}
                   onToggle={toggleReducedMotion}
@@ -267,6 +750,27 @@ export const SettingsPage = memo(function SettingsPage() {
               </div>
             </Panel>
 
+            {/* Sampling */}
+            <Panel>
+              <h2 className="text-lg font-semibold text-white">Sampling</h2>
+              <p className="mb-4 mt-1 text-sm text-white/40">
+                High frequency sampling characterizes 1000 Hz controllers at extra CPU cost.
+              </p>
+              <SamplerSettings
+                mode={samplerMode}
+                rateHz={samplerRateHz}
+                onModeChange={setSamplerMode}
+                onRateChange={setSamplerRate}
+                pausedReason={
+                  simulationMode
+                    ? 'Paused while simulating'
+                    : isReplaying
+                      ? 'Paused during replay'
+                      : undefined
+                }
+              />
+            </Panel>
+
             {/* About */}
             <Panel>
               <h2 className="mb-2 text-lg font-semibold text-white">About</h2>
@@ -301,6 +805,59 @@ export const SettingsPage = memo(function SettingsPage() {
               </div>
             </Panel>
           </div>
+
+          {/* Response Curves */}
+          <Panel className="lg:col-span-2">
+            <div className="flex items-start justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-white">Response Curves</h2>
+                <p className="mt-1 text-sm text-white/40">
+                  Preview how input feels after curve shaping. Stick curves apply after the dead
+                  zone.
+                </p>
+              </div>
+              <button
+                onClick={resetResponseCurves}
+                className="rounded-lg bg-white/5 px-3 py-2 text-sm font-medium text-white/60 transition-colors hover:bg-white/10"
+              >
+                Reset All
+              </button>
+            </div>
+
+            <div className="mt-6 grid gap-2 sm:grid-cols-4" role="group" aria-label="Curve input">
+              {CURVE_TARGET_OPTIONS.map((option) => (
+                <button
+                  key={option.target}
+                  onClick={() => setCurveTarget(option.target)}
+                  aria-pressed={curveTarget === option.target}
+                  className={`rounded-xl border p-3 text-left transition-colors ${
+                    curveTarget === option.target
+                      ? 'border-violet-400/50 bg-violet-500/20'
+                      : 'border-white/5 bg-white/[0.02] hover:bg-white/[0.04]'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-white">{option.label}</p>
+                  <p className="text-xs text-white/40">
+                    {RESPONSE_CURVE_OPTIONS.find(
+                      (curve) => curve.type === responseCurves[option.target].type
+                    )?.label}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            <div className="mt-6 grid gap-6 md:grid-cols-[1fr_16rem]">
+              <ResponseCurveEditor
+                curve={responseCurves[curveTarget]}
+                onChange={(curve) => setResponseCurve(curveTarget, curve)}
+              />
+              <ResponseCurveGraph
+                curve={responseCurves[curveTarget]}
+                input={curveInput}
+                label={curveTargetLabel}
+              />
+            </div>
+          </Panel>
         </div>
       </div>
 
@@ -0,0 +1,129 @@
+/**
+ * SharedReport - Read-only view of a diagnostic summary decoded from the URL hash
+ */
+
+import { memo, useMemo } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+
+import { Panel } from '@/components/Panel';
+import { VerdictBadge } from '@/components/tests/VerdictBadge';
+import {
+  SUMMARY_TESTS,
+  SUMMARY_TEST_KEYS,
+  decodeReportSummary,
+  formatSummaryValue,
+} from '@/utils/reportShare';
+import type { SummaryTest, SummaryTestKey } from '@/types/report';
+
+type SummaryTestCardProps = {
+  testKey: SummaryTestKey;
+  test: SummaryTest;
+};
+
+const SummaryTestCard = memo(function SummaryTestCard({ testKey, test }: SummaryTestCardProps) {
+  const { label, fields } = SUMMARY_TESTS[testKey];
+  return (
+    <Panel>
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="font-medium text-white">{label}</h2>
+        {test.verdict && <VerdictBadge verdict={test.verdict} />}
+      </div>
+      <dl className="space-y-1 text-sm">
+        {fields.map((field, index) => (
+          <div key={field.label} className="flex justify-between">
+            <dt className="text-white/50">{field.label}</dt>
+            <dd className="font-mono text-white">
+              {formatSummaryValue(test.values[index] ?? null, field.unit)}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </Panel>
+  );
+});
+
+SummaryTestCard.displayName = 'SummaryTestCard';
+
+export const SharedReportPage = memo(function SharedReportPage() {
+  const { hash } = useLocation();
+  const result = useMemo(() => decodeReportSummary(hash), [hash]);
+
+  if (!result.success) {
+    return (
+      <div className="min-h-screen px-6 pb-8 pt-24">
+        <div className="mx-auto max-w-3xl">
+          <Panel>
+            <h1 className="text-xl font-bold text-white">Shared Report</h1>
+            <p className="mt-2 text-sm text-rose-300" role="alert">
+              {result.error}
+            </p>
+            <p className="mt-4 text-sm text-white/50">
+              Ask for a fresh link, or run the guided tests on your own controller.
+            </p>
+            <Link
+              to="/tests"
+              className="mt-4 inline-block rounded-lg bg-violet-500 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-violet-400"
+            >
+              Go to Tests
+            </Link>
+          </Panel>
+        </div>
+      </div>
+    );
+  }
+
+  const { summary } = result;
+  const testKeys = SUMMARY_TEST_KEYS.filter((key) => summary.tests[key] !== undefined);
+  const generatedAt = new Date(summary.generatedAt);
+
+  return (
+    <div className="min-h-screen px-6 pb-8 pt-24">
+      <div className="mx-auto max-w-7xl">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-white">Shared Report</h1>
+          <p className="mt-1 text-sm text-white/40">
+            Read-only summary
+            {Number.isNaN(generatedAt.getTime())
+              ? ''
+              : ` generated ${generatedAt.toLocaleString()}`}{' '}
+            in {summary.browserName}
+          </p>
+        </div>
+
+        <Panel className="mb-4">
+          <h2 className="mb-3 font-medium text-white">
+            {summary.controller.model ?? 'Unrecognized controller'}
+          </h2>
+          <dl className="grid gap-2 text-sm sm:grid-cols-3">
+            <div className="sm:col-span-3">
+              <dt className="text-white/50">Gamepad ID</dt>
+              <dd className="break-all font-mono text-white">{summary.controller.id}</dd>
+            </div>
+            <div>
+              <dt className="text-white/50">Vendor</dt>
+              <dd className="font-mono text-white">{summary.controller.vendor}</dd>
+            </div>
+            <div>
+              <dt className="text-white/50">Mapping</dt>
+              <dd className="font-mono text-white">{summary.controller.mapping || 'none'}</dd>
+            </div>
+          </dl>
+        </Panel>
+
+        {testKeys.length > 0 ? (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {testKeys.map((key) => {
+              const test = summary.tests[key];
+              return test ? <SummaryTestCard key={key} testKey={key} test={test} /> : null;
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-white/50">No guided tests were run before this was shared.</p>
+        )}
+      </div>
+    </div>
+  );
+});
+
+SharedReportPage.displayName = 'SharedReportPage';
@@ -0,0 +1,58 @@
+/**
+ * Tests - Guided diagnostic tests for the active controller
+ */
+
+import { memo } from 'react';
+import { useShallow } from 'zustand/shallow';
+
+import { ReportExportPanel } from '@/components/ReportExportPanel';
+import { ButtonCoverageTest } from '@/components/tests/ButtonCoverageTest';
+import { CircularityTest } from '@/components/tests/CircularityTest';
+import { DriftTest } from '@/components/tests/DriftTest';
+import { LatencyTest } from '@/components/tests/LatencyTest';
+import { MotorSweepTest } from '@/components/tests/MotorSweepTest';
+import { TriggerTest } from '@/components/tests/TriggerTest';
+import { useControllerStore } from '@/state/controllerSlice';
+import type { NormalizedGamepad } from '@/types/gamepad';
+
+export const TestsPage = memo(function TestsPage() {
+  const { controllers, activeSlot } = useControllerStore(
+    useShallow((state) => ({
+      controllers: state.controllers,
+      activeSlot: state.activeSlot,
+    })),
+  );
+
+  const controller: NormalizedGamepad | undefined =
+    activeSlot !== undefined ? controllers[activeSlot] : Object.values(controllers)[0];
+
+  return (
+    <div className="min-h-screen px-6 pb-8 pt-24">
+      <div className="mx-auto max-w-7xl">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-white">Guided Tests</h1>
+          <p className="mt-1 font-mono text-sm text-white/40">
+            {controller?.id ?? 'Connect a controller to run tests'}
+          </p>
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <DriftTest slot={controller?.slot} controllerId={controller?.id} />
+          <CircularityTest slot={controller?.slot} controllerId={controller?.id} />
+          <TriggerTest slot={controller?.slot} controllerId={controller?.id} />
+          <MotorSweepTest
+            slot={controller?.slot}
+            controllerId={controller?.id}
+            hasRumble={controller?.haptics.hasRumble ?? false}
+          />
+          <LatencyTest slot={controller?.slot} controllerId={controller?.id} />
+          <ButtonCoverageTest slot={controller?.slot} controllerId={controller?.id} />
+          <ReportExportPanel controller={controller} />
+        </div>
+      </div>
+    </div>
+  );
+});
+
+TestsPage.displayName = 'TestsPage';
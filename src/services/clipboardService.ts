@@ -0,0 +1,21 @@
+/**
+ * ClipboardService - Browser clipboard abstraction
+ * All Clipboard API calls should go through this service
+ */
+
+import { reportError } from '@/lib/errorReporter';
+
+/**
+ * Copy text to the clipboard
+ * Returns false if the clipboard is unavailable or permission was denied
+ */
+export const copyText = async (text: string): Promise<boolean> => {
+  if (typeof navigator === 'undefined' || !navigator.clipboard) return false;
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (error) {
+    reportError(error, 'warning', { action: 'copyText' });
+    return false;
+  }
+};
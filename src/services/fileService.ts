@@ -0,0 +1,42 @@
+/**
+ * FileService - Browser file download/upload abstraction
+ * All Blob/object URL and File reading should go through this service
+ */
+
+import { reportError } from '@/lib/errorReporter';
+
+/**
+ * Trigger a browser download for in-memory content
+ * Returns false if the download could not be started
+ */
+export const downloadFile = (fileName: string, contents: string, mimeType: string): boolean => {
+  try {
+    const blob = new Blob([contents], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = fileName;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    // Revoke on the next tick so the browser has started the download
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    return true;
+  } catch (error) {
+    reportError(error, 'error', { action: 'downloadFile', fileName });
+    return false;
+  }
+};
+
+/**
+ * Read a user-selected file as text
+ * Returns null if the file could not be read
+ */
+export const readFileAsText = async (file: File): Promise<string | null> => {
+  try {
+    return await file.text();
+  } catch (error) {
+    reportError(error, 'warning', { action: 'readFileAsText', fileName: file.name });
+    return null;
+  }
+};
@@ -2,14 +2,22 @@
  * Tests for gamepadService module
  */
 
-import { describe, it, expect } from 'vitest';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { clearHapticEvents, getHapticEvents } from '@/lib/hapticsLog';
 import {
   detectVendor,
   getBrowserCompatibility,
+  getSupportedHapticEffects,
   isGamepadApiSupported,
   isSecureContext,
+  stopRumble,
+  triggerImpulseRumble,
+  triggerRumble,
 } from './gamepadService';
 
+const createPad = (actuator: object | null): Gamepad =>
+  ({ index: 0, vibrationActuator: actuator }) as unknown as Gamepad;
+
 describe('detectVendor', () => {
   it('detects Xbox controllers', () => {
     expect(detectVendor('Xbox Wireless Controller')).toBe('xbox');
@@ -73,3 +81,92 @@ describe('getBrowserCompatibility', () => {
   });
 });
 
+describe('getSupportedHapticEffects', () => {
+  it('uses the effects advertised by the actuator', () => {
+    const pad = createPad({ type: 'dual-rumble', effects: ['dual-rumble', 'trigger-rumble'] });
+    expect(getSupportedHapticEffects(pad)).toEqual(['dual-rumble', 'trigger-rumble']);
+  });
+
+  it('assumes only dual-rumble when effects are not advertised', () => {
+    expect(getSupportedHapticEffects(createPad({ type: 'dual-rumble' }))).toEqual(['dual-rumble']);
+  });
+
+  it('returns nothing without an actuator', () => {
+    expect(getSupportedHapticEffects(createPad(null))).toEqual([]);
+  });
+});
+
+describe('triggerImpulseRumble', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('plays trigger-rumble with per-trigger magnitudes', async () => {
+    const playEffect = vi.fn().mockResolvedValue('complete');
+    const pad = createPad({ type: 'dual-rumble', effects: ['trigger-rumble'], playEffect });
+    vi.stubGlobal('navigator', { getGamepads: () => [pad] });
+
+    const result = await triggerImpulseRumble(0, { duration: 100, rightTrigger: 0.7 });
+
+    expect(result.success).toBe(true);
+    expect(playEffect).toHaveBeenCalledWith('trigger-rumble', {
+      startDelay: 0,
+      duration: 100,
+      weakMagnitude: 0,
+      strongMagnitude: 0,
+      leftTrigger: 0,
+      rightTrigger: 0.7,
+    });
+  });
+
+  it('refuses actuators that do not advertise trigger-rumble', async () => {
+    const playEffect = vi.fn();
+    const pad = createPad({ type: 'dual-rumble', playEffect });
+    vi.stubGlobal('navigator', { getGamepads: () => [pad] });
+
+    const result = await triggerImpulseRumble(0, { duration: 100, leftTrigger: 1 });
+
+    expect(result.success).toBe(false);
+    expect(playEffect).not.toHaveBeenCalled();
+  });
+});
+
+describe('triggerRumble', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    clearHapticEvents();
+  });
+
+  it('returns the outcome and timing of the effect', async () => {
+    const playEffect = vi.fn().mockResolvedValue('preempted');
+    const pad = createPad({ type: 'dual-rumble', playEffect });
+    vi.stubGlobal('navigator', { getGamepads: () => [pad] });
+
+    const result = await triggerRumble(0, { startDelay: 20, duration: 100, weakMagnitude: 1 });
+
+    expect(result).toMatchObject({ success: true, outcome: 'preempted', requestedMs: 120 });
+    expect(result.actualMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('logs played, failed and reset effects per controller', async () => {
+    const playEffect = vi
+      .fn()
+      .mockResolvedValueOnce('complete')
+      .mockRejectedValueOnce(new Error('Device lost'));
+    const reset = vi.fn().mockResolvedValue('complete');
+    const pad = createPad({ type: 'dual-rumble', playEffect, reset });
+    vi.stubGlobal('navigator', { getGamepads: () => [pad] });
+
+    await triggerRumble(0, { duration: 100 });
+    const failed = await triggerRumble(0, { duration: 100 });
+    await stopRumble(0);
+
+    expect(failed).toMatchObject({ success: false, error: 'Device lost' });
+    expect(getHapticEvents(0).map((event) => [event.effect, event.outcome])).toEqual([
+      ['dual-rumble', 'complete'],
+      ['dual-rumble', 'error'],
+      ['reset', 'complete'],
+    ]);
+    expect(getHapticEvents(1)).toEqual([]);
+  });
+});
@@ -3,8 +3,14 @@
  * All gamepad-related browser API calls should go through this service
  */
 
-import type { GamepadEffectParameters } from '@/types/gamepadExtended';
+import type {
+  GamepadEffectParameters,
+  GamepadHapticActuator as ExtendedHapticActuator,
+  GamepadHapticEffectType,
+  GamepadHapticsResult,
+} from '@/types/gamepadExtended';
 import { reportError } from '@/lib/errorReporter';
+import { recordHapticEvent } from '@/lib/hapticsLog';
 import {
   QUICK_PULSE_DURATION_MS,
   RUMBLE_INTENSITY_PRESETS,
@@ -36,6 +42,25 @@ export const isHapticsSupported = (gamepad: Gamepad): boolean => {
   return Boolean(gamepad.vibrationActuator);
 };
 
+/**
+ * Effect types the gamepad's actuator can play
+ * Uses the actuator's advertised effects when available; older browsers only
+ * expose a type, so dual-rumble is the most that can be assumed
+ */
+export const getSupportedHapticEffects = (gamepad: Gamepad): GamepadHapticEffectType[] => {
+  const actuator = gamepad.vibrationActuator as ExtendedHapticActuator | null | undefined;
+  if (!actuator) return [];
+  if (actuator.effects) return [...actuator.effects];
+  return ['dual-rumble'];
+};
+
+/**
+ * Check if impulse trigger rumble is supported
+ */
+export const isTriggerRumbleSupported = (gamepad: Gamepad): boolean => {
+  return getSupportedHapticEffects(gamepad).includes('trigger-rumble');
+};
+
 /**
  * Get browser compatibility info
  */
@@ -181,6 +206,56 @@ export const onGamepadDisconnected = (callback: GamepadDisconnectCallback): (()
 export type RumbleResult = {
   success: boolean;
   error?: string;
+  /** How the browser settled the effect; absent when it was never played */
+  outcome?: GamepadHapticsResult;
+  /** startDelay + duration that was asked for (ms) */
+  requestedMs?: number;
+  /** Time until the effect settled (ms) */
+  actualMs?: number;
+};
+
+/**
+ * Play an effect, timing it and recording the outcome in the haptics log
+ */
+const playLoggedEffect = async (
+  gamepadIndex: number,
+  actuator: ExtendedHapticActuator,
+  effect: GamepadHapticEffectType,
+  params: GamepadEffectParameters,
+  action: string
+): Promise<RumbleResult> => {
+  const requestedMs = (params.startDelay ?? 0) + params.duration;
+  const startedAt = performance.now();
+
+  try {
+    const outcome = await actuator.playEffect(effect, params);
+    const actualMs = performance.now() - startedAt;
+    recordHapticEvent({
+      slot: gamepadIndex,
+      effect,
+      startedAt,
+      requestedMs,
+      actualMs,
+      outcome,
+      params,
+    });
+    return { success: true, outcome, requestedMs, actualMs };
+  } catch (error) {
+    const actualMs = performance.now() - startedAt;
+    const errorMessage = error instanceof Error ? error.message : 'Rumble failed';
+    recordHapticEvent({
+      slot: gamepadIndex,
+      effect,
+      startedAt,
+      requestedMs,
+      actualMs,
+      outcome: 'error',
+      error: errorMessage,
+      params,
+    });
+    reportError(error, 'warning', { action, gamepadIndex });
+    return { success: false, error: errorMessage, requestedMs, actualMs };
+  }
 };
 
 /**
@@ -200,19 +275,52 @@ export const triggerRumble = async (
     return { success: false, error: 'Haptics not supported on this controller' };
   }
 
-  try {
-    await gamepad.vibrationActuator.playEffect('dual-rumble', {
+  return playLoggedEffect(
+    gamepadIndex,
+    gamepad.vibrationActuator as ExtendedHapticActuator,
+    'dual-rumble',
+    {
       startDelay: params.startDelay ?? 0,
       duration: params.duration,
       weakMagnitude: params.weakMagnitude ?? 0,
       strongMagnitude: params.strongMagnitude ?? 0,
-    });
-    return { success: true };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Rumble failed';
-    reportError(error, 'warning', { action: 'triggerRumble', gamepadIndex });
-    return { success: false, error: errorMessage };
+    },
+    'triggerRumble'
+  );
+};
+
+/**
+ * Trigger impulse trigger rumble (Xbox One and later)
+ * Body motors can be driven in the same effect via weak/strongMagnitude
+ */
+export const triggerImpulseRumble = async (
+  gamepadIndex: number,
+  params: GamepadEffectParameters
+): Promise<RumbleResult> => {
+  const gamepad = getGamepadByIndex(gamepadIndex);
+
+  if (!gamepad) {
+    return { success: false, error: 'Gamepad not found' };
+  }
+
+  if (!gamepad.vibrationActuator || !isTriggerRumbleSupported(gamepad)) {
+    return { success: false, error: 'Trigger rumble not supported on this controller' };
   }
+
+  return playLoggedEffect(
+    gamepadIndex,
+    gamepad.vibrationActuator as ExtendedHapticActuator,
+    'trigger-rumble',
+    {
+      startDelay: params.startDelay ?? 0,
+      duration: params.duration,
+      weakMagnitude: params.weakMagnitude ?? 0,
+      strongMagnitude: params.strongMagnitude ?? 0,
+      leftTrigger: params.leftTrigger ?? 0,
+      rightTrigger: params.rightTrigger ?? 0,
+    },
+    'triggerImpulseRumble'
+  );
 };
 
 /**
@@ -240,11 +348,26 @@ export const stopRumble = async (gamepadIndex: number): Promise<RumbleResult> =>
     return { success: false, error: 'Gamepad or haptics not available' };
   }
 
+  const startedAt = performance.now();
+  const logReset = (outcome: GamepadHapticsResult | 'error', error?: string): void => {
+    recordHapticEvent({
+      slot: gamepadIndex,
+      effect: 'reset',
+      startedAt,
+      requestedMs: 0,
+      actualMs: performance.now() - startedAt,
+      outcome,
+      error,
+    });
+  };
+
   try {
-    await gamepad.vibrationActuator.reset();
-    return { success: true };
+    const outcome = await gamepad.vibrationActuator.reset();
+    logReset(outcome);
+    return { success: true, outcome };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Stop rumble failed';
+    logReset('error', errorMessage);
     reportError(error, 'warning', { action: 'stopRumble', gamepadIndex });
     return { success: false, error: errorMessage };
   }
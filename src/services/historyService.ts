@@ -0,0 +1,145 @@
+/**
+ * HistoryService - IndexedDB persistence for completed diagnostic runs
+ * All IndexedDB access should go through this service. Every call degrades to a
+ * fallback value when storage is unavailable (private browsing, quota, blocked upgrade).
+ */
+
+import type { HistoryEntry } from '@/types/history';
+import { reportError } from '@/lib/errorReporter';
+import { HISTORY_DB_NAME, HISTORY_DB_VERSION } from '@/lib/constants';
+
+const STORE_NAME = 'runs';
+const CONTROLLER_INDEX = 'controllerKey';
+const RECORDED_AT_INDEX = 'recordedAt';
+
+let databasePromise: Promise<IDBDatabase> | undefined;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () =>
+      reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(HISTORY_DB_NAME, HISTORY_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        store.createIndex(CONTROLLER_INDEX, 'controllerKey');
+        store.createIndex(RECORDED_AT_INDEX, 'recordedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open history database'));
+      request.onblocked = () =>
+        reject(new Error('History database upgrade is blocked by another tab'));
+    });
+    // Let the next call retry instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = undefined;
+    });
+  }
+  return databasePromise;
+};
+
+/**
+ * Check if IndexedDB is available
+ */
+export const isHistorySupported = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+/**
+ * Store a completed run
+ * Returns false if the entry could not be written
+ */
+export const addHistoryEntry = async (entry: HistoryEntry): Promise<boolean> => {
+  if (!isHistorySupported()) return false;
+  try {
+    const database = await openDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).add(entry);
+    await transactionDone(transaction);
+    return true;
+  } catch (error) {
+    reportError(error, 'warning', { action: 'history.add', test: entry.test });
+    return false;
+  }
+};
+
+/**
+ * Read stored runs, optionally for one controller, oldest first
+ * Returns an empty list if history could not be read
+ */
+export const getHistoryEntries = async (controllerKey?: string): Promise<HistoryEntry[]> => {
+  if (!isHistorySupported()) return [];
+  try {
+    const database = await openDatabase();
+    const store = database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const request =
+      controllerKey === undefined
+        ? store.getAll()
+        : store.index(CONTROLLER_INDEX).getAll(controllerKey);
+    const entries = await requestToPromise(request as IDBRequest<HistoryEntry[]>);
+    return entries.sort((a, b) => a.recordedAt - b.recordedAt);
+  } catch (error) {
+    reportError(error, 'warning', { action: 'history.getAll' });
+    return [];
+  }
+};
+
+/**
+ * Delete runs recorded before a timestamp
+ * Returns the number of runs deleted
+ */
+export const deleteHistoryBefore = async (cutoff: number): Promise<number> => {
+  if (!isHistorySupported()) return 0;
+  try {
+    const database = await openDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const index = transaction.objectStore(STORE_NAME).index(RECORDED_AT_INDEX);
+    const keys = await requestToPromise(index.getAllKeys(IDBKeyRange.upperBound(cutoff, true)));
+    keys.forEach((key) => transaction.objectStore(STORE_NAME).delete(key));
+    await transactionDone(transaction);
+    return keys.length;
+  } catch (error) {
+    reportError(error, 'warning', { action: 'history.deleteBefore' });
+    return 0;
+  }
+};
+
+/**
+ * Delete all runs, or only those of one controller
+ * Returns false if history could not be cleared
+ */
+export const clearHistory = async (controllerKey?: string): Promise<boolean> => {
+  if (!isHistorySupported()) return false;
+  try {
+    const database = await openDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    if (controllerKey === undefined) {
+      store.clear();
+    } else {
+      const keys = await requestToPromise(store.index(CONTROLLER_INDEX).getAllKeys(controllerKey));
+      keys.forEach((key) => store.delete(key));
+    }
+    await transactionDone(transaction);
+    return true;
+  } catch (error) {
+    reportError(error, 'warning', { action: 'history.clear' });
+    return false;
+  }
+};
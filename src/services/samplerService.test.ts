@@ -0,0 +1,87 @@
+/**
+ * Tests for samplerService module
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import {
+  getSamplerStats,
+  isHighFrequencySamplingSupported,
+  startHighFrequencySampler,
+} from './samplerService';
+
+const createGamepad = (timestamp: number): Gamepad =>
+  ({
+    id: 'Test Pad',
+    index: 0,
+    mapping: 'standard',
+    connected: true,
+    timestamp,
+    axes: [0, 0, 0, 0],
+    buttons: [],
+  }) as unknown as Gamepad;
+
+const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('startHighFrequencySampler', () => {
+  beforeEach(() => {
+    let timestamp = 0;
+    Object.defineProperty(navigator, 'getGamepads', {
+      configurable: true,
+      value: vi.fn(() => [createGamepad((timestamp += 1))]),
+    });
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, 'getGamepads');
+  });
+
+  it('reports support when the Gamepad API and MessageChannel exist', () => {
+    expect(isHighFrequencySamplingSupported()).toBe(true);
+  });
+
+  it('samples repeatedly until stopped', async () => {
+    const onSample = vi.fn();
+    const stop = startHighFrequencySampler(1000, onSample);
+    await wait(50);
+    stop();
+
+    const calls = onSample.mock.calls.length;
+    expect(calls).toBeGreaterThan(5);
+    expect(getSamplerStats().running).toBe(false);
+
+    await wait(20);
+    expect(onSample.mock.calls.length).toBe(calls);
+  });
+
+  it('yields to the event loop while spinning at high rates', async () => {
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+    const stop = startHighFrequencySampler(2000, vi.fn());
+    await wait(50);
+    stop();
+
+    expect(setTimeoutSpy.mock.calls.some(([, delay]) => delay === 0)).toBe(true);
+    setTimeoutSpy.mockRestore();
+  });
+
+  it('stops and reports when the sample callback throws', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onSample = vi.fn(() => {
+      throw new Error('boom');
+    });
+    startHighFrequencySampler(1000, onSample);
+    await wait(20);
+
+    expect(onSample).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalled();
+    expect(getSamplerStats().running).toBe(false);
+    consoleError.mockRestore();
+  });
+
+  it('is a no-op when the Gamepad API is unavailable', () => {
+    Reflect.deleteProperty(navigator, 'getGamepads');
+    const onSample = vi.fn();
+    const stop = startHighFrequencySampler(1000, onSample);
+    stop();
+    expect(onSample).not.toHaveBeenCalled();
+  });
+});
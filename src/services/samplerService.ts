@@ -0,0 +1,117 @@
+/**
+ * SamplerService - High-frequency Gamepad API sampler
+ * Polls navigator.getGamepads() on a MessageChannel/timer loop instead of
+ * requestAnimationFrame, so sampling is not capped at the display refresh rate
+ * and keeps running while rendering is slow or the tab is throttled.
+ */
+
+import { getGamepads, isGamepadApiSupported } from '@/services/gamepadService';
+import { reportError } from '@/lib/errorReporter';
+import {
+  SAMPLER_MAX_SPIN_MS,
+  SAMPLER_SPIN_THRESHOLD_MS,
+  SAMPLER_STATS_WINDOW_MS,
+} from '@/lib/constants';
+
+export type SampleCallback = (gamepads: Gamepad[], sampleTime: number) => void;
+
+export type SamplerStats = {
+  running: boolean;
+  targetHz: number;
+  achievedHz: number;
+  sampleCount: number;
+};
+
+let stats: SamplerStats = { running: false, targetHz: 0, achievedHz: 0, sampleCount: 0 };
+
+/**
+ * Check if the high-frequency sampler can run in this browser
+ */
+export const isHighFrequencySamplingSupported = (): boolean => {
+  return isGamepadApiSupported() && typeof MessageChannel !== 'undefined';
+};
+
+/**
+ * Get the current sampler statistics
+ */
+export const getSamplerStats = (): SamplerStats => ({ ...stats });
+
+/**
+ * Start sampling gamepads at `rateHz`
+ * Returns cleanup function
+ */
+export const startHighFrequencySampler = (
+  rateHz: number,
+  onSample: SampleCallback,
+): (() => void) => {
+  if (!isHighFrequencySamplingSupported() || rateHz <= 0) {
+    return () => {};
+  }
+
+  const intervalMs = 1000 / rateHz;
+  const channel = new MessageChannel();
+  let running = true;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let nextSampleTime = performance.now();
+  let windowStart = nextSampleTime;
+  let windowCount = 0;
+  // When the current run of MessageChannel spins began
+  let spinStart: number | undefined;
+
+  stats = { running: true, targetHz: rateHz, achievedHz: 0, sampleCount: 0 };
+
+  const stop = (): void => {
+    running = false;
+    clearTimeout(timeoutId);
+    channel.port1.onmessage = null;
+    channel.port1.close();
+    stats = { ...stats, running: false };
+  };
+
+  const loop = (): void => {
+    if (!running) return;
+
+    const now = performance.now();
+    if (now >= nextSampleTime) {
+      // Skip missed slots rather than bursting to catch up after a stall
+      nextSampleTime += intervalMs;
+      if (nextSampleTime < now) nextSampleTime = now + intervalMs;
+
+      try {
+        onSample(getGamepads(), now);
+      } catch (error) {
+        reportError(error, 'error', { action: 'highFrequencySample' });
+        stop();
+        return;
+      }
+
+      windowCount += 1;
+      stats.sampleCount += 1;
+      if (now - windowStart >= SAMPLER_STATS_WINDOW_MS) {
+        stats.achievedHz = (windowCount * 1000) / (now - windowStart);
+        windowStart = now;
+        windowCount = 0;
+      }
+    }
+
+    // setTimeout is clamped to ~4ms once nested, so only use it for long waits
+    const current = performance.now();
+    const wait = nextSampleTime - current;
+    if (wait > SAMPLER_SPIN_THRESHOLD_MS) {
+      spinStart = undefined;
+      timeoutId = setTimeout(loop, wait - SAMPLER_SPIN_THRESHOLD_MS);
+    } else if (spinStart !== undefined && current - spinStart >= SAMPLER_MAX_SPIN_MS) {
+      // Short intervals never reach the timer branch; yield so the spin can't peg the thread
+      spinStart = undefined;
+      timeoutId = setTimeout(loop, 0);
+    } else {
+      if (spinStart === undefined) spinStart = current;
+      channel.port2.postMessage(null);
+    }
+  };
+
+  channel.port1.onmessage = loop;
+  loop();
+
+  return stop;
+};
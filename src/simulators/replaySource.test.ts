@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RecordedSession } from '@/types/recording';
+import { createPad } from '@/test/fixtures';
+import { advanceReplayPosition, findFrameIndex, getReplayFrame } from './replaySource';
+
+const session: RecordedSession = {
+  format: 'joyscope-session',
+  version: 1,
+  startedAt: '',
+  durationMs: 100,
+  userAgent: '',
+  frames: [10, 20, 40, 80].map((t) => ({ t, controllers: [createPad({ timestamp: t })] })),
+  events: [],
+  markers: [],
+};
+
+describe('findFrameIndex', () => {
+  it('returns -1 before the first frame', () => {
+    expect(findFrameIndex(session, 5)).toBe(-1);
+  });
+
+  it('finds the last frame at or before the position', () => {
+    expect(findFrameIndex(session, 10)).toBe(0);
+    expect(findFrameIndex(session, 39)).toBe(1);
+    expect(findFrameIndex(session, 1000)).toBe(3);
+  });
+});
+
+describe('getReplayFrame', () => {
+  it('returns the recorded controllers for a position', () => {
+    expect(getReplayFrame(session, 45)[0].timestamp).toBe(40);
+    expect(getReplayFrame(session, 0)).toEqual([]);
+  });
+});
+
+describe('advanceReplayPosition', () => {
+  it('scales the delta by playback speed', () => {
+    expect(advanceReplayPosition(10, 16, 2, 100, false)).toEqual({ positionMs: 42, ended: false });
+  });
+
+  it('stops at the end when not looping', () => {
+    expect(advanceReplayPosition(90, 20, 1, 100, false)).toEqual({ positionMs: 100, ended: true });
+  });
+
+  it('wraps around when looping', () => {
+    expect(advanceReplayPosition(90, 20, 1, 100, true)).toEqual({ positionMs: 10, ended: false });
+  });
+});
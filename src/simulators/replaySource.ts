@@ -0,0 +1,68 @@
+/**
+ * Replay source - Feeds a recorded session back through the polling pipeline
+ * Works like getVirtualGamepad but returns recorded frames for a playback position
+ */
+
+import type { NormalizedGamepad } from '@/types/gamepad';
+import type { RecordedSession } from '@/types/recording';
+
+export type ReplayAdvance = {
+  positionMs: number;
+  ended: boolean;
+};
+
+/**
+ * Find the index of the last frame at or before `positionMs` (binary search)
+ * Returns -1 when the position is before the first frame
+ */
+export const findFrameIndex = (session: RecordedSession, positionMs: number): number => {
+  const { frames } = session;
+  let low = 0;
+  let high = frames.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (frames[mid].t <= positionMs) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+};
+
+/**
+ * Get the controllers to display at a playback position
+ */
+export const getReplayFrame = (
+  session: RecordedSession,
+  positionMs: number,
+): NormalizedGamepad[] => {
+  const index = findFrameIndex(session, positionMs);
+  return index >= 0 ? session.frames[index].controllers : [];
+};
+
+/**
+ * Move the playback head forward by a wall-clock delta
+ * Wraps around when looping, otherwise stops at the end of the session
+ */
+export const advanceReplayPosition = (
+  positionMs: number,
+  deltaMs: number,
+  speed: number,
+  durationMs: number,
+  loop: boolean,
+): ReplayAdvance => {
+  const next = positionMs + deltaMs * speed;
+
+  if (next < durationMs) {
+    return { positionMs: next, ended: false };
+  }
+  if (loop && durationMs > 0) {
+    return { positionMs: next % durationMs, ended: false };
+  }
+  return { positionMs: durationMs, ended: true };
+};
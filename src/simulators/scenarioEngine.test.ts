@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+
+import type { SimulationScenario } from '@/types/simulation';
+import {
+  createChannelRandom,
+  evaluateGenerator,
+  getScenarioDuration,
+  getScenarioFrame,
+  resolveScenarioPosition,
+} from './scenarioEngine';
+import { SIMULATION_SCENARIOS, getSimulationScenario } from './scenarios';
+
+const scenario: SimulationScenario = {
+  id: 'test',
+  name: 'Test',
+  description: '',
+  loop: true,
+  phases: [
+    {
+      durationMs: 1000,
+      axes: {
+        0: {
+          kind: 'keyframes',
+          keyframes: [
+            { t: 0, value: 0 },
+            { t: 1000, value: 1 },
+          ],
+        },
+        1: { kind: 'noise', amplitude: 0.5, holdMs: 10 },
+      },
+    },
+    { durationMs: 500, buttons: { 0: { kind: 'constant', value: 1 } } },
+  ],
+};
+
+const frameStream = (seed: number, times: number[]) =>
+  times.map((t) => getScenarioFrame(scenario, seed, t));
+
+describe('createChannelRandom', () => {
+  it('returns values in [0, 1) that depend only on seed, channel and step', () => {
+    const random = createChannelRandom(7, 3);
+    const values = Array.from({ length: 100 }, (_, step) => random(step));
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+    expect(createChannelRandom(7, 3)(42)).toBe(random(42));
+    expect(createChannelRandom(8, 3)(42)).not.toBe(random(42));
+    expect(createChannelRandom(7, 4)(42)).not.toBe(random(42));
+  });
+});
+
+describe('evaluateGenerator', () => {
+  it('interpolates keyframes linearly or in steps', () => {
+    const keyframes = [
+      { t: 0, value: 0 },
+      { t: 100, value: 1 },
+    ];
+    expect(evaluateGenerator({ kind: 'keyframes', keyframes }, 25, 1, 0)).toBe(0.25);
+    expect(
+      evaluateGenerator({ kind: 'keyframes', keyframes, interpolation: 'step' }, 99, 1, 0),
+    ).toBe(0);
+    expect(evaluateGenerator({ kind: 'keyframes', keyframes }, 500, 1, 0)).toBe(1);
+  });
+
+  it('holds noise for its hold time', () => {
+    const noise = { kind: 'noise', amplitude: 1, holdMs: 50 } as const;
+    expect(evaluateGenerator(noise, 0, 1, 0)).toBe(evaluateGenerator(noise, 49, 1, 0));
+    expect(evaluateGenerator(noise, 0, 1, 0)).not.toBe(evaluateGenerator(noise, 50, 1, 0));
+  });
+
+  it('adds parts of a sum', () => {
+    expect(
+      evaluateGenerator(
+        {
+          kind: 'sum',
+          generators: [
+            { kind: 'constant', value: 0.25 },
+            { kind: 'sine', amplitude: 0.5, periodMs: 400 },
+          ],
+        },
+        100,
+        1,
+        0,
+      ),
+    ).toBeCloseTo(0.75);
+  });
+
+  it('passes the seeded random source to custom generators', () => {
+    const custom = {
+      kind: 'custom',
+      evaluate: (timeMs: number, random: (step: number) => number) => random(timeMs),
+    } as const;
+    expect(evaluateGenerator(custom, 5, 9, 2)).toBe(createChannelRandom(9, 2)(5));
+  });
+});
+
+describe('resolveScenarioPosition', () => {
+  it('walks phases by duration', () => {
+    expect(getScenarioDuration(scenario)).toBe(1500);
+    expect(resolveScenarioPosition(scenario, 250)).toEqual({
+      phaseIndex: 0,
+      phaseTimeMs: 250,
+      ended: false,
+    });
+    expect(resolveScenarioPosition(scenario, 1200)).toMatchObject({
+      phaseIndex: 1,
+      phaseTimeMs: 200,
+    });
+  });
+
+  it('wraps when looping', () => {
+    expect(resolveScenarioPosition(scenario, 1750)).toMatchObject({
+      phaseIndex: 0,
+      phaseTimeMs: 250,
+    });
+  });
+
+  it('holds the end when not looping', () => {
+    expect(resolveScenarioPosition({ ...scenario, loop: false }, 5000)).toEqual({
+      phaseIndex: 1,
+      phaseTimeMs: 500,
+      ended: true,
+    });
+  });
+
+  it('returns undefined for empty scenarios', () => {
+    expect(resolveScenarioPosition({ ...scenario, phases: [] }, 0)).toBeUndefined();
+  });
+});
+
+describe('getScenarioFrame', () => {
+  const times = [0, 16, 33, 500, 1000, 1250, 1600];
+
+  it('produces the same frame stream for the same seed', () => {
+    expect(frameStream(1, times)).toEqual(frameStream(1, times));
+  });
+
+  it('changes random channels with the seed', () => {
+    const axisValues = (seed: number) => frameStream(seed, times).map((pad) => pad.axes[1].value);
+    expect(axisValues(1)).not.toEqual(axisValues(2));
+  });
+
+  it('maps generators onto axes and buttons', () => {
+    const first = getScenarioFrame(scenario, 1, 500);
+    expect(first.axes[0].value).toBe(0.5);
+    expect(first.buttons[0]).toMatchObject({ pressed: false, value: 0 });
+
+    const second = getScenarioFrame(scenario, 1, 1250);
+    expect(second.axes[0].value).toBe(0);
+    expect(second.buttons[0]).toMatchObject({ label: 'A', pressed: true, value: 1 });
+    expect(second.timestamp).toBe(1250);
+  });
+
+  it('clamps generator output to the Gamepad API range', () => {
+    const loud: SimulationScenario = {
+      ...scenario,
+      phases: [{ durationMs: 100, axes: { 0: { kind: 'constant', value: 3 } } }],
+    };
+    expect(getScenarioFrame(loud, 1, 0).axes[0].value).toBe(1);
+  });
+});
+
+describe('SIMULATION_SCENARIOS', () => {
+  it('has unique ids and playable phases', () => {
+    const ids = SIMULATION_SCENARIOS.map((candidate) => candidate.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    SIMULATION_SCENARIOS.forEach((candidate) => {
+      expect(getScenarioDuration(candidate)).toBeGreaterThan(0);
+    });
+  });
+
+  it('falls back to the first scenario for unknown ids', () => {
+    expect(getSimulationScenario('missing')).toBe(SIMULATION_SCENARIOS[0]);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Scenario engine - Turns a seeded simulation scenario into virtual gamepad frames
+ * Frames are a pure function of (scenario, seed, time): randomness comes from hashing the
+ * seed, channel and time step, so the result does not depend on how often it is polled
+ */
+
+import type { NormalizedGamepad } from '@/types/gamepad';
+import type {
+  SimulationGenerator,
+  SimulationPhase,
+  SimulationRandom,
+  SimulationScenario,
+} from '@/types/simulation';
+import { BUTTON_LABELS } from '@/utils/buttonConstants';
+import {
+  VIRTUAL_AXIS_COUNT,
+  VIRTUAL_BUTTON_COUNT,
+  VIRTUAL_GAMEPAD_ID,
+  VIRTUAL_PRESS_THRESHOLD,
+} from '@/lib/constants';
+
+export type ScenarioPosition = {
+  phaseIndex: number;
+  /** Milliseconds into the current phase */
+  phaseTimeMs: number;
+  /** True once a non-looping scenario has played through */
+  ended: boolean;
+};
+
+const AXIS_LABELS: readonly string[] = ['LX', 'LY', 'RX', 'RY'];
+const BUTTON_NAMES: Record<number, string> = BUTTON_LABELS.xbox;
+
+/** Channel ids keep axis and button random streams apart */
+const BUTTON_CHANNEL_OFFSET = 256;
+
+const UINT32_RANGE = 2 ** 32;
+
+/**
+ * Mix integers into a well-distributed 32-bit hash (murmur3 finalizer per value)
+ */
+const hashIntegers = (...values: number[]): number => {
+  let hash = 0x9e3779b9;
+  values.forEach((value) => {
+    hash = Math.imul(hash ^ (Math.floor(value) >>> 0), 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+  });
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic random source for one channel of a seeded scenario
+ */
+export const createChannelRandom = (seed: number, channel: number): SimulationRandom => {
+  return (step) => hashIntegers(seed, channel, step) / UINT32_RANGE;
+};
+
+const interpolateKeyframes = (
+  generator: Extract<SimulationGenerator, { kind: 'keyframes' }>,
+  timeMs: number,
+): number => {
+  const { keyframes, interpolation = 'linear' } = generator;
+  if (keyframes.length === 0) return 0;
+  if (timeMs <= keyframes[0].t) return keyframes[0].value;
+
+  for (let index = 1; index < keyframes.length; index++) {
+    const next = keyframes[index];
+    if (timeMs < next.t) {
+      const previous = keyframes[index - 1];
+      if (interpolation === 'step') return previous.value;
+      const progress = (timeMs - previous.t) / (next.t - previous.t);
+      return previous.value + (next.value - previous.value) * progress;
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+};
+
+/**
+ * Value of a generator at a time within its phase
+ */
+export const evaluateGenerator = (
+  generator: SimulationGenerator,
+  timeMs: number,
+  seed: number,
+  channel: number,
+): number => {
+  const random = createChannelRandom(seed, channel);
+  switch (generator.kind) {
+    case 'constant':
+      return generator.value;
+    case 'keyframes':
+      return interpolateKeyframes(generator, timeMs);
+    case 'sine': {
+      const { amplitude, periodMs, phaseMs = 0, offset = 0 } = generator;
+      return offset + amplitude * Math.sin((2 * Math.PI * (timeMs + phaseMs)) / periodMs);
+    }
+    case 'noise': {
+      const { amplitude, offset = 0, holdMs = 1 } = generator;
+      return offset + (random(timeMs / holdMs) * 2 - 1) * amplitude;
+    }
+    case 'pulse':
+      return random(timeMs / generator.windowMs) < generator.probability ? 1 : 0;
+    case 'sum':
+      // Each part gets its own channel so two noise sources don't move in lockstep
+      return generator.generators.reduce(
+        (total, part, index) =>
+          total + evaluateGenerator(part, timeMs, seed, hashIntegers(channel, index + 1)),
+        0,
+      );
+    case 'custom':
+      return generator.evaluate(timeMs, random);
+  }
+};
+
+/**
+ * Total length of one pass through the scenario
+ */
+export const getScenarioDuration = (scenario: SimulationScenario): number => {
+  return scenario.phases.reduce((total, phase) => total + phase.durationMs, 0);
+};
+
+/**
+ * Locate the phase playing at a time since the scenario started
+ */
+export const resolveScenarioPosition = (
+  scenario: SimulationScenario,
+  timeMs: number,
+): ScenarioPosition | undefined => {
+  const durationMs = getScenarioDuration(scenario);
+  if (durationMs <= 0) return undefined;
+
+  const ended = !scenario.loop && timeMs >= durationMs;
+  let remaining = ended ? durationMs : Math.max(0, timeMs) % durationMs;
+
+  for (let index = 0; index < scenario.phases.length; index++) {
+    const { durationMs: phaseDurationMs } = scenario.phases[index];
+    const isLast = index === scenario.phases.length - 1;
+    if (remaining < phaseDurationMs || isLast) {
+      return { phaseIndex: index, phaseTimeMs: Math.min(remaining, phaseDurationMs), ended };
+    }
+    remaining -= phaseDurationMs;
+  }
+  return undefined;
+};
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+const readChannel = (
+  generator: SimulationGenerator | undefined,
+  phaseTimeMs: number,
+  seed: number,
+  channel: number,
+): number => (generator ? evaluateGenerator(generator, phaseTimeMs, seed, channel) : 0);
+
+/**
+ * Build the virtual controller's frame at a time since the scenario started
+ * The same scenario, seed and time always produce the same frame
+ */
+export const getScenarioFrame = (
+  scenario: SimulationScenario,
+  seed: number,
+  timeMs: number,
+): NormalizedGamepad => {
+  const position = resolveScenarioPosition(scenario, timeMs);
+  const phase: SimulationPhase | undefined = position
+    ? scenario.phases[position.phaseIndex]
+    : undefined;
+  const phaseTimeMs = position?.phaseTimeMs ?? 0;
+
+  return {
+    id: VIRTUAL_GAMEPAD_ID,
+    slot: 0,
+    mapping: 'standard',
+    vendor: 'xbox',
+    timestamp: timeMs,
+    connected: true,
+    buttons: Array.from({ length: VIRTUAL_BUTTON_COUNT }, (_, index) => {
+      const raw = readChannel(
+        phase?.buttons?.[index],
+        phaseTimeMs,
+        seed,
+        BUTTON_CHANNEL_OFFSET + index,
+      );
+      const value = Number(clamp(raw, 0, 1).toFixed(3));
+      return {
+        index,
+        label: BUTTON_NAMES[index] ?? `Button ${index + 1}`,
+        pressed: value >= VIRTUAL_PRESS_THRESHOLD,
+        value,
+      };
+    }),
+    axes: Array.from({ length: VIRTUAL_AXIS_COUNT }, (_, index) => ({
+      index,
+      label: AXIS_LABELS[index] ?? `Axis ${index + 1}`,
+      value: Number(
+        clamp(readChannel(phase?.axes?.[index], phaseTimeMs, seed, index), -1, 1).toFixed(3),
+      ),
+    })),
+    haptics: {
+      hasRumble: true,
+      actuatorType: 'dual-rumble',
+    },
+  };
+};
@@ -0,0 +1,145 @@
+/**
+ * Built-in simulation scenarios
+ * Each one exercises a part of the app: live view, guided tests, or analysis panels
+ */
+
+import type { SimulationGenerator, SimulationScenario } from '@/types/simulation';
+import { AXIS, BUTTON } from '@/utils/buttonConstants';
+import { VIRTUAL_BUTTON_COUNT } from '@/lib/constants';
+
+const SWEEP_PERIOD_MS = 1000 * Math.PI;
+const CIRCLE_PERIOD_MS = 2000;
+
+/** Cosine on X and sine on Y trace a circle of the given radius */
+const circle = (
+  xAxis: number,
+  yAxis: number,
+  amplitude: number,
+): Record<number, SimulationGenerator> => ({
+  [xAxis]: { kind: 'sine', amplitude, periodMs: CIRCLE_PERIOD_MS, phaseMs: CIRCLE_PERIOD_MS / 4 },
+  [yAxis]: { kind: 'sine', amplitude, periodMs: CIRCLE_PERIOD_MS },
+});
+
+const triggerRamp: SimulationGenerator = {
+  kind: 'keyframes',
+  keyframes: [
+    { t: 0, value: 0 },
+    { t: 1500, value: 1 },
+    { t: 2000, value: 1 },
+    { t: 3500, value: 0 },
+  ],
+};
+
+export const SIMULATION_SCENARIOS: readonly SimulationScenario[] = [
+  {
+    id: 'sweep',
+    name: 'Stick Sweep',
+    description: 'Both sticks wander while A is tapped at random',
+    loop: true,
+    phases: [
+      {
+        durationMs: SWEEP_PERIOD_MS,
+        axes: {
+          [AXIS.LEFT_X]: { kind: 'sine', amplitude: 0.6, periodMs: SWEEP_PERIOD_MS },
+          [AXIS.LEFT_Y]: {
+            kind: 'sine',
+            amplitude: 0.6,
+            periodMs: SWEEP_PERIOD_MS,
+            phaseMs: 500,
+          },
+          [AXIS.RIGHT_X]: {
+            kind: 'sine',
+            amplitude: 0.4,
+            periodMs: SWEEP_PERIOD_MS,
+            phaseMs: 1000,
+          },
+          [AXIS.RIGHT_Y]: {
+            kind: 'sine',
+            amplitude: 0.4,
+            periodMs: SWEEP_PERIOD_MS,
+            phaseMs: 1500,
+          },
+        },
+        buttons: {
+          [BUTTON.A]: { kind: 'pulse', probability: 0.2, windowMs: 100 },
+          [BUTTON.B]: { kind: 'noise', amplitude: 0.1, offset: 0.1, holdMs: 16 },
+          [BUTTON.X]: { kind: 'noise', amplitude: 0.1, offset: 0.1, holdMs: 16 },
+          [BUTTON.Y]: { kind: 'noise', amplitude: 0.1, offset: 0.1, holdMs: 16 },
+        },
+      },
+    ],
+  },
+  {
+    id: 'drift',
+    name: 'Worn Left Stick',
+    description: 'Left stick rests off-center with jitter; right stick is healthy',
+    loop: true,
+    phases: [
+      {
+        durationMs: 10000,
+        axes: {
+          [AXIS.LEFT_X]: { kind: 'noise', amplitude: 0.01, offset: 0.12, holdMs: 8 },
+          [AXIS.LEFT_Y]: { kind: 'noise', amplitude: 0.01, offset: -0.05, holdMs: 8 },
+          [AXIS.RIGHT_X]: { kind: 'noise', amplitude: 0.003, holdMs: 8 },
+          [AXIS.RIGHT_Y]: { kind: 'noise', amplitude: 0.003, holdMs: 8 },
+        },
+      },
+    ],
+  },
+  {
+    id: 'circles',
+    name: 'Stick Circles',
+    description: 'Full-deflection rotations of the left stick, then the right',
+    loop: true,
+    phases: [
+      {
+        label: 'Left stick',
+        durationMs: CIRCLE_PERIOD_MS * 3,
+        axes: circle(AXIS.LEFT_X, AXIS.LEFT_Y, 1),
+      },
+      {
+        label: 'Right stick',
+        durationMs: CIRCLE_PERIOD_MS * 3,
+        // Slightly short of the gate so the circularity test has something to report
+        axes: circle(AXIS.RIGHT_X, AXIS.RIGHT_Y, 0.92),
+      },
+    ],
+  },
+  {
+    id: 'triggers',
+    name: 'Trigger Pulls',
+    description: 'Slow full pulls of the left trigger, then the right',
+    loop: true,
+    phases: [
+      { label: 'Left trigger', durationMs: 4000, buttons: { [BUTTON.LT]: triggerRamp } },
+      { label: 'Right trigger', durationMs: 4000, buttons: { [BUTTON.RT]: triggerRamp } },
+    ],
+  },
+  {
+    id: 'buttons',
+    name: 'Button Walk',
+    description: 'Presses every button once in index order',
+    loop: true,
+    phases: Array.from({ length: VIRTUAL_BUTTON_COUNT }, (_, index) => ({
+      label: `Button ${index + 1}`,
+      durationMs: 400,
+      buttons: {
+        [index]: {
+          kind: 'keyframes',
+          interpolation: 'step',
+          keyframes: [
+            { t: 0, value: 1 },
+            { t: 250, value: 0 },
+          ],
+        },
+      },
+    })),
+  },
+];
+
+/**
+ * Find a built-in scenario, falling back to the first one
+ */
+export const getSimulationScenario = (id: string): SimulationScenario => {
+  return SIMULATION_SCENARIOS.find((scenario) => scenario.id === id) ?? SIMULATION_SCENARIOS[0];
+};
@@ -1,36 +1,20 @@
-import type { NormalizedGamepad } from '@/types/gamepad';
-
-const sine = (time: number, offset: number) => Math.sin((time / 1000 + offset) * 2);
+/**
+ * Virtual gamepad - Simulation mode controller
+ * Plays a built-in scenario; the same scenario, seed and elapsed time give the same frame
+ */
 
-export const getVirtualGamepad = (time: number): NormalizedGamepad => {
-  const lx = Number((sine(time, 0) * 0.6).toFixed(3));
-  const ly = Number((sine(time, 0.5) * 0.6).toFixed(3));
-  const rx = Number((sine(time, 1) * 0.4).toFixed(3));
-  const ry = Number((sine(time, 1.5) * 0.4).toFixed(3));
+import type { NormalizedGamepad } from '@/types/gamepad';
+import { getScenarioFrame } from '@/simulators/scenarioEngine';
+import { getSimulationScenario } from '@/simulators/scenarios';
+import { DEFAULT_SIMULATION_SCENARIO, DEFAULT_SIMULATION_SEED } from '@/lib/constants';
 
-  return {
-    id: 'Virtual Xbox Wireless',
-    slot: 0,
-    mapping: 'standard',
-    vendor: 'xbox',
-    timestamp: time,
-    connected: true,
-    buttons: Array.from({ length: 16 }, (_, index) => ({
-      index,
-      label: ['A', 'B', 'X', 'Y'][index] ?? `Button ${index + 1}`,
-      pressed: index === 0 ? Math.random() > 0.8 : false,
-      value: index < 4 ? Number((Math.random() * 0.2).toFixed(2)) : 0,
-    })),
-    axes: [
-      { index: 0, label: 'LX', value: lx },
-      { index: 1, label: 'LY', value: ly },
-      { index: 2, label: 'RX', value: rx },
-      { index: 3, label: 'RY', value: ry },
-    ],
-    haptics: {
-      hasRumble: true,
-      actuatorType: 'dual-rumble',
-    },
-  };
+/**
+ * Get the virtual controller at a time since simulation started
+ */
+export const getVirtualGamepad = (
+  elapsedMs: number,
+  scenarioId: string = DEFAULT_SIMULATION_SCENARIO,
+  seed: number = DEFAULT_SIMULATION_SEED,
+): NormalizedGamepad => {
+  return getScenarioFrame(getSimulationScenario(scenarioId), seed, elapsedMs);
 };
-
@@ -8,7 +8,10 @@ type ControllerStore = {
   lastUpdate?: number;
   setActiveSlot: (slot: number) => void;
   patchControllers: (controllers: NormalizedGamepad[]) => void;
+  /** Show exactly these controllers, dropping any slot not in the list */
+  replaceControllers: (controllers: NormalizedGamepad[]) => void;
   pruneDisconnected: () => void;
+  clearControllers: () => void;
 };
 
 export const useControllerStore = create<ControllerStore>((set) => ({
@@ -29,6 +32,19 @@ export const useControllerStore = create<ControllerStore>((set) => ({
         lastUpdate: performance.now(),
       };
     }),
+  replaceControllers: (controllers) =>
+    set((state) => {
+      const next: Record<number, NormalizedGamepad> = {};
+      controllers.forEach((controller) => {
+        next[controller.slot] = controller;
+      });
+      const slots = controllers.map((controller) => controller.slot);
+      return {
+        controllers: next,
+        activeSlot: slots.includes(state.activeSlot ?? -1) ? state.activeSlot : slots[0],
+        lastUpdate: performance.now(),
+      };
+    }),
   pruneDisconnected: () =>
     set((state) => {
       const next: Record<number, NormalizedGamepad> = {};
@@ -43,5 +59,5 @@ export const useControllerStore = create<ControllerStore>((set) => ({
         activeSlot: slots.includes(state.activeSlot ?? -1) ? state.activeSlot : slots[0],
       };
     }),
+  clearControllers: () => set({ controllers: {}, activeSlot: undefined }),
 }));
-
@@ -0,0 +1,22 @@
+/**
+ * Diagnostics Slice - Results of guided tests run during this session
+ */
+
+import { create } from 'zustand';
+
+import type { DiagnosticResults } from '@/types/diagnostics';
+
+type DiagnosticsStore = {
+  results: DiagnosticResults;
+  recordResult: <K extends keyof DiagnosticResults>(
+    key: K,
+    result: NonNullable<DiagnosticResults[K]>,
+  ) => void;
+  clearResults: () => void;
+};
+
+export const useDiagnosticsStore = create<DiagnosticsStore>((set) => ({
+  results: {},
+  recordResult: (key, result) => set((state) => ({ results: { ...state.results, [key]: result } })),
+  clearResults: () => set({ results: {} }),
+}));
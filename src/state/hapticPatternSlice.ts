@@ -0,0 +1,65 @@
+/**
+ * Haptic Pattern Slice - Named haptic patterns saved in local storage
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+import type { HapticPattern, HapticSegment } from '@/types/haptics';
+import { clampSegment, sanitizePatternName } from '@/utils/hapticPattern';
+import { safeLocalStorage } from '@/lib/errorReporter';
+
+type HapticPatternStore = {
+  patterns: HapticPattern[];
+  /** Save a new pattern, or overwrite the pattern with `id`. Returns the pattern id. */
+  savePattern: (name: string, segments: HapticSegment[], id?: string) => string;
+  deletePattern: (id: string) => void;
+};
+
+const createPatternId = (): string =>
+  `pattern-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const safeStorage = {
+  getItem: (name: string): string | null => safeLocalStorage.getItem(name),
+  setItem: (name: string, value: string): void => {
+    safeLocalStorage.setItem(name, value);
+  },
+  removeItem: (name: string): void => {
+    safeLocalStorage.removeItem(name);
+  },
+};
+
+export const useHapticPatternStore = create<HapticPatternStore>()(
+  persist(
+    (set, get) => ({
+      patterns: [],
+
+      savePattern: (name, segments, id) => {
+        const existing = id ? get().patterns.find((pattern) => pattern.id === id) : undefined;
+        const pattern: HapticPattern = {
+          id: existing?.id ?? createPatternId(),
+          name: sanitizePatternName(name, `Pattern ${get().patterns.length + 1}`),
+          segments: segments.map(clampSegment),
+          updatedAt: new Date().toISOString(),
+        };
+
+        set((state) => ({
+          patterns: existing
+            ? state.patterns.map((candidate) =>
+                candidate.id === existing.id ? pattern : candidate,
+              )
+            : [...state.patterns, pattern],
+        }));
+        return pattern.id;
+      },
+
+      deletePattern: (id) =>
+        set((state) => ({ patterns: state.patterns.filter((pattern) => pattern.id !== id) })),
+    }),
+    {
+      name: 'haptic-patterns',
+      storage: createJSONStorage(() => safeStorage),
+      version: 1,
+    },
+  ),
+);
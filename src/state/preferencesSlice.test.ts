@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { DEFAULT_DEAD_ZONE } from '@/lib/constants';
+
+vi.hoisted(() => {
+  // jsdom has no matchMedia; the store reads it when created
+  Object.defineProperty(window, 'matchMedia', {
+    configurable: true,
+    value: (query: string) => ({ matches: false, media: query }),
+  });
+});
+
+import { usePreferencesStore } from './preferencesSlice';
+
+const XBOX_KEY = '045e:0b13';
+
+describe('calibration profiles', () => {
+  beforeEach(() => {
+    const { profiles, deleteProfile, resetDeadZones } = usePreferencesStore.getState();
+    profiles.forEach((profile) => deleteProfile(profile.id));
+    resetDeadZones();
+  });
+
+  it('creates an active profile from the current calibration', () => {
+    usePreferencesStore.getState().setDeadZone('left', 0.2);
+    const id = usePreferencesStore.getState().createProfile('Worn Xbox', XBOX_KEY);
+
+    const state = usePreferencesStore.getState();
+    expect(state.activeProfileId).toBe(id);
+    expect(state.profiles[0].settings.deadZones.left).toBe(0.2);
+  });
+
+  it('writes calibration changes through to the active profile', () => {
+    usePreferencesStore.getState().createProfile('Worn Xbox', XBOX_KEY);
+    usePreferencesStore.getState().setDeadZone('right', 0.15);
+
+    expect(usePreferencesStore.getState().profiles[0].settings.deadZones.right).toBe(0.15);
+  });
+
+  it('applies the profile bound to a connecting controller', () => {
+    const { createProfile, setDeadZone, activateProfile } = usePreferencesStore.getState();
+    setDeadZone('left', 0.25);
+    createProfile('Worn Xbox', XBOX_KEY);
+    activateProfile(undefined);
+    setDeadZone('left', DEFAULT_DEAD_ZONE);
+
+    usePreferencesStore.getState().applyProfileForController(XBOX_KEY);
+    expect(usePreferencesStore.getState().deadZones.left).toBe(0.25);
+
+    // Unknown controllers detach so their edits don't leak into the bound profile
+    usePreferencesStore.getState().applyProfileForController('054c:0ce6');
+    expect(usePreferencesStore.getState().activeProfileId).toBeUndefined();
+    usePreferencesStore.getState().setDeadZone('left', 0.05);
+    expect(usePreferencesStore.getState().profiles[0].settings.deadZones.left).toBe(0.25);
+  });
+
+  it('restores the unprofiled calibration whenever an unbound controller connects', () => {
+    const { createProfile, setDeadZone, activateProfile } = usePreferencesStore.getState();
+    createProfile('Worn Xbox', XBOX_KEY);
+    setDeadZone('left', 0.25);
+    activateProfile(undefined);
+    setDeadZone('left', 0.12);
+
+    const { applyProfileForController } = usePreferencesStore.getState();
+    applyProfileForController(XBOX_KEY);
+    expect(usePreferencesStore.getState().deadZones.left).toBe(0.25);
+
+    applyProfileForController('054c:0ce6');
+    expect(usePreferencesStore.getState().deadZones.left).toBe(0.12);
+    usePreferencesStore.getState().setDeadZone('left', 0.15);
+
+    applyProfileForController(XBOX_KEY);
+    expect(usePreferencesStore.getState().deadZones.left).toBe(0.25);
+
+    applyProfileForController('054c:0ce6');
+    const state = usePreferencesStore.getState();
+    expect(state.activeProfileId).toBeUndefined();
+    expect(state.deadZones.left).toBe(0.15);
+    expect(state.profiles[0].settings.deadZones.left).toBe(0.25);
+  });
+
+  it('keeps one profile per controller and leaves duplicates unbound', () => {
+    const { createProfile, duplicateProfile } = usePreferencesStore.getState();
+    const first = createProfile('First', XBOX_KEY);
+    duplicateProfile(first);
+    createProfile('Second', XBOX_KEY);
+
+    const bound = usePreferencesStore
+      .getState()
+      .profiles.filter((profile) => profile.controllerKey === XBOX_KEY);
+    expect(bound.map((profile) => profile.name)).toEqual(['Second']);
+    expect(usePreferencesStore.getState().profiles[1].name).toBe('First (copy)');
+  });
+
+  it('renames and deletes profiles', () => {
+    const id = usePreferencesStore.getState().createProfile('Old');
+    usePreferencesStore.getState().renameProfile(id, '  New  ');
+    expect(usePreferencesStore.getState().profiles[0].name).toBe('New');
+
+    usePreferencesStore.getState().deleteProfile(id);
+    expect(usePreferencesStore.getState().profiles).toHaveLength(0);
+    expect(usePreferencesStore.getState().activeProfileId).toBeUndefined();
+  });
+});
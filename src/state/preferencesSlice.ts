@@ -5,19 +5,163 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 
-import { DEFAULT_DEAD_ZONE, MIN_DEAD_ZONE, MAX_DEAD_ZONE } from '@/lib/constants';
+import type {
+  CurveTarget,
+  DeadZoneShape,
+  ResponseCurve,
+  SamplerMode,
+  StickId,
+} from '@/types/gamepad';
+import type { CalibrationProfile, CalibrationSettings } from '@/types/calibration';
+import { clampCurveExponent, normalizeCurvePoints } from '@/utils/responseCurve';
+import {
+  DEFAULT_DEAD_ZONE,
+  DEFAULT_DEAD_ZONE_SHAPE,
+  DEFAULT_OUTER_DEAD_ZONE,
+  DEFAULT_RESPONSE_CURVE,
+  MAX_CURVE_POINTS,
+  MAX_PROFILE_NAME_LENGTH,
+  MIN_DEAD_ZONE,
+  MAX_DEAD_ZONE,
+  MAX_OUTER_DEAD_ZONE,
+  DEFAULT_SAMPLER_RATE_HZ,
+  SAMPLER_RATE_OPTIONS_HZ,
+  DEFAULT_HISTORY_RETENTION_DAYS,
+  HISTORY_RETENTION_OPTIONS_DAYS,
+  DEFAULT_SIMULATION_SCENARIO,
+  DEFAULT_SIMULATION_SEED,
+  MAX_SIMULATION_SEED,
+} from '@/lib/constants';
 import { safeLocalStorage, reportError } from '@/lib/errorReporter';
 
 type PreferencesStore = {
   simulationMode: boolean;
+  /** Built-in scenario played by the virtual controller */
+  simulationScenario: string;
+  simulationSeed: number;
   reducedMotion: boolean;
-  deadZone: number;
+  /** Inner dead zone radius per stick */
+  deadZones: Record<StickId, number>;
+  deadZoneShape: DeadZoneShape;
+  outerDeadZone: number;
+  responseCurves: Record<CurveTarget, ResponseCurve>;
+  /** Saved calibration profiles; the active one mirrors every calibration change */
+  profiles: CalibrationProfile[];
+  activeProfileId?: string;
+  /** Unprofiled calibration, set aside while a profile is active and restored on detach */
+  baseSettings?: CalibrationSettings;
+  samplerMode: SamplerMode;
+  samplerRateHz: number;
+  /** Days of diagnostic history to keep; 0 keeps everything */
+  historyRetentionDays: number;
   toggleSimulation: () => void;
+  setSimulationScenario: (id: string) => void;
+  setSimulationSeed: (seed: number) => void;
   toggleReducedMotion: () => void;
-  setDeadZone: (value: number) => void;
+  setDeadZone: (stick: StickId, value: number) => void;
+  setDeadZoneShape: (shape: DeadZoneShape) => void;
+  setOuterDeadZone: (value: number) => void;
+  resetDeadZones: () => void;
+  setResponseCurve: (target: CurveTarget, curve: ResponseCurve) => void;
+  resetResponseCurves: () => void;
+  createProfile: (name: string, controllerKey?: string, controllerName?: string) => string;
+  renameProfile: (id: string, name: string) => void;
+  duplicateProfile: (id: string) => void;
+  deleteProfile: (id: string) => void;
+  /** Bind a profile to a controller identity, unbinding any other profile for it */
+  assignProfile: (id: string, controllerKey: string, controllerName?: string) => void;
+  /** Load a profile's settings, or detach and restore the unprofiled calibration */
+  activateProfile: (id?: string) => void;
+  /** Activate the profile bound to a controller, or detach when none is bound */
+  applyProfileForController: (controllerKey: string) => void;
+  setSamplerMode: (mode: SamplerMode) => void;
+  setSamplerRate: (rateHz: number) => void;
+  setHistoryRetention: (days: number) => void;
   syncWithOSPreferences: () => void;
 };
 
+/** Preferences as persisted before version 6, when both sticks shared one dead zone */
+type LegacyPreferences = PreferencesStore & { deadZone?: number };
+
+const clampDeadZone = (value: number, max: number): number => {
+  const clampedValue = Math.max(MIN_DEAD_ZONE, Math.min(max, value));
+  return Number(clampedValue.toFixed(2));
+};
+
+const createDefaultCurves = (): Record<CurveTarget, ResponseCurve> => ({
+  left: DEFAULT_RESPONSE_CURVE,
+  right: DEFAULT_RESPONSE_CURVE,
+  leftTrigger: DEFAULT_RESPONSE_CURVE,
+  rightTrigger: DEFAULT_RESPONSE_CURVE,
+});
+
+const createDefaultSettings = (): CalibrationSettings => ({
+  deadZones: { left: DEFAULT_DEAD_ZONE, right: DEFAULT_DEAD_ZONE },
+  deadZoneShape: DEFAULT_DEAD_ZONE_SHAPE,
+  outerDeadZone: DEFAULT_OUTER_DEAD_ZONE,
+  responseCurves: createDefaultCurves(),
+});
+
+const pickCalibrationSettings = (state: PreferencesStore): CalibrationSettings => ({
+  deadZones: state.deadZones,
+  deadZoneShape: state.deadZoneShape,
+  outerDeadZone: state.outerDeadZone,
+  responseCurves: state.responseCurves,
+});
+
+const createProfileId = (): string =>
+  `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const sanitizeProfileName = (name: string, fallback: string): string =>
+  name.trim().slice(0, MAX_PROFILE_NAME_LENGTH) || fallback;
+
+/**
+ * Calibration to set aside when a profile becomes active
+ * Only the first activation snapshots; switching profiles keeps the original baseline
+ */
+const keepBaseSettings = (state: PreferencesStore): CalibrationSettings | undefined =>
+  state.activeProfileId ? state.baseSettings : pickCalibrationSettings(state);
+
+/**
+ * Leave the active profile, restoring the calibration in effect before it was activated
+ */
+const detachProfile = (state: PreferencesStore): Partial<PreferencesStore> => ({
+  ...state.baseSettings,
+  activeProfileId: undefined,
+  baseSettings: undefined,
+});
+
+/**
+ * Apply a calibration change, writing it through to the active profile
+ */
+const calibrate = (
+  state: PreferencesStore,
+  patch: Partial<CalibrationSettings>,
+): Partial<PreferencesStore> => {
+  if (!state.activeProfileId) return patch;
+  return {
+    ...patch,
+    profiles: state.profiles.map((profile) =>
+      profile.id === state.activeProfileId
+        ? {
+            ...profile,
+            settings: { ...profile.settings, ...patch },
+            updatedAt: new Date().toISOString(),
+          }
+        : profile,
+    ),
+  };
+};
+
+const isSupportedSamplerRate = (rateHz: number): boolean =>
+  (SAMPLER_RATE_OPTIONS_HZ as readonly number[]).includes(rateHz);
+
+const isSupportedRetention = (days: number): boolean =>
+  (HISTORY_RETENTION_OPTIONS_DAYS as readonly number[]).includes(days);
+
+const clampSeed = (seed: number): number =>
+  Number.isFinite(seed) ? Math.max(0, Math.min(MAX_SIMULATION_SEED, Math.floor(seed))) : 0;
+
 /**
  * Check if user prefers reduced motion at OS level
  */
@@ -41,19 +185,172 @@ const safeStorage = {
 
 export const usePreferencesStore = create<PreferencesStore>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       simulationMode: false,
+      simulationScenario: DEFAULT_SIMULATION_SCENARIO,
+      simulationSeed: DEFAULT_SIMULATION_SEED,
       reducedMotion: getOSReducedMotion(),
-      deadZone: DEFAULT_DEAD_ZONE,
+      deadZones: { left: DEFAULT_DEAD_ZONE, right: DEFAULT_DEAD_ZONE },
+      deadZoneShape: DEFAULT_DEAD_ZONE_SHAPE,
+      outerDeadZone: DEFAULT_OUTER_DEAD_ZONE,
+      responseCurves: createDefaultCurves(),
+      profiles: [],
+      activeProfileId: undefined,
+      samplerMode: 'animationFrame',
+      samplerRateHz: DEFAULT_SAMPLER_RATE_HZ,
+      historyRetentionDays: DEFAULT_HISTORY_RETENTION_DAYS,
 
       toggleSimulation: () => set((state) => ({ simulationMode: !state.simulationMode })),
 
+      // Unknown ids are kept; getSimulationScenario falls back to the first scenario
+      setSimulationScenario: (id) => set({ simulationScenario: id }),
+
+      setSimulationSeed: (seed) => set({ simulationSeed: clampSeed(seed) }),
+
       toggleReducedMotion: () => set((state) => ({ reducedMotion: !state.reducedMotion })),
 
-      setDeadZone: (value) => {
-        const clampedValue = Math.max(MIN_DEAD_ZONE, Math.min(MAX_DEAD_ZONE, value));
-        const roundedValue = Number(clampedValue.toFixed(2));
-        set({ deadZone: roundedValue });
+      setDeadZone: (stick, value) =>
+        set((state) =>
+          calibrate(state, {
+            deadZones: { ...state.deadZones, [stick]: clampDeadZone(value, MAX_DEAD_ZONE) },
+          }),
+        ),
+
+      setDeadZoneShape: (shape) => set((state) => calibrate(state, { deadZoneShape: shape })),
+
+      setOuterDeadZone: (value) =>
+        set((state) =>
+          calibrate(state, { outerDeadZone: clampDeadZone(value, MAX_OUTER_DEAD_ZONE) }),
+        ),
+
+      resetDeadZones: () =>
+        set((state) => {
+          const { deadZones, deadZoneShape, outerDeadZone } = createDefaultSettings();
+          return calibrate(state, { deadZones, deadZoneShape, outerDeadZone });
+        }),
+
+      setResponseCurve: (target, curve) =>
+        set((state) =>
+          calibrate(state, {
+            responseCurves: {
+              ...state.responseCurves,
+              [target]: {
+                type: curve.type,
+                exponent: clampCurveExponent(curve.exponent),
+                points: normalizeCurvePoints(curve.points.slice(0, MAX_CURVE_POINTS)),
+              },
+            },
+          }),
+        ),
+
+      resetResponseCurves: () =>
+        set((state) => calibrate(state, { responseCurves: createDefaultCurves() })),
+
+      createProfile: (name, controllerKey, controllerName) => {
+        const state = get();
+        const profile: CalibrationProfile = {
+          id: createProfileId(),
+          name: sanitizeProfileName(name, `Profile ${state.profiles.length + 1}`),
+          controllerKey,
+          controllerName,
+          settings: pickCalibrationSettings(state),
+          updatedAt: new Date().toISOString(),
+        };
+        // A controller auto-applies at most one profile
+        const profiles = state.profiles.map((existing) =>
+          controllerKey && existing.controllerKey === controllerKey
+            ? { ...existing, controllerKey: undefined, controllerName: undefined }
+            : existing,
+        );
+        set({
+          profiles: [...profiles, profile],
+          activeProfileId: profile.id,
+          baseSettings: keepBaseSettings(state),
+        });
+        return profile.id;
+      },
+
+      renameProfile: (id, name) =>
+        set((state) => ({
+          profiles: state.profiles.map((profile) =>
+            profile.id === id
+              ? { ...profile, name: sanitizeProfileName(name, profile.name) }
+              : profile,
+          ),
+        })),
+
+      duplicateProfile: (id) =>
+        set((state) => {
+          const source = state.profiles.find((profile) => profile.id === id);
+          if (!source) return {};
+          const copy: CalibrationProfile = {
+            id: createProfileId(),
+            name: sanitizeProfileName(`${source.name} (copy)`, source.name),
+            settings: source.settings,
+            updatedAt: new Date().toISOString(),
+          };
+          return { profiles: [...state.profiles, copy] };
+        }),
+
+      deleteProfile: (id) =>
+        set((state) => ({
+          ...(state.activeProfileId === id ? detachProfile(state) : {}),
+          profiles: state.profiles.filter((profile) => profile.id !== id),
+        })),
+
+      assignProfile: (id, controllerKey, controllerName) =>
+        set((state) => ({
+          profiles: state.profiles.map((profile) => {
+            if (profile.id === id) return { ...profile, controllerKey, controllerName };
+            if (profile.controllerKey === controllerKey) {
+              return { ...profile, controllerKey: undefined, controllerName: undefined };
+            }
+            return profile;
+          }),
+        })),
+
+      activateProfile: (id) => {
+        const state = get();
+        const profile = state.profiles.find((candidate) => candidate.id === id);
+        if (!profile) {
+          if (state.activeProfileId) set(detachProfile(state));
+          return;
+        }
+        set({
+          ...createDefaultSettings(),
+          ...profile.settings,
+          activeProfileId: profile.id,
+          baseSettings: keepBaseSettings(state),
+        });
+      },
+
+      applyProfileForController: (controllerKey) => {
+        const state = get();
+        const profile = state.profiles.find(
+          (candidate) => candidate.controllerKey === controllerKey,
+        );
+        if (!profile) {
+          // Keep edits for this controller out of another controller's profile
+          if (state.activeProfileId) state.activateProfile(undefined);
+          return;
+        }
+        if (profile.id !== state.activeProfileId) {
+          state.activateProfile(profile.id);
+        }
+      },
+
+      setSamplerMode: (mode) => set({ samplerMode: mode }),
+
+      setSamplerRate: (rateHz) => {
+        if (isSupportedSamplerRate(rateHz)) {
+          set({ samplerRateHz: rateHz });
+        }
+      },
+
+      setHistoryRetention: (days) => {
+        if (isSupportedRetention(days)) {
+          set({ historyRetentionDays: days });
+        }
       },
 
       syncWithOSPreferences: () => {
@@ -64,14 +361,44 @@ export const usePreferencesStore = create<PreferencesStore>()(
     {
       name: 'preferences',
       storage: createJSONStorage(() => safeStorage),
-      version: 4,
+      version: 10,
       migrate: (persisted, version) => {
-        const state = persisted as PreferencesStore;
+        const state = persisted as LegacyPreferences;
         if (version < 2) {
-          if (state.deadZone < MIN_DEAD_ZONE || state.deadZone > MAX_DEAD_ZONE) {
+          if (
+            state.deadZone === undefined ||
+            state.deadZone < MIN_DEAD_ZONE ||
+            state.deadZone > MAX_DEAD_ZONE
+          ) {
             state.deadZone = DEFAULT_DEAD_ZONE;
           }
         }
+        if (version < 5) {
+          state.samplerMode = 'animationFrame';
+          state.samplerRateHz = DEFAULT_SAMPLER_RATE_HZ;
+        }
+        if (version < 6) {
+          // Split the shared dead zone into per-stick values
+          const legacyDeadZone = state.deadZone ?? DEFAULT_DEAD_ZONE;
+          state.deadZones = { left: legacyDeadZone, right: legacyDeadZone };
+          state.deadZoneShape = DEFAULT_DEAD_ZONE_SHAPE;
+          state.outerDeadZone = DEFAULT_OUTER_DEAD_ZONE;
+          delete state.deadZone;
+        }
+        if (version < 7) {
+          state.responseCurves = createDefaultCurves();
+        }
+        if (version < 8) {
+          state.profiles = [];
+          state.activeProfileId = undefined;
+        }
+        if (version < 9) {
+          state.historyRetentionDays = DEFAULT_HISTORY_RETENTION_DAYS;
+        }
+        if (version < 10) {
+          state.simulationScenario = DEFAULT_SIMULATION_SCENARIO;
+          state.simulationSeed = DEFAULT_SIMULATION_SEED;
+        }
         return state;
       },
       onRehydrateStorage: () => {
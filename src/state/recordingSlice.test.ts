@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { MAX_MARKER_LABEL_LENGTH } from '@/lib/constants';
+import { createPad } from '@/test/fixtures';
+import { useRecordingStore } from './recordingSlice';
+
+describe('useRecordingStore', () => {
+  beforeEach(() => {
+    useRecordingStore.getState().clearRecording();
+  });
+
+  it('ignores frames while idle', () => {
+    useRecordingStore.getState().captureFrame([createPad({ timestamp: 1 })]);
+    expect(useRecordingStore.getState().frameCount).toBe(0);
+  });
+
+  it('skips frames without new gamepad data', () => {
+    const { startRecording, captureFrame, stopRecording } = useRecordingStore.getState();
+    startRecording();
+    captureFrame([createPad({ timestamp: 1 })]);
+    captureFrame([createPad({ timestamp: 1 })]);
+    captureFrame([createPad({ timestamp: 2 })]);
+    captureFrame([createPad({ timestamp: 2 }), createPad({ timestamp: 5, slot: 1 })]);
+    stopRecording();
+
+    const { session, status } = useRecordingStore.getState();
+    expect(status).toBe('stopped');
+    expect(session?.frames).toHaveLength(3);
+  });
+
+  it('records connection events and markers', () => {
+    const { startRecording, captureEvent, addMarker, stopRecording } = useRecordingStore.getState();
+    startRecording();
+    captureEvent('connected', 0, 'Test Pad');
+    addMarker('  stick jumps  ');
+    addMarker();
+    captureEvent('disconnected', 0);
+    stopRecording();
+
+    const session = useRecordingStore.getState().session;
+    expect(session?.events.map((event) => event.type)).toEqual(['connected', 'disconnected']);
+    expect(session?.markers.map((marker) => marker.label)).toEqual(['stick jumps', 'Marker 2']);
+  });
+
+  it('truncates long marker labels', () => {
+    const { startRecording, addMarker } = useRecordingStore.getState();
+    startRecording();
+    addMarker('x'.repeat(MAX_MARKER_LABEL_LENGTH + 20));
+    expect(useRecordingStore.getState().markers[0].label).toHaveLength(MAX_MARKER_LABEL_LENGTH);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Recording Slice - Session recorder state
+ * Frames are buffered outside of React state; only counters are reactive
+ */
+
+import { create } from 'zustand';
+
+import type { NormalizedGamepad } from '@/types/gamepad';
+import type {
+  RecordedSession,
+  SessionEvent,
+  SessionEventType,
+  SessionFrame,
+  SessionMarker,
+} from '@/types/recording';
+import {
+  MAX_MARKER_LABEL_LENGTH,
+  MAX_RECORDING_FRAMES,
+  SESSION_FORMAT_ID,
+  SESSION_FORMAT_VERSION,
+} from '@/lib/constants';
+
+export type RecordingStatus = 'idle' | 'recording' | 'stopped';
+
+type RecordingStore = {
+  status: RecordingStatus;
+  frameCount: number;
+  elapsedMs: number;
+  markers: SessionMarker[];
+  /** True once MAX_RECORDING_FRAMES was hit and later frames were dropped */
+  truncated: boolean;
+  session?: RecordedSession;
+  startRecording: () => void;
+  stopRecording: () => void;
+  addMarker: (label?: string) => void;
+  captureFrame: (controllers: NormalizedGamepad[]) => void;
+  captureEvent: (type: SessionEventType, slot: number, id?: string) => void;
+  clearRecording: () => void;
+};
+
+// Mutable buffers - pushing into React state on every poll would copy the whole array
+let frames: SessionFrame[] = [];
+let events: SessionEvent[] = [];
+let startTime = 0;
+let startedAt = '';
+let lastTimestamps = new Map<number, number>();
+
+/**
+ * A frame is only worth keeping if at least one controller reported new data
+ * or the set of connected slots changed
+ */
+const hasNewData = (controllers: NormalizedGamepad[]): boolean => {
+  if (controllers.length !== lastTimestamps.size) return true;
+  return controllers.some(
+    (controller) => lastTimestamps.get(controller.slot) !== controller.timestamp,
+  );
+};
+
+const resetBuffers = (): void => {
+  frames = [];
+  events = [];
+  lastTimestamps = new Map();
+};
+
+export const useRecordingStore = create<RecordingStore>((set, get) => ({
+  status: 'idle',
+  frameCount: 0,
+  elapsedMs: 0,
+  markers: [],
+  truncated: false,
+  session: undefined,
+
+  startRecording: () => {
+    resetBuffers();
+    startTime = performance.now();
+    startedAt = new Date().toISOString();
+    set({
+      status: 'recording',
+      frameCount: 0,
+      elapsedMs: 0,
+      markers: [],
+      truncated: false,
+      session: undefined,
+    });
+  },
+
+  stopRecording: () => {
+    const state = get();
+    if (state.status !== 'recording') return;
+
+    const session: RecordedSession = {
+      format: SESSION_FORMAT_ID,
+      version: SESSION_FORMAT_VERSION,
+      startedAt,
+      durationMs: performance.now() - startTime,
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : '',
+      frames,
+      events,
+      markers: state.markers,
+    };
+    resetBuffers();
+    set({ status: 'stopped', session, elapsedMs: session.durationMs });
+  },
+
+  addMarker: (label) => {
+    const state = get();
+    if (state.status !== 'recording') return;
+
+    const t = performance.now() - startTime;
+    const trimmed = label?.trim().slice(0, MAX_MARKER_LABEL_LENGTH);
+    const marker: SessionMarker = {
+      t,
+      label: trimmed || `Marker ${state.markers.length + 1}`,
+    };
+    set({ markers: [...state.markers, marker] });
+  },
+
+  captureFrame: (controllers) => {
+    const state = get();
+    if (state.status !== 'recording' || !hasNewData(controllers)) return;
+
+    if (frames.length >= MAX_RECORDING_FRAMES) {
+      if (!state.truncated) set({ truncated: true });
+      return;
+    }
+
+    lastTimestamps = new Map(
+      controllers.map((controller) => [controller.slot, controller.timestamp]),
+    );
+    const t = performance.now() - startTime;
+    frames.push({ t, controllers });
+    set({ frameCount: frames.length, elapsedMs: t });
+  },
+
+  captureEvent: (type, slot, id) => {
+    if (get().status !== 'recording') return;
+    events.push({ t: performance.now() - startTime, type, slot, id });
+  },
+
+  clearRecording: () => {
+    resetBuffers();
+    set({
+      status: 'idle',
+      frameCount: 0,
+      elapsedMs: 0,
+      markers: [],
+      truncated: false,
+      session: undefined,
+    });
+  },
+}));
@@ -0,0 +1,69 @@
+/**
+ * Replay Slice - Playback state for recorded sessions
+ */
+
+import { create } from 'zustand';
+
+import type { RecordedSession } from '@/types/recording';
+import { advanceReplayPosition } from '@/simulators/replaySource';
+
+export type ReplayStatus = 'playing' | 'paused';
+
+type ReplayStore = {
+  session?: RecordedSession;
+  sessionName?: string;
+  status: ReplayStatus;
+  positionMs: number;
+  speed: number;
+  loop: boolean;
+  loadSession: (session: RecordedSession, name: string) => void;
+  play: () => void;
+  pause: () => void;
+  seek: (positionMs: number) => void;
+  setSpeed: (speed: number) => void;
+  toggleLoop: () => void;
+  advance: (deltaMs: number) => void;
+  eject: () => void;
+};
+
+export const useReplayStore = create<ReplayStore>((set, get) => ({
+  session: undefined,
+  sessionName: undefined,
+  status: 'paused',
+  positionMs: 0,
+  speed: 1,
+  loop: false,
+
+  loadSession: (session, name) =>
+    set({ session, sessionName: name, status: 'paused', positionMs: 0 }),
+
+  play: () => {
+    const { session, positionMs } = get();
+    if (!session) return;
+    // Restart from the beginning if playback previously ran to the end
+    const restart = positionMs >= session.durationMs;
+    set({ status: 'playing', positionMs: restart ? 0 : positionMs });
+  },
+
+  pause: () => set({ status: 'paused' }),
+
+  seek: (positionMs) => {
+    const { session } = get();
+    if (!session) return;
+    set({ positionMs: Math.max(0, Math.min(session.durationMs, positionMs)) });
+  },
+
+  setSpeed: (speed) => set({ speed: speed > 0 ? speed : 1 }),
+
+  toggleLoop: () => set((state) => ({ loop: !state.loop })),
+
+  advance: (deltaMs) => {
+    const { session, status, positionMs, speed, loop } = get();
+    if (!session || status !== 'playing') return;
+
+    const next = advanceReplayPosition(positionMs, deltaMs, speed, session.durationMs, loop);
+    set({ positionMs: next.positionMs, status: next.ended ? 'paused' : 'playing' });
+  },
+
+  eject: () => set({ session: undefined, sessionName: undefined, status: 'paused', positionMs: 0 }),
+}));
@@ -0,0 +1,78 @@
+/**
+ * Shared test fixtures - Minimal gamepads, drift results and reports for unit tests
+ * Tests override only the fields they assert on
+ */
+
+import type { StickDriftResult } from '@/types/diagnostics';
+import type { NormalizedGamepad } from '@/types/gamepad';
+import type { DiagnosticReport } from '@/types/report';
+
+/**
+ * A connected standard-mapping gamepad with no buttons or axes
+ */
+export const createPad = (overrides: Partial<NormalizedGamepad> = {}): NormalizedGamepad => ({
+  id: 'Test Pad',
+  slot: 0,
+  mapping: 'standard',
+  vendor: 'generic',
+  timestamp: 0,
+  connected: true,
+  buttons: [],
+  axes: [],
+  haptics: { hasRumble: false },
+  ...overrides,
+});
+
+/**
+ * One stick's drift measurement resting along the X axis
+ */
+export const createDrift = (
+  restingOffset: number,
+  noise = 0,
+  verdict: StickDriftResult['verdict'] = 'pass',
+): StickDriftResult => ({
+  sampleCount: 100,
+  meanX: restingOffset,
+  meanY: 0,
+  restingOffset,
+  noise,
+  maxMagnitude: restingOffset + noise,
+  outsideDeadZoneRatio: 0,
+  recommendedDeadZone: restingOffset + noise,
+  verdict,
+});
+
+/**
+ * A report with default preferences and no test results
+ */
+export const createReport = (overrides: Partial<DiagnosticReport> = {}): DiagnosticReport => ({
+  format: 'joyscope-report',
+  version: 1,
+  generatedAt: '2024-05-01T12:30:00.000Z',
+  controller: { id: 'pad', mapping: 'standard', vendor: 'xbox', haptics: { hasRumble: true } },
+  browser: {
+    isSupported: true,
+    isSecure: true,
+    hasGamepadApi: true,
+    browserName: 'Chrome',
+    hasHapticsSupport: true,
+    warnings: [],
+    userAgent: 'test',
+  },
+  preferences: {
+    simulationMode: false,
+    deadZones: { left: 0.1, right: 0.1 },
+    deadZoneShape: 'radial',
+    outerDeadZone: 0,
+    responseCurves: {
+      left: { type: 'linear', exponent: 2, points: [] },
+      right: { type: 'linear', exponent: 2, points: [] },
+      leftTrigger: { type: 'linear', exponent: 2, points: [] },
+      rightTrigger: { type: 'linear', exponent: 2, points: [] },
+    },
+    samplerMode: 'animationFrame',
+    samplerRateHz: 250,
+  },
+  results: {},
+  ...overrides,
+});
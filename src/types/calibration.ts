@@ -0,0 +1,25 @@
+/**
+ * Calibration profile types
+ * A profile bundles the stick and trigger tuning for one physical controller
+ */
+
+import type { CurveTarget, DeadZoneShape, ResponseCurve, StickId } from '@/types/gamepad';
+
+/** The subset of preferences a calibration profile captures */
+export type CalibrationSettings = {
+  deadZones: Record<StickId, number>;
+  deadZoneShape: DeadZoneShape;
+  outerDeadZone: number;
+  responseCurves: Record<CurveTarget, ResponseCurve>;
+};
+
+export type CalibrationProfile = {
+  id: string;
+  name: string;
+  /** Controller identity this profile auto-applies to (see getControllerKey) */
+  controllerKey?: string;
+  /** Model name (or raw Gamepad id) captured when the profile was bound, for display */
+  controllerName?: string;
+  settings: CalibrationSettings;
+  updatedAt: string;
+};
@@ -0,0 +1,173 @@
+/**
+ * Diagnostic test result types
+ * Results are kept per session and feed reports and exports
+ */
+
+import type { SamplerMode, StickId, TriggerId } from '@/types/gamepad';
+
+export type TestVerdict = 'pass' | 'warn' | 'fail';
+
+export type StickDriftResult = {
+  sampleCount: number;
+  /** Mean resting position */
+  meanX: number;
+  meanY: number;
+  /** Distance of the mean resting position from center */
+  restingOffset: number;
+  /** RMS distance of samples from the mean resting position */
+  noise: number;
+  /** Largest deflection seen while at rest */
+  maxMagnitude: number;
+  /** Fraction of samples outside the dead zone configured when the test ran */
+  outsideDeadZoneRatio: number;
+  /** Smallest dead zone that hides all resting input */
+  recommendedDeadZone: number;
+  verdict: TestVerdict;
+};
+
+export type DriftTestResult = {
+  completedAt: string;
+  controllerId: string;
+  durationMs: number;
+  /** Per-stick dead zones configured when the test ran */
+  deadZones: Record<StickId, number>;
+  left: StickDriftResult;
+  right: StickDriftResult;
+};
+
+export type StickCircularityResult = {
+  /** Fraction of angular sectors reached */
+  coverage: number;
+  /** Mean absolute deviation of the traced boundary from a unit circle */
+  averageError: number;
+  /** Largest magnitude per octant, counter-clockwise from E */
+  octantMax: number[];
+  maxMagnitude: number;
+  /** Some pads report magnitudes above 1.0 at the corners */
+  exceedsUnitRange: boolean;
+  verdict: TestVerdict;
+};
+
+export type CircularityTestResult = {
+  completedAt: string;
+  controllerId: string;
+  left: StickCircularityResult;
+  right: StickCircularityResult;
+};
+
+/** A step in the wrong direction, or too large, while pulling or releasing a trigger */
+export type TriggerGlitch = {
+  /** Time since the capture started (ms) */
+  at: number;
+  from: number;
+  to: number;
+  kind: 'reversal' | 'jump';
+};
+
+export type TriggerAnalysisResult = {
+  sampleCount: number;
+  /** Value reported before the pull */
+  restValue: number;
+  maxValue: number;
+  /** First value reported once the pull starts; output skipped at the start of travel */
+  startDeadTravel: number;
+  /** Output never reached at the end of travel */
+  endDeadTravel: number;
+  /** Value at which `pressed` flipped true during the pull */
+  actuationPoint?: number;
+  /** Value at which `pressed` flipped false during the release */
+  releasePoint?: number;
+  /** Distinct values reported during the pull, a rough measure of resolution */
+  distinctValues: number;
+  glitches: TriggerGlitch[];
+  verdict: TestVerdict;
+};
+
+export type TriggerTestResult = {
+  completedAt: string;
+  controllerId: string;
+  durationMs: number;
+} & Record<TriggerId, TriggerAnalysisResult>;
+
+export type RumbleMotor = 'weak' | 'strong';
+
+/** What the user reported feeling for one sweep pulse */
+export type MotorFeel = 'nothing' | 'faint' | 'clear';
+
+export type MotorSweepStep = {
+  intensity: number;
+  feel: MotorFeel;
+};
+
+export type MotorSweepResult = {
+  steps: MotorSweepStep[];
+  /** Lowest intensity the user felt anything at */
+  threshold?: number;
+  /** A step was felt less than a lower-intensity step before it */
+  inconsistent: boolean;
+  verdict: TestVerdict;
+};
+
+export type MotorSweepTestResult = {
+  completedAt: string;
+  controllerId: string;
+  pulseMs: number;
+  weak: MotorSweepResult;
+  strong: MotorSweepResult;
+};
+
+/** Summary of a set of latency measurements (ms) */
+export type LatencyStats = {
+  count: number;
+  median: number;
+  p95: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+};
+
+export type LatencyTrial = {
+  /** Cue painted to the browser receiving the report carrying the press */
+  reactionMs: number;
+  /** Report received to the press being seen by the sampler */
+  overheadMs: number;
+  totalMs: number;
+};
+
+export type LatencyTestResult = {
+  completedAt: string;
+  controllerId: string;
+  buttonLabel: string;
+  /** Sampler that observed the presses */
+  samplerMode: SamplerMode;
+  trials: LatencyTrial[];
+  missedCount: number;
+  falseStartCount: number;
+  total: LatencyStats;
+  reaction: LatencyStats;
+  overhead: LatencyStats;
+};
+
+export type ButtonCoverageResult = {
+  completedAt: string;
+  controllerId: string;
+  durationMs: number;
+  /** Entries (buttons and axis directions) the controller reports */
+  totalCount: number;
+  seenCount: number;
+  /** Labels of reported entries that were never exercised */
+  missing: string[];
+  /** Standard entries the controller does not report at all */
+  unreported: string[];
+  verdict: TestVerdict;
+};
+
+export type DiagnosticResults = {
+  drift?: DriftTestResult;
+  circularity?: CircularityTestResult;
+  motorSweep?: MotorSweepTestResult;
+  latency?: LatencyTestResult;
+  coverage?: ButtonCoverageResult;
+  triggers?: TriggerTestResult;
+};
@@ -0,0 +1,55 @@
+/**
+ * Controller diagram types
+ * Geometry for the interactive SVG diagrams on the Live page
+ */
+
+import type { LayoutFamily, StickId } from '@/types/gamepad';
+
+type DiagramPartBase = {
+  id: string;
+  /** Center in diagram units */
+  x: number;
+  y: number;
+  /** Display name when the vendor label set has none (e.g. touchpad click) */
+  name?: string;
+};
+
+export type DiagramButtonShape = 'circle' | 'rect';
+
+export type DiagramButtonPart = DiagramPartBase & {
+  kind: 'button';
+  buttonIndex: number;
+  shape: DiagramButtonShape;
+  width: number;
+  height: number;
+  /** Symbol drawn on the cap instead of the label (PlayStation shapes) */
+  symbol?: string;
+};
+
+export type DiagramTriggerPart = DiagramPartBase & {
+  kind: 'trigger';
+  buttonIndex: number;
+  width: number;
+  height: number;
+};
+
+export type DiagramStickPart = DiagramPartBase & {
+  kind: 'stick';
+  stick: StickId;
+  xAxis: number;
+  yAxis: number;
+  /** Stick click */
+  buttonIndex: number;
+  radius: number;
+};
+
+export type DiagramPart = DiagramButtonPart | DiagramTriggerPart | DiagramStickPart;
+
+export type ControllerDiagramLayout = {
+  family: LayoutFamily;
+  width: number;
+  height: number;
+  /** SVG path of the controller body */
+  outline: string;
+  parts: readonly DiagramPart[];
+};
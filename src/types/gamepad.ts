@@ -14,10 +14,80 @@ export type AxisReading = {
 export type HapticsInfo = {
   hasRumble: boolean;
   actuatorType?: string;
+  /** Browser advertises 'trigger-rumble' for this actuator (absent in older recordings) */
+  hasTriggerRumble?: boolean;
 };
 
+export type StickId = 'left' | 'right';
+
+export type TriggerId = 'left' | 'right';
+
+/**
+ * How the inner dead zone is shaped:
+ * - axial: each axis is zeroed independently (square/cross)
+ * - radial: zeroed inside a circle, unscaled outside
+ * - scaledRadial: zeroed inside a circle, rescaled so output starts at 0 at the edge
+ * - hybrid: scaled radial followed by a scaled cross to suppress off-axis leakage
+ */
+export type DeadZoneShape = 'axial' | 'radial' | 'scaledRadial' | 'hybrid';
+
+export type ResponseCurveType = 'linear' | 'power' | 'sCurve' | 'piecewise';
+
+export type CurvePoint = { input: number; output: number };
+
+/**
+ * Maps a normalized input magnitude (0-1) onto an output magnitude (0-1)
+ * `exponent` shapes the power and S-curves; `points` define the piecewise curve
+ */
+export type ResponseCurve = {
+  type: ResponseCurveType;
+  exponent: number;
+  points: CurvePoint[];
+};
+
+/** Inputs a response curve can be assigned to */
+export type CurveTarget = StickId | 'leftTrigger' | 'rightTrigger';
+
+/**
+ * How gamepads are sampled: once per display frame, or on a dedicated high-frequency loop
+ */
+export type SamplerMode = 'animationFrame' | 'highFrequency';
+
 export type ControllerVendor = 'xbox' | 'dualshock' | 'switch' | 'generic';
 
+/** Physical button layout a controller follows */
+export type LayoutFamily = 'xbox' | 'playstation' | 'nintendo' | 'generic';
+
+export type ControllerCapabilities = {
+  rumble: boolean;
+  triggerRumble: boolean;
+  analogTriggers: boolean;
+  gyro: boolean;
+  touchpad: boolean;
+};
+
+export type ControllerModel = {
+  /** USB vendor/product ids as 4-digit lowercase hex */
+  vendorId: string;
+  productId: string;
+  name: string;
+  manufacturer: string;
+  layout: LayoutFamily;
+  capabilities: ControllerCapabilities;
+};
+
+/**
+ * What could be learned about a controller from its Gamepad id
+ * Fields are absent when the browser does not expose USB ids or the device is unknown
+ */
+export type ControllerIdentity = {
+  vendorId?: string;
+  productId?: string;
+  manufacturer?: string;
+  layout?: LayoutFamily;
+  model?: ControllerModel;
+};
+
 export type NormalizedGamepad = {
   id: string;
   slot: number;
@@ -28,5 +98,7 @@ export type NormalizedGamepad = {
   buttons: ButtonReading[];
   axes: AxisReading[];
   haptics: HapticsInfo;
+  /** Parsed USB identity; absent in sessions recorded before identity parsing */
+  identity?: ControllerIdentity;
 };
 
@@ -9,6 +9,12 @@
  */
 export interface GamepadHapticActuator {
   type: 'vibration' | 'dual-rumble';
+
+  /**
+   * Effect types this actuator can play (Chromium 120+)
+   * Older browsers omit it; only dual-rumble can be assumed there
+   */
+  readonly effects?: readonly GamepadHapticEffectType[];
   
   /**
    * Play a haptic effect on the gamepad
@@ -17,7 +23,7 @@ export interface GamepadHapticActuator {
    * @returns Promise that resolves when effect completes
    */
   playEffect(
-    type: 'dual-rumble' | 'trigger-rumble',
+    type: GamepadHapticEffectType,
     params: GamepadEffectParameters
   ): Promise<GamepadHapticsResult>;
   
@@ -34,6 +40,12 @@ export interface GamepadHapticActuator {
   pulse?(intensity: number, duration: number): Promise<void>;
 }
 
+/**
+ * Haptic effect types
+ * trigger-rumble drives the impulse trigger motors on Xbox One and later controllers
+ */
+export type GamepadHapticEffectType = 'dual-rumble' | 'trigger-rumble';
+
 /**
  * Parameters for gamepad haptic effects
  */
@@ -0,0 +1,63 @@
+/**
+ * Haptic pattern and effect log types
+ * Patterns are sequences of rumble segments played back to back
+ */
+
+import type {
+  GamepadEffectParameters,
+  GamepadHapticEffectType,
+  GamepadHapticsResult,
+} from '@/types/gamepadExtended';
+
+/** Motor channels a segment can drive */
+export type HapticChannel = 'weakMagnitude' | 'strongMagnitude' | 'leftTrigger' | 'rightTrigger';
+
+export type HapticSegment = {
+  id: string;
+  /** Pause after the previous segment ends before this one starts (ms) */
+  startDelay: number;
+  duration: number;
+} & Record<HapticChannel, number>;
+
+/** A segment placed on the pattern timeline */
+export type ScheduledSegment = {
+  segment: HapticSegment;
+  startMs: number;
+  endMs: number;
+};
+
+export type HapticPattern = {
+  id: string;
+  name: string;
+  segments: HapticSegment[];
+  updatedAt: string;
+};
+
+/**
+ * Exported pattern file. Segment ids are regenerated on import.
+ */
+export type HapticPatternFile = {
+  format: string;
+  version: number;
+  name: string;
+  segments: Omit<HapticSegment, 'id'>[];
+};
+
+/** How a logged effect settled; 'error' when playEffect rejected */
+export type HapticEventOutcome = GamepadHapticsResult | 'error';
+
+/** One playEffect or reset call, as seen by the gamepad service */
+export type HapticEvent = {
+  id: number;
+  slot: number;
+  effect: GamepadHapticEffectType | 'reset';
+  /** performance.now() when the effect was requested */
+  startedAt: number;
+  /** startDelay + duration that was asked for (0 for resets) */
+  requestedMs: number;
+  /** Time until the browser settled the effect */
+  actualMs: number;
+  outcome: HapticEventOutcome;
+  error?: string;
+  params?: GamepadEffectParameters;
+};
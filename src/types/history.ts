@@ -0,0 +1,50 @@
+/**
+ * Diagnostic history types
+ * One entry per completed guided test, kept in IndexedDB per controller identity
+ */
+
+import type { DiagnosticResults, TestVerdict } from '@/types/diagnostics';
+
+export type HistoryTestKey = keyof DiagnosticResults;
+
+/** Measurements charted as trends across runs */
+export type HistoryMetrics = {
+  leftDriftOffset?: number;
+  rightDriftOffset?: number;
+  leftNoise?: number;
+  rightNoise?: number;
+  /** Effective report rate of the controller when the run completed */
+  reportRateHz?: number;
+};
+
+export type HistoryMetricKey = keyof HistoryMetrics;
+
+export type HistoryEntry = {
+  /** Assigned by IndexedDB when the entry is stored */
+  id?: number;
+  /** Stable controller identity (see getControllerKey) */
+  controllerKey: string;
+  /** Raw Gamepad id at the time of the run */
+  controllerId: string;
+  /** Epoch milliseconds */
+  recordedAt: number;
+  test: HistoryTestKey;
+  /** Worst verdict across the test's parts; absent for tests that only measure */
+  verdict?: TestVerdict;
+  metrics: HistoryMetrics;
+  result: NonNullable<DiagnosticResults[HistoryTestKey]>;
+};
+
+/** Per-controller rollup of stored entries */
+export type HistoryController = {
+  controllerKey: string;
+  /** Gamepad id from the most recent run */
+  controllerId: string;
+  entryCount: number;
+  lastRecordedAt: number;
+};
+
+export type TrendPoint = {
+  t: number;
+  value: number;
+};
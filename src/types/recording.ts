@@ -0,0 +1,46 @@
+/**
+ * Session recording types
+ * Describes the versioned on-disk format produced by the session recorder
+ */
+
+import type { NormalizedGamepad } from '@/types/gamepad';
+
+/**
+ * A single polled frame. `t` is milliseconds since the recording started.
+ */
+export type SessionFrame = {
+  t: number;
+  controllers: NormalizedGamepad[];
+};
+
+export type SessionEventType = 'connected' | 'disconnected';
+
+/**
+ * Connection lifecycle event observed while recording
+ */
+export type SessionEvent = {
+  t: number;
+  type: SessionEventType;
+  slot: number;
+  id?: string;
+};
+
+/**
+ * User-placed marker used to annotate points of interest
+ */
+export type SessionMarker = {
+  t: number;
+  label: string;
+};
+
+export type RecordedSession = {
+  format: string;
+  version: number;
+  /** Wall-clock start time (ISO 8601) */
+  startedAt: string;
+  durationMs: number;
+  userAgent: string;
+  frames: SessionFrame[];
+  events: SessionEvent[];
+  markers: SessionMarker[];
+};
@@ -0,0 +1,88 @@
+/**
+ * Diagnostic report types
+ * Snapshot of a controller, the browser, preferences and test results for support requests
+ */
+
+import type {
+  ControllerVendor,
+  CurveTarget,
+  DeadZoneShape,
+  NormalizedGamepad,
+  ResponseCurve,
+  SamplerMode,
+  StickId,
+} from '@/types/gamepad';
+import type { DiagnosticResults, TestVerdict } from '@/types/diagnostics';
+import type { BrowserCompatibility } from '@/services/gamepadService';
+import type { ReportRateStats } from '@/utils/reportRate';
+
+export type ReportController = Pick<
+  NormalizedGamepad,
+  'id' | 'mapping' | 'vendor' | 'haptics' | 'identity'
+>;
+
+export type ReportBrowser = BrowserCompatibility & {
+  userAgent: string;
+};
+
+/** Preferences that affect how input was processed and sampled */
+export type ReportPreferences = {
+  simulationMode: boolean;
+  deadZones: Record<StickId, number>;
+  deadZoneShape: DeadZoneShape;
+  outerDeadZone: number;
+  responseCurves: Record<CurveTarget, ResponseCurve>;
+  samplerMode: SamplerMode;
+  samplerRateHz: number;
+  activeProfileName?: string;
+};
+
+export type DiagnosticReport = {
+  format: string;
+  version: number;
+  /** Wall-clock generation time (ISO 8601) */
+  generatedAt: string;
+  controller: ReportController;
+  browser: ReportBrowser;
+  preferences: ReportPreferences;
+  results: DiagnosticResults;
+  /** Report rate measured when the report was generated; absent without reports */
+  reportRate?: ReportRateStats;
+};
+
+/**
+ * One row of raw input for CSV export. `t` is milliseconds since the first sample.
+ */
+export type ReportSample = {
+  t: number;
+  gamepad: NormalizedGamepad;
+};
+
+/** Guided tests that can appear in a shared summary */
+export type SummaryTestKey = keyof DiagnosticResults;
+
+export type SummaryUnit = 'percent' | 'ms' | 'value' | 'count';
+
+export type SummaryTest = {
+  /** Worst verdict across the test's parts; absent for tests that only measure */
+  verdict?: TestVerdict;
+  /** Key measurements in the order of the test's summary fields; null when not measured */
+  values: (number | null)[];
+};
+
+/**
+ * Compact, read-only digest of a report that fits in a shareable URL
+ */
+export type ReportSummary = {
+  version: number;
+  generatedAt: string;
+  controller: {
+    id: string;
+    vendor: ControllerVendor;
+    mapping: string;
+    /** Matched model name, e.g. "Microsoft Xbox Wireless Controller" */
+    model?: string;
+  };
+  browserName: string;
+  tests: Partial<Record<SummaryTestKey, SummaryTest>>;
+};
@@ -0,0 +1,61 @@
+/**
+ * Simulation types
+ * A scenario declares what each virtual axis and button does over time; together with a
+ * seed it fully determines the frame stream
+ */
+
+export type SimulationKeyframe = {
+  /** Milliseconds from the start of the phase */
+  t: number;
+  value: number;
+};
+
+/**
+ * Deterministic random source for one channel
+ * Returns a value in [0, 1) that only depends on the seed, the channel and `step`
+ */
+export type SimulationRandom = (step: number) => number;
+
+/** How a channel's value is produced within a phase */
+export type SimulationGenerator =
+  | { kind: 'constant'; value: number }
+  | {
+      kind: 'keyframes';
+      keyframes: SimulationKeyframe[];
+      /** Defaults to linear; step holds each keyframe until the next */
+      interpolation?: 'linear' | 'step';
+    }
+  | { kind: 'sine'; amplitude: number; periodMs: number; phaseMs?: number; offset?: number }
+  | {
+      kind: 'noise';
+      amplitude: number;
+      offset?: number;
+      /** Each random value is held this long; defaults to one value per millisecond */
+      holdMs?: number;
+    }
+  | {
+      kind: 'pulse';
+      /** Chance that each window is pressed */
+      probability: number;
+      windowMs: number;
+    }
+  | { kind: 'sum'; generators: SimulationGenerator[] }
+  /** Scripted channel; must only use `random` for randomness to stay reproducible */
+  | { kind: 'custom'; evaluate: (timeMs: number, random: SimulationRandom) => number };
+
+/** Channels left out of a phase rest at zero */
+export type SimulationPhase = {
+  label?: string;
+  durationMs: number;
+  axes?: Partial<Record<number, SimulationGenerator>>;
+  buttons?: Partial<Record<number, SimulationGenerator>>;
+};
+
+export type SimulationScenario = {
+  id: string;
+  name: string;
+  description: string;
+  /** Restart from the first phase after the last; otherwise the final values are held */
+  loop: boolean;
+  phases: SimulationPhase[];
+};
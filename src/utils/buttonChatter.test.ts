@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import { CHATTER_EVENT_HISTORY, CHATTER_THRESHOLD_MS } from '@/lib/constants';
+import { createEdgeTracker, getButtonChatterStats, updateEdgeTracker } from './buttonChatter';
+
+// Feeds [timestamp, pressed] pairs and returns the tracker
+const feed = (edges: [number, boolean][]): ReturnType<typeof createEdgeTracker> => {
+  const tracker = createEdgeTracker();
+  edges.forEach(([timestamp, pressed]) => updateEdgeTracker(tracker, pressed, timestamp));
+  return tracker;
+};
+
+describe('updateEdgeTracker', () => {
+  it('counts deliberate presses without flagging them', () => {
+    const tracker = feed([
+      [0, true],
+      [100, false],
+      [300, true],
+      [400, false],
+    ]);
+    expect(tracker.pressCount).toBe(2);
+    expect(tracker.chatterCount).toBe(0);
+  });
+
+  it('flags a re-press shortly after a release', () => {
+    const tracker = createEdgeTracker();
+    updateEdgeTracker(tracker, true, 0);
+    updateEdgeTracker(tracker, false, 80);
+    const event = updateEdgeTracker(tracker, true, 85);
+    expect(event).toEqual({ at: 85, gapMs: 5, pressMs: 80 });
+    expect(tracker.chatterCount).toBe(1);
+    expect(tracker.minGapMs).toBe(5);
+  });
+
+  it('checks the first re-press of a button held when tracking started', () => {
+    const tracker = createEdgeTracker(true, 0);
+    updateEdgeTracker(tracker, false, 200);
+    const event = updateEdgeTracker(tracker, true, 205);
+    expect(event).toEqual({ at: 205, gapMs: 5, pressMs: 200 });
+    expect(tracker.chatterCount).toBe(1);
+  });
+
+  it('treats gaps at the threshold as new presses', () => {
+    const tracker = feed([
+      [0, true],
+      [50, false],
+      [50 + CHATTER_THRESHOLD_MS, true],
+    ]);
+    expect(tracker.chatterCount).toBe(0);
+  });
+
+  it('ignores repeated states', () => {
+    const tracker = feed([
+      [0, true],
+      [10, true],
+      [20, true],
+    ]);
+    expect(tracker.pressCount).toBe(1);
+  });
+
+  it('keeps only recent events', () => {
+    const edges: [number, boolean][] = [[0, true]];
+    for (let i = 1; i <= CHATTER_EVENT_HISTORY + 5; i++) {
+      edges.push([i * 100, false], [i * 100 + 2, true]);
+    }
+    const tracker = feed(edges);
+    expect(tracker.chatterCount).toBe(CHATTER_EVENT_HISTORY + 5);
+    expect(tracker.events).toHaveLength(CHATTER_EVENT_HISTORY);
+  });
+});
+
+describe('getButtonChatterStats', () => {
+  it('reports the share of presses that bounced', () => {
+    const tracker = feed([
+      [0, true],
+      [50, false],
+      [52, true],
+      [200, false],
+      [400, true],
+    ]);
+    const stats = getButtonChatterStats(3, tracker);
+    expect(stats.index).toBe(3);
+    expect(stats.pressCount).toBe(3);
+    expect(stats.chatterRatio).toBeCloseTo(1 / 3);
+  });
+});
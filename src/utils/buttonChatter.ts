@@ -0,0 +1,101 @@
+/**
+ * Button chatter detection
+ * Tracks press/release edges per button and flags release/re-press cycles too short
+ * to be deliberate, the signature of a worn or bouncing microswitch
+ */
+
+import { CHATTER_EVENT_HISTORY, CHATTER_THRESHOLD_MS } from '@/lib/constants';
+
+export type ChatterEvent = {
+  /** Report timestamp of the re-press */
+  at: number;
+  /** Time the button was released before re-pressing (ms) */
+  gapMs: number;
+  /** How long the press before the gap lasted (ms) */
+  pressMs: number;
+};
+
+export type ButtonEdgeTracker = {
+  pressed: boolean;
+  pressedAt: number;
+  /** Undefined until a release has been observed */
+  releasedAt?: number;
+  pressCount: number;
+  chatterCount: number;
+  /** Shortest release/re-press gap seen (ms) */
+  minGapMs: number;
+  events: ChatterEvent[];
+};
+
+export type ButtonChatterStats = {
+  index: number;
+  pressCount: number;
+  chatterCount: number;
+  /** Fraction of presses that were bounces */
+  chatterRatio: number;
+  minGapMs: number;
+  events: ChatterEvent[];
+};
+
+export const createEdgeTracker = (pressed = false, timestamp = 0): ButtonEdgeTracker => ({
+  pressed,
+  pressedAt: timestamp,
+  releasedAt: undefined,
+  pressCount: 0,
+  chatterCount: 0,
+  minGapMs: Infinity,
+  events: [],
+});
+
+/**
+ * Apply the latest pressed state to a tracker (mutates `tracker`)
+ * Returns the chatter event when this update re-pressed the button too soon after a release
+ */
+export const updateEdgeTracker = (
+  tracker: ButtonEdgeTracker,
+  pressed: boolean,
+  timestamp: number,
+  thresholdMs = CHATTER_THRESHOLD_MS,
+): ChatterEvent | undefined => {
+  if (pressed === tracker.pressed) return undefined;
+  tracker.pressed = pressed;
+
+  if (!pressed) {
+    tracker.releasedAt = timestamp;
+    return undefined;
+  }
+
+  const { pressedAt, releasedAt } = tracker;
+  tracker.pressedAt = timestamp;
+  tracker.pressCount += 1;
+
+  // A press with no observed release before it has no gap to measure
+  if (releasedAt === undefined) return undefined;
+  const gapMs = timestamp - releasedAt;
+  const pressMs = releasedAt - pressedAt;
+  if (gapMs >= thresholdMs) return undefined;
+
+  const event: ChatterEvent = { at: timestamp, gapMs, pressMs };
+  tracker.chatterCount += 1;
+  tracker.minGapMs = Math.min(tracker.minGapMs, gapMs);
+  tracker.events.push(event);
+  if (tracker.events.length > CHATTER_EVENT_HISTORY) {
+    tracker.events.splice(0, tracker.events.length - CHATTER_EVENT_HISTORY);
+  }
+  return event;
+};
+
+/**
+ * Summarize a tracker for display
+ */
+export const getButtonChatterStats = (
+  index: number,
+  tracker: ButtonEdgeTracker,
+): ButtonChatterStats => ({
+  index,
+  pressCount: tracker.pressCount,
+  chatterCount: tracker.chatterCount,
+  chatterRatio: tracker.pressCount > 0 ? tracker.chatterCount / tracker.pressCount : 0,
+  minGapMs: tracker.minGapMs,
+  events: [...tracker.events],
+});
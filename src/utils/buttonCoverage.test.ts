@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import type { NormalizedGamepad } from '@/types/gamepad';
+import { BUTTON_LABELS } from '@/utils/buttonConstants';
+import {
+  buildCoverageChecklist,
+  getActiveEntryIds,
+  getCoverageEntryId,
+  getCoverageProgress,
+} from './buttonCoverage';
+
+// Xbox pads usually leave out the guide button
+const XBOX_BUTTONS: string[] = Object.values(BUTTON_LABELS.xbox).slice(0, 16);
+
+describe('buildCoverageChecklist', () => {
+  it('lists standard buttons and both directions of each axis', () => {
+    const entries = buildCoverageChecklist({
+      vendor: 'xbox',
+      buttonLabels: XBOX_BUTTONS,
+      axisLabels: ['LX', 'LY', 'RX', 'RY'],
+    });
+    expect(entries.filter((entry) => entry.kind === 'button')).toHaveLength(17);
+    expect(entries.filter((entry) => entry.kind === 'axis')).toHaveLength(8);
+    expect(entries.find((entry) => entry.id === 'axis-1-negative')?.label).toBe('LY ↑');
+  });
+
+  it('marks standard indices the controller does not report', () => {
+    const entries = buildCoverageChecklist({
+      vendor: 'xbox',
+      buttonLabels: XBOX_BUTTONS,
+      axisLabels: ['LX', 'LY', 'RX', 'RY'],
+    });
+    const guide = entries.find((entry) => entry.id === 'button-16');
+    expect(guide).toMatchObject({ label: 'Xbox', standard: true, reported: false });
+  });
+
+  it('includes extra non-standard indices', () => {
+    const entries = buildCoverageChecklist({
+      vendor: 'generic',
+      buttonLabels: Array.from({ length: 20 }, (_, index) => `Button ${index + 1}`),
+      axisLabels: ['LX', 'LY', 'RX', 'RY', 'Axis 5'],
+    });
+    expect(entries.find((entry) => entry.id === 'button-19')).toMatchObject({
+      standard: false,
+      reported: true,
+    });
+    expect(entries.find((entry) => entry.id === 'axis-4-positive')?.label).toBe('Axis 5 +');
+  });
+});
+
+describe('getActiveEntryIds', () => {
+  it('reports pressed buttons and deflected axis directions', () => {
+    const gamepad = {
+      buttons: [
+        { index: 0, label: 'A', pressed: true, value: 1 },
+        { index: 1, label: 'B', pressed: false, value: 0 },
+      ],
+      axes: [
+        { index: 0, label: 'LX', value: -0.9 },
+        { index: 1, label: 'LY', value: 0.2 },
+      ],
+    } as Pick<NormalizedGamepad, 'buttons' | 'axes'>;
+    expect(getActiveEntryIds(gamepad)).toEqual(['button-0', 'axis-0-negative']);
+  });
+});
+
+describe('getCoverageProgress', () => {
+  it('completes once every reported entry has been seen', () => {
+    const entries = buildCoverageChecklist({
+      vendor: 'generic',
+      buttonLabels: ['Button 1'],
+      axisLabels: [],
+    });
+    const seen = new Set([getCoverageEntryId('button', 0)]);
+    const progress = getCoverageProgress(entries, seen);
+    expect(progress.required).toHaveLength(1);
+    expect(progress.complete).toBe(true);
+  });
+
+  it('lists remaining entries', () => {
+    const entries = buildCoverageChecklist({
+      vendor: 'generic',
+      buttonLabels: ['Button 1', 'Button 2'],
+      axisLabels: [],
+    });
+    const progress = getCoverageProgress(entries, new Set(['button-1']));
+    expect(progress.remaining.map((entry) => entry.id)).toEqual(['button-0']);
+    expect(progress.seenCount).toBe(1);
+    expect(progress.complete).toBe(false);
+  });
+});
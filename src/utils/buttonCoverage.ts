@@ -0,0 +1,135 @@
+/**
+ * Button coverage checklist
+ * Builds the list of buttons and axis directions to exercise from what a controller
+ * reports, so non-standard mappings with extra or missing indices are covered too
+ */
+
+import type { ControllerVendor, NormalizedGamepad } from '@/types/gamepad';
+import { AXIS, BUTTON, BUTTON_LABELS } from '@/utils/buttonConstants';
+import { COVERAGE_AXIS_THRESHOLD } from '@/lib/constants';
+
+export type AxisDirection = 'negative' | 'positive';
+
+export type CoverageEntry = {
+  id: string;
+  kind: 'button' | 'axis';
+  index: number;
+  direction?: AxisDirection;
+  label: string;
+  /** Index is part of the standard BUTTON/AXIS mapping */
+  standard: boolean;
+  /** The controller exposes this index */
+  reported: boolean;
+};
+
+export type CoverageProgress = {
+  required: CoverageEntry[];
+  remaining: CoverageEntry[];
+  seenCount: number;
+  complete: boolean;
+};
+
+type ChecklistSource = {
+  vendor: ControllerVendor;
+  buttonLabels: readonly string[];
+  axisLabels: readonly string[];
+};
+
+const STANDARD_BUTTON_INDICES: readonly number[] = Object.values(BUTTON);
+const STANDARD_AXIS_INDICES: readonly number[] = Object.values(AXIS);
+const VERTICAL_AXES: readonly number[] = [AXIS.LEFT_Y, AXIS.RIGHT_Y];
+const AXIS_DIRECTIONS: readonly AxisDirection[] = ['negative', 'positive'];
+
+export const getCoverageEntryId = (
+  kind: CoverageEntry['kind'],
+  index: number,
+  direction?: AxisDirection,
+): string => (direction ? `${kind}-${index}-${direction}` : `${kind}-${index}`);
+
+// Sorted union of the standard indices and however many the controller reports
+const getIndices = (standard: readonly number[], reportedCount: number): number[] => {
+  const indices = new Set(standard);
+  for (let index = 0; index < reportedCount; index++) indices.add(index);
+  return [...indices].sort((a, b) => a - b);
+};
+
+// Gamepad Y axes point down, so negative is up
+const getDirectionSymbol = (index: number, direction: AxisDirection): string => {
+  if (!STANDARD_AXIS_INDICES.includes(index)) return direction === 'negative' ? '−' : '+';
+  if (VERTICAL_AXES.includes(index)) return direction === 'negative' ? '↑' : '↓';
+  return direction === 'negative' ? '←' : '→';
+};
+
+/**
+ * Every button and axis direction to check off
+ */
+export const buildCoverageChecklist = ({
+  vendor,
+  buttonLabels,
+  axisLabels,
+}: ChecklistSource): CoverageEntry[] => {
+  const vendorLabels: Record<number, string> = BUTTON_LABELS[vendor];
+
+  const buttons = getIndices(STANDARD_BUTTON_INDICES, buttonLabels.length).map(
+    (index): CoverageEntry => ({
+      id: getCoverageEntryId('button', index),
+      kind: 'button',
+      index,
+      label: buttonLabels[index] ?? vendorLabels[index] ?? `Button ${index + 1}`,
+      standard: STANDARD_BUTTON_INDICES.includes(index),
+      reported: index < buttonLabels.length,
+    }),
+  );
+
+  const axes = getIndices(STANDARD_AXIS_INDICES, axisLabels.length).flatMap((index) =>
+    AXIS_DIRECTIONS.map(
+      (direction): CoverageEntry => ({
+        id: getCoverageEntryId('axis', index, direction),
+        kind: 'axis',
+        index,
+        direction,
+        label: `${axisLabels[index] ?? `Axis ${index + 1}`} ${getDirectionSymbol(index, direction)}`,
+        standard: STANDARD_AXIS_INDICES.includes(index),
+        reported: index < axisLabels.length,
+      }),
+    ),
+  );
+
+  return [...buttons, ...axes];
+};
+
+/**
+ * Ids of entries being exercised right now
+ */
+export const getActiveEntryIds = (
+  gamepad: Pick<NormalizedGamepad, 'buttons' | 'axes'>,
+  threshold = COVERAGE_AXIS_THRESHOLD,
+): string[] => {
+  const ids = gamepad.buttons
+    .filter((button) => button.pressed)
+    .map((button) => getCoverageEntryId('button', button.index));
+
+  gamepad.axes.forEach((axis) => {
+    if (axis.value <= -threshold) ids.push(getCoverageEntryId('axis', axis.index, 'negative'));
+    if (axis.value >= threshold) ids.push(getCoverageEntryId('axis', axis.index, 'positive'));
+  });
+
+  return ids;
+};
+
+/**
+ * Reported entries still to exercise; unreported standard entries never block completion
+ */
+export const getCoverageProgress = (
+  entries: readonly CoverageEntry[],
+  seen: ReadonlySet<string>,
+): CoverageProgress => {
+  const required = entries.filter((entry) => entry.reported);
+  const remaining = required.filter((entry) => !seen.has(entry.id));
+  return {
+    required,
+    remaining,
+    seenCount: required.length - remaining.length,
+    complete: required.length > 0 && remaining.length === 0,
+  };
+};
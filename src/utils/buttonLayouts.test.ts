@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { BUTTON, BUTTON_LABELS } from './buttonConstants';
+import { FACE_BUTTON_STYLES, getLayoutFamily, getShortLabel } from './buttonLayouts';
+
+describe('getShortLabel', () => {
+  it('reduces numbered generic labels to the number', () => {
+    expect(getShortLabel('Button 12')).toBe('12');
+  });
+
+  it('abbreviates long Nintendo labels', () => {
+    expect(getShortLabel(BUTTON_LABELS.switch[BUTTON.BACK])).toBe('−');
+    expect(getShortLabel(BUTTON_LABELS.switch[BUTTON.LS])).toBe('LS');
+  });
+
+  it('keeps labels that already fit', () => {
+    expect(getShortLabel('LB')).toBe('LB');
+  });
+});
+
+describe('getLayoutFamily', () => {
+  it('maps vendors to layout families', () => {
+    expect(getLayoutFamily('dualshock')).toBe('playstation');
+    expect(getLayoutFamily('switch')).toBe('nintendo');
+    expect(getLayoutFamily(undefined)).toBe('generic');
+  });
+});
+
+describe('FACE_BUTTON_STYLES', () => {
+  it('keeps Nintendo A on the right and B on the bottom via the standard indices', () => {
+    const nintendo = FACE_BUTTON_STYLES.nintendo ?? [];
+    const right = nintendo.find((style) => style.position === 'right');
+    const bottom = nintendo.find((style) => style.position === 'bottom');
+
+    expect(right && BUTTON_LABELS.switch[right.index as keyof typeof BUTTON_LABELS.switch]).toBe(
+      'A',
+    );
+    expect(bottom && BUTTON_LABELS.switch[bottom.index as keyof typeof BUTTON_LABELS.switch]).toBe(
+      'B',
+    );
+  });
+
+  it('draws PlayStation face buttons as shapes', () => {
+    expect(FACE_BUTTON_STYLES.playstation?.map((style) => style.glyph)).toEqual([
+      'triangle',
+      'square',
+      'circle',
+      'cross',
+    ]);
+  });
+
+  it('has no fixed face layout for generic pads', () => {
+    expect(FACE_BUTTON_STYLES.generic).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Button layouts
+ * Per-vendor presentation of the face buttons: glyphs, colors and compact labels
+ * Positions follow the standard mapping (index 0 bottom, 1 right, 2 left, 3 top),
+ * so Nintendo's swapped A/B come from the vendor labels rather than from moving buttons
+ */
+
+import type { ControllerVendor, LayoutFamily } from '@/types/gamepad';
+import { BUTTON } from '@/utils/buttonConstants';
+
+export type FaceButtonPosition = 'top' | 'left' | 'right' | 'bottom';
+export type FaceButtonGlyph = 'label' | 'cross' | 'circle' | 'square' | 'triangle';
+export type FaceButtonColor = 'green' | 'red' | 'blue' | 'yellow' | 'pink' | 'neutral';
+
+export type FaceButtonStyle = {
+  index: number;
+  position: FaceButtonPosition;
+  glyph: FaceButtonGlyph;
+  color: FaceButtonColor;
+};
+
+/** Layout family used to draw each vendor's label set */
+export const VENDOR_LAYOUTS: Readonly<Record<ControllerVendor, LayoutFamily>> = {
+  xbox: 'xbox',
+  dualshock: 'playstation',
+  switch: 'nintendo',
+  generic: 'generic',
+};
+
+const face = (
+  index: number,
+  position: FaceButtonPosition,
+  glyph: FaceButtonGlyph,
+  color: FaceButtonColor,
+): FaceButtonStyle => ({ index, position, glyph, color });
+
+/**
+ * Face buttons in draw order (top, left, right, bottom)
+ * Generic pads have no known physical layout and are drawn as a numbered grid
+ */
+export const FACE_BUTTON_STYLES: Readonly<
+  Partial<Record<LayoutFamily, readonly FaceButtonStyle[]>>
+> = {
+  xbox: [
+    face(BUTTON.Y, 'top', 'label', 'yellow'),
+    face(BUTTON.X, 'left', 'label', 'blue'),
+    face(BUTTON.B, 'right', 'label', 'red'),
+    face(BUTTON.A, 'bottom', 'label', 'green'),
+  ],
+  playstation: [
+    face(BUTTON.Y, 'top', 'triangle', 'green'),
+    face(BUTTON.X, 'left', 'square', 'pink'),
+    face(BUTTON.B, 'right', 'circle', 'red'),
+    face(BUTTON.A, 'bottom', 'cross', 'blue'),
+  ],
+  // Switch buttons are monochrome; the labels carry the swapped A/B and X/Y
+  nintendo: [
+    face(BUTTON.Y, 'top', 'label', 'neutral'),
+    face(BUTTON.X, 'left', 'label', 'neutral'),
+    face(BUTTON.B, 'right', 'label', 'neutral'),
+    face(BUTTON.A, 'bottom', 'label', 'neutral'),
+  ],
+};
+
+// Labels too long for a button cap
+const SHORT_LABELS: Readonly<Record<string, string>> = {
+  Minus: '−',
+  Plus: '+',
+  LStick: 'LS',
+  RStick: 'RS',
+};
+
+const NUMBERED_LABEL_PATTERN = /^Button (\d+)$/;
+
+/**
+ * Compact label for a button cap ("Button 5" → "5", "Minus" → "−")
+ */
+export const getShortLabel = (label: string): string =>
+  NUMBERED_LABEL_PATTERN.exec(label)?.[1] ?? SHORT_LABELS[label] ?? label;
+
+/**
+ * Layout family for a vendor, falling back to the generic numbered layout
+ */
+export const getLayoutFamily = (vendor: ControllerVendor | undefined): LayoutFamily =>
+  (vendor && VENDOR_LAYOUTS[vendor]) ?? 'generic';
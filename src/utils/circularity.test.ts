@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  accumulateSectorMaximum,
+  analyzeCircularity,
+  getCoverage,
+  getSectorIndex,
+  sectorMaximaToBoundary,
+} from './circularity';
+
+const traceCircle = (radius: (angle: number) => number, sectors = 72): number[] => {
+  const maxima = new Array<number>(sectors).fill(0);
+  for (let i = 0; i < 720; i += 1) {
+    const angle = (i / 720) * 2 * Math.PI;
+    const r = radius(angle);
+    accumulateSectorMaximum(maxima, r * Math.cos(angle), -r * Math.sin(angle));
+  }
+  return maxima;
+};
+
+describe('getSectorIndex', () => {
+  it('treats up (negative Y) as 90 degrees', () => {
+    expect(getSectorIndex(1, 0, 4)).toBe(0);
+    expect(getSectorIndex(0, -1, 4)).toBe(1);
+    expect(getSectorIndex(-1, 0, 4)).toBe(2);
+    expect(getSectorIndex(0, 1, 4)).toBe(3);
+  });
+});
+
+describe('accumulateSectorMaximum', () => {
+  it('ignores samples near the center', () => {
+    const maxima = [0, 0, 0, 0];
+    expect(accumulateSectorMaximum(maxima, 0.1, 0)).toBe(false);
+    expect(maxima).toEqual([0, 0, 0, 0]);
+  });
+
+  it('keeps the largest magnitude per sector', () => {
+    const maxima = [0, 0, 0, 0];
+    accumulateSectorMaximum(maxima, 0.9, 0);
+    accumulateSectorMaximum(maxima, 0.7, 0);
+    expect(maxima[0]).toBeCloseTo(0.9);
+  });
+});
+
+describe('analyzeCircularity', () => {
+  it('passes a perfect circle', () => {
+    const result = analyzeCircularity(traceCircle(() => 1));
+    expect(result.coverage).toBe(1);
+    expect(result.averageError).toBeCloseTo(0);
+    expect(result.exceedsUnitRange).toBe(false);
+    expect(result.verdict).toBe('pass');
+  });
+
+  it('flags square gates that exceed 1.0 in the diagonals', () => {
+    // Square gate: magnitude reaches sqrt(2) in the corners
+    const square = (angle: number): number =>
+      1 / Math.max(Math.abs(Math.cos(angle)), Math.abs(Math.sin(angle)));
+    const result = analyzeCircularity(traceCircle(square));
+    expect(result.exceedsUnitRange).toBe(true);
+    expect(result.octantMax[1]).toBeGreaterThan(1.3);
+    expect(result.octantMax[0]).toBeLessThan(1.15);
+    expect(result.verdict).toBe('fail');
+  });
+
+  it('reports partial coverage', () => {
+    const maxima = new Array<number>(72).fill(0);
+    accumulateSectorMaximum(maxima, 1, 0);
+    expect(getCoverage(maxima)).toBeCloseTo(1 / 72);
+  });
+});
+
+describe('sectorMaximaToBoundary', () => {
+  it('returns points only for reached sectors, in screen space', () => {
+    const points = sectorMaximaToBoundary([1, 0, 0, 0]);
+    expect(points).toHaveLength(1);
+    expect(points[0].x).toBeCloseTo(Math.SQRT1_2);
+    expect(points[0].y).toBeCloseTo(-Math.SQRT1_2);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Stick circularity analysis
+ * Traces the outer boundary reached while rotating a stick around its gate
+ */
+
+import type { StickCircularityResult, TestVerdict } from '@/types/diagnostics';
+import {
+  CIRCULARITY_MIN_MAGNITUDE,
+  CIRCULARITY_PASS_ERROR,
+  CIRCULARITY_RANGE_TOLERANCE,
+  CIRCULARITY_SECTOR_COUNT,
+  CIRCULARITY_WARN_ERROR,
+} from '@/lib/constants';
+
+export type BoundaryPoint = { x: number; y: number };
+
+/** Octant names, counter-clockwise from right (up is north) */
+export const OCTANT_LABELS = ['E', 'NE', 'N', 'NW', 'W', 'SW', 'S', 'SE'] as const;
+
+/**
+ * Angle in degrees [0, 360), counter-clockwise from right with up positive
+ * Gamepad Y axes point down, so Y is flipped
+ */
+const toDegrees = (x: number, y: number): number => {
+  const degrees = (Math.atan2(-y, x) * 180) / Math.PI;
+  return (degrees + 360) % 360;
+};
+
+/**
+ * Sector index for a stick position
+ */
+export const getSectorIndex = (
+  x: number,
+  y: number,
+  sectorCount = CIRCULARITY_SECTOR_COUNT,
+): number => {
+  return Math.floor(toDegrees(x, y) / (360 / sectorCount)) % sectorCount;
+};
+
+/**
+ * Record a sample into per-sector maximum magnitudes (mutates `maxima`)
+ * Returns true if the sample extended the traced boundary
+ */
+export const accumulateSectorMaximum = (maxima: number[], x: number, y: number): boolean => {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude < CIRCULARITY_MIN_MAGNITUDE) return false;
+
+  const index = getSectorIndex(x, y, maxima.length);
+  if (magnitude <= maxima[index]) return false;
+  maxima[index] = magnitude;
+  return true;
+};
+
+/**
+ * Convert sector maxima back into stick-space points for plotting
+ */
+export const sectorMaximaToBoundary = (maxima: readonly number[]): BoundaryPoint[] => {
+  const step = (2 * Math.PI) / maxima.length;
+  return maxima.flatMap((magnitude, index) => {
+    if (magnitude <= 0) return [];
+    const angle = (index + 0.5) * step;
+    return [{ x: magnitude * Math.cos(angle), y: -magnitude * Math.sin(angle) }];
+  });
+};
+
+/**
+ * Fraction of sectors the stick has reached
+ */
+export const getCoverage = (maxima: readonly number[]): number => {
+  if (maxima.length === 0) return 0;
+  return maxima.filter((magnitude) => magnitude > 0).length / maxima.length;
+};
+
+const getCircularityVerdict = (averageError: number): TestVerdict => {
+  if (averageError <= CIRCULARITY_PASS_ERROR) return 'pass';
+  if (averageError <= CIRCULARITY_WARN_ERROR) return 'warn';
+  return 'fail';
+};
+
+/**
+ * Grade the traced boundary against a perfect unit circle
+ */
+export const analyzeCircularity = (maxima: readonly number[]): StickCircularityResult => {
+  const covered = maxima.filter((magnitude) => magnitude > 0);
+  const averageError =
+    covered.length > 0
+      ? covered.reduce((sum, magnitude) => sum + Math.abs(1 - magnitude), 0) / covered.length
+      : 0;
+
+  // Each octant is centered on its direction, so it spans ±22.5°
+  const octantMax = OCTANT_LABELS.map(() => 0);
+  const step = 360 / maxima.length;
+  maxima.forEach((magnitude, index) => {
+    const center = (index + 0.5) * step;
+    const octant = Math.floor(((center + 22.5) % 360) / 45);
+    octantMax[octant] = Math.max(octantMax[octant], magnitude);
+  });
+
+  const maxMagnitude = covered.length > 0 ? Math.max(...covered) : 0;
+
+  return {
+    coverage: getCoverage(maxima),
+    averageError,
+    octantMax,
+    maxMagnitude,
+    exceedsUnitRange: maxMagnitude > 1 + CIRCULARITY_RANGE_TOLERANCE,
+    verdict: getCircularityVerdict(averageError),
+  };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { getControllerKey, identifyController, parseVendorProduct } from './controllerIdentity';
+
+describe('getControllerKey', () => {
+  it('parses Chrome ids', () => {
+    expect(
+      getControllerKey('Xbox Wireless Controller (STANDARD GAMEPAD Vendor: 045e Product: 0b13)'),
+    ).toBe('045e:0b13');
+  });
+
+  it('parses Firefox ids and pads short hex values', () => {
+    expect(getControllerKey('54c-ce6-DualSense Wireless Controller')).toBe('054c:0ce6');
+  });
+
+  it('matches the same controller across browsers', () => {
+    expect(getControllerKey('045e-0b13-Xbox Wireless Controller')).toBe(
+      getControllerKey('Xbox Wireless Controller (Vendor: 045E Product: 0B13)'),
+    );
+  });
+
+  it('falls back to the raw id', () => {
+    expect(getControllerKey('  Virtual Gamepad ')).toBe('Virtual Gamepad');
+  });
+});
+
+describe('parseVendorProduct', () => {
+  it('returns undefined when the id has no USB ids', () => {
+    expect(parseVendorProduct('Xbox Wireless Controller')).toBeUndefined();
+  });
+});
+
+describe('identifyController', () => {
+  it('resolves known models', () => {
+    const identity = identifyController(
+      'DualSense Wireless Controller (STANDARD GAMEPAD Vendor: 054c Product: 0ce6)',
+    );
+    expect(identity.model?.name).toBe('DualSense');
+    expect(identity.layout).toBe('playstation');
+    expect(identity.model?.capabilities.touchpad).toBe(true);
+  });
+
+  it('falls back to the manufacturer layout for unlisted products', () => {
+    const identity = identifyController('2dc8-9999-8BitDo Wireless');
+    expect(identity.model).toBeUndefined();
+    expect(identity.manufacturer).toBe('8BitDo');
+    expect(identity.layout).toBe('nintendo');
+  });
+
+  it('leaves unknown vendors without a layout', () => {
+    const identity = identifyController('1234-5678-Mystery Pad');
+    expect(identity).toEqual({ vendorId: '1234', productId: '5678' });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Controller identity
+ * Parses USB vendor/product ids out of Gamepad.id and resolves them against the model database
+ */
+
+import type { ControllerIdentity, ControllerVendor, LayoutFamily } from '@/types/gamepad';
+import { MANUFACTURERS, findControllerModel } from '@/lib/controllerModels';
+
+// Chrome: "... (STANDARD GAMEPAD Vendor: 045e Product: 0b13)"
+const CHROME_ID_PATTERN = /Vendor:\s*([0-9a-f]{1,4})\s+Product:\s*([0-9a-f]{1,4})/i;
+// Firefox/Safari: "045e-0b13-Xbox Wireless Controller" (leading zeros may be dropped)
+const FIREFOX_ID_PATTERN = /^([0-9a-f]{1,4})-([0-9a-f]{1,4})-/i;
+
+/** Label set used for each layout family */
+export const LAYOUT_VENDORS: Readonly<Record<LayoutFamily, ControllerVendor>> = {
+  xbox: 'xbox',
+  playstation: 'dualshock',
+  nintendo: 'switch',
+  generic: 'generic',
+};
+
+// normalizeGamepad runs every frame; ids only change on connect
+const identityCache = new Map<string, ControllerIdentity>();
+
+const toHexId = (value: string): string => value.toLowerCase().padStart(4, '0');
+
+/**
+ * Extract USB vendor/product ids (4-digit lowercase hex) from a Gamepad id
+ */
+export const parseVendorProduct = (
+  id: string,
+): { vendorId: string; productId: string } | undefined => {
+  const match = CHROME_ID_PATTERN.exec(id) ?? FIREFOX_ID_PATTERN.exec(id);
+  if (!match) return undefined;
+  return { vendorId: toHexId(match[1]), productId: toHexId(match[2]) };
+};
+
+/**
+ * Resolve everything known about a controller from its Gamepad id
+ */
+export const identifyController = (id: string): ControllerIdentity => {
+  const cached = identityCache.get(id);
+  if (cached) return cached;
+
+  const ids = parseVendorProduct(id);
+  let identity: ControllerIdentity = {};
+  if (ids) {
+    const model = findControllerModel(ids.vendorId, ids.productId);
+    const manufacturer = MANUFACTURERS[ids.vendorId];
+    identity = {
+      ...ids,
+      manufacturer: model?.manufacturer ?? manufacturer?.name,
+      layout: model?.layout ?? manufacturer?.layout,
+      model,
+    };
+  }
+
+  identityCache.set(id, identity);
+  return identity;
+};
+
+/**
+ * Key used to match calibration profiles to controllers
+ * Vendor/product ids are preferred so the same pad matches across browsers;
+ * otherwise the trimmed id string is used as-is
+ */
+export const getControllerKey = (id: string): string => {
+  const ids = parseVendorProduct(id);
+  return ids ? `${ids.vendorId}:${ids.productId}` : id.trim();
+};
@@ -0,0 +1,286 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ReportBrowser, ReportPreferences } from '@/types/report';
+import type { RecordedSession } from '@/types/recording';
+import { createPad } from '@/test/fixtures';
+import {
+  buildDiagnosticReport,
+  formatReportMarkdown,
+  formatSamplesCsv,
+  getReportFileName,
+  getSessionSamples,
+  parseDiagnosticReport,
+  serializeReport,
+} from './diagnosticReport';
+
+const xboxPad = createPad({
+  id: 'Xbox Wireless Controller (STANDARD GAMEPAD Vendor: 045e Product: 0b13)',
+  vendor: 'xbox',
+  timestamp: 100,
+  buttons: [
+    { index: 0, label: 'A', pressed: true, value: 1 },
+    { index: 1, label: 'B', pressed: false, value: 0 },
+  ],
+  axes: [{ index: 0, label: 'LX', value: -0.25 }],
+  haptics: { hasRumble: true, hasTriggerRumble: false },
+});
+
+const browser: ReportBrowser = {
+  isSupported: true,
+  isSecure: true,
+  hasGamepadApi: true,
+  browserName: 'Chrome',
+  hasHapticsSupport: true,
+  warnings: [],
+  userAgent: 'Mozilla/5.0 Chrome/120',
+};
+
+const preferences: ReportPreferences = {
+  simulationMode: false,
+  deadZones: { left: 0.1, right: 0.12 },
+  deadZoneShape: 'scaledRadial',
+  outerDeadZone: 0,
+  responseCurves: {
+    left: { type: 'linear', exponent: 2, points: [] },
+    right: { type: 'linear', exponent: 2, points: [] },
+    leftTrigger: { type: 'power', exponent: 2, points: [] },
+    rightTrigger: { type: 'linear', exponent: 2, points: [] },
+  },
+  samplerMode: 'animationFrame',
+  samplerRateHz: 250,
+};
+
+const generatedAt = '2024-05-01T12:30:00.123Z';
+
+describe('buildDiagnosticReport', () => {
+  it('keeps identity fields and drops live readings', () => {
+    const report = buildDiagnosticReport({
+      controller: xboxPad,
+      browser,
+      preferences,
+      results: {},
+      generatedAt,
+    });
+
+    expect(report.format).toBe('joyscope-report');
+    expect(report.controller).toEqual({
+      id: xboxPad.id,
+      mapping: 'standard',
+      vendor: 'xbox',
+      haptics: { hasRumble: true, hasTriggerRumble: false },
+      identity: undefined,
+    });
+    expect(report.controller).not.toHaveProperty('buttons');
+    expect(JSON.parse(serializeReport(report))).toEqual(JSON.parse(JSON.stringify(report)));
+  });
+});
+
+describe('formatReportMarkdown', () => {
+  it('summarizes controller, browser, preferences and results', () => {
+    const report = buildDiagnosticReport({
+      controller: xboxPad,
+      browser,
+      preferences,
+      results: {
+        coverage: {
+          completedAt: generatedAt,
+          controllerId: 'pad',
+          durationMs: 5000,
+          totalCount: 20,
+          seenCount: 19,
+          missing: ['Home'],
+          unreported: [],
+          verdict: 'fail',
+        },
+      },
+      generatedAt,
+    });
+
+    const markdown = formatReportMarkdown(report);
+    expect(markdown).toContain('# JoyScope Diagnostic Report');
+    expect(markdown).toContain('- Browser: Chrome');
+    expect(markdown).toContain('left 0.10, right 0.12 (scaledRadial)');
+    expect(markdown).toContain('leftTrigger power');
+    expect(markdown).toContain('### Button Coverage');
+    expect(markdown).toContain('- Exercised: 19/20');
+    expect(markdown).toContain('- Never seen: Home');
+  });
+
+  it('notes when no tests were run', () => {
+    const report = buildDiagnosticReport({
+      controller: xboxPad,
+      browser,
+      preferences,
+      results: {},
+      generatedAt,
+    });
+    expect(formatReportMarkdown(report)).toContain('No guided tests were run');
+  });
+});
+
+describe('formatSamplesCsv', () => {
+  it('writes one column per button and axis', () => {
+    const csv = formatSamplesCsv([
+      { t: 0, gamepad: xboxPad },
+      {
+        t: 16.5,
+        gamepad: { ...xboxPad, timestamp: 116, axes: [{ index: 0, label: 'LX', value: 1 }] },
+      },
+    ]);
+
+    expect(csv.split('\n')).toEqual([
+      't_ms,report_timestamp,A (button 0),B (button 1),LX (axis 0)',
+      '0.000,100.000,1.0000,0.0000,-0.2500',
+      '16.500,116.000,1.0000,0.0000,1.0000',
+    ]);
+  });
+
+  it('quotes labels containing delimiters', () => {
+    const pad = {
+      ...xboxPad,
+      buttons: [{ index: 0, label: 'A, "Cross"', pressed: false, value: 0 }],
+    };
+    expect(formatSamplesCsv([{ t: 0, gamepad: pad }]).split('\n')[0]).toContain(
+      '"A, ""Cross"" (button 0)"',
+    );
+  });
+
+  it('returns an empty string without samples', () => {
+    expect(formatSamplesCsv([])).toBe('');
+  });
+});
+
+describe('getSessionSamples', () => {
+  it('extracts frames for one slot', () => {
+    const session: RecordedSession = {
+      format: 'joyscope-session',
+      version: 1,
+      startedAt: generatedAt,
+      durationMs: 40,
+      userAgent: 'test',
+      frames: [
+        { t: 0, controllers: [xboxPad, { ...xboxPad, slot: 1 }] },
+        { t: 16, controllers: [{ ...xboxPad, slot: 1 }] },
+        { t: 33, controllers: [{ ...xboxPad, timestamp: 133 }] },
+      ],
+      events: [],
+      markers: [],
+    };
+
+    expect(getSessionSamples(session, 0).map((sample) => sample.t)).toEqual([0, 33]);
+  });
+});
+
+describe('getReportFileName', () => {
+  it('stamps the file name with the generation time', () => {
+    const report = buildDiagnosticReport({
+      controller: xboxPad,
+      browser,
+      preferences,
+      results: {},
+      generatedAt,
+    });
+    expect(getReportFileName(report, 'md')).toBe('joyscope-report-2024-05-01T12-30-00.md');
+  });
+});
+
+describe('parseDiagnosticReport', () => {
+  it('round-trips a serialized report', () => {
+    const report = buildDiagnosticReport({
+      controller: xboxPad,
+      browser,
+      preferences,
+      results: {},
+      generatedAt,
+    });
+    expect(parseDiagnosticReport(serializeReport(report))).toEqual({
+      success: true,
+      report: JSON.parse(serializeReport(report)) as unknown,
+    });
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(parseDiagnosticReport('not json')).toMatchObject({ success: false });
+    expect(parseDiagnosticReport('{"format":"joyscope-session"}')).toMatchObject({
+      success: false,
+      error: 'File is not a JoyScope report',
+    });
+    expect(parseDiagnosticReport('{"format":"joyscope-report","version":99}')).toMatchObject({
+      success: false,
+      error: 'Unsupported report version: 99',
+    });
+    [0, -1, 0.5].forEach((version) => {
+      expect(
+        parseDiagnosticReport(`{"format":"joyscope-report","version":${version}}`),
+      ).toMatchObject({ success: false, error: `Unsupported report version: ${version}` });
+    });
+  });
+
+  it('rejects results missing the measurements comparisons read', () => {
+    const report = buildDiagnosticReport({
+      controller: xboxPad,
+      browser,
+      preferences,
+      results: {},
+      generatedAt,
+    });
+    const withResults = (results: unknown) =>
+      parseDiagnosticReport(JSON.stringify({ ...report, results }));
+
+    expect(withResults({ drift: { right: {} } })).toMatchObject({
+      success: false,
+      error: 'Report contains malformed measurements',
+    });
+    expect(
+      withResults({
+        circularity: { left: { averageError: 'bad' }, right: { averageError: 0.02 } },
+      }),
+    ).toMatchObject({ success: false });
+    expect(
+      parseDiagnosticReport(JSON.stringify({ ...report, reportRate: { effectiveHz: null } })),
+    ).toMatchObject({ success: false });
+  });
+
+  it('rejects reports without a controller', () => {
+    expect(
+      parseDiagnosticReport('{"format":"joyscope-report","version":1,"results":{}}'),
+    ).toMatchObject({ success: false });
+  });
+});
+
+describe('report rate', () => {
+  const reportRate = {
+    sampleCount: 500,
+    effectiveHz: 250,
+    meanIntervalMs: 4,
+    minIntervalMs: 3.9,
+    maxIntervalMs: 8,
+    p99IntervalMs: 4.2,
+    histogram: [],
+  };
+
+  it('is included and summarized when reports were measured', () => {
+    const report = buildDiagnosticReport({
+      controller: xboxPad,
+      browser,
+      preferences,
+      results: {},
+      reportRate,
+      generatedAt,
+    });
+    expect(report.reportRate).toEqual(reportRate);
+    expect(formatReportMarkdown(report)).toContain('- Effective rate: 250 Hz over 500 reports');
+  });
+
+  it('is left out without any reports', () => {
+    const report = buildDiagnosticReport({
+      controller: xboxPad,
+      browser,
+      preferences,
+      results: {},
+      reportRate: { ...reportRate, sampleCount: 0 },
+      generatedAt,
+    });
+    expect(report.reportRate).toBeUndefined();
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Diagnostic report utilities
+ * Builds a support report and renders it as JSON, Markdown, or CSV input samples
+ */
+
+import type { RecordedSession } from '@/types/recording';
+import type {
+  DiagnosticReport,
+  ReportBrowser,
+  ReportPreferences,
+  ReportSample,
+} from '@/types/report';
+import type { DiagnosticResults, TestVerdict } from '@/types/diagnostics';
+import type { NormalizedGamepad } from '@/types/gamepad';
+import type { CalibrationProfile } from '@/types/calibration';
+import type { ReportRateStats } from '@/utils/reportRate';
+import { safeJsonParse } from '@/lib/errorReporter';
+import { REPORT_FORMAT_ID, REPORT_FORMAT_VERSION } from '@/lib/constants';
+
+export type ReportFileType = 'json' | 'md' | 'csv';
+
+export type ReportParseResult =
+  | { success: true; report: DiagnosticReport }
+  | { success: false; error: string };
+
+type ReportInput = {
+  controller: NormalizedGamepad;
+  browser: ReportBrowser;
+  preferences: ReportPreferences;
+  results: DiagnosticResults;
+  reportRate?: ReportRateStats;
+  generatedAt?: string;
+};
+
+/**
+ * Snapshot everything a report needs; live readings are left out
+ */
+export const buildDiagnosticReport = ({
+  controller,
+  browser,
+  preferences,
+  results,
+  reportRate,
+  generatedAt = new Date().toISOString(),
+}: ReportInput): DiagnosticReport => ({
+  format: REPORT_FORMAT_ID,
+  version: REPORT_FORMAT_VERSION,
+  generatedAt,
+  controller: {
+    id: controller.id,
+    mapping: controller.mapping,
+    vendor: controller.vendor,
+    haptics: controller.haptics,
+    identity: controller.identity,
+  },
+  browser,
+  preferences,
+  results,
+  reportRate: reportRate && reportRate.sampleCount > 0 ? reportRate : undefined,
+});
+
+/**
+ * Pick the report-relevant fields out of the preferences store state
+ */
+export const pickReportPreferences = (
+  state: Omit<ReportPreferences, 'activeProfileName'> & {
+    profiles: readonly CalibrationProfile[];
+    activeProfileId?: string;
+  },
+): ReportPreferences => ({
+  simulationMode: state.simulationMode,
+  deadZones: { ...state.deadZones },
+  deadZoneShape: state.deadZoneShape,
+  outerDeadZone: state.outerDeadZone,
+  responseCurves: state.responseCurves,
+  samplerMode: state.samplerMode,
+  samplerRateHz: state.samplerRateHz,
+  activeProfileName: state.profiles.find((profile) => profile.id === state.activeProfileId)?.name,
+});
+
+/**
+ * Serialize a report to indented JSON
+ */
+export const serializeReport = (report: DiagnosticReport): string => {
+  return JSON.stringify(report, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const hasNumbers = (value: unknown, fields: readonly string[]): boolean =>
+  isRecord(value) && fields.every((field) => isFiniteNumber(value[field]));
+
+/** Per-side measurements that comparisons and summaries read from each test */
+const RESULT_SIDE_FIELDS: Partial<Record<keyof DiagnosticResults, readonly string[]>> = {
+  drift: ['restingOffset', 'noise', 'recommendedDeadZone'],
+  circularity: ['averageError'],
+  triggers: ['startDeadTravel', 'endDeadTravel'],
+};
+
+const hasValidResults = (results: Record<string, unknown>): boolean =>
+  Object.entries(RESULT_SIDE_FIELDS).every(([key, fields]) => {
+    const result = results[key];
+    return (
+      result === undefined ||
+      (isRecord(result) &&
+        hasNumbers(result.left, fields ?? []) &&
+        hasNumbers(result.right, fields ?? []))
+    );
+  });
+
+/**
+ * Parse and validate an exported JSON report
+ * The envelope and the measurements read by comparisons are checked; other result
+ * fields are trusted to match the format version
+ */
+export const parseDiagnosticReport = (json: string): ReportParseResult => {
+  const data = safeJsonParse<unknown>(json, undefined, { action: 'parseDiagnosticReport' });
+  if (data === undefined) {
+    return { success: false, error: 'File is not valid JSON' };
+  }
+
+  if (!isRecord(data) || data.format !== REPORT_FORMAT_ID) {
+    return { success: false, error: 'File is not a JoyScope report' };
+  }
+
+  const { version } = data;
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > REPORT_FORMAT_VERSION
+  ) {
+    return { success: false, error: `Unsupported report version: ${String(version)}` };
+  }
+
+  if (
+    !isRecord(data.controller) ||
+    typeof data.controller.id !== 'string' ||
+    !isRecord(data.browser) ||
+    !isRecord(data.preferences) ||
+    !isRecord(data.results) ||
+    (data.reportRate !== undefined && !isRecord(data.reportRate))
+  ) {
+    return { success: false, error: 'Report is missing controller, browser or result data' };
+  }
+
+  if (
+    !hasValidResults(data.results) ||
+    (data.reportRate !== undefined &&
+      !hasNumbers(data.reportRate, ['effectiveHz', 'p99IntervalMs']))
+  ) {
+    return { success: false, error: 'Report contains malformed measurements' };
+  }
+
+  return {
+    success: true,
+    report: {
+      ...(data as DiagnosticReport),
+      generatedAt: typeof data.generatedAt === 'string' ? data.generatedAt : '',
+    },
+  };
+};
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+const VERDICT_LABELS: Record<TestVerdict, string> = {
+  pass: 'PASS',
+  warn: 'WARN',
+  fail: 'FAIL',
+};
+
+const percent = (value?: number): string =>
+  value !== undefined ? `${(value * 100).toFixed(1)}%` : '—';
+
+const ms = (value: number): string => `${value.toFixed(1)} ms`;
+
+const table = (header: string[], rows: string[][]): string[] => [
+  `| ${header.join(' | ')} |`,
+  `| ${header.map(() => '---').join(' | ')} |`,
+  ...rows.map((row) => `| ${row.join(' | ')} |`),
+];
+
+const formatResults = (results: DiagnosticResults): string[] => {
+  const lines: string[] = [];
+
+  if (results.drift) {
+    const { drift } = results;
+    lines.push('### Drift', '');
+    lines.push(
+      ...table(
+        ['Stick', 'Verdict', 'Resting offset', 'Noise', 'Recommended dead zone'],
+        (['left', 'right'] as const).map((stick) => [
+          stick,
+          VERDICT_LABELS[drift[stick].verdict],
+          drift[stick].restingOffset.toFixed(3),
+          drift[stick].noise.toFixed(3),
+          drift[stick].recommendedDeadZone.toFixed(3),
+        ]),
+      ),
+      '',
+    );
+  }
+
+  if (results.circularity) {
+    const { circularity } = results;
+    lines.push('### Circularity', '');
+    lines.push(
+      ...table(
+        ['Stick', 'Verdict', 'Avg. error', 'Max magnitude'],
+        (['left', 'right'] as const).map((stick) => [
+          stick,
+          VERDICT_LABELS[circularity[stick].verdict],
+          percent(circularity[stick].averageError),
+          circularity[stick].maxMagnitude.toFixed(3),
+        ]),
+      ),
+      '',
+    );
+  }
+
+  if (results.triggers) {
+    const { triggers } = results;
+    lines.push('### Triggers', '');
+    lines.push(
+      ...table(
+        ['Trigger', 'Verdict', 'Start dead travel', 'End dead travel', 'Actuation', 'Glitches'],
+        (['left', 'right'] as const).map((trigger) => [
+          trigger,
+          VERDICT_LABELS[triggers[trigger].verdict],
+          percent(triggers[trigger].startDeadTravel),
+          percent(triggers[trigger].endDeadTravel),
+          percent(triggers[trigger].actuationPoint),
+          String(triggers[trigger].glitches.length),
+        ]),
+      ),
+      '',
+    );
+  }
+
+  if (results.motorSweep) {
+    const { motorSweep } = results;
+    lines.push('### Rumble Motors', '');
+    lines.push(
+      ...table(
+        ['Motor', 'Verdict', 'First felt at', 'Inconsistent'],
+        (['weak', 'strong'] as const).map((motor) => [
+          motor,
+          VERDICT_LABELS[motorSweep[motor].verdict],
+          percent(motorSweep[motor].threshold),
+          motorSweep[motor].inconsistent ? 'yes' : 'no',
+        ]),
+      ),
+      '',
+    );
+  }
+
+  if (results.latency) {
+    const { latency } = results;
+    lines.push(
+      '### Latency',
+      '',
+      `Button ${latency.buttonLabel}, ${latency.trials.length} trials, ${latency.samplerMode} sampler`,
+      '',
+    );
+    lines.push(
+      ...table(
+        ['Measure', 'Median', 'p95'],
+        [
+          ['Total', ms(latency.total.median), ms(latency.total.p95)],
+          ['Reaction', ms(latency.reaction.median), ms(latency.reaction.p95)],
+          ['Sampler overhead', ms(latency.overhead.median), ms(latency.overhead.p95)],
+        ],
+      ),
+      '',
+    );
+  }
+
+  if (results.coverage) {
+    const { coverage } = results;
+    lines.push(
+      '### Button Coverage',
+      '',
+      `- Verdict: ${VERDICT_LABELS[coverage.verdict]}`,
+      `- Exercised: ${coverage.seenCount}/${coverage.totalCount}`,
+    );
+    if (coverage.missing.length > 0) lines.push(`- Never seen: ${coverage.missing.join(', ')}`);
+    if (coverage.unreported.length > 0) {
+      lines.push(`- Not reported: ${coverage.unreported.join(', ')}`);
+    }
+    lines.push('');
+  }
+
+  return lines.length > 0 ? lines : ['No guided tests were run in this session.', ''];
+};
+
+/**
+ * Render a report as a human-readable Markdown summary
+ */
+export const formatReportMarkdown = (report: DiagnosticReport): string => {
+  const { controller, browser, preferences } = report;
+  const model = controller.identity?.model;
+
+  const lines = [
+    '# JoyScope Diagnostic Report',
+    '',
+    `Generated ${report.generatedAt}`,
+    '',
+    '## Controller',
+    '',
+    `- ID: \`${controller.id}\``,
+    `- Mapping: ${controller.mapping || 'none'}`,
+    `- Vendor: ${controller.vendor}`,
+  ];
+  if (model) lines.push(`- Model: ${model.manufacturer} ${model.name}`);
+  if (controller.identity?.vendorId && controller.identity.productId) {
+    lines.push(`- USB: ${controller.identity.vendorId}:${controller.identity.productId}`);
+  }
+  lines.push(
+    `- Rumble: ${controller.haptics.hasRumble ? 'yes' : 'no'}`,
+    `- Trigger rumble: ${controller.haptics.hasTriggerRumble ? 'yes' : 'no'}`,
+    '',
+    '## Browser',
+    '',
+    `- Browser: ${browser.browserName}`,
+    `- User agent: \`${browser.userAgent}\``,
+    `- Gamepad API: ${browser.hasGamepadApi ? 'yes' : 'no'}`,
+    `- Secure context: ${browser.isSecure ? 'yes' : 'no'}`,
+    `- Haptics: ${browser.hasHapticsSupport ? 'yes' : 'no'}`,
+  );
+  browser.warnings.forEach((warning) => lines.push(`- Warning: ${warning}`));
+  lines.push(
+    '',
+    '## Preferences',
+    '',
+    `- Dead zones: left ${preferences.deadZones.left.toFixed(2)}, right ${preferences.deadZones.right.toFixed(2)} (${preferences.deadZoneShape})`,
+    `- Outer dead zone: ${preferences.outerDeadZone.toFixed(2)}`,
+    `- Response curves: ${Object.entries(preferences.responseCurves)
+      .map(([target, curve]) => `${target} ${curve.type}`)
+      .join(', ')}`,
+    `- Sampler: ${preferences.samplerMode} (${preferences.samplerRateHz} Hz)`,
+    `- Simulation mode: ${preferences.simulationMode ? 'on' : 'off'}`,
+  );
+  if (preferences.activeProfileName) {
+    lines.push(`- Active profile: ${preferences.activeProfileName}`);
+  }
+  if (report.reportRate) {
+    const { reportRate } = report;
+    lines.push(
+      '',
+      '## Report Rate',
+      '',
+      `- Effective rate: ${reportRate.effectiveHz.toFixed(0)} Hz over ${reportRate.sampleCount} reports`,
+      `- Interval: mean ${ms(reportRate.meanIntervalMs)}, p99 ${ms(reportRate.p99IntervalMs)}, max ${ms(reportRate.maxIntervalMs)}`,
+    );
+  }
+  lines.push('', '## Test Results', '', ...formatResults(report.results));
+
+  return lines.join('\n');
+};
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Quote a CSV cell when it contains a delimiter, quote or line break
+ */
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Render input samples as CSV, one row per sample and one column per button and axis
+ * Columns follow the first sample; later samples with fewer inputs leave cells empty
+ */
+export const formatSamplesCsv = (samples: readonly ReportSample[]): string => {
+  const first = samples[0]?.gamepad;
+  if (!first) return '';
+
+  const header = [
+    't_ms',
+    'report_timestamp',
+    ...first.buttons.map((button) => `${button.label} (button ${button.index})`),
+    ...first.axes.map((axis) => `${axis.label} (axis ${axis.index})`),
+  ];
+
+  const rows = samples.map(({ t, gamepad }) => [
+    t.toFixed(3),
+    gamepad.timestamp.toFixed(3),
+    ...first.buttons.map((_, index) => gamepad.buttons[index]?.value.toFixed(4) ?? ''),
+    ...first.axes.map((_, index) => gamepad.axes[index]?.value.toFixed(4) ?? ''),
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+};
+
+/**
+ * Pull one controller's samples out of a recorded session
+ */
+export const getSessionSamples = (session: RecordedSession, slot: number): ReportSample[] => {
+  return session.frames.flatMap((frame) => {
+    const gamepad = frame.controllers.find((pad) => pad.slot === slot);
+    return gamepad ? [{ t: frame.t, gamepad }] : [];
+  });
+};
+
+/**
+ * Build a download file name from the report generation time
+ * e.g. joyscope-report-2024-05-01T12-30-00.md
+ */
+export const getReportFileName = (report: DiagnosticReport, type: ReportFileType): string => {
+  const stamp = report.generatedAt.replace(/\.\d+Z$/, '').replace(/:/g, '-');
+  return `${REPORT_FORMAT_ID}-${stamp}.${type}`;
+};
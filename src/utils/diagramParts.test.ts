@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DiagramPart } from '@/types/diagram';
+import { CONTROLLER_DIAGRAMS } from '@/lib/controllerDiagrams';
+import { createPad } from '@/test/fixtures';
+import {
+  getPartIndices,
+  getPartLabel,
+  isPartActive,
+  isPartReported,
+  readPartValues,
+} from './diagramParts';
+
+/** A DualShock-vendor pad whose first button is labelled the way the browser reports it */
+const createDiagramPad = (buttonValues: number[], axes: number[]) =>
+  createPad({
+    vendor: 'dualshock',
+    buttons: buttonValues.map((value, index) => ({
+      index,
+      label: index === 0 ? 'Cross' : `Button ${index + 1}`,
+      pressed: value > 0.5,
+      value,
+    })),
+    axes: axes.map((value, index) => ({ index, label: `A${index}`, value })),
+  });
+
+const deadZones = { left: 0.1, right: 0.1 };
+
+const findPart = (id: string): DiagramPart => {
+  const part = CONTROLLER_DIAGRAMS.playstation.parts.find((candidate) => candidate.id === id);
+  if (!part) throw new Error(`Missing part ${id}`);
+  return part;
+};
+
+describe('diagram parts', () => {
+  it('reads button labels and values from the gamepad', () => {
+    const cross = findPart('face-bottom');
+    const pad = createDiagramPad([1], []);
+
+    expect(getPartLabel(cross, pad)).toBe('Cross');
+    expect(readPartValues(cross, pad)).toEqual([1]);
+    expect(isPartActive(cross, pad, deadZones)).toBe(true);
+  });
+
+  it('reads both axes for sticks', () => {
+    const right = findPart('stick-right');
+    const pad = createDiagramPad(new Array<number>(12).fill(0), [0, 0, 0.5, -0.25]);
+
+    expect(getPartIndices(right)).toEqual({ buttons: [11], axes: [2, 3] });
+    expect(readPartValues(right, pad)).toEqual([0.5, -0.25]);
+    expect(isPartActive(right, pad, deadZones)).toBe(true);
+  });
+
+  it('keeps sticks idle inside the configured dead zone', () => {
+    const right = findPart('stick-right');
+    const pad = createDiagramPad(new Array<number>(12).fill(0), [0, 0, 0.2, 0]);
+
+    expect(isPartActive(right, pad, deadZones)).toBe(true);
+    expect(isPartActive(right, pad, { left: 0.1, right: 0.25 })).toBe(false);
+  });
+
+  it('prefers the part name for non-standard extras', () => {
+    expect(getPartLabel(findPart('touchpad'), createDiagramPad([], []))).toBe('Touchpad');
+  });
+
+  it('treats unreported inputs as idle and unreported', () => {
+    const touchpad = findPart('touchpad');
+    const pad = createDiagramPad([0, 0], []);
+
+    expect(readPartValues(touchpad, pad)).toEqual([0]);
+    expect(isPartActive(touchpad, pad, deadZones)).toBe(false);
+    expect(isPartReported(touchpad, pad)).toBe(false);
+  });
+
+  it('gives every layout its own body outline', () => {
+    const outlines = Object.values(CONTROLLER_DIAGRAMS).map((diagram) => diagram.outline);
+    expect(new Set(outlines).size).toBe(outlines.length);
+  });
+
+  it('gives every layout unique part ids', () => {
+    Object.values(CONTROLLER_DIAGRAMS).forEach((diagram) => {
+      const ids = diagram.parts.map((part) => part.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Controller diagram parts
+ * Reads labels, raw indices and live values for diagram parts from a NormalizedGamepad
+ */
+
+import type { DiagramPart } from '@/types/diagram';
+import type { NormalizedGamepad, StickId } from '@/types/gamepad';
+
+const STICK_NAMES = { left: 'Left Stick', right: 'Right Stick' } as const;
+
+/**
+ * Raw Gamepad API indices behind a part
+ */
+export const getPartIndices = (part: DiagramPart): { buttons: number[]; axes: number[] } =>
+  part.kind === 'stick'
+    ? { buttons: [part.buttonIndex], axes: [part.xAxis, part.yAxis] }
+    : { buttons: [part.buttonIndex], axes: [] };
+
+/**
+ * Display label for a part, preferring the vendor label set
+ */
+export const getPartLabel = (part: DiagramPart, gamepad?: NormalizedGamepad): string => {
+  if (part.kind === 'stick') return STICK_NAMES[part.stick];
+  return part.name ?? gamepad?.buttons[part.buttonIndex]?.label ?? `Button ${part.buttonIndex + 1}`;
+};
+
+/**
+ * Current values for a part: [value] for buttons and triggers, [x, y] for sticks
+ * Inputs the controller does not report read as 0
+ */
+export const readPartValues = (part: DiagramPart, gamepad?: NormalizedGamepad): number[] => {
+  if (part.kind === 'stick') {
+    return [gamepad?.axes[part.xAxis]?.value ?? 0, gamepad?.axes[part.yAxis]?.value ?? 0];
+  }
+  const reading = gamepad?.buttons[part.buttonIndex];
+  if (!reading) return [0];
+  // Digital buttons may report pressed with a value of 0 on some browsers
+  return [reading.pressed && reading.value === 0 ? 1 : reading.value];
+};
+
+/**
+ * Whether a part should light up
+ * Sticks count as active once they leave the user's dead zone for that stick
+ */
+export const isPartActive = (
+  part: DiagramPart,
+  gamepad: NormalizedGamepad | undefined,
+  deadZones: Record<StickId, number>,
+): boolean => {
+  if (part.kind === 'stick') {
+    const [x, y] = readPartValues(part, gamepad);
+    const clicked = gamepad?.buttons[part.buttonIndex]?.pressed ?? false;
+    return clicked || Math.hypot(x, y) > deadZones[part.stick];
+  }
+  return readPartValues(part, gamepad)[0] > 0;
+};
+
+/**
+ * Whether the controller reports every input behind a part
+ */
+export const isPartReported = (part: DiagramPart, gamepad?: NormalizedGamepad): boolean => {
+  if (!gamepad) return false;
+  const { buttons, axes } = getPartIndices(part);
+  return (
+    buttons.every((index) => index < gamepad.buttons.length) &&
+    axes.every((index) => index < gamepad.axes.length)
+  );
+};
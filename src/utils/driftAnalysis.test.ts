@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { analyzeStickDrift, getDriftVerdict } from './driftAnalysis';
+
+describe('analyzeStickDrift', () => {
+  it('reports a centered, quiet stick as passing', () => {
+    const result = analyzeStickDrift(
+      [
+        { x: 0, y: 0 },
+        { x: 0.01, y: 0 },
+        { x: -0.01, y: 0 },
+      ],
+      0.08,
+    );
+    expect(result.restingOffset).toBeCloseTo(0);
+    expect(result.recommendedDeadZone).toBe(0.03);
+    expect(result.outsideDeadZoneRatio).toBe(0);
+    expect(result.verdict).toBe('pass');
+  });
+
+  it('measures resting offset and noise around the mean', () => {
+    const result = analyzeStickDrift(
+      [
+        { x: 0.1, y: 0 },
+        { x: 0.14, y: 0 },
+      ],
+      0.08,
+    );
+    expect(result.meanX).toBeCloseTo(0.12);
+    expect(result.restingOffset).toBeCloseTo(0.12);
+    expect(result.noise).toBeCloseTo(0.02);
+    expect(result.maxMagnitude).toBeCloseTo(0.14);
+    expect(result.outsideDeadZoneRatio).toBe(1);
+    expect(result.recommendedDeadZone).toBe(0.16);
+    expect(result.verdict).toBe('fail');
+  });
+
+  it('handles empty input', () => {
+    expect(analyzeStickDrift([], 0.08).sampleCount).toBe(0);
+  });
+});
+
+describe('getDriftVerdict', () => {
+  it('grades by the dead zone needed', () => {
+    expect(getDriftVerdict(0.05)).toBe('pass');
+    expect(getDriftVerdict(0.12)).toBe('warn');
+    expect(getDriftVerdict(0.3)).toBe('fail');
+  });
+});
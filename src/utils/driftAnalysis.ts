@@ -0,0 +1,77 @@
+/**
+ * Stick drift analysis
+ * Summarizes axis samples captured while both sticks are released
+ */
+
+import type { NormalizedGamepad, StickId } from '@/types/gamepad';
+import type { StickDriftResult, TestVerdict } from '@/types/diagnostics';
+import { getStickCoords, isInDeadZone } from '@/utils/gamepadMapping';
+import {
+  DRIFT_DEAD_ZONE_MARGIN,
+  DRIFT_PASS_DEAD_ZONE,
+  DRIFT_WARN_DEAD_ZONE,
+} from '@/lib/constants';
+
+export type StickSample = { x: number; y: number };
+
+/**
+ * Extract one stick sample from a controller frame
+ */
+export const sampleStick = (gamepad: NormalizedGamepad, stick: StickId): StickSample => {
+  return getStickCoords(gamepad, stick);
+};
+
+/**
+ * Grade a stick by the dead zone it needs to hide resting input
+ */
+export const getDriftVerdict = (recommendedDeadZone: number): TestVerdict => {
+  if (recommendedDeadZone <= DRIFT_PASS_DEAD_ZONE) return 'pass';
+  if (recommendedDeadZone <= DRIFT_WARN_DEAD_ZONE) return 'warn';
+  return 'fail';
+};
+
+/**
+ * Analyze resting samples for one stick
+ */
+export const analyzeStickDrift = (
+  samples: readonly StickSample[],
+  deadZone: number,
+): StickDriftResult => {
+  const count = samples.length;
+  if (count === 0) {
+    return {
+      sampleCount: 0,
+      meanX: 0,
+      meanY: 0,
+      restingOffset: 0,
+      noise: 0,
+      maxMagnitude: 0,
+      outsideDeadZoneRatio: 0,
+      recommendedDeadZone: 0,
+      verdict: 'pass',
+    };
+  }
+
+  const meanX = samples.reduce((sum, s) => sum + s.x, 0) / count;
+  const meanY = samples.reduce((sum, s) => sum + s.y, 0) / count;
+  const variance =
+    samples.reduce((sum, s) => sum + (s.x - meanX) ** 2 + (s.y - meanY) ** 2, 0) / count;
+  const maxMagnitude = Math.max(...samples.map((s) => Math.hypot(s.x, s.y)));
+  const outside = samples.filter((s) => !isInDeadZone(s.x, s.y, deadZone)).length;
+
+  // Round up to the 0.01 steps used by the dead zone slider
+  const recommendedDeadZone =
+    maxMagnitude > 0 ? Math.ceil((maxMagnitude + DRIFT_DEAD_ZONE_MARGIN) * 100) / 100 : 0;
+
+  return {
+    sampleCount: count,
+    meanX,
+    meanY,
+    restingOffset: Math.hypot(meanX, meanY),
+    noise: Math.sqrt(variance),
+    maxMagnitude,
+    outsideDeadZoneRatio: outside / count,
+    recommendedDeadZone,
+    verdict: getDriftVerdict(recommendedDeadZone),
+  };
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatDuration } from './formatting';
+
+describe('formatDuration', () => {
+  it('formats sub-minute durations', () => {
+    expect(formatDuration(0)).toBe('0:00.0');
+    expect(formatDuration(5300)).toBe('0:05.3');
+  });
+
+  it('rolls over into minutes', () => {
+    expect(formatDuration(65_300)).toBe('1:05.3');
+  });
+
+  it('rounds before splitting minutes and seconds', () => {
+    expect(formatDuration(59_950)).toBe('1:00.0');
+    expect(formatDuration(119_960)).toBe('2:00.0');
+  });
+
+  it('clamps negative values', () => {
+    expect(formatDuration(-10)).toBe('0:00.0');
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Display formatting helpers
+ */
+
+/**
+ * Format milliseconds as m:ss.s (e.g. 1:05.3)
+ */
+export const formatDuration = (ms: number): string => {
+  // Round before splitting so 59.95s becomes 1:00.0 rather than 0:60.0
+  const totalSeconds = Math.round(Math.max(0, ms) / 100) / 10;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+};
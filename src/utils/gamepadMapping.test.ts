@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { normalizeGamepad } from './gamepadMapping';
+import { applyDeadZone, normalizeGamepad } from './gamepadMapping';
 
 const createGamepad = (id: string): Gamepad =>
   ({
@@ -30,6 +30,14 @@ describe('normalizeGamepad', () => {
     expect(normalized.buttons[0].label).toBe('A');
   });
 
+  it('classifies by USB ids before name matching', () => {
+    const normalized = normalizeGamepad(
+      createGamepad('8BitDo Pro 2 (STANDARD GAMEPAD Vendor: 2dc8 Product: 6003)'),
+    );
+    expect(normalized.vendor).toBe('switch');
+    expect(normalized.identity?.model?.name).toBe('8BitDo Pro 2');
+  });
+
   it('falls back to generic labels', () => {
     const normalized = normalizeGamepad(createGamepad('Unknown Controller 9000'));
     expect(normalized.vendor).toBe('generic');
@@ -37,3 +45,38 @@ describe('normalizeGamepad', () => {
   });
 });
 
+describe('applyDeadZone', () => {
+  it('rescales radially by default', () => {
+    expect(applyDeadZone(0.05, 0, 0.1)).toEqual({ x: 0, y: 0, magnitude: 0 });
+    const result = applyDeadZone(0.55, 0, 0.1);
+    expect(result.x).toBeCloseTo(0.5);
+    expect(result.magnitude).toBeCloseTo(0.5);
+  });
+
+  it('keeps raw magnitude with radial', () => {
+    expect(applyDeadZone(0.55, 0, 0.1, 'radial').x).toBeCloseTo(0.55);
+    expect(applyDeadZone(0.05, 0.05, 0.1, 'radial').magnitude).toBe(0);
+  });
+
+  it('zeroes each axis independently with axial', () => {
+    const result = applyDeadZone(0.5, 0.05, 0.1, 'axial');
+    expect(result.x).toBeCloseTo(0.5);
+    expect(result.y).toBe(0);
+    // Diagonal inside the per-axis bands but outside the radius is still zeroed
+    expect(applyDeadZone(0.09, 0.09, 0.1, 'axial').magnitude).toBe(0);
+  });
+
+  it('suppresses off-axis leakage with hybrid', () => {
+    const radial = applyDeadZone(0.8, 0.1, 0.1, 'scaledRadial');
+    const hybrid = applyDeadZone(0.8, 0.1, 0.1, 'hybrid');
+    expect(radial.y).toBeGreaterThan(0);
+    expect(hybrid.y).toBe(0);
+    expect(hybrid.x).toBeGreaterThan(0.7);
+  });
+
+  it('reports full travel beyond the outer dead zone', () => {
+    expect(applyDeadZone(0.9, 0, 0.1, 'scaledRadial', 0.1).x).toBeCloseTo(1);
+    expect(applyDeadZone(-0.95, 0, 0.1, 'radial', 0.1).x).toBeCloseTo(-1);
+    expect(applyDeadZone(0.95, 0, 0.1, 'axial', 0.1).x).toBeCloseTo(1);
+  });
+});
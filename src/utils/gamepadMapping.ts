@@ -3,9 +3,15 @@
  * Transforms raw Gamepad API data into normalized, vendor-agnostic format
  */
 
-import type { ControllerVendor, NormalizedGamepad } from '@/types/gamepad';
-import { detectVendor } from '@/services/gamepadService';
+import type {
+  ControllerVendor,
+  DeadZoneShape,
+  NormalizedGamepad,
+  StickId,
+} from '@/types/gamepad';
+import { detectVendor, isTriggerRumbleSupported } from '@/services/gamepadService';
 import { BUTTON_LABELS, AXIS } from '@/utils/buttonConstants';
+import { LAYOUT_VENDORS, identifyController } from '@/utils/controllerIdentity';
 
 // Axis labels (same across all vendors)
 const axisLabels: readonly string[] = ['LX', 'LY', 'RX', 'RY'];
@@ -26,7 +32,9 @@ type MaybeActuator = { type?: string } | null | undefined;
  * Normalize a raw Gamepad object into our standardized format
  */
 export const normalizeGamepad = (gamepad: Gamepad): NormalizedGamepad => {
-  const vendor = detectVendor(gamepad.id);
+  // USB ids are authoritative; fall back to name matching when they are missing or unknown
+  const identity = identifyController(gamepad.id);
+  const vendor = identity.layout ? LAYOUT_VENDORS[identity.layout] : detectVendor(gamepad.id);
   const labels = getLabelsForVendor(vendor);
   
   // Access vibration actuator (not in standard types)
@@ -55,7 +63,9 @@ export const normalizeGamepad = (gamepad: Gamepad): NormalizedGamepad => {
     haptics: {
       hasRumble,
       actuatorType,
+      hasTriggerRumble: hasRumble && isTriggerRumbleSupported(gamepad),
     },
+    identity,
   };
 };
 
@@ -71,7 +81,7 @@ export const getAxisValue = (gamepad: NormalizedGamepad, axisIndex: number): num
  */
 export const getStickCoords = (
   gamepad: NormalizedGamepad,
-  stick: 'left' | 'right'
+  stick: StickId
 ): { x: number; y: number } => {
   const xIndex = stick === 'left' ? AXIS.LEFT_X : AXIS.RIGHT_X;
   const yIndex = stick === 'left' ? AXIS.LEFT_Y : AXIS.RIGHT_Y;
@@ -90,27 +100,71 @@ export const isInDeadZone = (x: number, y: number, deadZone: number): boolean =>
   return magnitude < deadZone;
 };
 
+/**
+ * Map `value` from [inner, outer] onto [0, 1], clamped
+ */
+const rescale = (value: number, inner: number, outer: number): number => {
+  if (outer <= inner) return value >= outer ? 1 : 0;
+  return Math.max(0, Math.min(1, (value - inner) / (outer - inner)));
+};
+
+/**
+ * Apply the dead zone to a single axis, keeping its sign
+ */
+const applyAxialDeadZone = (
+  value: number,
+  deadZone: number,
+  outerEdge: number,
+  scaled: boolean
+): number => {
+  const magnitude = Math.abs(value);
+  if (magnitude < deadZone) return 0;
+  const output = scaled
+    ? rescale(magnitude, deadZone, outerEdge)
+    : Math.min(1, magnitude / outerEdge);
+  return Math.sign(value) * output;
+};
+
 /**
  * Apply dead zone filtering to stick values
+ *
+ * `outerDeadZone` is the anti-dead zone at the rim: deflection beyond
+ * `1 - outerDeadZone` reports as full travel.
  */
 export const applyDeadZone = (
   x: number,
   y: number,
-  deadZone: number
+  deadZone: number,
+  shape: DeadZoneShape = 'scaledRadial',
+  outerDeadZone = 0
 ): { x: number; y: number; magnitude: number } => {
   const magnitude = Math.sqrt(x * x + y * y);
-  
-  if (magnitude < deadZone) {
+  const outerEdge = 1 - outerDeadZone;
+
+  if (shape === 'axial') {
+    const outX = applyAxialDeadZone(x, deadZone, outerEdge, false);
+    const outY = applyAxialDeadZone(y, deadZone, outerEdge, false);
+    return { x: outX, y: outY, magnitude: Math.sqrt(outX * outX + outY * outY) };
+  }
+
+  if (magnitude < deadZone || magnitude === 0) {
     return { x: 0, y: 0, magnitude: 0 };
   }
-  
-  // Scale the output so full range is still achievable
-  const scaledMagnitude = (magnitude - deadZone) / (1 - deadZone);
-  const angle = Math.atan2(y, x);
-  
-  return {
-    x: scaledMagnitude * Math.cos(angle),
-    y: scaledMagnitude * Math.sin(angle),
-    magnitude: scaledMagnitude,
-  };
+
+  // Radial keeps raw magnitude; scaled shapes rescale so full range is still achievable
+  const outputMagnitude =
+    shape === 'radial'
+      ? Math.min(1, magnitude / outerEdge)
+      : rescale(magnitude, deadZone, outerEdge);
+  const radialX = (x / magnitude) * outputMagnitude;
+  const radialY = (y / magnitude) * outputMagnitude;
+
+  if (shape === 'hybrid') {
+    // Scaled cross on top of the radial result removes small off-axis drift
+    const outX = applyAxialDeadZone(radialX, deadZone, 1, true);
+    const outY = applyAxialDeadZone(radialY, deadZone, 1, true);
+    return { x: outX, y: outY, magnitude: Math.sqrt(outX * outX + outY * outY) };
+  }
+
+  return { x: radialX, y: radialY, magnitude: outputMagnitude };
 };
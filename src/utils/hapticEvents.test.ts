@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import type { HapticEvent } from '@/types/haptics';
+import { countHapticEventStatuses, getHapticEventStatus } from './hapticEvents';
+
+type TimedEvent = Pick<HapticEvent, 'effect' | 'outcome' | 'requestedMs' | 'actualMs'>;
+
+const createEvent = (values: Partial<TimedEvent> = {}): TimedEvent => ({
+  effect: 'dual-rumble',
+  outcome: 'complete',
+  requestedMs: 200,
+  actualMs: 205,
+  ...values,
+});
+
+describe('getHapticEventStatus', () => {
+  it('accepts effects that ran for about the requested time', () => {
+    expect(getHapticEventStatus(createEvent())).toBe('ok');
+    expect(getHapticEventStatus(createEvent({ actualMs: 160 }))).toBe('ok');
+  });
+
+  it('flags effects that completed early', () => {
+    expect(getHapticEventStatus(createEvent({ actualMs: 80 }))).toBe('cut-short');
+  });
+
+  it('flags effects that completed almost immediately as ignored', () => {
+    expect(getHapticEventStatus(createEvent({ actualMs: 1 }))).toBe('ignored');
+  });
+
+  it('reports preempted and failed effects from their outcome', () => {
+    expect(getHapticEventStatus(createEvent({ outcome: 'preempted', actualMs: 1 }))).toBe(
+      'preempted',
+    );
+    expect(getHapticEventStatus(createEvent({ outcome: 'error' }))).toBe('failed');
+  });
+
+  it('treats resets as ok', () => {
+    expect(
+      getHapticEventStatus(createEvent({ effect: 'reset', requestedMs: 0, actualMs: 0 })),
+    ).toBe('ok');
+  });
+});
+
+describe('countHapticEventStatuses', () => {
+  it('counts each status', () => {
+    const counts = countHapticEventStatuses([
+      createEvent(),
+      createEvent({ outcome: 'preempted' }),
+      createEvent({ actualMs: 1 }),
+    ]);
+    expect(counts).toEqual({ ok: 1, preempted: 1, 'cut-short': 0, ignored: 1, failed: 0 });
+  });
+});
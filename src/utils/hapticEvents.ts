@@ -0,0 +1,55 @@
+/**
+ * Haptic event analysis
+ * Compares how long the browser took to settle an effect with what was requested
+ */
+
+import type { HapticEvent } from '@/types/haptics';
+import { HAPTIC_IGNORED_THRESHOLD_MS, HAPTIC_TIMING_TOLERANCE_MS } from '@/lib/constants';
+
+/**
+ * ok - played for (about) the requested time
+ * preempted - replaced by a later effect or a reset
+ * cut-short - reported complete well before the requested time
+ * ignored - reported complete almost immediately; the browser likely never played it
+ * failed - playEffect rejected
+ */
+export type HapticEventStatus = 'ok' | 'preempted' | 'cut-short' | 'ignored' | 'failed';
+
+type TimedEvent = Pick<HapticEvent, 'effect' | 'outcome' | 'requestedMs' | 'actualMs'>;
+
+/**
+ * Classify a logged effect
+ */
+export const getHapticEventStatus = (event: TimedEvent): HapticEventStatus => {
+  if (event.outcome === 'error') return 'failed';
+  if (event.effect === 'reset') return 'ok';
+  if (event.outcome === 'preempted') return 'preempted';
+
+  if (
+    event.requestedMs > HAPTIC_IGNORED_THRESHOLD_MS &&
+    event.actualMs < HAPTIC_IGNORED_THRESHOLD_MS
+  ) {
+    return 'ignored';
+  }
+  if (event.actualMs < event.requestedMs - HAPTIC_TIMING_TOLERANCE_MS) return 'cut-short';
+  return 'ok';
+};
+
+/**
+ * Count logged effects by status
+ */
+export const countHapticEventStatuses = (
+  events: readonly TimedEvent[],
+): Record<HapticEventStatus, number> => {
+  const counts: Record<HapticEventStatus, number> = {
+    ok: 0,
+    preempted: 0,
+    'cut-short': 0,
+    ignored: 0,
+    failed: 0,
+  };
+  events.forEach((event) => {
+    counts[getHapticEventStatus(event)] += 1;
+  });
+  return counts;
+};
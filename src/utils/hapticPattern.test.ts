@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+
+import { MAX_SEGMENT_DURATION_MS, MIN_SEGMENT_DURATION_MS } from '@/lib/constants';
+import {
+  buildEnvelope,
+  clampSegment,
+  createSegment,
+  getPatternDuration,
+  getPatternFileName,
+  parsePattern,
+  schedulePattern,
+  serializePattern,
+} from './hapticPattern';
+
+describe('schedulePattern', () => {
+  it('places each segment after the previous one plus its delay', () => {
+    const segments = [
+      createSegment({ duration: 100 }),
+      createSegment({ startDelay: 50, duration: 200 }),
+    ];
+    const scheduled = schedulePattern(segments);
+    expect(scheduled.map(({ startMs, endMs }) => [startMs, endMs])).toEqual([
+      [0, 100],
+      [150, 350],
+    ]);
+    expect(getPatternDuration(segments)).toBe(350);
+  });
+
+  it('reports zero duration for an empty pattern', () => {
+    expect(getPatternDuration([])).toBe(0);
+  });
+});
+
+describe('buildEnvelope', () => {
+  it('steps up and down around each segment', () => {
+    const segments = [createSegment({ startDelay: 10, duration: 20, strongMagnitude: 0.8 })];
+    expect(buildEnvelope(segments, 'strongMagnitude')).toEqual([
+      { t: 0, value: 0 },
+      { t: 10, value: 0 },
+      { t: 10, value: 0.8 },
+      { t: 30, value: 0.8 },
+      { t: 30, value: 0 },
+    ]);
+  });
+});
+
+describe('clampSegment', () => {
+  it('clamps timings and magnitudes into range', () => {
+    const segment = clampSegment(
+      createSegment({ startDelay: -5, duration: 1, weakMagnitude: 2, leftTrigger: -1 }),
+    );
+    expect(segment.startDelay).toBe(0);
+    expect(segment.duration).toBe(MIN_SEGMENT_DURATION_MS);
+    expect(segment.weakMagnitude).toBe(1);
+    expect(segment.leftTrigger).toBe(0);
+  });
+});
+
+describe('parsePattern', () => {
+  it('round-trips a serialized pattern with fresh segment ids', () => {
+    const segments = [
+      createSegment({ duration: 120, weakMagnitude: 0.2 }),
+      createSegment({ startDelay: 30, rightTrigger: 0.6 }),
+    ];
+    const result = parsePattern(serializePattern('Heavy Impact', segments));
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.name).toBe('Heavy Impact');
+    result.segments.forEach((segment, index) => {
+      expect(segment).toEqual({ ...segments[index], id: segment.id });
+      expect(segment.id).not.toBe(segments[index].id);
+    });
+  });
+
+  it('clamps out-of-range values', () => {
+    const json = serializePattern('Long', [createSegment({ duration: 60000 })]);
+    const result = parsePattern(json);
+    expect(result.success && result.segments[0].duration).toBe(MAX_SEGMENT_DURATION_MS);
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(parsePattern('{')).toEqual({ success: false, error: 'File is not valid JSON' });
+  });
+
+  it('rejects other file formats', () => {
+    const result = parsePattern(JSON.stringify({ format: 'joyscope-session', version: 1 }));
+    expect(result).toEqual({ success: false, error: 'File is not a JoyScope haptic pattern' });
+  });
+
+  it('rejects versions below 1 or fractional versions', () => {
+    [0, -1, 0.5].forEach((version) => {
+      expect(parsePattern(JSON.stringify({ format: 'joyscope-haptic-pattern', version }))).toEqual({
+        success: false,
+        error: `Unsupported pattern version: ${version}`,
+      });
+    });
+  });
+
+  it('rejects malformed and empty segment lists', () => {
+    const base = { format: 'joyscope-haptic-pattern', version: 1, name: 'x' };
+    expect(
+      parsePattern(JSON.stringify({ ...base, segments: [{ duration: 'long' }] })).success,
+    ).toBe(false);
+    expect(parsePattern(JSON.stringify({ ...base, segments: [] })).success).toBe(false);
+  });
+});
+
+describe('getPatternFileName', () => {
+  it('slugifies the pattern name', () => {
+    expect(getPatternFileName('  Heavy Impact!  ')).toBe(
+      'joyscope-haptic-pattern-heavy-impact.json',
+    );
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Haptic pattern utilities
+ * Segment editing, timeline scheduling, envelope sampling and the JSON file format
+ */
+
+import type {
+  HapticChannel,
+  HapticPatternFile,
+  HapticSegment,
+  ScheduledSegment,
+} from '@/types/haptics';
+import {
+  DEFAULT_SEGMENT_DURATION_MS,
+  HAPTIC_PATTERN_FORMAT_ID,
+  HAPTIC_PATTERN_FORMAT_VERSION,
+  MAX_PATTERN_NAME_LENGTH,
+  MAX_PATTERN_SEGMENTS,
+  MAX_SEGMENT_DELAY_MS,
+  MAX_SEGMENT_DURATION_MS,
+  MIN_SEGMENT_DURATION_MS,
+} from '@/lib/constants';
+import { safeJsonParse } from '@/lib/errorReporter';
+
+export type PatternParseResult =
+  | { success: true; name: string; segments: HapticSegment[] }
+  | { success: false; error: string };
+
+export const HAPTIC_CHANNELS: readonly HapticChannel[] = [
+  'weakMagnitude',
+  'strongMagnitude',
+  'leftTrigger',
+  'rightTrigger',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.max(min, Math.min(max, value));
+
+const createSegmentId = (): string =>
+  `segment-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Create a segment with a fresh id
+ */
+export const createSegment = (values: Partial<Omit<HapticSegment, 'id'>> = {}): HapticSegment => ({
+  id: createSegmentId(),
+  startDelay: 0,
+  duration: DEFAULT_SEGMENT_DURATION_MS,
+  weakMagnitude: 0.5,
+  strongMagnitude: 0.5,
+  leftTrigger: 0,
+  rightTrigger: 0,
+  ...values,
+});
+
+/**
+ * Clamp timings to what browsers will play and magnitudes to 0-1
+ */
+export const clampSegment = (segment: HapticSegment): HapticSegment => ({
+  ...segment,
+  startDelay: Math.round(clamp(segment.startDelay, 0, MAX_SEGMENT_DELAY_MS)),
+  duration: Math.round(clamp(segment.duration, MIN_SEGMENT_DURATION_MS, MAX_SEGMENT_DURATION_MS)),
+  weakMagnitude: clamp(segment.weakMagnitude, 0, 1),
+  strongMagnitude: clamp(segment.strongMagnitude, 0, 1),
+  leftTrigger: clamp(segment.leftTrigger, 0, 1),
+  rightTrigger: clamp(segment.rightTrigger, 0, 1),
+});
+
+/**
+ * Whether a segment drives the impulse trigger motors
+ */
+export const usesTriggerMotors = (segment: HapticSegment): boolean =>
+  segment.leftTrigger > 0 || segment.rightTrigger > 0;
+
+/**
+ * Place segments on the timeline; each starts after the previous one ends plus its delay
+ */
+export const schedulePattern = (segments: readonly HapticSegment[]): ScheduledSegment[] => {
+  let cursor = 0;
+  return segments.map((segment) => {
+    const startMs = cursor + segment.startDelay;
+    const endMs = startMs + segment.duration;
+    cursor = endMs;
+    return { segment, startMs, endMs };
+  });
+};
+
+/**
+ * Total pattern length (ms)
+ */
+export const getPatternDuration = (segments: readonly HapticSegment[]): number => {
+  const scheduled = schedulePattern(segments);
+  return scheduled[scheduled.length - 1]?.endMs ?? 0;
+};
+
+/**
+ * Step envelope of one channel as (time, value) points for plotting
+ */
+export const buildEnvelope = (
+  segments: readonly HapticSegment[],
+  channel: HapticChannel,
+): { t: number; value: number }[] => {
+  const points = [{ t: 0, value: 0 }];
+  schedulePattern(segments).forEach(({ segment, startMs, endMs }) => {
+    const value = segment[channel];
+    points.push(
+      { t: startMs, value: 0 },
+      { t: startMs, value },
+      { t: endMs, value },
+      { t: endMs, value: 0 },
+    );
+  });
+  return points;
+};
+
+/**
+ * Trim a pattern name, falling back when empty
+ */
+export const sanitizePatternName = (name: string, fallback = 'Untitled Pattern'): string =>
+  name.trim().slice(0, MAX_PATTERN_NAME_LENGTH) || fallback;
+
+// Copies only known fields, so stray keys in a file never reach the editor
+const pickSegmentValues = (segment: Omit<HapticSegment, 'id'>): Omit<HapticSegment, 'id'> => ({
+  startDelay: segment.startDelay,
+  duration: segment.duration,
+  weakMagnitude: segment.weakMagnitude,
+  strongMagnitude: segment.strongMagnitude,
+  leftTrigger: segment.leftTrigger,
+  rightTrigger: segment.rightTrigger,
+});
+
+/**
+ * Serialize a pattern to the JSON file format
+ */
+export const serializePattern = (name: string, segments: readonly HapticSegment[]): string => {
+  const file: HapticPatternFile = {
+    format: HAPTIC_PATTERN_FORMAT_ID,
+    version: HAPTIC_PATTERN_FORMAT_VERSION,
+    name: sanitizePatternName(name),
+    segments: segments.map(pickSegmentValues),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isValidSegment = (value: unknown): value is Omit<HapticSegment, 'id'> =>
+  isRecord(value) &&
+  isFiniteNumber(value.startDelay) &&
+  isFiniteNumber(value.duration) &&
+  HAPTIC_CHANNELS.every((channel) => isFiniteNumber(value[channel]));
+
+/**
+ * Parse and validate a pattern file
+ * Out-of-range values are clamped rather than rejected
+ */
+export const parsePattern = (json: string): PatternParseResult => {
+  const data = safeJsonParse<unknown>(json, undefined, { action: 'parsePattern' });
+  if (data === undefined) {
+    return { success: false, error: 'File is not valid JSON' };
+  }
+
+  if (!isRecord(data) || data.format !== HAPTIC_PATTERN_FORMAT_ID) {
+    return { success: false, error: 'File is not a JoyScope haptic pattern' };
+  }
+
+  if (
+    !isFiniteNumber(data.version) ||
+    !Number.isInteger(data.version) ||
+    data.version < 1 ||
+    data.version > HAPTIC_PATTERN_FORMAT_VERSION
+  ) {
+    return { success: false, error: `Unsupported pattern version: ${String(data.version)}` };
+  }
+
+  if (!Array.isArray(data.segments) || !data.segments.every(isValidSegment)) {
+    return { success: false, error: 'Pattern contains malformed segments' };
+  }
+
+  if (data.segments.length === 0 || data.segments.length > MAX_PATTERN_SEGMENTS) {
+    return {
+      success: false,
+      error: `Patterns need between 1 and ${MAX_PATTERN_SEGMENTS} segments`,
+    };
+  }
+
+  return {
+    success: true,
+    name: sanitizePatternName(typeof data.name === 'string' ? data.name : ''),
+    segments: data.segments.map((segment) =>
+      clampSegment(createSegment(pickSegmentValues(segment))),
+    ),
+  };
+};
+
+/**
+ * Build a download file name from the pattern name
+ * e.g. joyscope-haptic-pattern-heavy-impact.json
+ */
+export const getPatternFileName = (name: string): string => {
+  const slug = sanitizePatternName(name)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${HAPTIC_PATTERN_FORMAT_ID}-${slug || 'pattern'}.json`;
+};
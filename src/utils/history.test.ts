@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DriftTestResult } from '@/types/diagnostics';
+import type { HistoryEntry } from '@/types/history';
+import { createDrift } from '@/test/fixtures';
+import { computeReportRateStats } from '@/utils/reportRate';
+import {
+  createHistoryEntry,
+  getHistoryFileName,
+  getRetentionCutoff,
+  getTrendSeries,
+  groupHistoryByController,
+  serializeHistory,
+} from './history';
+
+const XBOX_ID = 'Xbox Wireless Controller (STANDARD GAMEPAD Vendor: 045e Product: 0b13)';
+
+const createDriftResult = (controllerId = XBOX_ID): DriftTestResult => ({
+  completedAt: '',
+  controllerId,
+  durationMs: 3000,
+  deadZones: { left: 0.1, right: 0.1 },
+  left: createDrift(0.04, 0.002, 'pass'),
+  right: createDrift(0.12, 0.002, 'fail'),
+});
+
+const createEntry = (overrides: Partial<HistoryEntry>): HistoryEntry => ({
+  ...createHistoryEntry('drift', createDriftResult(), undefined, 0),
+  ...overrides,
+});
+
+describe('createHistoryEntry', () => {
+  it('keys drift runs by controller identity and extracts trend metrics', () => {
+    const entry = createHistoryEntry(
+      'drift',
+      createDriftResult(),
+      computeReportRateStats([4, 4, 4]),
+      1000,
+    );
+    expect(entry).toMatchObject({
+      controllerKey: '045e:0b13',
+      controllerId: XBOX_ID,
+      recordedAt: 1000,
+      test: 'drift',
+      verdict: 'fail',
+      metrics: {
+        leftDriftOffset: 0.04,
+        rightDriftOffset: 0.12,
+        leftNoise: 0.002,
+        rightNoise: 0.002,
+        reportRateHz: 250,
+      },
+    });
+  });
+
+  it('omits report rate when nothing was measured', () => {
+    const entry = createHistoryEntry('drift', createDriftResult(), computeReportRateStats([]));
+    expect(entry.metrics.reportRateHz).toBeUndefined();
+  });
+});
+
+describe('getRetentionCutoff', () => {
+  it('subtracts the retention period', () => {
+    expect(getRetentionCutoff(30, 31 * 86_400_000)).toBe(86_400_000);
+  });
+
+  it('keeps everything for zero days', () => {
+    expect(getRetentionCutoff(0)).toBeUndefined();
+  });
+});
+
+describe('groupHistoryByController', () => {
+  it('rolls up runs and sorts by most recent', () => {
+    const controllers = groupHistoryByController([
+      createEntry({ controllerKey: 'a', controllerId: 'A old', recordedAt: 1 }),
+      createEntry({ controllerKey: 'b', controllerId: 'B', recordedAt: 2 }),
+      createEntry({ controllerKey: 'a', controllerId: 'A new', recordedAt: 3 }),
+    ]);
+    expect(controllers).toEqual([
+      { controllerKey: 'a', controllerId: 'A new', entryCount: 2, lastRecordedAt: 3 },
+      { controllerKey: 'b', controllerId: 'B', entryCount: 1, lastRecordedAt: 2 },
+    ]);
+  });
+});
+
+describe('getTrendSeries', () => {
+  it('skips runs without the metric and orders by time', () => {
+    const series = getTrendSeries(
+      [
+        createEntry({ recordedAt: 20, metrics: { reportRateHz: 125 } }),
+        createEntry({ recordedAt: 10, metrics: { reportRateHz: 250 } }),
+        createEntry({ recordedAt: 30, metrics: {} }),
+      ],
+      'reportRateHz',
+    );
+    expect(series).toEqual([
+      { t: 10, value: 250 },
+      { t: 20, value: 125 },
+    ]);
+  });
+});
+
+describe('serializeHistory', () => {
+  it('wraps entries with a format id', () => {
+    const exportedAt = new Date('2024-05-01T12:30:00.000Z');
+    expect(JSON.parse(serializeHistory([createEntry({})], exportedAt))).toMatchObject({
+      format: 'joyscope-history',
+      exportedAt: '2024-05-01T12:30:00.000Z',
+      entries: [{ test: 'drift' }],
+    });
+    expect(getHistoryFileName(exportedAt)).toBe('joyscope-history-2024-05-01T12-30-00.json');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Diagnostic history utilities
+ * Builds history entries from test results and derives per-controller rollups and trends
+ */
+
+import type {
+  HistoryController,
+  HistoryEntry,
+  HistoryMetricKey,
+  HistoryMetrics,
+  HistoryTestKey,
+  TrendPoint,
+} from '@/types/history';
+import type { DiagnosticResults } from '@/types/diagnostics';
+import { getControllerKey } from '@/utils/controllerIdentity';
+import { SUMMARY_TESTS } from '@/utils/reportShare';
+import type { ReportRateStats } from '@/utils/reportRate';
+import { HISTORY_FORMAT_ID } from '@/lib/constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build the entry stored for a completed test run
+ */
+export const createHistoryEntry = <K extends HistoryTestKey>(
+  test: K,
+  result: NonNullable<DiagnosticResults[K]>,
+  reportRate?: ReportRateStats,
+  recordedAt = Date.now(),
+): HistoryEntry => {
+  const metrics: HistoryMetrics = {};
+  if (test === 'drift') {
+    const drift = result as NonNullable<DiagnosticResults['drift']>;
+    metrics.leftDriftOffset = drift.left.restingOffset;
+    metrics.rightDriftOffset = drift.right.restingOffset;
+    metrics.leftNoise = drift.left.noise;
+    metrics.rightNoise = drift.right.noise;
+  }
+  if (reportRate && reportRate.sampleCount > 0) {
+    metrics.reportRateHz = reportRate.effectiveHz;
+  }
+
+  return {
+    controllerKey: getControllerKey(result.controllerId),
+    controllerId: result.controllerId,
+    recordedAt,
+    test,
+    verdict: SUMMARY_TESTS[test].summarize(result).verdict,
+    metrics,
+    result,
+  };
+};
+
+/**
+ * Oldest timestamp kept for a retention period, or undefined to keep everything
+ */
+export const getRetentionCutoff = (retentionDays: number, now = Date.now()): number | undefined => {
+  return retentionDays > 0 ? now - retentionDays * DAY_MS : undefined;
+};
+
+/**
+ * Roll entries up per controller, most recently tested first
+ */
+export const groupHistoryByController = (entries: readonly HistoryEntry[]): HistoryController[] => {
+  const controllers = new Map<string, HistoryController>();
+  entries.forEach((entry) => {
+    const existing = controllers.get(entry.controllerKey);
+    if (!existing) {
+      controllers.set(entry.controllerKey, {
+        controllerKey: entry.controllerKey,
+        controllerId: entry.controllerId,
+        entryCount: 1,
+        lastRecordedAt: entry.recordedAt,
+      });
+      return;
+    }
+    existing.entryCount += 1;
+    if (entry.recordedAt >= existing.lastRecordedAt) {
+      existing.lastRecordedAt = entry.recordedAt;
+      existing.controllerId = entry.controllerId;
+    }
+  });
+  return [...controllers.values()].sort((a, b) => b.lastRecordedAt - a.lastRecordedAt);
+};
+
+/**
+ * Time series of one metric across entries, oldest first
+ */
+export const getTrendSeries = (
+  entries: readonly HistoryEntry[],
+  metric: HistoryMetricKey,
+): TrendPoint[] => {
+  return entries
+    .flatMap((entry) => {
+      const value = entry.metrics[metric];
+      return value !== undefined ? [{ t: entry.recordedAt, value }] : [];
+    })
+    .sort((a, b) => a.t - b.t);
+};
+
+/**
+ * Serialize entries for bulk export
+ */
+export const serializeHistory = (
+  entries: readonly HistoryEntry[],
+  exportedAt = new Date(),
+): string => {
+  return JSON.stringify(
+    { format: HISTORY_FORMAT_ID, exportedAt: exportedAt.toISOString(), entries },
+    null,
+    2,
+  );
+};
+
+/**
+ * Build a download file name from the export time
+ * e.g. joyscope-history-2024-05-01T12-30-00.json
+ */
+export const getHistoryFileName = (exportedAt = new Date()): string => {
+  const stamp = exportedAt
+    .toISOString()
+    .replace(/\.\d+Z$/, '')
+    .replace(/:/g, '-');
+  return `${HISTORY_FORMAT_ID}-${stamp}.json`;
+};
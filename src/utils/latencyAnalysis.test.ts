@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import { LATENCY_MAX_CUE_DELAY_MS, LATENCY_MIN_CUE_DELAY_MS } from '@/lib/constants';
+import type { GamepadSample } from '@/lib/sampleBuffer';
+import type { NormalizedGamepad } from '@/types/gamepad';
+import {
+  analyzeLatencyTrials,
+  findFirstPress,
+  getRandomCueDelay,
+  splitTrialLatency,
+  summarizeLatencies,
+} from './latencyAnalysis';
+
+const createSample = (sampleTime: number, pressed: boolean): GamepadSample => ({
+  sampleTime,
+  gamepad: {
+    buttons: [{ index: 0, label: 'A', pressed, value: pressed ? 1 : 0 }],
+  } as unknown as NormalizedGamepad,
+});
+
+describe('getRandomCueDelay', () => {
+  it('stays within the configured range', () => {
+    expect(getRandomCueDelay(() => 0)).toBe(LATENCY_MIN_CUE_DELAY_MS);
+    expect(getRandomCueDelay(() => 1)).toBe(LATENCY_MAX_CUE_DELAY_MS);
+  });
+});
+
+describe('splitTrialLatency', () => {
+  it('splits at the report timestamp', () => {
+    expect(splitTrialLatency(1000, 1200, 1210)).toEqual({
+      reactionMs: 200,
+      overheadMs: 10,
+      totalMs: 210,
+    });
+  });
+
+  it('attributes everything to reaction without a usable timestamp', () => {
+    expect(splitTrialLatency(1000, 0, 1210)).toEqual({
+      reactionMs: 210,
+      overheadMs: 0,
+      totalMs: 210,
+    });
+  });
+
+  it('clamps timestamps outside the measurement window', () => {
+    expect(splitTrialLatency(1000, 500, 1210).reactionMs).toBe(0);
+    expect(splitTrialLatency(1000, 5000, 1210).overheadMs).toBe(0);
+  });
+});
+
+describe('findFirstPress', () => {
+  it('returns the first pressed sample after the cue', () => {
+    const samples = [createSample(90, true), createSample(110, false), createSample(120, true)];
+    expect(findFirstPress(samples, 0, 100)?.sampleTime).toBe(120);
+    expect(findFirstPress(samples, 3, 100)).toBeUndefined();
+  });
+});
+
+describe('summarizeLatencies', () => {
+  it('computes median, p95 and spread', () => {
+    const values = Array.from({ length: 20 }, (_, index) => (index + 1) * 10);
+    const stats = summarizeLatencies(values);
+    expect(stats.count).toBe(20);
+    expect(stats.median).toBe(100);
+    expect(stats.p95).toBe(190);
+    expect(stats.min).toBe(10);
+    expect(stats.max).toBe(200);
+    expect(stats.mean).toBe(105);
+  });
+
+  it('returns zeros for no measurements', () => {
+    expect(summarizeLatencies([]).count).toBe(0);
+  });
+});
+
+describe('analyzeLatencyTrials', () => {
+  it('summarizes each component separately', () => {
+    const result = analyzeLatencyTrials([
+      { reactionMs: 200, overheadMs: 4, totalMs: 204 },
+      { reactionMs: 300, overheadMs: 8, totalMs: 308 },
+    ]);
+    expect(result.reaction.max).toBe(300);
+    expect(result.overhead.mean).toBe(6);
+    expect(result.total.min).toBe(204);
+  });
+});
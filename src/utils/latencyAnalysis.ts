@@ -0,0 +1,83 @@
+/**
+ * Latency test analysis
+ * Splits each cue-to-press measurement into human reaction and sampling overhead
+ */
+
+import type { LatencyStats, LatencyTestResult, LatencyTrial } from '@/types/diagnostics';
+import type { GamepadSample } from '@/lib/sampleBuffer';
+import { LATENCY_MAX_CUE_DELAY_MS, LATENCY_MIN_CUE_DELAY_MS } from '@/lib/constants';
+import { percentile } from '@/utils/reportRate';
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.max(min, Math.min(max, value));
+
+/**
+ * Random wait before the next cue
+ */
+export const getRandomCueDelay = (random: () => number = Math.random): number =>
+  LATENCY_MIN_CUE_DELAY_MS + random() * (LATENCY_MAX_CUE_DELAY_MS - LATENCY_MIN_CUE_DELAY_MS);
+
+/**
+ * Split one measurement using the report's Gamepad.timestamp
+ * All times share the performance.now() clock. Timestamps outside the cue-to-observation
+ * window (missing or from another clock) are clamped, attributing the gap to one side.
+ */
+export const splitTrialLatency = (
+  cueAt: number,
+  reportTimestamp: number,
+  observedAt: number,
+): LatencyTrial => {
+  const reportAt = clamp(reportTimestamp > 0 ? reportTimestamp : observedAt, cueAt, observedAt);
+  return {
+    reactionMs: reportAt - cueAt,
+    overheadMs: observedAt - reportAt,
+    totalMs: observedAt - cueAt,
+  };
+};
+
+/**
+ * First buffered sample at or after `sinceTime` with the button held
+ */
+export const findFirstPress = (
+  samples: readonly GamepadSample[],
+  buttonIndex: number,
+  sinceTime: number,
+): GamepadSample | undefined =>
+  samples.find(
+    (sample) =>
+      sample.sampleTime >= sinceTime && sample.gamepad.buttons[buttonIndex]?.pressed === true,
+  );
+
+/**
+ * Median, p95 and spread of a set of measurements
+ */
+export const summarizeLatencies = (values: readonly number[]): LatencyStats => {
+  if (values.length === 0) {
+    return { count: 0, median: 0, p95: 0, mean: 0, stdDev: 0, min: 0, max: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+
+  return {
+    count: sorted.length,
+    median: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+};
+
+/**
+ * Summarize total, reaction and overhead across trials
+ */
+export const analyzeLatencyTrials = (
+  trials: readonly LatencyTrial[],
+): Pick<LatencyTestResult, 'total' | 'reaction' | 'overhead'> => ({
+  total: summarizeLatencies(trials.map((trial) => trial.totalMs)),
+  reaction: summarizeLatencies(trials.map((trial) => trial.reactionMs)),
+  overhead: summarizeLatencies(trials.map((trial) => trial.overheadMs)),
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import type { MotorFeel } from '@/types/diagnostics';
+import { analyzeMotorSweep, getPulseMagnitudes, getSweepPlan } from './motorSweep';
+
+const toSteps = (feels: MotorFeel[]): { intensity: number; feel: MotorFeel }[] =>
+  feels.map((feel, index) => ({ intensity: (index + 1) / feels.length, feel }));
+
+describe('getSweepPlan', () => {
+  it('sweeps the weak motor before the strong motor', () => {
+    expect(getSweepPlan([0.5, 1])).toEqual([
+      { motor: 'weak', intensity: 0.5 },
+      { motor: 'weak', intensity: 1 },
+      { motor: 'strong', intensity: 0.5 },
+      { motor: 'strong', intensity: 1 },
+    ]);
+  });
+
+  it('drives only the pulsed motor', () => {
+    expect(getPulseMagnitudes({ motor: 'strong', intensity: 0.75 })).toEqual({
+      weakMagnitude: 0,
+      strongMagnitude: 0.75,
+    });
+  });
+});
+
+describe('analyzeMotorSweep', () => {
+  it('passes a motor that ramps up to a clear feel', () => {
+    const result = analyzeMotorSweep(toSteps(['nothing', 'faint', 'clear', 'clear']));
+    expect(result.verdict).toBe('pass');
+    expect(result.threshold).toBe(0.5);
+    expect(result.inconsistent).toBe(false);
+  });
+
+  it('fails a motor that is never felt', () => {
+    const result = analyzeMotorSweep(toSteps(['nothing', 'nothing', 'nothing']));
+    expect(result.verdict).toBe('fail');
+    expect(result.threshold).toBeUndefined();
+  });
+
+  it('warns when the motor stays faint at full intensity', () => {
+    expect(analyzeMotorSweep(toSteps(['nothing', 'faint', 'faint'])).verdict).toBe('warn');
+  });
+
+  it('warns when a stronger pulse feels weaker', () => {
+    const result = analyzeMotorSweep(toSteps(['clear', 'nothing', 'clear']));
+    expect(result.inconsistent).toBe(true);
+    expect(result.verdict).toBe('warn');
+  });
+
+  it('fails an empty sweep', () => {
+    expect(analyzeMotorSweep([]).verdict).toBe('fail');
+  });
+});
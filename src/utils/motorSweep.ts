@@ -0,0 +1,64 @@
+/**
+ * Motor sweep analysis
+ * Grades each rumble motor from what the user felt at increasing intensities
+ */
+
+import type {
+  MotorFeel,
+  MotorSweepResult,
+  MotorSweepStep,
+  RumbleMotor,
+  TestVerdict,
+} from '@/types/diagnostics';
+import { MOTOR_SWEEP_STEPS } from '@/lib/constants';
+
+export type SweepPulse = {
+  motor: RumbleMotor;
+  intensity: number;
+};
+
+const FEEL_RANK: Record<MotorFeel, number> = { nothing: 0, faint: 1, clear: 2 };
+
+export const RUMBLE_MOTORS: readonly RumbleMotor[] = ['weak', 'strong'];
+
+/**
+ * Every pulse of the test: the weak motor's sweep, then the strong motor's
+ */
+export const getSweepPlan = (steps: readonly number[] = MOTOR_SWEEP_STEPS): SweepPulse[] =>
+  RUMBLE_MOTORS.flatMap((motor) => steps.map((intensity) => ({ motor, intensity })));
+
+/**
+ * Rumble magnitudes that drive only one motor
+ */
+export const getPulseMagnitudes = (
+  pulse: SweepPulse,
+): { weakMagnitude: number; strongMagnitude: number } => ({
+  weakMagnitude: pulse.motor === 'weak' ? pulse.intensity : 0,
+  strongMagnitude: pulse.motor === 'strong' ? pulse.intensity : 0,
+});
+
+const getSweepVerdict = (steps: readonly MotorSweepStep[], inconsistent: boolean): TestVerdict => {
+  const strongest = steps[steps.length - 1];
+  if (!strongest || strongest.feel === 'nothing') return 'fail';
+  if (strongest.feel === 'faint' || inconsistent) return 'warn';
+  return 'pass';
+};
+
+/**
+ * Grade one motor's sweep
+ * A motor fails if nothing is felt at full intensity and warns if it stays faint
+ * or gets weaker as intensity rises
+ */
+export const analyzeMotorSweep = (steps: readonly MotorSweepStep[]): MotorSweepResult => {
+  const sorted = [...steps].sort((a, b) => a.intensity - b.intensity);
+  const inconsistent = sorted.some(
+    (step, index) => index > 0 && FEEL_RANK[step.feel] < FEEL_RANK[sorted[index - 1].feel],
+  );
+
+  return {
+    steps: sorted,
+    threshold: sorted.find((step) => step.feel !== 'nothing')?.intensity,
+    inconsistent,
+    verdict: getSweepVerdict(sorted, inconsistent),
+  };
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+
+import { createDrift, createReport } from '@/test/fixtures';
+import {
+  COMPARISON_METRICS,
+  LIVE_COMPARISON_METRICS,
+  classifyChange,
+  compareReports,
+  formatComparisonValue,
+} from './reportComparison';
+
+const getMetric = (id: string) => {
+  const metric = COMPARISON_METRICS.find((candidate) => candidate.id === id);
+  if (!metric) throw new Error(`Unknown metric ${id}`);
+  return metric;
+};
+
+describe('classifyChange', () => {
+  it('treats lower as better for offsets', () => {
+    const metric = getMetric('leftDriftOffset');
+    expect(classifyChange(metric, 0.08, 0.02)).toBe('better');
+    expect(classifyChange(metric, 0.02, 0.08)).toBe('worse');
+  });
+
+  it('treats higher as better for report rate', () => {
+    const metric = getMetric('reportRateHz');
+    expect(classifyChange(metric, 125, 250)).toBe('better');
+    expect(classifyChange(metric, 250, 125)).toBe('worse');
+  });
+
+  it('ignores changes within the tolerance', () => {
+    expect(classifyChange(getMetric('reportRateHz'), 250, 248)).toBe('same');
+  });
+
+  it('reports missing values', () => {
+    expect(classifyChange(getMetric('leftCircularity'), undefined, 0.05)).toBe('missing');
+  });
+});
+
+describe('compareReports', () => {
+  it('computes deltas for measurements present on both sides', () => {
+    const drift = {
+      completedAt: '',
+      controllerId: 'pad',
+      durationMs: 3000,
+      deadZones: { left: 0.1, right: 0.1 },
+    };
+    const before = createReport({
+      results: {
+        drift: { ...drift, left: createDrift(0.12, 0.01), right: createDrift(0.02, 0.01) },
+      },
+    });
+    const after = createReport({
+      results: {
+        drift: { ...drift, left: createDrift(0.02, 0.01), right: createDrift(0.02, 0.01) },
+      },
+    });
+
+    const rows = compareReports(before, after);
+    expect(rows).toHaveLength(COMPARISON_METRICS.length);
+
+    const leftOffset = rows.find((row) => row.metric.id === 'leftDriftOffset');
+    expect(leftOffset?.delta).toBeCloseTo(-0.1);
+    expect(leftOffset?.change).toBe('better');
+    expect(rows.find((row) => row.metric.id === 'rightDriftOffset')?.change).toBe('same');
+    expect(rows.find((row) => row.metric.id === 'reportRateHz')).toMatchObject({
+      delta: undefined,
+      change: 'missing',
+    });
+  });
+});
+
+describe('LIVE_COMPARISON_METRICS', () => {
+  it('covers only measurements taken while connected', () => {
+    expect(LIVE_COMPARISON_METRICS.map((metric) => metric.id)).toEqual([
+      'reportRateHz',
+      'reportRateP99',
+    ]);
+  });
+
+  it('limits a comparison to the given metrics', () => {
+    const rows = compareReports(createReport(), createReport(), LIVE_COMPARISON_METRICS);
+    expect(rows.map((row) => row.metric.id)).toEqual(['reportRateHz', 'reportRateP99']);
+  });
+});
+
+describe('formatComparisonValue', () => {
+  it('signs deltas', () => {
+    expect(formatComparisonValue(0.012, 'percent', true)).toBe('+1.2%');
+    expect(formatComparisonValue(-125, 'hz', true)).toBe('-125 Hz');
+    expect(formatComparisonValue(4, 'ms')).toBe('4.00 ms');
+    expect(formatComparisonValue(undefined, 'value')).toBe('—');
+  });
+});
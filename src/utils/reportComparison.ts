@@ -0,0 +1,219 @@
+/**
+ * Report comparison utilities
+ * Lines up key measurements from two reports and classifies each change as better or worse
+ */
+
+import type { DiagnosticReport } from '@/types/report';
+
+export type ComparisonUnit = 'value' | 'percent' | 'ms' | 'hz';
+
+export type ComparisonChange = 'better' | 'worse' | 'same' | 'missing';
+
+export type ComparisonMetric = {
+  id: string;
+  label: string;
+  group: string;
+  unit: ComparisonUnit;
+  /** Direction of improvement */
+  better: 'lower' | 'higher';
+  /** Differences smaller than this are reported as unchanged */
+  tolerance: number;
+  /** Measured continuously while connected rather than by a guided test */
+  live?: boolean;
+  read: (report: DiagnosticReport) => number | undefined;
+};
+
+export type ComparisonRow = {
+  metric: ComparisonMetric;
+  before?: number;
+  after?: number;
+  /** after - before, when both sides were measured */
+  delta?: number;
+  change: ComparisonChange;
+};
+
+/**
+ * Metrics compared, in display order
+ */
+export const COMPARISON_METRICS: readonly ComparisonMetric[] = [
+  {
+    id: 'leftDriftOffset',
+    label: 'Left stick resting offset',
+    group: 'Drift',
+    unit: 'value',
+    better: 'lower',
+    tolerance: 0.005,
+    read: ({ results }) => results.drift?.left.restingOffset,
+  },
+  {
+    id: 'rightDriftOffset',
+    label: 'Right stick resting offset',
+    group: 'Drift',
+    unit: 'value',
+    better: 'lower',
+    tolerance: 0.005,
+    read: ({ results }) => results.drift?.right.restingOffset,
+  },
+  {
+    id: 'leftDriftNoise',
+    label: 'Left stick noise',
+    group: 'Drift',
+    unit: 'value',
+    better: 'lower',
+    tolerance: 0.002,
+    read: ({ results }) => results.drift?.left.noise,
+  },
+  {
+    id: 'rightDriftNoise',
+    label: 'Right stick noise',
+    group: 'Drift',
+    unit: 'value',
+    better: 'lower',
+    tolerance: 0.002,
+    read: ({ results }) => results.drift?.right.noise,
+  },
+  {
+    id: 'leftCircularity',
+    label: 'Left stick circularity error',
+    group: 'Circularity',
+    unit: 'percent',
+    better: 'lower',
+    tolerance: 0.005,
+    read: ({ results }) => results.circularity?.left.averageError,
+  },
+  {
+    id: 'rightCircularity',
+    label: 'Right stick circularity error',
+    group: 'Circularity',
+    unit: 'percent',
+    better: 'lower',
+    tolerance: 0.005,
+    read: ({ results }) => results.circularity?.right.averageError,
+  },
+  {
+    id: 'reportRateHz',
+    label: 'Effective report rate',
+    group: 'Report Rate',
+    unit: 'hz',
+    better: 'higher',
+    tolerance: 5,
+    live: true,
+    read: ({ reportRate }) => reportRate?.effectiveHz,
+  },
+  {
+    id: 'reportRateP99',
+    label: 'p99 report interval',
+    group: 'Report Rate',
+    unit: 'ms',
+    better: 'lower',
+    tolerance: 0.5,
+    live: true,
+    read: ({ reportRate }) => reportRate?.p99IntervalMs,
+  },
+  {
+    id: 'leftTriggerStart',
+    label: 'Left trigger start dead travel',
+    group: 'Triggers',
+    unit: 'percent',
+    better: 'lower',
+    tolerance: 0.005,
+    read: ({ results }) => results.triggers?.left.startDeadTravel,
+  },
+  {
+    id: 'rightTriggerStart',
+    label: 'Right trigger start dead travel',
+    group: 'Triggers',
+    unit: 'percent',
+    better: 'lower',
+    tolerance: 0.005,
+    read: ({ results }) => results.triggers?.right.startDeadTravel,
+  },
+  {
+    id: 'leftTriggerEnd',
+    label: 'Left trigger end dead travel',
+    group: 'Triggers',
+    unit: 'percent',
+    better: 'lower',
+    tolerance: 0.005,
+    read: ({ results }) => results.triggers?.left.endDeadTravel,
+  },
+  {
+    id: 'rightTriggerEnd',
+    label: 'Right trigger end dead travel',
+    group: 'Triggers',
+    unit: 'percent',
+    better: 'lower',
+    tolerance: 0.005,
+    read: ({ results }) => results.triggers?.right.endDeadTravel,
+  },
+];
+
+/**
+ * Metrics that can be compared between two connected controllers
+ * Guided test results are stored once per test, not per controller, so they can't be split
+ * between two live pads (two units of one model even share a Gamepad id)
+ */
+export const LIVE_COMPARISON_METRICS: readonly ComparisonMetric[] = COMPARISON_METRICS.filter(
+  (metric) => metric.live,
+);
+
+/**
+ * Classify the change in one metric from `before` to `after`
+ */
+export const classifyChange = (
+  metric: ComparisonMetric,
+  before?: number,
+  after?: number,
+): ComparisonChange => {
+  if (before === undefined || after === undefined) return 'missing';
+  const delta = after - before;
+  if (Math.abs(delta) < metric.tolerance) return 'same';
+  const improved = metric.better === 'lower' ? delta < 0 : delta > 0;
+  return improved ? 'better' : 'worse';
+};
+
+/**
+ * Compare metrics between two reports, every metric by default
+ */
+export const compareReports = (
+  before: DiagnosticReport,
+  after: DiagnosticReport,
+  metrics: readonly ComparisonMetric[] = COMPARISON_METRICS,
+): ComparisonRow[] => {
+  return metrics.map((metric) => {
+    const beforeValue = metric.read(before);
+    const afterValue = metric.read(after);
+    return {
+      metric,
+      before: beforeValue,
+      after: afterValue,
+      delta:
+        beforeValue !== undefined && afterValue !== undefined
+          ? afterValue - beforeValue
+          : undefined,
+      change: classifyChange(metric, beforeValue, afterValue),
+    };
+  });
+};
+
+/**
+ * Format a metric value; deltas are signed
+ */
+export const formatComparisonValue = (
+  value: number | undefined,
+  unit: ComparisonUnit,
+  signed = false,
+): string => {
+  if (value === undefined) return '—';
+  const sign = signed && value > 0 ? '+' : '';
+  switch (unit) {
+    case 'percent':
+      return `${sign}${(value * 100).toFixed(1)}%`;
+    case 'ms':
+      return `${sign}${value.toFixed(2)} ms`;
+    case 'hz':
+      return `${sign}${value.toFixed(0)} Hz`;
+    default:
+      return `${sign}${value.toFixed(3)}`;
+  }
+};
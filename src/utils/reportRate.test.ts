@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildHistogram, computeReportRateStats, percentile } from './reportRate';
+
+describe('percentile', () => {
+  it('uses the nearest-rank method', () => {
+    const sorted = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(percentile(sorted, 99)).toBe(99);
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile([4], 99)).toBe(4);
+  });
+
+  it('returns 0 for empty input', () => {
+    expect(percentile([], 99)).toBe(0);
+  });
+});
+
+describe('buildHistogram', () => {
+  it('places intervals into bins with an overflow bin', () => {
+    const bins = buildHistogram([0.5, 1, 3, 100], [1, 4]);
+    expect(bins.map((bin) => bin.label)).toEqual(['<1', '1–4', '≥4']);
+    expect(bins.map((bin) => bin.count)).toEqual([1, 2, 1]);
+  });
+});
+
+describe('computeReportRateStats', () => {
+  it('derives effective Hz from the mean interval', () => {
+    const stats = computeReportRateStats([1, 1, 1, 1]);
+    expect(stats.effectiveHz).toBe(1000);
+    expect(stats.minIntervalMs).toBe(1);
+    expect(stats.maxIntervalMs).toBe(1);
+  });
+
+  it('reports min, max and p99 for mixed intervals', () => {
+    const stats = computeReportRateStats([8, 4, 16, 4]);
+    expect(stats.sampleCount).toBe(4);
+    expect(stats.meanIntervalMs).toBe(8);
+    expect(stats.effectiveHz).toBe(125);
+    expect(stats.minIntervalMs).toBe(4);
+    expect(stats.maxIntervalMs).toBe(16);
+    expect(stats.p99IntervalMs).toBe(16);
+  });
+
+  it('returns zeros when there is no data', () => {
+    const stats = computeReportRateStats([]);
+    expect(stats.sampleCount).toBe(0);
+    expect(stats.effectiveHz).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Report rate statistics
+ * Pure helpers for analyzing intervals between distinct Gamepad.timestamp values
+ */
+
+import { REPORT_RATE_HISTOGRAM_EDGES_MS } from '@/lib/constants';
+
+export type HistogramBin = {
+  label: string;
+  /** Inclusive lower edge (ms) */
+  min: number;
+  /** Exclusive upper edge (ms), Infinity for the overflow bin */
+  max: number;
+  count: number;
+};
+
+export type ReportRateStats = {
+  sampleCount: number;
+  effectiveHz: number;
+  meanIntervalMs: number;
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  p99IntervalMs: number;
+  histogram: HistogramBin[];
+};
+
+/**
+ * Nearest-rank percentile of an ascending-sorted array
+ */
+export const percentile = (sorted: readonly number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+};
+
+/**
+ * Bucket intervals into the fixed histogram bins
+ */
+export const buildHistogram = (
+  intervals: readonly number[],
+  edges: readonly number[] = REPORT_RATE_HISTOGRAM_EDGES_MS,
+): HistogramBin[] => {
+  const bins: HistogramBin[] = edges.map((max, index) => {
+    const min = index === 0 ? 0 : edges[index - 1];
+    return { label: index === 0 ? `<${max}` : `${min}–${max}`, min, max, count: 0 };
+  });
+  const last = edges[edges.length - 1] ?? 0;
+  bins.push({ label: `≥${last}`, min: last, max: Infinity, count: 0 });
+
+  intervals.forEach((interval) => {
+    const bin = bins.find((candidate) => interval < candidate.max) ?? bins[bins.length - 1];
+    bin.count += 1;
+  });
+
+  return bins;
+};
+
+/**
+ * Summarize a window of report intervals (ms)
+ */
+export const computeReportRateStats = (intervals: readonly number[]): ReportRateStats => {
+  if (intervals.length === 0) {
+    return {
+      sampleCount: 0,
+      effectiveHz: 0,
+      meanIntervalMs: 0,
+      minIntervalMs: 0,
+      maxIntervalMs: 0,
+      p99IntervalMs: 0,
+      histogram: buildHistogram([]),
+    };
+  }
+
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+
+  return {
+    sampleCount: sorted.length,
+    effectiveHz: mean > 0 ? 1000 / mean : 0,
+    meanIntervalMs: mean,
+    minIntervalMs: sorted[0],
+    maxIntervalMs: sorted[sorted.length - 1],
+    p99IntervalMs: percentile(sorted, 99),
+    histogram: buildHistogram(sorted),
+  };
+};
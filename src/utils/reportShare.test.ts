@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ReportSummary } from '@/types/report';
+import { createReport } from '@/test/fixtures';
+import {
+  SUMMARY_TESTS,
+  decodeReportSummary,
+  encodeReportSummary,
+  formatSummaryValue,
+  summarizeReport,
+} from './reportShare';
+
+const report = createReport({
+  generatedAt: '2024-05-01T12:30:00.123Z',
+  controller: {
+    id: 'DualSense Wireless Controller (Vendor: 054c Product: 0ce6)',
+    mapping: 'standard',
+    vendor: 'dualshock',
+    haptics: { hasRumble: true },
+    identity: {
+      vendorId: '054c',
+      productId: '0ce6',
+      model: {
+        vendorId: '054c',
+        productId: '0ce6',
+        name: 'DualSense',
+        manufacturer: 'Sony',
+        layout: 'playstation',
+        capabilities: {
+          rumble: true,
+          triggerRumble: false,
+          analogTriggers: true,
+          gyro: true,
+          touchpad: true,
+        },
+      },
+    },
+  },
+  results: {
+    coverage: {
+      completedAt: '2024-05-01T12:29:00.000Z',
+      controllerId: 'pad',
+      durationMs: 4000,
+      totalCount: 24,
+      seenCount: 23,
+      missing: ['Mute'],
+      unreported: [],
+      verdict: 'fail',
+    },
+    motorSweep: {
+      completedAt: '2024-05-01T12:28:00.000Z',
+      controllerId: 'pad',
+      pulseMs: 800,
+      weak: { steps: [], threshold: 0.25, inconsistent: false, verdict: 'pass' },
+      strong: { steps: [], inconsistent: false, verdict: 'warn' },
+    },
+  },
+});
+
+describe('summarizeReport', () => {
+  it('keeps verdicts and key measurements only', () => {
+    const summary = summarizeReport(report);
+
+    expect(summary.controller).toEqual({
+      id: 'DualSense Wireless Controller (Vendor: 054c Product: 0ce6)',
+      vendor: 'dualshock',
+      mapping: 'standard',
+      model: 'Sony DualSense',
+    });
+    expect(summary.tests).toEqual({
+      coverage: { verdict: 'fail', values: [23, 24] },
+      motorSweep: { verdict: 'warn', values: [0.25, null] },
+    });
+  });
+
+  it('produces a value for every summary field', () => {
+    const summary = summarizeReport(report);
+    expect(summary.tests.coverage?.values).toHaveLength(SUMMARY_TESTS.coverage.fields.length);
+    expect(summary.tests.motorSweep?.values).toHaveLength(SUMMARY_TESTS.motorSweep.fields.length);
+  });
+});
+
+describe('encodeReportSummary / decodeReportSummary', () => {
+  it('round-trips a summary through a URL-safe hash', () => {
+    const summary = summarizeReport(report);
+    const hash = encodeReportSummary(summary);
+
+    expect(hash).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeReportSummary(`#${hash}`)).toEqual({ success: true, summary });
+  });
+
+  it('round-trips non-ASCII controller ids', () => {
+    const summary: ReportSummary = {
+      version: 1,
+      generatedAt: '2024-05-01T12:30:00.123Z',
+      controller: { id: 'Manette sans fil ™ – 日本', vendor: 'generic', mapping: '' },
+      browserName: 'Firefox',
+      tests: { latency: { values: [210.5, 260, 190.2, 4.1] } },
+    };
+
+    const result = decodeReportSummary(encodeReportSummary(summary));
+    expect(result).toEqual({
+      success: true,
+      summary: { ...summary, controller: { ...summary.controller, model: undefined } },
+    });
+  });
+
+  it('rejects an empty hash and garbage', () => {
+    expect(decodeReportSummary('')).toMatchObject({ success: false });
+    expect(decodeReportSummary('#not*base64')).toMatchObject({ success: false });
+    expect(decodeReportSummary(btoa('{"v":1}'))).toMatchObject({ success: false });
+  });
+
+  it('rejects summaries from newer versions', () => {
+    const hash = encodeReportSummary({ ...summarizeReport(report), version: 99 });
+    const result = decodeReportSummary(hash);
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain('newer version');
+  });
+
+  it('rejects tests with the wrong number of values', () => {
+    const summary = summarizeReport(report);
+    const hash = encodeReportSummary({
+      ...summary,
+      tests: { coverage: { verdict: 'pass', values: [1] } },
+    });
+    expect(decodeReportSummary(hash)).toMatchObject({ success: false });
+  });
+});
+
+describe('formatSummaryValue', () => {
+  it('formats by unit', () => {
+    expect(formatSummaryValue(0.125, 'percent')).toBe('12.5%');
+    expect(formatSummaryValue(12.34, 'ms')).toBe('12.3 ms');
+    expect(formatSummaryValue(3, 'count')).toBe('3');
+    expect(formatSummaryValue(0.0456, 'value')).toBe('0.046');
+    expect(formatSummaryValue(null, 'ms')).toBe('—');
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Report share utilities
+ * Encodes a diagnostic summary into a URL hash and decodes it back for the read-only report page
+ *
+ * Wire format (base64url of UTF-8 JSON):
+ *   { v: version, g: generatedAt, c: [id, vendor, mapping, model?], b: browserName,
+ *     t: { [test]: [verdictCode, ...values] } }
+ * Values are positional; the field list for each test is fixed per version.
+ */
+
+import type {
+  DiagnosticReport,
+  ReportSummary,
+  SummaryTest,
+  SummaryTestKey,
+  SummaryUnit,
+} from '@/types/report';
+import type { DiagnosticResults, TestVerdict } from '@/types/diagnostics';
+import type { ControllerVendor } from '@/types/gamepad';
+import { worstVerdict } from '@/utils/verdicts';
+import { safeJsonParse } from '@/lib/errorReporter';
+import { REPORT_SHARE_VERSION } from '@/lib/constants';
+
+export type SummaryField = {
+  label: string;
+  unit: SummaryUnit;
+};
+
+type SummaryDescriptor<K extends SummaryTestKey> = {
+  label: string;
+  fields: readonly SummaryField[];
+  summarize: (result: NonNullable<DiagnosticResults[K]>) => SummaryTest;
+};
+
+export type SummaryParseResult =
+  | { success: true; summary: ReportSummary }
+  | { success: false; error: string };
+
+/**
+ * Tests in display order, with the measurements each contributes to a summary
+ * Changing a field list changes the wire format: bump REPORT_SHARE_VERSION
+ */
+export const SUMMARY_TESTS: { [K in SummaryTestKey]: SummaryDescriptor<K> } = {
+  drift: {
+    label: 'Drift',
+    fields: [
+      { label: 'Left resting offset', unit: 'value' },
+      { label: 'Right resting offset', unit: 'value' },
+      { label: 'Left recommended dead zone', unit: 'value' },
+      { label: 'Right recommended dead zone', unit: 'value' },
+    ],
+    summarize: ({ left, right }) => ({
+      verdict: worstVerdict([left.verdict, right.verdict]),
+      values: [
+        left.restingOffset,
+        right.restingOffset,
+        left.recommendedDeadZone,
+        right.recommendedDeadZone,
+      ],
+    }),
+  },
+  circularity: {
+    label: 'Circularity',
+    fields: [
+      { label: 'Left avg. error', unit: 'percent' },
+      { label: 'Right avg. error', unit: 'percent' },
+    ],
+    summarize: ({ left, right }) => ({
+      verdict: worstVerdict([left.verdict, right.verdict]),
+      values: [left.averageError, right.averageError],
+    }),
+  },
+  triggers: {
+    label: 'Triggers',
+    fields: [
+      { label: 'Left start dead travel', unit: 'percent' },
+      { label: 'Right start dead travel', unit: 'percent' },
+      { label: 'Left end dead travel', unit: 'percent' },
+      { label: 'Right end dead travel', unit: 'percent' },
+      { label: 'Left actuation point', unit: 'percent' },
+      { label: 'Right actuation point', unit: 'percent' },
+      { label: 'Glitches', unit: 'count' },
+    ],
+    summarize: ({ left, right }) => ({
+      verdict: worstVerdict([left.verdict, right.verdict]),
+      values: [
+        left.startDeadTravel,
+        right.startDeadTravel,
+        left.endDeadTravel,
+        right.endDeadTravel,
+        left.actuationPoint ?? null,
+        right.actuationPoint ?? null,
+        left.glitches.length + right.glitches.length,
+      ],
+    }),
+  },
+  motorSweep: {
+    label: 'Rumble Motors',
+    fields: [
+      { label: 'Weak motor first felt', unit: 'percent' },
+      { label: 'Strong motor first felt', unit: 'percent' },
+    ],
+    summarize: ({ weak, strong }) => ({
+      verdict: worstVerdict([weak.verdict, strong.verdict]),
+      values: [weak.threshold ?? null, strong.threshold ?? null],
+    }),
+  },
+  latency: {
+    label: 'Latency',
+    fields: [
+      { label: 'Total median', unit: 'ms' },
+      { label: 'Total p95', unit: 'ms' },
+      { label: 'Reaction median', unit: 'ms' },
+      { label: 'Sampler overhead median', unit: 'ms' },
+    ],
+    summarize: ({ total, reaction, overhead }) => ({
+      values: [total.median, total.p95, reaction.median, overhead.median],
+    }),
+  },
+  coverage: {
+    label: 'Button Coverage',
+    fields: [
+      { label: 'Exercised', unit: 'count' },
+      { label: 'Reported', unit: 'count' },
+    ],
+    summarize: ({ seenCount, totalCount, verdict }) => ({
+      verdict,
+      values: [seenCount, totalCount],
+    }),
+  },
+};
+
+export const SUMMARY_TEST_KEYS = Object.keys(SUMMARY_TESTS) as SummaryTestKey[];
+
+const VERDICT_CODES: Record<TestVerdict, string> = { pass: 'p', warn: 'w', fail: 'f' };
+
+const VERDICTS_BY_CODE: Record<string, TestVerdict> = { p: 'pass', w: 'warn', f: 'fail' };
+
+const VENDORS: readonly ControllerVendor[] = ['xbox', 'dualshock', 'switch', 'generic'];
+
+const DAMAGED_LINK_ERROR = 'This report link is damaged or incomplete';
+
+/** Four decimals is finer than any measurement shown */
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Boil a report down to verdicts and key measurements
+ */
+export const summarizeReport = (report: DiagnosticReport): ReportSummary => {
+  const tests: ReportSummary['tests'] = {};
+  SUMMARY_TEST_KEYS.forEach(<K extends SummaryTestKey>(key: K) => {
+    const result = report.results[key];
+    if (!result) return;
+    const summary = SUMMARY_TESTS[key].summarize(result);
+    tests[key] = {
+      ...summary,
+      values: summary.values.map((value) => (value === null ? null : round(value))),
+    };
+  });
+
+  const model = report.controller.identity?.model;
+  return {
+    version: REPORT_SHARE_VERSION,
+    generatedAt: report.generatedAt,
+    controller: {
+      id: report.controller.id,
+      vendor: report.controller.vendor,
+      mapping: report.controller.mapping,
+      model: model ? `${model.manufacturer} ${model.name}` : undefined,
+    },
+    browserName: report.browser.browserName,
+    tests,
+  };
+};
+
+const toBase64Url = (text: string): string => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string | undefined => {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Encode a summary for use as a URL hash (without the leading #)
+ */
+export const encodeReportSummary = (summary: ReportSummary): string => {
+  const { controller } = summary;
+  const tests: Record<string, (string | number | null)[]> = {};
+  Object.entries(summary.tests).forEach(([key, test]) => {
+    tests[key] = [test.verdict ? VERDICT_CODES[test.verdict] : '', ...test.values];
+  });
+
+  return toBase64Url(
+    JSON.stringify({
+      v: summary.version,
+      g: summary.generatedAt,
+      c: controller.model
+        ? [controller.id, controller.vendor, controller.mapping, controller.model]
+        : [controller.id, controller.vendor, controller.mapping],
+      b: summary.browserName,
+      t: tests,
+    }),
+  );
+};
+
+const parseTest = (key: SummaryTestKey, value: unknown): SummaryTest | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const [code, ...values] = value as unknown[];
+  if (typeof code !== 'string' || (code !== '' && !(code in VERDICTS_BY_CODE))) return undefined;
+  if (values.length !== SUMMARY_TESTS[key].fields.length) return undefined;
+  if (
+    !values.every((item) => item === null || (typeof item === 'number' && Number.isFinite(item)))
+  ) {
+    return undefined;
+  }
+  return {
+    verdict: code ? VERDICTS_BY_CODE[code] : undefined,
+    values: values as (number | null)[],
+  };
+};
+
+/**
+ * Decode and validate a URL hash produced by encodeReportSummary
+ * Accepts the hash with or without its leading #
+ */
+export const decodeReportSummary = (hash: string): SummaryParseResult => {
+  const encoded = hash.replace(/^#/, '');
+  if (!encoded) {
+    return { success: false, error: 'This link does not contain a report' };
+  }
+
+  const json = fromBase64Url(encoded);
+  const data =
+    json === undefined
+      ? undefined
+      : safeJsonParse<unknown>(json, undefined, { action: 'decodeReportSummary' });
+  if (!isRecord(data)) {
+    return { success: false, error: DAMAGED_LINK_ERROR };
+  }
+
+  if (typeof data.v !== 'number' || !Number.isInteger(data.v) || data.v < 1) {
+    return { success: false, error: DAMAGED_LINK_ERROR };
+  }
+  if (data.v > REPORT_SHARE_VERSION) {
+    return {
+      success: false,
+      error: `This report was shared from a newer version of JoyScope (format ${data.v})`,
+    };
+  }
+
+  const [id, vendor, mapping, model] = Array.isArray(data.c) ? (data.c as unknown[]) : [];
+  if (
+    typeof id !== 'string' ||
+    !VENDORS.includes(vendor as ControllerVendor) ||
+    typeof mapping !== 'string' ||
+    (model !== undefined && typeof model !== 'string') ||
+    typeof data.g !== 'string' ||
+    typeof data.b !== 'string' ||
+    !isRecord(data.t)
+  ) {
+    return { success: false, error: DAMAGED_LINK_ERROR };
+  }
+
+  const tests: ReportSummary['tests'] = {};
+  for (const key of SUMMARY_TEST_KEYS) {
+    if (!(key in data.t)) continue;
+    const test = parseTest(key, data.t[key]);
+    if (!test) {
+      return { success: false, error: DAMAGED_LINK_ERROR };
+    }
+    tests[key] = test;
+  }
+
+  return {
+    success: true,
+    summary: {
+      version: data.v,
+      generatedAt: data.g,
+      controller: { id, vendor: vendor as ControllerVendor, mapping, model },
+      browserName: data.b,
+      tests,
+    },
+  };
+};
+
+/**
+ * Format a summary value for display
+ */
+export const formatSummaryValue = (value: number | null, unit: SummaryUnit): string => {
+  if (value === null) return '—';
+  switch (unit) {
+    case 'percent':
+      return `${(value * 100).toFixed(1)}%`;
+    case 'ms':
+      return `${value.toFixed(1)} ms`;
+    case 'count':
+      return String(Math.round(value));
+    default:
+      return value.toFixed(3);
+  }
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ResponseCurve } from '@/types/gamepad';
+
+import {
+  applyTriggerCurve,
+  clampPointInput,
+  evaluateCurve,
+  insertCurvePoint,
+  normalizeCurvePoints,
+  processStick,
+  sampleCurve,
+} from './responseCurve';
+
+const curve = (overrides: Partial<ResponseCurve>): ResponseCurve => ({
+  type: 'linear',
+  exponent: 2,
+  points: [
+    { input: 0, output: 0 },
+    { input: 1, output: 1 },
+  ],
+  ...overrides,
+});
+
+describe('evaluateCurve', () => {
+  it('passes input through when linear', () => {
+    expect(evaluateCurve(curve({}), 0.3)).toBeCloseTo(0.3);
+  });
+
+  it('applies power curves', () => {
+    expect(evaluateCurve(curve({ type: 'power', exponent: 2 }), 0.5)).toBeCloseTo(0.25);
+  });
+
+  it('keeps S-curves symmetric about the midpoint', () => {
+    const sCurve = curve({ type: 'sCurve', exponent: 3 });
+    expect(evaluateCurve(sCurve, 0.5)).toBeCloseTo(0.5);
+    expect(evaluateCurve(sCurve, 0.25)).toBeLessThan(0.25);
+    expect(evaluateCurve(sCurve, 0.25) + evaluateCurve(sCurve, 0.75)).toBeCloseTo(1);
+  });
+
+  it('interpolates piecewise points', () => {
+    const piecewise = curve({
+      type: 'piecewise',
+      points: [
+        { input: 0, output: 0 },
+        { input: 0.5, output: 0.2 },
+        { input: 1, output: 1 },
+      ],
+    });
+    expect(evaluateCurve(piecewise, 0.25)).toBeCloseTo(0.1);
+    expect(evaluateCurve(piecewise, 0.75)).toBeCloseTo(0.6);
+  });
+
+  it('clamps input outside 0-1', () => {
+    expect(evaluateCurve(curve({ type: 'power' }), 1.4)).toBe(1);
+    expect(applyTriggerCurve(-0.2, curve({}))).toBe(0);
+  });
+});
+
+describe('normalizeCurvePoints', () => {
+  it('sorts points and pins the endpoints', () => {
+    const points = normalizeCurvePoints([
+      { input: 0.9, output: 1 },
+      { input: 0.1, output: 0 },
+      { input: 0.5, output: 1.5 },
+    ]);
+    expect(points.map((p) => p.input)).toEqual([0, 0.5, 1]);
+    expect(points[1].output).toBe(1);
+  });
+
+  it('falls back to a linear pair', () => {
+    expect(normalizeCurvePoints([])).toHaveLength(2);
+  });
+});
+
+describe('insertCurvePoint', () => {
+  it('splits the widest gap at its midpoint', () => {
+    const points = insertCurvePoint([
+      { input: 0, output: 0 },
+      { input: 0.2, output: 0.1 },
+      { input: 1, output: 1 },
+    ]);
+    expect(points).toHaveLength(4);
+    expect(points[2].input).toBeCloseTo(0.6);
+    expect(points[2].output).toBeCloseTo(0.55);
+  });
+});
+
+describe('clampPointInput', () => {
+  it('keeps an interior point between its neighbours', () => {
+    const points = [
+      { input: 0, output: 0 },
+      { input: 0.3, output: 0.2 },
+      { input: 0.6, output: 0.7 },
+      { input: 1, output: 1 },
+    ];
+    expect(clampPointInput(points, 1, 0.8)).toBe(0.6);
+    expect(clampPointInput(points, 2, 0.1)).toBe(0.3);
+    expect(clampPointInput(points, 2, 0.5)).toBe(0.5);
+  });
+});
+
+describe('processStick', () => {
+  it('shapes magnitude after the dead zone while keeping direction', () => {
+    const result = processStick(0, -0.55, 0.1, 'scaledRadial', 0, curve({ type: 'power' }));
+    expect(result.x).toBeCloseTo(0);
+    expect(result.y).toBeCloseTo(-0.25);
+    expect(result.magnitude).toBeCloseTo(0.25);
+  });
+
+  it('leaves filtered input at zero', () => {
+    expect(processStick(0.05, 0, 0.1, 'radial', 0, curve({})).magnitude).toBe(0);
+  });
+});
+
+describe('sampleCurve', () => {
+  it('samples from 0 to 1 inclusive', () => {
+    const points = sampleCurve(curve({}), 4);
+    expect(points).toHaveLength(5);
+    expect(points[4]).toEqual({ input: 1, output: 1 });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Response curves
+ * Shapes dead-zone-filtered stick and trigger values to preview how input will feel
+ */
+
+import type { CurvePoint, DeadZoneShape, ResponseCurve } from '@/types/gamepad';
+import { applyDeadZone } from '@/utils/gamepadMapping';
+import { CURVE_GRAPH_RESOLUTION, MAX_CURVE_EXPONENT, MIN_CURVE_EXPONENT } from '@/lib/constants';
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * Clamp an exponent into the supported range
+ */
+export const clampCurveExponent = (exponent: number): number =>
+  Math.max(MIN_CURVE_EXPONENT, Math.min(MAX_CURVE_EXPONENT, exponent));
+
+/**
+ * Sort and clamp piecewise points, pinning the first and last inputs to 0 and 1
+ */
+export const normalizeCurvePoints = (points: readonly CurvePoint[]): CurvePoint[] => {
+  const sorted = points
+    .map((point) => ({ input: clamp01(point.input), output: clamp01(point.output) }))
+    .sort((a, b) => a.input - b.input);
+
+  if (sorted.length < 2) {
+    return [
+      { input: 0, output: 0 },
+      { input: 1, output: 1 },
+    ];
+  }
+
+  sorted[0] = { ...sorted[0], input: 0 };
+  sorted[sorted.length - 1] = { ...sorted[sorted.length - 1], input: 1 };
+  return sorted;
+};
+
+const evaluatePiecewise = (points: readonly CurvePoint[], input: number): number => {
+  for (let i = 1; i < points.length; i += 1) {
+    const end = points[i];
+    if (input > end.input) continue;
+    const start = points[i - 1];
+    const span = end.input - start.input;
+    if (span <= 0) return end.output;
+    return start.output + ((input - start.input) / span) * (end.output - start.output);
+  }
+  return points[points.length - 1]?.output ?? input;
+};
+
+/**
+ * Evaluate a curve for a normalized input magnitude (0-1)
+ */
+export const evaluateCurve = (curve: ResponseCurve, input: number): number => {
+  const x = clamp01(input);
+  const exponent = clampCurveExponent(curve.exponent);
+
+  switch (curve.type) {
+    case 'power':
+      return Math.pow(x, exponent);
+    case 'sCurve': {
+      // Symmetric about the midpoint: exponent > 1 flattens the center, < 1 steepens it
+      const rising = Math.pow(x, exponent);
+      const falling = Math.pow(1 - x, exponent);
+      return rising + falling === 0 ? x : rising / (rising + falling);
+    }
+    case 'piecewise':
+      return clamp01(evaluatePiecewise(curve.points, x));
+    case 'linear':
+    default:
+      return x;
+  }
+};
+
+/**
+ * Keep a point's input between its neighbours so editing never reorders the points
+ */
+export const clampPointInput = (
+  points: readonly CurvePoint[],
+  index: number,
+  input: number,
+): number => {
+  const min = points[index - 1]?.input ?? 0;
+  const max = points[index + 1]?.input ?? 1;
+  return Math.min(max, Math.max(min, input));
+};
+
+/**
+ * Split the widest gap between piecewise points, keeping the curve's current shape
+ */
+export const insertCurvePoint = (points: readonly CurvePoint[]): CurvePoint[] => {
+  if (points.length < 2) return normalizeCurvePoints(points);
+
+  let gapIndex = 1;
+  for (let i = 2; i < points.length; i += 1) {
+    const width = points[i].input - points[i - 1].input;
+    if (width > points[gapIndex].input - points[gapIndex - 1].input) gapIndex = i;
+  }
+
+  const start = points[gapIndex - 1];
+  const end = points[gapIndex];
+  const midpoint = {
+    input: (start.input + end.input) / 2,
+    output: (start.output + end.output) / 2,
+  };
+  return [...points.slice(0, gapIndex), midpoint, ...points.slice(gapIndex)];
+};
+
+/**
+ * Apply a curve to a trigger value (0-1)
+ */
+export const applyTriggerCurve = (value: number, curve: ResponseCurve): number =>
+  evaluateCurve(curve, value);
+
+/**
+ * Run a stick through its dead zone, then shape the resulting magnitude with a curve
+ */
+export const processStick = (
+  x: number,
+  y: number,
+  deadZone: number,
+  shape: DeadZoneShape,
+  outerDeadZone: number,
+  curve: ResponseCurve,
+): { x: number; y: number; magnitude: number } => {
+  const filtered = applyDeadZone(x, y, deadZone, shape, outerDeadZone);
+  if (filtered.magnitude === 0) return filtered;
+
+  const magnitude = evaluateCurve(curve, filtered.magnitude);
+  const scale = magnitude / filtered.magnitude;
+  return { x: filtered.x * scale, y: filtered.y * scale, magnitude };
+};
+
+/**
+ * Sample a curve for plotting
+ */
+export const sampleCurve = (
+  curve: ResponseCurve,
+  resolution = CURVE_GRAPH_RESOLUTION,
+): CurvePoint[] =>
+  Array.from({ length: resolution + 1 }, (_, i) => {
+    const input = i / resolution;
+    return { input, output: evaluateCurve(curve, input) };
+  });
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RecordedSession } from '@/types/recording';
+import { getSessionFileName, parseSession, serializeSession } from './sessionFormat';
+
+const createSession = (): RecordedSession => ({
+  format: 'joyscope-session',
+  version: 1,
+  startedAt: '2024-05-01T12:30:00.123Z',
+  durationMs: 50,
+  userAgent: 'test',
+  frames: [
+    {
+      t: 16,
+      controllers: [
+        {
+          id: 'Xbox Wireless Controller',
+          slot: 0,
+          mapping: 'standard',
+          vendor: 'xbox',
+          timestamp: 100,
+          connected: true,
+          buttons: [{ index: 0, label: 'A', pressed: true, value: 1 }],
+          axes: [{ index: 0, label: 'LX', value: 0.5 }],
+          haptics: { hasRumble: true },
+        },
+      ],
+    },
+  ],
+  events: [{ t: 0, type: 'connected', slot: 0, id: 'Xbox Wireless Controller' }],
+  markers: [{ t: 20, label: 'Drift starts' }],
+});
+
+describe('parseSession', () => {
+  it('round-trips a serialized session', () => {
+    const session = createSession();
+    const result = parseSession(serializeSession(session));
+    expect(result).toEqual({ success: true, session });
+  });
+
+  it('rejects invalid JSON', () => {
+    const result = parseSession('{not json');
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects files from other tools', () => {
+    const result = parseSession(JSON.stringify({ format: 'other', version: 1, frames: [] }));
+    expect(result).toEqual({ success: false, error: 'File is not a JoyScope session' });
+  });
+
+  it('rejects newer format versions', () => {
+    const result = parseSession(JSON.stringify({ ...createSession(), version: 99 }));
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects versions below 1 or fractional versions', () => {
+    [0, -1, 0.5].forEach((version) => {
+      expect(parseSession(JSON.stringify({ ...createSession(), version }))).toEqual({
+        success: false,
+        error: `Unsupported session version: ${version}`,
+      });
+    });
+  });
+
+  it('rejects malformed frames', () => {
+    const result = parseSession(JSON.stringify({ ...createSession(), frames: [{ t: 'x' }] }));
+    expect(result.success).toBe(false);
+  });
+
+  it('defaults missing optional fields', () => {
+    const partial: Partial<RecordedSession> = createSession();
+    delete partial.events;
+    delete partial.markers;
+    delete partial.durationMs;
+    const result = parseSession(JSON.stringify(partial));
+    expect(result.success && result.session.events).toEqual([]);
+    expect(result.success && result.session.durationMs).toBe(16);
+  });
+});
+
+describe('getSessionFileName', () => {
+  it('uses a filesystem-safe timestamp', () => {
+    expect(getSessionFileName(createSession())).toBe('joyscope-session-2024-05-01T12-30-00.json');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Session file format utilities
+ * Serializes recorded sessions and validates files loaded back from disk
+ */
+
+import type { RecordedSession } from '@/types/recording';
+import { SESSION_FORMAT_ID, SESSION_FORMAT_VERSION } from '@/lib/constants';
+import { safeJsonParse } from '@/lib/errorReporter';
+
+export type SessionParseResult =
+  | { success: true; session: RecordedSession }
+  | { success: false; error: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check the shape of a frame without walking every button and axis
+ */
+const isValidFrame = (value: unknown): boolean =>
+  isRecord(value) &&
+  isFiniteNumber(value.t) &&
+  Array.isArray(value.controllers) &&
+  value.controllers.every(
+    (controller) =>
+      isRecord(controller) &&
+      isFiniteNumber(controller.slot) &&
+      Array.isArray(controller.buttons) &&
+      Array.isArray(controller.axes),
+  );
+
+const isValidEvent = (value: unknown): boolean =>
+  isRecord(value) &&
+  isFiniteNumber(value.t) &&
+  isFiniteNumber(value.slot) &&
+  (value.type === 'connected' || value.type === 'disconnected');
+
+const isValidMarker = (value: unknown): boolean =>
+  isRecord(value) && isFiniteNumber(value.t) && typeof value.label === 'string';
+
+/**
+ * Serialize a session to the JSON file format
+ */
+export const serializeSession = (session: RecordedSession): string => {
+  return JSON.stringify(session);
+};
+
+/**
+ * Parse and validate a session file
+ * Rejects files from other tools and from newer, unknown format versions
+ */
+export const parseSession = (json: string): SessionParseResult => {
+  const data = safeJsonParse<unknown>(json, undefined, { action: 'parseSession' });
+  if (data === undefined) {
+    return { success: false, error: 'File is not valid JSON' };
+  }
+
+  if (!isRecord(data) || data.format !== SESSION_FORMAT_ID) {
+    return { success: false, error: 'File is not a JoyScope session' };
+  }
+
+  if (
+    !isFiniteNumber(data.version) ||
+    !Number.isInteger(data.version) ||
+    data.version < 1 ||
+    data.version > SESSION_FORMAT_VERSION
+  ) {
+    return { success: false, error: `Unsupported session version: ${String(data.version)}` };
+  }
+
+  if (!Array.isArray(data.frames) || !data.frames.every(isValidFrame)) {
+    return { success: false, error: 'Session contains malformed frames' };
+  }
+
+  const events = Array.isArray(data.events) ? data.events : [];
+  const markers = Array.isArray(data.markers) ? data.markers : [];
+  if (!events.every(isValidEvent) || !markers.every(isValidMarker)) {
+    return { success: false, error: 'Session contains malformed events or markers' };
+  }
+
+  const frames = data.frames as RecordedSession['frames'];
+  const lastFrameTime = frames[frames.length - 1]?.t ?? 0;
+
+  return {
+    success: true,
+    session: {
+      format: SESSION_FORMAT_ID,
+      version: data.version,
+      startedAt: typeof data.startedAt === 'string' ? data.startedAt : '',
+      durationMs: isFiniteNumber(data.durationMs) ? data.durationMs : lastFrameTime,
+      userAgent: typeof data.userAgent === 'string' ? data.userAgent : '',
+      frames,
+      events: events as RecordedSession['events'],
+      markers: markers as RecordedSession['markers'],
+    },
+  };
+};
+
+/**
+ * Build a download file name from the session start time
+ * e.g. joyscope-session-2024-05-01T12-30-00.json
+ */
+export const getSessionFileName = (session: RecordedSession): string => {
+  const stamp = (session.startedAt || new Date().toISOString())
+    .replace(/\.\d+Z$/, '')
+    .replace(/:/g, '-');
+  return `${SESSION_FORMAT_ID}-${stamp}.json`;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { analyzeTrigger, type TriggerSample } from './triggerAnalysis';
+
+// Builds samples 10 ms apart; a trigger counts as pressed above 0.1
+const toSamples = (values: number[]): TriggerSample[] =>
+  values.map((value, index) => ({ t: index * 10, value, pressed: value > 0.1 }));
+
+const ramp = (from: number, to: number, steps: number): number[] =>
+  Array.from({ length: steps + 1 }, (_, index) => from + ((to - from) * index) / steps);
+
+describe('analyzeTrigger', () => {
+  it('passes a smooth full pull and release', () => {
+    const result = analyzeTrigger(toSamples([0, 0, ...ramp(0.02, 1, 49), 1, 1, ...ramp(1, 0, 50)]));
+    expect(result.verdict).toBe('pass');
+    expect(result.maxValue).toBe(1);
+    expect(result.endDeadTravel).toBe(0);
+    expect(result.glitches).toEqual([]);
+    expect(result.distinctValues).toBeGreaterThan(40);
+  });
+
+  it('finds the actuation and release points', () => {
+    const result = analyzeTrigger(toSamples([0, 0.05, 0.1, 0.15, 0.5, 1, 0.5, 0.12, 0.08, 0]));
+    expect(result.actuationPoint).toBe(0.15);
+    expect(result.releasePoint).toBe(0.08);
+  });
+
+  it('measures dead travel at the start and end', () => {
+    const result = analyzeTrigger(toSamples([0, 0, 0.2, ...ramp(0.3, 0.85, 11), 0.85, 0]));
+    expect(result.startDeadTravel).toBeCloseTo(0.2);
+    expect(result.endDeadTravel).toBeCloseTo(0.15);
+    expect(result.verdict).toBe('fail');
+  });
+
+  it('flags reversals while pulling', () => {
+    const result = analyzeTrigger(toSamples([0, 0.02, 0.2, 0.4, 0.3, 0.5, 0.7, 0.9, 1, 0]));
+    expect(result.glitches).toContainEqual({ at: 40, from: 0.4, to: 0.3, kind: 'reversal' });
+    expect(result.verdict).toBe('fail');
+  });
+
+  it('allows a quick release', () => {
+    const result = analyzeTrigger(toSamples([0, ...ramp(0.02, 1, 49), 0]));
+    expect(result.glitches).toEqual([]);
+  });
+
+  it('flags jumps that skip part of the range', () => {
+    const result = analyzeTrigger(
+      toSamples([0, 0.02, ...ramp(0.04, 0.4, 18), 0.8, ...ramp(0.82, 1, 9), ...ramp(1, 0, 50)]),
+    );
+    expect(result.glitches.map((glitch) => glitch.kind)).toEqual(['jump']);
+    expect(result.verdict).toBe('warn');
+  });
+});
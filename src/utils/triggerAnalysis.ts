@@ -0,0 +1,122 @@
+/**
+ * Analog trigger analysis
+ * Grades a slow full pull and release: dead travel, actuation point and glitches
+ */
+
+import type { NormalizedGamepad, TriggerId } from '@/types/gamepad';
+import type { TestVerdict, TriggerAnalysisResult, TriggerGlitch } from '@/types/diagnostics';
+import { BUTTON } from '@/utils/buttonConstants';
+import {
+  TRIGGER_JUMP_THRESHOLD,
+  TRIGGER_NOISE_TOLERANCE,
+  TRIGGER_PASS_DEAD_TRAVEL,
+  TRIGGER_WARN_DEAD_TRAVEL,
+} from '@/lib/constants';
+
+export type TriggerSample = {
+  /** Time since the capture started (ms) */
+  t: number;
+  value: number;
+  pressed: boolean;
+};
+
+const TRIGGER_BUTTONS: Record<TriggerId, number> = {
+  left: BUTTON.LT,
+  right: BUTTON.RT,
+};
+
+/**
+ * Extract one trigger sample from a controller frame
+ */
+export const sampleTrigger = (
+  gamepad: NormalizedGamepad,
+  trigger: TriggerId,
+  t: number,
+): TriggerSample => {
+  const button = gamepad.buttons[TRIGGER_BUTTONS[trigger]];
+  return { t, value: button?.value ?? 0, pressed: button?.pressed ?? false };
+};
+
+/**
+ * Largest value seen in a capture
+ */
+export const getMaxTriggerValue = (samples: readonly TriggerSample[]): number =>
+  samples.reduce((max, sample) => Math.max(max, sample.value), 0);
+
+// Steps against the expected direction, or larger than any steady pull would produce
+// Jumps are only checked on the pull: letting go of a trigger quickly is normal
+const findGlitches = (
+  samples: readonly TriggerSample[],
+  direction: 1 | -1,
+  detectJumps: boolean,
+): TriggerGlitch[] => {
+  const glitches: TriggerGlitch[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const from = samples[i - 1].value;
+    const to = samples[i].value;
+    const step = (to - from) * direction;
+    if (step < -TRIGGER_NOISE_TOLERANCE) {
+      glitches.push({ at: samples[i].t, from, to, kind: 'reversal' });
+    } else if (detectJumps && step > TRIGGER_JUMP_THRESHOLD) {
+      glitches.push({ at: samples[i].t, from, to, kind: 'jump' });
+    }
+  }
+  return glitches;
+};
+
+const getTriggerVerdict = (result: Omit<TriggerAnalysisResult, 'verdict'>): TestVerdict => {
+  const deadTravel = Math.max(result.startDeadTravel, result.endDeadTravel);
+  const hasReversal = result.glitches.some((glitch) => glitch.kind === 'reversal');
+  if (deadTravel > TRIGGER_WARN_DEAD_TRAVEL || hasReversal) return 'fail';
+  if (
+    deadTravel > TRIGGER_PASS_DEAD_TRAVEL ||
+    result.glitches.length > 0 ||
+    result.restValue > TRIGGER_NOISE_TOLERANCE
+  ) {
+    return 'warn';
+  }
+  return 'pass';
+};
+
+/**
+ * Analyze a capture of one trigger
+ * The pull runs until the value first reaches its maximum and the release starts after it
+ * last leaves it; the hold at the top in between is ignored.
+ */
+export const analyzeTrigger = (samples: readonly TriggerSample[]): TriggerAnalysisResult => {
+  const restValue = samples[0]?.value ?? 0;
+  const maxValue = getMaxTriggerValue(samples);
+  const atTop = (sample: TriggerSample): boolean =>
+    sample.value >= maxValue - TRIGGER_NOISE_TOLERANCE;
+
+  const topStart = samples.findIndex(atTop);
+  let topEnd = topStart;
+  samples.forEach((sample, index) => {
+    if (atTop(sample)) topEnd = index;
+  });
+
+  const pull = topStart >= 0 ? samples.slice(0, topStart + 1) : [];
+  const release = topEnd >= 0 ? samples.slice(topEnd) : [];
+
+  const firstMove = pull.find((sample) => sample.value > restValue + TRIGGER_NOISE_TOLERANCE);
+  const actuation = pull.find(
+    (sample, index) => index > 0 && sample.pressed && !pull[index - 1].pressed,
+  );
+  const deactuation = release.find(
+    (sample, index) => index > 0 && !sample.pressed && release[index - 1].pressed,
+  );
+
+  const result = {
+    sampleCount: samples.length,
+    restValue,
+    maxValue,
+    startDeadTravel: firstMove ? firstMove.value - restValue : 0,
+    endDeadTravel: Math.max(0, 1 - maxValue),
+    actuationPoint: actuation?.value,
+    releasePoint: deactuation?.value,
+    distinctValues: new Set(pull.map((sample) => sample.value)).size,
+    glitches: [...findGlitches(pull, 1, true), ...findGlitches(release, -1, false)],
+  };
+
+  return { ...result, verdict: getTriggerVerdict(result) };
+};
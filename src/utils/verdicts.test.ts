@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+
+import { worstVerdict } from './verdicts';
+
+describe('worstVerdict', () => {
+  it('returns the most severe verdict', () => {
+    expect(worstVerdict(['pass', 'warn'])).toBe('warn');
+    expect(worstVerdict(['warn', 'fail', 'pass'])).toBe('fail');
+  });
+
+  it('passes when there is nothing to grade', () => {
+    expect(worstVerdict([])).toBe('pass');
+  });
+});
@@ -0,0 +1,17 @@
+/**
+ * Verdict helpers shared by guided tests
+ */
+
+import type { TestVerdict } from '@/types/diagnostics';
+
+const VERDICT_RANK: Record<TestVerdict, number> = { pass: 0, warn: 1, fail: 2 };
+
+/**
+ * Combine several verdicts into the most severe one
+ */
+export const worstVerdict = (verdicts: readonly TestVerdict[]): TestVerdict => {
+  return verdicts.reduce<TestVerdict>(
+    (worst, verdict) => (VERDICT_RANK[verdict] > VERDICT_RANK[worst] ? verdict : worst),
+    'pass',
+  );
+};